@@ -0,0 +1,38 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { approveAccountingWrite } from "@/lib/accounting-writes";
+
+// Approve a proposed write and send it to Xero or QuickBooks
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const decision = await approveAccountingWrite(session.user.id, params.id);
+
+    if (!decision) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 });
+    }
+    if (!decision.write) {
+      return NextResponse.json({ error: decision.error }, { status: 409 });
+    }
+    if (decision.write.status === "failed") {
+      return NextResponse.json({ error: decision.write.error, write: decision.write }, { status: 502 });
+    }
+
+    return NextResponse.json({ write: decision.write });
+  } catch (error) {
+    console.error("Accounting write approve error:", error);
+    return NextResponse.json(
+      { error: "Failed to approve proposal" },
+      { status: 500 }
+    );
+  }
+}
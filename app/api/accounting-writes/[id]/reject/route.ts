@@ -0,0 +1,35 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { rejectAccountingWrite } from "@/lib/accounting-writes";
+
+// Reject a proposed write; it stays in the log as rejected
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const decision = await rejectAccountingWrite(session.user.id, params.id);
+
+    if (!decision) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 });
+    }
+    if (!decision.write) {
+      return NextResponse.json({ error: decision.error }, { status: 409 });
+    }
+
+    return NextResponse.json({ write: decision.write });
+  } catch (error) {
+    console.error("Accounting write reject error:", error);
+    return NextResponse.json(
+      { error: "Failed to reject proposal" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { findAccountingWrite } from "@/lib/accounting-writes";
+
+// GET one proposed write with its current status
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const write = await findAccountingWrite(session.user.id, params.id);
+
+    if (!write) {
+      return NextResponse.json({ error: "Proposal not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ write });
+  } catch (error) {
+    console.error("Accounting write fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch proposal" },
+      { status: 500 }
+    );
+  }
+}
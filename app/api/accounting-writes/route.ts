@@ -0,0 +1,30 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { listAccountingWrites } from "@/lib/accounting-writes";
+
+// GET the audit log of proposed and executed writes, optionally for one conversation
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = searchParams.get("limit");
+
+    const writes = await listAccountingWrites(session.user.id, {
+      conversationId: searchParams.get("conversationId") || undefined,
+      limit: limit ? parseInt(limit, 10) || undefined : undefined,
+    });
+    return NextResponse.json({ writes });
+  } catch (error) {
+    console.error("Accounting writes fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch accounting writes" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { hash } from "bcryptjs";
+import { getConnectionHealth } from "@/lib/token-health";
 
 // GET - Fetch all users (admin only)
 export async function GET() {
@@ -25,13 +26,36 @@ export async function GET() {
         accountingService: true,
         createdAt: true,
         updatedAt: true,
+        qboTokens: {
+          select: { realmId: true, companyName: true, healthStatus: true, refreshTokenExpiresAt: true },
+        },
+        xeroTokens: {
+          select: { tenantId: true, tenantName: true, healthStatus: true, refreshTokenExpiresAt: true },
+        },
       },
       orderBy: {
         createdAt: "desc",
       },
     });
 
-    return NextResponse.json(users);
+    // Flatten token rows into per-connection health for the users table
+    return NextResponse.json(
+      users.map(({ qboTokens, xeroTokens, ...user }) => ({
+        ...user,
+        connections: [
+          ...qboTokens.map((token) => ({
+            service: "QBO",
+            name: token.companyName || token.realmId,
+            health: getConnectionHealth(token),
+          })),
+          ...xeroTokens.map((token) => ({
+            service: "XERO",
+            name: token.tenantName || token.tenantId,
+            health: getConnectionHealth(token),
+          })),
+        ],
+      }))
+    );
   } catch (error) {
     console.error("Error fetching users:", error);
     return NextResponse.json(
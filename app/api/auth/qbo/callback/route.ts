@@ -1,6 +1,11 @@
+import { getServerSession } from "next-auth";
 import { NextRequest, NextResponse } from "next/server";
 import axios from "axios";
 import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
+import { verifyOAuthState } from "@/lib/oauth-state";
+import { saveTokenToDatabase } from "@/lib/qbo";
+import { getCompanyInfo } from "@/lib/qbo-api";
 
 const QBO_TOKEN_URL = "https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer";
 
@@ -16,10 +21,18 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  try {
-    const { userId } = JSON.parse(
-      Buffer.from(state, "base64").toString("utf-8")
+  const session = await getServerSession(authOptions);
+  const verification = await verifyOAuthState(state, "QBO", session?.user?.id);
+
+  if (!verification.valid) {
+    return NextResponse.redirect(
+      new URL(`/profile?error=${encodeURIComponent(verification.error)}`, request.url)
     );
+  }
+
+  const { userId } = verification;
+
+  try {
 
     // Exchange code for tokens
     const tokenResponse = await axios.post(
@@ -48,27 +61,40 @@ export async function GET(request: NextRequest) {
       id_token,
     } = tokenResponse.data;
 
-    // Save token to database
-    await prisma.qboToken.create({
-      data: {
-        userId,
-        realmId,
-        accessToken: access_token,
-        refreshToken: refresh_token,
-        expiresIn: expires_in,
-        refreshTokenExpiresIn: x_refresh_token_expires_in,
-        idToken: id_token,
-        tokenType: "Bearer",
-        accessTokenExpiresAt: new Date(Date.now() + expires_in * 1000),
-        refreshTokenExpiresAt: x_refresh_token_expires_in
-          ? new Date(Date.now() + x_refresh_token_expires_in * 1000)
-          : null,
-      },
-    });
+    // Save token to database (reconnecting an existing company replaces its tokens)
+    await saveTokenToDatabase({
+      realmId,
+      token_type: "Bearer",
+      access_token,
+      refresh_token,
+      expires_in,
+      x_refresh_token_expires_in,
+      id_token,
+    }, userId);
 
-    // Update user's accounting service
+    // Store the company name so organisations can be told apart in the UI
+    try {
+      const companyInfo = await getCompanyInfo(userId, realmId);
+      if (companyInfo?.CompanyName) {
+        await prisma.qboToken.update({
+          where: { userId_realmId: { userId, realmId } },
+          data: { companyName: companyInfo.CompanyName },
+        });
+      }
+    } catch (error) {
+      console.warn("Failed to fetch QBO company name:", error);
+    }
+
+    // Switch to the newly connected company
     await prisma.user.update({
       where: { id: userId },
+      data: { activeQboRealmId: realmId },
+    });
+
+    // Only becomes the default service if the user had none; a second
+    // service is connected alongside the existing one
+    await prisma.user.updateMany({
+      where: { id: userId, accountingService: null },
       data: { accountingService: "QBO" },
     });
 
@@ -1,6 +1,7 @@
 import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 import { authOptions } from "@/lib/auth";
+import { createOAuthState } from "@/lib/oauth-state";
 
 export async function GET() {
   const session = await getServerSession(authOptions);
@@ -18,7 +19,7 @@ export async function GET() {
   authorizationUrl.searchParams.append("redirect_uri", process.env.INTUIT_REDIRECT_URI!);
   authorizationUrl.searchParams.append(
     "state",
-    Buffer.from(JSON.stringify({ userId: session.user.id })).toString("base64")
+    await createOAuthState(session.user.id, "QBO")
   );
 
   return NextResponse.redirect(authorizationUrl.toString());
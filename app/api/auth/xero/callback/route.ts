@@ -1,6 +1,9 @@
+import { getServerSession } from "next-auth";
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/auth";
 import { createXeroClient, saveXeroTokens } from "@/lib/xero";
+import { verifyOAuthState } from "@/lib/oauth-state";
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
@@ -21,10 +24,18 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  try {
-    const { userId } = JSON.parse(
-      Buffer.from(state, "base64").toString("utf-8")
+  const session = await getServerSession(authOptions);
+  const verification = await verifyOAuthState(state, "XERO", session?.user?.id);
+
+  if (!verification.valid) {
+    return NextResponse.redirect(
+      new URL(`/profile?error=${encodeURIComponent(verification.error)}`, request.url)
     );
+  }
+
+  const { userId } = verification;
+
+  try {
 
     // Exchange code for tokens using xero-node
     const xero = createXeroClient(state);
@@ -38,25 +49,35 @@ export async function GET(request: NextRequest) {
     // Update tenants to get the list of connected organizations
     await xero.updateTenants();
 
-    const tenantId = xero.tenants[0]?.tenantId;
-    if (!tenantId) {
+    const tenants = xero.tenants.filter((tenant: any) => tenant?.tenantId);
+    if (tenants.length === 0) {
         throw new Error("No tenant found");
     }
 
-    // Save tokens
-    await saveXeroTokens(userId, {
-        accessToken: tokenSet.access_token,
-        refreshToken: tokenSet.refresh_token,
-        idToken: tokenSet.id_token,
-        expiresIn: tokenSet.expires_in || 1800,
-        tokenType: tokenSet.token_type || 'Bearer',
-        scope: tokenSet.scope,
-        tenantId: tenantId
-    });
+    // Save tokens for every organisation authorised in this connection
+    for (const tenant of tenants) {
+      await saveXeroTokens(userId, {
+          accessToken: tokenSet.access_token,
+          refreshToken: tokenSet.refresh_token,
+          idToken: tokenSet.id_token,
+          expiresIn: tokenSet.expires_in || 1800,
+          tokenType: tokenSet.token_type || 'Bearer',
+          scope: tokenSet.scope,
+          tenantId: tenant.tenantId,
+          tenantName: tenant.tenantName
+      });
+    }
 
-    // Update user's accounting service
+    // Switch to the newly connected organisation
     await prisma.user.update({
       where: { id: userId },
+      data: { activeXeroTenantId: tenants[0].tenantId },
+    });
+
+    // Only becomes the default service if the user had none; a second
+    // service is connected alongside the existing one
+    await prisma.user.updateMany({
+      where: { id: userId, accountingService: null },
       data: { accountingService: "XERO" },
     });
 
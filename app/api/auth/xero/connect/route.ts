@@ -2,6 +2,7 @@ import { getServerSession } from "next-auth";
 import { NextResponse } from "next/server";
 import { authOptions } from "@/lib/auth";
 import { getXeroAuthUrl } from "@/lib/xero";
+import { createOAuthState } from "@/lib/oauth-state";
 
 export async function GET() {
   const session = await getServerSession(authOptions);
@@ -12,7 +13,7 @@ export async function GET() {
 
   try {
     const authorizationUrl = await getXeroAuthUrl(
-      Buffer.from(JSON.stringify({ userId: session.user.id })).toString("base64")
+      await createOAuthState(session.user.id, "XERO")
     );
     return NextResponse.redirect(authorizationUrl);
   } catch (error) {
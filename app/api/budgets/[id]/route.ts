@@ -0,0 +1,117 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { getAccountingProvider, resolveRequestedService } from "@/lib/accounting";
+import { findBudget, saveBudget, validateBudgetLines } from "@/lib/budgets";
+
+// Budgets are only visible through the organisation they belong to
+async function resolveProvider(request: NextRequest, userId: string, defaultService: string | null | undefined) {
+  const { searchParams } = new URL(request.url);
+  return getAccountingProvider(userId, resolveRequestedService(searchParams.get("service"), defaultService));
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const provider = await resolveProvider(request, session.user.id, session.user.accountingService);
+    const budget = provider && await findBudget(params.id, provider.service, provider.organisationId);
+
+    if (!budget) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error("Budget fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch budget" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a budget and replace its lines
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const lines = validateBudgetLines(body.lines);
+
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (typeof lines === "string") {
+      return NextResponse.json({ error: lines }, { status: 400 });
+    }
+
+    const provider = await resolveProvider(request, session.user.id, session.user.accountingService);
+    const existing = provider && await findBudget(params.id, provider.service, provider.organisationId);
+
+    if (!provider || !existing) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    const budget = await saveBudget(session.user.id, provider.service, provider.organisationId, {
+      id: existing.id,
+      name,
+      source: existing.source as "xero" | "csv" | "manual",
+      lines,
+    });
+
+    return NextResponse.json({ budget });
+  } catch (error) {
+    console.error("Budget update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update budget" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const provider = await resolveProvider(request, session.user.id, session.user.accountingService);
+    const budget = provider && await findBudget(params.id, provider.service, provider.organisationId);
+
+    if (!budget) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    await prisma.budget.delete({ where: { id: budget.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Budget delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete budget" },
+      { status: 500 }
+    );
+  }
+}
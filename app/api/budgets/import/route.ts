@@ -0,0 +1,66 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { getAccountingProvider, resolveRequestedService } from "@/lib/accounting";
+import { importXeroBudgets, parseBudgetCsv, saveBudget } from "@/lib/budgets";
+
+// Import budgets from Xero's Budgets API (`source: "xero"`) or from an
+// uploaded CSV (`source: "csv"` with `name` and `csv`)
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const provider = await getAccountingProvider(
+      session.user.id,
+      resolveRequestedService(body.service, session.user.accountingService)
+    );
+
+    if (!provider) {
+      return NextResponse.json({ error: "No accounting connection found" }, { status: 400 });
+    }
+
+    if (body.source === "xero") {
+      if (provider.service !== "XERO") {
+        return NextResponse.json(
+          { error: "Budgets can only be imported from Xero" },
+          { status: 400 }
+        );
+      }
+
+      const budgets = await importXeroBudgets(session.user.id, provider.organisationId);
+      return NextResponse.json({ budgets });
+    }
+
+    if (body.source === "csv") {
+      const name = typeof body.name === "string" ? body.name.trim() : "";
+      if (!name || typeof body.csv !== "string") {
+        return NextResponse.json({ error: "name and csv are required" }, { status: 400 });
+      }
+
+      const lines = parseBudgetCsv(body.csv);
+      if (typeof lines === "string") {
+        return NextResponse.json({ error: lines }, { status: 400 });
+      }
+
+      const budget = await saveBudget(session.user.id, provider.service, provider.organisationId, {
+        name,
+        source: "csv",
+        lines,
+      });
+      return NextResponse.json({ budgets: [budget] });
+    }
+
+    return NextResponse.json({ error: "source must be xero or csv" }, { status: 400 });
+  } catch (error) {
+    console.error("Budget import error:", error);
+    return NextResponse.json(
+      { error: "Failed to import budgets" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { getAccountingProvider, resolveRequestedService } from "@/lib/accounting";
+import { listBudgets, saveBudget, validateBudgetLines } from "@/lib/budgets";
+
+// Budgets for the active organisation of the requested (or default) service
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const provider = await getAccountingProvider(
+      session.user.id,
+      resolveRequestedService(searchParams.get("service"), session.user.accountingService)
+    );
+
+    if (!provider) {
+      return NextResponse.json({ budgets: [] });
+    }
+
+    const budgets = await listBudgets(provider.service, provider.organisationId);
+
+    return NextResponse.json({
+      budgets: budgets.map(({ _count, ...budget }) => ({ ...budget, lineCount: _count.lines })),
+    });
+  } catch (error) {
+    console.error("Budgets list error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch budgets" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a budget from manually entered lines
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const lines = validateBudgetLines(body.lines);
+
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (typeof lines === "string") {
+      return NextResponse.json({ error: lines }, { status: 400 });
+    }
+
+    const provider = await getAccountingProvider(
+      session.user.id,
+      resolveRequestedService(body.service, session.user.accountingService)
+    );
+
+    if (!provider) {
+      return NextResponse.json({ error: "No accounting connection found" }, { status: 400 });
+    }
+
+    const budget = await saveBudget(session.user.id, provider.service, provider.organisationId, {
+      name,
+      source: "manual",
+      lines,
+    });
+
+    return NextResponse.json({ budget }, { status: 201 });
+  } catch (error) {
+    console.error("Budget create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create budget" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,10 @@
 import { AnthropicProviderOptions, createAnthropic } from '@ai-sdk/anthropic';
 import { streamText, type UIMessage, convertToModelMessages, tool, consumeStream } from 'ai';
 import { prisma } from '@/lib/db';
-import { getXeroOrganisationTool, getXeroContactsTool, getXeroInvoicesTool, getXeroAccountsTool, getXeroItemsTool, getXeroBankTransactionsTool, getXeroProfitAndLossTool, getXeroBalanceSheetTool, getXeroCreditNotesTool, getXeroTaxRatesTool, getXeroPaymentsTool, getXeroTrialBalanceTool, getXeroPayrollEmployeesTool, getXeroAgedPayablesTool, getXeroLeaveTypesTool, getQboCompanyInfoTool, getQboCustomersTool, getQboInvoicesTool, getQboInvoiceByIdTool, getQboPaymentsTool, getQboPaymentByIdTool, getQboPurchasesTool, getQboPurchaseByIdTool, getQboBillsTool, getQboBillByIdTool, getQboAccountsTool, getQboAccountByIdTool, getQboCustomerByIdTool, getQboVendorsTool, getQboVendorByIdTool, getQboEstimatesTool, getQboProfitAndLossTool, getQboSalesTool, getQboExpensesTool, getQboItemSalesTool, getQboCustomerSalesTool, getQboVendorExpensesTool, getQboTaxAgencyTool, getQboTaxReportTool } from '@/lib/tools';
+import { getXeroOrganisationTool, getXeroContactsTool, getXeroInvoicesTool, getXeroAccountsTool, getXeroItemsTool, getXeroBankTransactionsTool, getXeroProfitAndLossTool, getXeroBalanceSheetTool, getXeroCreditNotesTool, getXeroTaxRatesTool, getXeroPaymentsTool, getXeroTrialBalanceTool, getXeroPayrollEmployeesTool, getXeroAgedPayablesTool, getXeroLeaveTypesTool, getQboCompanyInfoTool, getQboCustomersTool, getQboInvoicesTool, getQboInvoiceByIdTool, getQboPaymentsTool, getQboPaymentByIdTool, getQboPurchasesTool, getQboPurchaseByIdTool, getQboBillsTool, getQboBillByIdTool, getQboAccountsTool, getQboAccountByIdTool, getQboCustomerByIdTool, getQboVendorsTool, getQboVendorByIdTool, getQboEstimatesTool, getQboProfitAndLossTool, getQboSalesTool, getQboExpensesTool, getQboItemSalesTool, getQboCustomerSalesTool, getQboVendorExpensesTool, getQboTaxAgencyTool, getQboTaxReportTool, getFinancialSummaryTool, getBalanceSheetSummaryTool, getSalesInvoicesTool, getSupplierBillsTool, getAccountingContactsTool, getBankSummaryTool, getCashForecastTool, getBudgetVsActualTool, getAgingReportTool, comparePeriodsTool, proposeCreateContactTool, proposeDraftInvoiceTool, proposeBillPaymentTool, type AccountingToolContext } from '@/lib/tools';
 import { z } from 'zod';
+import { backoffDelayMs, retryDelayMs, runWithPriority } from '@/lib/rate-limit';
+import type { WidgetType } from '@/lib/widgets';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 300;
@@ -79,7 +81,7 @@ You have access to QuickBooks Online accounting tools to retrieve financial data
 - **getQboTaxReport**: Get tax summary report
 
 **Important Notes:**
-- These are read-only tools - you can only retrieve data, not create or modify
+- These tools only retrieve data; to create or change anything use the write tools below, which need the user's approval
 - Use filters and sorting to get specific data the user needs
 - Results are limited to 20-50 items per request for performance`;
 
@@ -106,12 +108,34 @@ You have access to Xero accounting tools to retrieve financial data:
 - **getXeroLeaveTypes**: Get New Zealand payroll leave types including annual leave, sick leave, and other leave categories
 
 **Important Notes:**
-- These are read-only tools - you can only retrieve data, not create or modify
+- These tools only retrieve data; to create or change anything use the write tools below, which need the user's approval
 - Use filters and sorting to get specific data the user needs
 - Results are limited to 20-50 items per request for performance`;
 
     systemPrompt += xeroSection;
   }
+  systemPrompt += `
+
+**Provider-agnostic Tools:**
+These return the same normalized shape for QuickBooks Online and Xero. Prefer them for summaries and comparisons:
+- **getFinancialSummary**: Profit and loss summary (revenue, cost of goods sold, operating expenses, net profit, expense breakdown) for a date range
+- **getBalanceSheetSummary**: Cash, total assets, total liabilities and equity as at a date
+- **getSalesInvoices**: Sales invoices (open by default)
+- **getSupplierBills**: Supplier bills (open by default)
+- **getAccountingContacts**: Customers and suppliers
+- **getBankSummary**: Cash received and spent per bank account
+- **getCashForecast**: 13-week cash forecast from the current bank balance, open invoices and bills, and recurring expenses, with optional late-payment scenarios. Use it for questions about runway or when cash runs out. If openReceivables.truncated or openPayables.truncated is true, say that some open invoices or bills were left out
+- **getBudgetVsActual**: Budget vs actual revenue and expenses per account and month, with variances
+- **getAgingReport**: Receivables and payables aging by contact (current, 1-30, 31-60, 61-90, 90+ days) with DSO and DPO month over month. If a report has truncated set to true, say its totals leave out some open documents
+- **comparePeriods**: Two periods side by side (previous period, same period last year or a custom range) with the change and percent change per KPI and expense category
+
+**Write Tools (need the user's approval):**
+- **proposeCreateContact**: Propose a new customer or supplier
+- **proposeDraftInvoice**: Propose a sales invoice for an existing customer (a draft in Xero; saved but not sent in QuickBooks)
+- **proposeBillPayment**: Propose a payment against an open supplier bill from a bank account
+
+These tools never change anything themselves. Each shows the user an approval card, and the change is only made when they click Approve. Only propose a write when the user asks for one, look up the IDs it needs first, and never say the change has been made: tell the user to review and approve the card.`;
+
   systemPrompt = systemPrompt + `
 
 Today's date is ${new Date().toLocaleDateString()}.`;
@@ -130,7 +154,7 @@ Today's date is ${new Date().toLocaleDateString()}.`;
           // Check if we hit a rate limit
           if (response.status === 429) {
             const retryAfter = response.headers.get('retry-after');
-            const waitTime = retryAfter ? parseInt(retryAfter, 10) : Math.pow(2, attempt); // Exponential backoff fallback
+            const waitTime = retryDelayMs(retryAfter, attempt) / 1000; // Jittered backoff fallback
 
             // Log rate limit information
             console.log('Rate limit hit:', {
@@ -151,7 +175,7 @@ Today's date is ${new Date().toLocaleDateString()}.`;
 
             // Cap the wait time for safety
             const actualWaitTime = Math.min(waitTime, maxWaitTime);
-            console.log(`Waiting ${actualWaitTime} seconds before retry...`);
+            console.log(`Waiting ${actualWaitTime.toFixed(1)} seconds before retry...`);
 
             // Wait before retrying
             await new Promise(resolve => setTimeout(resolve, actualWaitTime * 1000));
@@ -178,9 +202,9 @@ Today's date is ${new Date().toLocaleDateString()}.`;
           }
 
           // Wait before retrying on network errors
-          const waitTime = Math.pow(2, attempt);
-          console.log(`Waiting ${waitTime} seconds before retry due to error...`);
-          await new Promise(resolve => setTimeout(resolve, waitTime * 1000));
+          const waitTime = backoffDelayMs(attempt);
+          console.log(`Waiting ${waitTime}ms before retry due to error...`);
+          await new Promise(resolve => setTimeout(resolve, waitTime));
         }
       }
 
@@ -190,8 +214,25 @@ Today's date is ${new Date().toLocaleDateString()}.`;
   });
 
 
+  const accountingTools = {
+    getFinancialSummary: getFinancialSummaryTool,
+    getBalanceSheetSummary: getBalanceSheetSummaryTool,
+    getSalesInvoices: getSalesInvoicesTool,
+    getSupplierBills: getSupplierBillsTool,
+    getAccountingContacts: getAccountingContactsTool,
+    getBankSummary: getBankSummaryTool,
+    getCashForecast: getCashForecastTool,
+    getBudgetVsActual: getBudgetVsActualTool,
+    getAgingReport: getAgingReportTool,
+    comparePeriods: comparePeriodsTool,
+    proposeCreateContact: proposeCreateContactTool,
+    proposeDraftInvoice: proposeDraftInvoiceTool,
+    proposeBillPayment: proposeBillPaymentTool,
+  };
+
   // Select tools based on chat type
   const tools = isQboChat ? {
+    ...accountingTools,
     getQboCompanyInfo: getQboCompanyInfoTool,
     getQboCustomers: getQboCustomersTool,
     getQboInvoices: getQboInvoicesTool,
@@ -216,18 +257,40 @@ Today's date is ${new Date().toLocaleDateString()}.`;
     getQboVendorExpenses: getQboVendorExpensesTool,
     getQboTaxAgency: getQboTaxAgencyTool,
     getQboTaxReport: getQboTaxReportTool,
-    addDashboardWidget: tool<{ title: string; type: 'line' | 'bar' | 'pie' | 'gauge' | 'number'; data?: unknown; w?: 1 | 2 | 3; h?: 1 | 2 | 3; chatId?: string }, any>({
-      description: 'Add a dashboard widget to the right panel. Provide title, type, data, and optional size w/h in grid units (1-3). Types: line, bar, pie (charts), gauge (circular progress), number (single value display).',
+    addDashboardWidget: tool<{ title: string; type: WidgetType; data?: unknown; dataSource?: any; refreshMinutes?: number; w?: 1 | 2 | 3; h?: 1 | 2 | 3; chatId?: string }, any>({
+      description: 'Add a dashboard widget to the right panel. Provide title, type, data, and optional size w/h in grid units (1-3). Types: line, bar, pie, area, stacked-bar, waterfall (charts), gauge (circular progress), number (single value display), table (sortable rows, e.g. top overdue invoices or largest vendors), kpi-list (several labelled figures). For figures that change over time (monthly revenue, cash, overdue invoices) also pass a dataSource so the widget refreshes itself instead of showing a stale snapshot.',
       inputSchema: z.object({
         title: z.string().describe('Widget title'),
-        type: z.enum(['line', 'bar', 'pie', 'gauge', 'number']).describe('Widget type: line/bar/pie charts, gauge (circular progress), or number (single value)'),
-        data: z.unknown().describe('Data payload - for charts: {labels, values} or Chart.js format; for gauge: {value, min?, max?}; for number: {value, unit?, subtitle?}').optional(),
+        type: z.enum(['line', 'bar', 'pie', 'gauge', 'number', 'table', 'kpi-list', 'stacked-bar', 'area', 'waterfall']).describe('Widget type: line/bar/pie/area/stacked-bar/waterfall charts, gauge (circular progress), number (single value), table or kpi-list'),
+        data: z.unknown().describe('Data payload - for line/bar/pie/area: {labels, values} or Chart.js format; for stacked-bar (or multi-series area): {labels, series: [{name, values}]}; for waterfall: {labels, values (signed changes), totalLabel?} with a closing total bar when totalLabel is set; for table: {columns?: [{key, label?, format?}], rows: [{...}], currency?}; for kpi-list: {items: [{label, value, format?, change? (percent)}], currency?}; format is currency, number, percent, date or text; for gauge: {value, min?, max?}; for number: {value, unit?, subtitle?}').optional(),
+        dataSource: z.object({
+          report: z.enum(['monthlyTrend', 'cashFlow', 'profitAndLoss', 'balanceSheet', 'expenseBreakdown', 'aging']).describe('monthlyTrend and cashFlow are monthly series; profitAndLoss and balanceSheet are period totals; expenseBreakdown is cost lines; aging is receivables or payables by days overdue'),
+          params: z.object({
+            timeframe: z.enum(['LAST_MONTH', 'MONTH', 'QUARTER', 'FYTD', 'YEAR', 'L12']).optional().describe('Relative period, re-resolved on every refresh. Defaults to L12 for series, MONTH otherwise'),
+            agingType: z.enum(['receivables', 'payables']).optional(),
+          }).optional(),
+          transform: z.object({
+            field: z.string().optional().describe('monthlyTrend: revenue, expenses, costOfGoodsSold, netProfit; cashFlow: net, cashIn, cashOut; profitAndLoss: revenue, expenses, costOfGoodsSold, netProfit, netMargin; balanceSheet: cashBalance, totalAssets, totalLiabilities, equity'),
+            fields: z.array(z.string()).optional().describe('Several profitAndLoss or balanceSheet figures for a chart'),
+            aggregate: z.enum(['sum', 'average', 'last']).optional().describe('How a series becomes one number for number and gauge widgets'),
+            top: z.number().optional().describe('Keep the largest N categories'),
+            unit: z.string().optional(),
+            subtitle: z.string().optional(),
+            min: z.number().optional(),
+            max: z.number().optional(),
+          }).optional(),
+        }).optional().describe('Live data source; the widget data is built from it and refreshed when the panel loads'),
+        refreshMinutes: z.number().optional().describe('Also refresh every N minutes while the panel is open (minimum 5)'),
         w: z.union([z.literal(1), z.literal(2), z.literal(3)]).optional(),
         h: z.union([z.literal(1), z.literal(2), z.literal(3)]).optional(),
       }),
       execute: async (input) => {
         const url = `${origin}/api/dashboard/widgets`;
-        const body = { ...input, chatId: input.chatId ?? chatId };
+        const body = {
+          ...input,
+          dataSource: input.dataSource ? { ...input.dataSource, service: 'QBO' } : undefined,
+          chatId: input.chatId ?? chatId,
+        };
         const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', cookie: cookieHeader } as any, body: JSON.stringify(body) });
         if (!res.ok) {
           const error = await res.json().catch(() => ({}));
@@ -238,6 +301,7 @@ Today's date is ${new Date().toLocaleDateString()}.`;
       },
     }),
   } : {
+    ...accountingTools,
     getXeroOrganisation: getXeroOrganisationTool,
     getXeroContacts: getXeroContactsTool,
     getXeroInvoices: getXeroInvoicesTool,
@@ -253,18 +317,40 @@ Today's date is ${new Date().toLocaleDateString()}.`;
     getXeroPayrollEmployees: getXeroPayrollEmployeesTool,
     getXeroAgedPayables: getXeroAgedPayablesTool,
     getXeroLeaveTypes: getXeroLeaveTypesTool,
-    addDashboardWidget: tool<{ title: string; type: 'line' | 'bar' | 'pie' | 'gauge' | 'number'; data?: unknown; w?: 1 | 2 | 3; h?: 1 | 2 | 3; chatId?: string }, any>({
-      description: 'Add a dashboard widget to the right panel. Provide title, type, data, and optional size w/h in grid units (1-3). Types: line, bar, pie (charts), gauge (circular progress), number (single value display).',
+    addDashboardWidget: tool<{ title: string; type: WidgetType; data?: unknown; dataSource?: any; refreshMinutes?: number; w?: 1 | 2 | 3; h?: 1 | 2 | 3; chatId?: string }, any>({
+      description: 'Add a dashboard widget to the right panel. Provide title, type, data, and optional size w/h in grid units (1-3). Types: line, bar, pie, area, stacked-bar, waterfall (charts), gauge (circular progress), number (single value display), table (sortable rows, e.g. top overdue invoices or largest vendors), kpi-list (several labelled figures). For figures that change over time (monthly revenue, cash, overdue invoices) also pass a dataSource so the widget refreshes itself instead of showing a stale snapshot.',
       inputSchema: z.object({
         title: z.string().describe('Widget title'),
-        type: z.enum(['line', 'bar', 'pie', 'gauge', 'number']).describe('Widget type: line/bar/pie charts, gauge (circular progress), or number (single value)'),
-        data: z.unknown().describe('Data payload - for charts: {labels, values} or Chart.js format; for gauge: {value, min?, max?}; for number: {value, unit?, subtitle?}').optional(),
+        type: z.enum(['line', 'bar', 'pie', 'gauge', 'number', 'table', 'kpi-list', 'stacked-bar', 'area', 'waterfall']).describe('Widget type: line/bar/pie/area/stacked-bar/waterfall charts, gauge (circular progress), number (single value), table or kpi-list'),
+        data: z.unknown().describe('Data payload - for line/bar/pie/area: {labels, values} or Chart.js format; for stacked-bar (or multi-series area): {labels, series: [{name, values}]}; for waterfall: {labels, values (signed changes), totalLabel?} with a closing total bar when totalLabel is set; for table: {columns?: [{key, label?, format?}], rows: [{...}], currency?}; for kpi-list: {items: [{label, value, format?, change? (percent)}], currency?}; format is currency, number, percent, date or text; for gauge: {value, min?, max?}; for number: {value, unit?, subtitle?}').optional(),
+        dataSource: z.object({
+          report: z.enum(['monthlyTrend', 'cashFlow', 'profitAndLoss', 'balanceSheet', 'expenseBreakdown', 'aging']).describe('monthlyTrend and cashFlow are monthly series; profitAndLoss and balanceSheet are period totals; expenseBreakdown is cost lines; aging is receivables or payables by days overdue'),
+          params: z.object({
+            timeframe: z.enum(['LAST_MONTH', 'MONTH', 'QUARTER', 'FYTD', 'YEAR', 'L12']).optional().describe('Relative period, re-resolved on every refresh. Defaults to L12 for series, MONTH otherwise'),
+            agingType: z.enum(['receivables', 'payables']).optional(),
+          }).optional(),
+          transform: z.object({
+            field: z.string().optional().describe('monthlyTrend: revenue, expenses, costOfGoodsSold, netProfit; cashFlow: net, cashIn, cashOut; profitAndLoss: revenue, expenses, costOfGoodsSold, netProfit, netMargin; balanceSheet: cashBalance, totalAssets, totalLiabilities, equity'),
+            fields: z.array(z.string()).optional().describe('Several profitAndLoss or balanceSheet figures for a chart'),
+            aggregate: z.enum(['sum', 'average', 'last']).optional().describe('How a series becomes one number for number and gauge widgets'),
+            top: z.number().optional().describe('Keep the largest N categories'),
+            unit: z.string().optional(),
+            subtitle: z.string().optional(),
+            min: z.number().optional(),
+            max: z.number().optional(),
+          }).optional(),
+        }).optional().describe('Live data source; the widget data is built from it and refreshed when the panel loads'),
+        refreshMinutes: z.number().optional().describe('Also refresh every N minutes while the panel is open (minimum 5)'),
         w: z.union([z.literal(1), z.literal(2), z.literal(3)]).optional(),
         h: z.union([z.literal(1), z.literal(2), z.literal(3)]).optional(),
       }),
       execute: async (input) => {
         const url = `${origin}/api/dashboard/widgets`;
-        const body = { ...input, chatId: input.chatId ?? chatId };
+        const body = {
+          ...input,
+          dataSource: input.dataSource ? { ...input.dataSource, service: 'XERO' } : undefined,
+          chatId: input.chatId ?? chatId,
+        };
         const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', cookie: cookieHeader } as any, body: JSON.stringify(body) });
         if (!res.ok) {
           const error = await res.json().catch(() => ({}));
@@ -276,6 +362,15 @@ Today's date is ${new Date().toLocaleDateString()}.`;
     }),
   };
 
+  // Tool calls answer a user who is waiting, so their Xero / QBO requests go
+  // ahead of dashboard loads and background jobs in the rate limiter
+  const interactiveTools = Object.fromEntries(
+    Object.entries(tools).map(([name, chatTool]: [string, any]) => [
+      name,
+      { ...chatTool, execute: (...args: any[]) => runWithPriority('interactive', () => chatTool.execute(...args)) },
+    ])
+  );
+
   const result = streamText({
     model: anthropic.languageModel('claude-sonnet-4-5-20250929'),
     messages: convertToModelMessages(messages),
@@ -285,7 +380,11 @@ Today's date is ${new Date().toLocaleDateString()}.`;
         thinking: enableThinking ? { type: 'enabled', budgetTokens: 2000 } : { type: 'disabled' },
       } satisfies AnthropicProviderOptions,
     },
-    tools: tools as any
+    tools: interactiveTools as any,
+    experimental_context: {
+      accountingService: isQboChat ? 'QBO' : 'XERO',
+      chatId,
+    } satisfies AccountingToolContext,
   });
 
   // consume the stream to ensure it runs to completion & triggers onFinish
@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { prisma } from '@/lib/db';
 import { authOptions } from '@/lib/auth';
+import { isAccountingService } from '@/lib/accounting';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   const session = await getServerSession(authOptions);
   if (!session?.user?.email) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -17,8 +18,17 @@ export async function GET() {
     return NextResponse.json({ error: 'User not found' }, { status: 404 });
   }
 
+  // Each chat page only lists its own service's conversations (plus ones
+  // created before conversations were tied to a service)
+  const service = request.nextUrl.searchParams.get('service');
+
   const conversations = await prisma.conversation.findMany({
-    where: { userId: user.id },
+    where: {
+      userId: user.id,
+      ...(isAccountingService(service)
+        ? { OR: [{ accountingService: service }, { accountingService: null }] }
+        : {}),
+    },
     orderBy: { updatedAt: 'desc' },
   });
 
@@ -39,12 +49,13 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'User not found' }, { status: 404 });
   }
 
-  const { title } = await request.json();
+  const { title, service } = await request.json();
 
   const conversation = await prisma.conversation.create({
     data: {
       title: title || 'New Chat',
       userId: user.id,
+      accountingService: isAccountingService(service) ? service : null,
     },
   });
 
@@ -0,0 +1,45 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { getAccountingProvider, getBaseCurrency, resolveRequestedService } from "@/lib/accounting";
+import { buildAgingReport, getDaysOutstandingHistory, resolveMetricMonths } from "@/lib/aging";
+
+// Receivables and payables aging, plus DSO / DPO month over month
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const provider = await getAccountingProvider(
+      session.user.id,
+      resolveRequestedService(searchParams.get("service"), session.user.accountingService)
+    );
+
+    if (!provider) {
+      return NextResponse.json({ receivables: null, payables: null, history: [] });
+    }
+
+    const [receivables, payables, history, currency] = await Promise.all([
+      buildAgingReport(provider, "receivables"),
+      buildAgingReport(provider, "payables"),
+      getDaysOutstandingHistory(
+        provider.service,
+        provider.organisationId,
+        resolveMetricMonths(searchParams.get("months"))
+      ),
+      getBaseCurrency(provider),
+    ]);
+
+    return NextResponse.json({ receivables, payables, history, currency });
+  } catch (error) {
+    console.error("Aging report error:", error);
+    return NextResponse.json(
+      { error: "Failed to build aging report" },
+      { status: 500 }
+    );
+  }
+}
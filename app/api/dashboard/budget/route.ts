@@ -0,0 +1,60 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  getAccountingProvider,
+  getBaseCurrency,
+  getFinancialYearEndMonth,
+  resolveRequestedService,
+  resolveTimeframeRange,
+} from "@/lib/accounting";
+import { findBudget, getBudgetVsActual, validateBudgetRange } from "@/lib/budgets";
+
+// Budget vs actual for the dashboard timeframe, by month and by account
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const budgetId = searchParams.get("budgetId");
+
+    if (!budgetId) {
+      return NextResponse.json({ error: "budgetId is required" }, { status: 400 });
+    }
+
+    const provider = await getAccountingProvider(
+      session.user.id,
+      resolveRequestedService(searchParams.get("service"), session.user.accountingService)
+    );
+    const budget = provider && await findBudget(budgetId, provider.service, provider.organisationId);
+
+    if (!provider || !budget) {
+      return NextResponse.json({ error: "Budget not found" }, { status: 404 });
+    }
+
+    const range = resolveTimeframeRange(
+      searchParams.get("timeframe") || "YEAR",
+      searchParams.get("fromDate"),
+      searchParams.get("toDate"),
+      await getFinancialYearEndMonth(provider)
+    );
+    const rangeError = validateBudgetRange(range);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
+    const comparison = await getBudgetVsActual(provider, budget, range);
+
+    return NextResponse.json({ ...comparison, currency: await getBaseCurrency(provider) });
+  } catch (error) {
+    console.error("Budget vs actual error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch budget vs actual" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,69 +1,53 @@
 import { getServerSession } from "next-auth";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { authOptions } from "@/lib/auth";
-import { getXeroBankSummary, extractCashMovements, delay } from "@/lib/xero-api";
+import {
+  DateRange,
+  getAccountingProvider,
+  getBaseCurrency,
+  monthsInRange,
+  resolveRequestedService,
+  toDateString,
+} from "@/lib/accounting";
+import { getCashFlowTrend } from "@/lib/dashboard";
 
-// Helper function to generate cash flow trend
-async function generateCashFlowTrend(userId: string): Promise<any[]> {
-  const today = new Date();
-  const monthNames = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
-  
-  // Calculate the last 6 months dynamically
-  const monthData: Array<{ month: string; fromDate: Date; toDate: Date }> = [];
-  for (let i = 5; i >= 0; i--) {
-    const monthStart = new Date(today.getFullYear(), today.getMonth() - i, 1);
-    const monthEnd = new Date(today.getFullYear(), today.getMonth() - i + 1, 0);
-    const monthName = monthNames[monthStart.getMonth()];
-    monthData.push({ month: monthName, fromDate: monthStart, toDate: monthEnd });
-  }
-  
-  // Fetch Bank Summary for each month individually (sequentially)
-  // Add delays between requests to avoid hitting rate limits (60 calls/minute = ~1s between calls)
-  const results = [];
-  for (let i = 0; i < monthData.length; i++) {
-    const { month, fromDate, toDate } = monthData[i];
-    
-    // Add delay before each request (except the first one)
-    if (i > 0) {
-      await delay(1200); // 1.2 seconds between requests to stay well within 60/min limit
+const DEFAULT_MONTHS = 6;
+// Each month is a separate provider call
+const MAX_MONTHS = 24;
+
+// Resolve the requested range: an explicit fromDate/toDate pair, or the last
+// `months` calendar months including the current one
+function resolveCashFlowRange(searchParams: URLSearchParams): DateRange | string {
+  const fromDate = searchParams.get("fromDate");
+  const toDate = searchParams.get("toDate");
+
+  if (fromDate || toDate) {
+    if (!fromDate || !toDate || !/^\d{4}-\d{2}-\d{2}$/.test(fromDate) || !/^\d{4}-\d{2}-\d{2}$/.test(toDate)) {
+      return "fromDate and toDate must both be given as YYYY-MM-DD";
     }
-    
-    try {
-      const bankSummary = await getXeroBankSummary(userId, {
-        fromDate: fromDate.toISOString().split("T")[0],
-        toDate: toDate.toISOString().split("T")[0],
-      });
-      
-      if (bankSummary) {
-        const { cashIn, cashOut } = extractCashMovements(bankSummary);
-        
-        results.push({
-          month,
-          cashIn: Math.round(cashIn),
-          cashOut: Math.round(cashOut),
-        });
-      } else {
-        // Fallback to zero if data not available
-        results.push({
-          month,
-          cashIn: 0,
-          cashOut: 0,
-        });
-      }
-    } catch (error) {
-      console.error(`Error fetching Bank Summary for ${month}:`, error);
-      results.push({
-        month,
-        cashIn: 0,
-        cashOut: 0,
-      });
+    if (fromDate > toDate) {
+      return "fromDate must be on or before toDate";
+    }
+    if (monthsInRange(fromDate, toDate).length > MAX_MONTHS) {
+      return `Date range can cover at most ${MAX_MONTHS} months`;
     }
+    return { fromDate, toDate };
   }
 
-  return results;
+  const monthsParam = searchParams.get("months");
+  const months = monthsParam ? parseInt(monthsParam, 10) : DEFAULT_MONTHS;
+  if (!Number.isInteger(months) || months < 1 || months > MAX_MONTHS) {
+    return `months must be between 1 and ${MAX_MONTHS}`;
+  }
+
+  const today = new Date();
+  return {
+    fromDate: toDateString(new Date(today.getFullYear(), today.getMonth() - months + 1, 1)),
+    toDate: toDateString(new Date(today.getFullYear(), today.getMonth() + 1, 0)),
+  };
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   const session = await getServerSession(authOptions);
 
   if (!session) {
@@ -71,18 +55,30 @@ export async function GET() {
   }
 
   try {
-    const accountingService = session.user.accountingService;
+    const { searchParams } = new URL(request.url);
+    const range = resolveCashFlowRange(searchParams);
+    if (typeof range === "string") {
+      return NextResponse.json({ error: range }, { status: 400 });
+    }
 
-    if (!accountingService || accountingService !== "XERO") {
+    const provider = await getAccountingProvider(
+      session.user.id,
+      resolveRequestedService(searchParams.get("service"), session.user.accountingService)
+    );
+
+    if (!provider) {
       return NextResponse.json({
         data: [],
+        ...range,
       });
     }
 
-    const cashFlowData = await generateCashFlowTrend(session.user.id);
+    const cashFlowData = await getCashFlowTrend(provider, range);
 
     return NextResponse.json({
       data: cashFlowData,
+      ...range,
+      currency: await getBaseCurrency(provider),
     });
   } catch (error) {
     console.error("Cash flow chart error:", error);
@@ -92,4 +88,3 @@ export async function GET() {
     );
   }
 }
-
@@ -0,0 +1,116 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  AccountingProvider,
+  AccountingService,
+  DateRange,
+  getAccountingProvider,
+  getFinancialYearEndMonth,
+  resolveTimeframeRange,
+} from "@/lib/accounting";
+import { getConnectedServices } from "@/lib/organisations";
+
+type ProviderKpis = {
+  service: AccountingService;
+  organisation?: { name: string; shortCode?: string };
+  currency?: string;
+  kpis?: {
+    revenue: number;
+    costOfGoodsSold: number;
+    expenses: number;
+    netProfit: number;
+    netMargin: number;
+    cashBalance: number;
+    totalAssets: number;
+    totalLiabilities: number;
+    equity: number;
+  };
+  error?: string;
+};
+
+// Same KPIs from every connected service side by side, for reconciling books
+// during a migration from one service to the other
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const timeframe = searchParams.get("timeframe") || "YEAR";
+
+    const services = await getConnectedServices(session.user.id);
+    const connected: Array<{ service: AccountingService; provider: AccountingProvider | null }> = [];
+    for (const service of services) {
+      connected.push({ service, provider: await getAccountingProvider(session.user.id, service) });
+    }
+
+    // Every service is compared over the same dates; the financial year
+    // follows the first connected organisation
+    const firstProvider = connected.find(({ provider }) => provider)?.provider;
+    const range: DateRange = resolveTimeframeRange(
+      timeframe,
+      searchParams.get("fromDate"),
+      searchParams.get("toDate"),
+      firstProvider ? await getFinancialYearEndMonth(firstProvider) : undefined
+    );
+
+    const providers: ProviderKpis[] = [];
+
+    for (const { service, provider } of connected) {
+      if (!provider) {
+        providers.push({ service, error: `No ${service} connection found` });
+        continue;
+      }
+
+      try {
+        const [organisation, profitLoss, balanceSheet] = await Promise.all([
+          provider.getOrganisation().catch(() => null),
+          provider.getProfitAndLoss(range),
+          provider.getBalanceSheet(range.toDate),
+        ]);
+
+        providers.push({
+          service,
+          ...(organisation ? { organisation: { name: organisation.name, shortCode: organisation.shortCode } } : {}),
+          currency: organisation?.baseCurrency || "USD",
+          kpis: {
+            revenue: profitLoss.revenue,
+            costOfGoodsSold: profitLoss.costOfGoodsSold,
+            expenses: profitLoss.operatingExpenses,
+            netProfit: profitLoss.netProfit,
+            netMargin: profitLoss.revenue > 0 ? (profitLoss.netProfit / profitLoss.revenue) * 100 : 0,
+            cashBalance: Math.abs(balanceSheet.cashBalance),
+            totalAssets: balanceSheet.totalAssets,
+            totalLiabilities: balanceSheet.totalLiabilities,
+            equity: balanceSheet.equity,
+          },
+        });
+      } catch (error) {
+        console.error(`${service} comparison error:`, error);
+        providers.push({
+          service,
+          error: `Unable to fetch ${service} data. Please re-authenticate your account.`,
+        });
+      }
+    }
+
+    return NextResponse.json({
+      providers,
+      timeframe: {
+        from: range.fromDate,
+        to: range.toDate,
+        type: timeframe,
+      },
+    });
+  } catch (error) {
+    console.error("Dashboard compare error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch comparison data" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,17 @@
 import { getServerSession } from "next-auth";
 import { NextRequest, NextResponse } from "next/server";
 import { authOptions } from "@/lib/auth";
+import {
+  getAccountingProvider,
+  getBaseCurrency,
+  getFinancialYearEndMonth,
+  resolveRequestedService,
+  resolveTimeframeRange,
+} from "@/lib/accounting";
+import { getDashboardSummary } from "@/lib/dashboard";
+import { collectDashboardExportData, isReportFormat, renderDashboardReport } from "@/lib/report-export";
 
+// Dashboard export as JSON, CSV (expense breakdown), a PDF report or an XLSX workbook
 export async function GET(request: NextRequest) {
   const session = await getServerSession(authOptions);
 
@@ -16,27 +26,16 @@ export async function GET(request: NextRequest) {
     const fromDate = searchParams.get("fromDate");
     const toDate = searchParams.get("toDate");
 
-    // Fetch the dashboard data
-    const statsUrl = new URL("/api/dashboard/stats", request.url);
-    statsUrl.searchParams.set("timeframe", timeframe);
-    if (fromDate) {
-      statsUrl.searchParams.set("fromDate", fromDate);
-    }
-    if (toDate) {
-      statsUrl.searchParams.set("toDate", toDate);
-    }
-
-    const response = await fetch(statsUrl, {
-      headers: {
-        Cookie: request.headers.get("cookie") || "",
-      },
-    });
+    const provider = await getAccountingProvider(
+      session.user.id,
+      resolveRequestedService(searchParams.get("service"), session.user.accountingService)
+    );
 
-    if (!response.ok) {
-      throw new Error("Failed to fetch dashboard data");
+    if (!provider) {
+      return NextResponse.json({ error: "No accounting connection found" }, { status: 404 });
     }
 
-    const data = await response.json();
+    const range = resolveTimeframeRange(timeframe, fromDate, toDate, await getFinancialYearEndMonth(provider));
 
     // Generate filename based on timeframe and dates
     let filename = `financial-report-${timeframe.toLowerCase()}`;
@@ -44,6 +43,33 @@ export async function GET(request: NextRequest) {
       filename = `financial-report-${fromDate}-to-${toDate}`;
     }
 
+    if (isReportFormat(format)) {
+      const report = await renderDashboardReport(
+        await collectDashboardExportData(session.user.id, provider, timeframe, range),
+        format
+      );
+
+      return new NextResponse(new Uint8Array(report.content), {
+        headers: {
+          "Content-Type": report.contentType,
+          "Content-Disposition": `attachment; filename="${filename}.${report.extension}"`,
+        },
+      });
+    }
+
+    const { organisation, kpis, expenseBreakdown } = await getDashboardSummary(provider, range);
+    const data = {
+      ...(organisation ? { organisation: { name: organisation.name, shortCode: organisation.shortCode } } : {}),
+      currency: await getBaseCurrency(provider),
+      kpis,
+      expenseBreakdown,
+      timeframe: {
+        from: range.fromDate,
+        to: range.toDate,
+        type: timeframe,
+      },
+    };
+
     if (format === "csv") {
       // Generate CSV
       let csv = "Category,Amount,Percentage\n";
@@ -79,4 +105,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
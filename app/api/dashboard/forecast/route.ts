@@ -0,0 +1,46 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { getAccountingProvider, getBaseCurrency, resolveRequestedService } from "@/lib/accounting";
+import { buildCashForecast, resolveForecastScenario } from "@/lib/forecast";
+
+// 13-week cash forecast; scenario settings come from the query string
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const provider = await getAccountingProvider(
+      session.user.id,
+      resolveRequestedService(searchParams.get("service"), session.user.accountingService)
+    );
+
+    if (!provider) {
+      return NextResponse.json({ forecast: null });
+    }
+
+    const scenario = resolveForecastScenario({
+      customerDelayDays: searchParams.get("customerDelayDays") ?? undefined,
+      supplierDelayDays: searchParams.get("supplierDelayDays") ?? undefined,
+      excludeOverdueReceivables: searchParams.get("excludeOverdueReceivables") ?? undefined,
+      includeRecurring: searchParams.get("includeRecurring") ?? undefined,
+    });
+
+    const [forecast, currency] = await Promise.all([
+      buildCashForecast(provider, scenario),
+      getBaseCurrency(provider),
+    ]);
+
+    return NextResponse.json({ forecast, currency });
+  } catch (error) {
+    console.error("Cash forecast error:", error);
+    return NextResponse.json(
+      { error: "Failed to build cash forecast" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { getAccountingProvider } from '@/lib/accounting';
+import { formatCurrency } from '@/lib/currency';
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,14 +22,27 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Dashboard data is required' }, { status: 400 });
     }
 
+    // Insights are generated for the default service's active organisation;
+    // recording which one lets webhooks for other organisations leave it alone
+    const provider = await getAccountingProvider(session.user.id, session.user.accountingService);
+    const organisation = {
+      service: provider?.service ?? null,
+      organisationId: provider?.organisationId ?? null,
+    };
+
     // Check for existing valid insight (not expired)
     const now = new Date();
     const existingInsight = await prisma.financialInsight.findUnique({
       where: { userId: session.user.id },
     });
 
-    // If insight exists and hasn't expired (within 7 days), return it
-    if (existingInsight && existingInsight.expiresAt > now) {
+    // If insight exists for this organisation and hasn't expired (within 7 days), return it
+    if (
+      existingInsight &&
+      existingInsight.expiresAt > now &&
+      existingInsight.service === organisation.service &&
+      existingInsight.organisationId === organisation.organisationId
+    ) {
       return NextResponse.json({
         insights: existingInsight.insight,
       });
@@ -40,19 +55,20 @@ export async function POST(request: NextRequest) {
     const kpis = dashboardData.kpis || {};
     const expenseBreakdown = dashboardData.expenseBreakdown || [];
     const timeframe = dashboardData.timeframe || {};
+    const money = (value: number) => formatCurrency(value || 0, dashboardData.currency, { decimals: 0 });
     
     // Build a structured summary of the data
     const financialSummary = `
-Financial Overview (${timeframe.from || 'N/A'} to ${timeframe.to || 'N/A'}):
-- Revenue: $${(kpis.revenue || 0).toLocaleString()}
-- Expenses: $${(kpis.expenses || 0).toLocaleString()}
-- Net Profit: $${(kpis.netProfit || 0).toLocaleString()}
+Financial Overview (${timeframe.from || 'N/A'} to ${timeframe.to || 'N/A'}, amounts in ${dashboardData.currency || 'USD'}):
+- Revenue: ${money(kpis.revenue)}
+- Expenses: ${money(kpis.expenses)}
+- Net Profit: ${money(kpis.netProfit)}
 - Net Margin: ${(kpis.netMargin || 0).toFixed(1)}%
-- Cash Balance: $${(kpis.cashBalance || 0).toLocaleString()}
+- Cash Balance: ${money(kpis.cashBalance)}
 
 Top Expenses:
 ${expenseBreakdown.slice(0, 5).map((exp: any, idx: number) => 
-  `${idx + 1}. ${exp.name}: $${exp.value.toLocaleString()} (${exp.percentage.toFixed(1)}% of total)`
+  `${idx + 1}. ${exp.name}: ${money(exp.value)} (${exp.percentage.toFixed(1)}% of total)`
 ).join('\n')}
 `;
 
@@ -83,11 +99,13 @@ ${financialSummary}`;
     await prisma.financialInsight.upsert({
       where: { userId: session.user.id },
       update: {
+        ...organisation,
         insight: insightText,
         expiresAt: expiresAt,
       },
       create: {
         userId: session.user.id,
+        ...organisation,
         insight: insightText,
         expiresAt: expiresAt,
       },
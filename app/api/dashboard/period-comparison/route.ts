@@ -0,0 +1,69 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  getAccountingProvider,
+  getBaseCurrency,
+  getFinancialYearEndMonth,
+  resolveRequestedService,
+  resolveTimeframeRange,
+} from "@/lib/accounting";
+import { comparePeriods, isComparisonMode, resolveComparisonRange } from "@/lib/comparison";
+
+// GET the current period side by side with the previous period, the same period last year or a custom range
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const timeframe = searchParams.get("timeframe") || "YEAR";
+    const mode = searchParams.get("mode") || "previous";
+
+    if (!isComparisonMode(mode)) {
+      return NextResponse.json({ error: "mode must be previous, last_year or custom" }, { status: 400 });
+    }
+
+    const accountingService = resolveRequestedService(searchParams.get("service"), session.user.accountingService);
+    const provider = await getAccountingProvider(session.user.id, accountingService);
+
+    if (!provider) {
+      return NextResponse.json({ error: "No accounting connection found" }, { status: 404 });
+    }
+
+    const range = resolveTimeframeRange(
+      timeframe,
+      searchParams.get("fromDate"),
+      searchParams.get("toDate"),
+      await getFinancialYearEndMonth(provider)
+    );
+    const comparisonRange = resolveComparisonRange(mode, timeframe, range, {
+      fromDate: searchParams.get("compareFromDate") || undefined,
+      toDate: searchParams.get("compareToDate") || undefined,
+    });
+
+    if (!comparisonRange) {
+      return NextResponse.json(
+        { error: "compareFromDate and compareToDate are required for a custom comparison" },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await comparePeriods(provider, mode, range, comparisonRange);
+
+    return NextResponse.json({
+      ...comparison,
+      currency: await getBaseCurrency(provider),
+      timeframe: { from: range.fromDate, to: range.toDate, type: timeframe },
+    });
+  } catch (error) {
+    console.error("Period comparison error:", error);
+    return NextResponse.json(
+      { error: "Failed to compare periods" },
+      { status: 500 }
+    );
+  }
+}
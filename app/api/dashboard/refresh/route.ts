@@ -0,0 +1,35 @@
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { invalidateReportCache, pruneReportCache } from "@/lib/accounting";
+import { listOrganisations } from "@/lib/organisations";
+
+// Drop cached reports for the user's connected organisations so the next
+// dashboard load reads live figures from QBO / Xero
+export async function POST() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const organisations = await listOrganisations(session.user.id);
+
+    let cleared = 0;
+    for (const organisation of organisations) {
+      cleared += await invalidateReportCache(organisation.service, organisation.id);
+    }
+
+    // Good moment to clear out entries nobody will read again
+    await pruneReportCache();
+
+    return NextResponse.json({ success: true, cleared });
+  } catch (error) {
+    console.error("Dashboard refresh error:", error);
+    return NextResponse.json(
+      { error: "Failed to refresh dashboard data" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { getAccountingProvider, getBaseCurrency, monthsInRange, resolveRequestedService } from "@/lib/accounting";
+import {
+  TRANSACTION_SORT_FIELDS,
+  TransactionSortField,
+  isDrillDownMetric,
+  isTransactionKind,
+  listKpiTransactions,
+} from "@/lib/transactions";
+
+// Every matching ledger row in the range is loaded to sort and total the list
+const MAX_MONTHS = 24;
+
+// YYYY-MM-DD that is also a real date, so it can't reach Prisma as an Invalid Date
+function isDateString(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// Check the requested period; returns an error message when it is invalid
+function validateRange(fromDate: string, toDate: string): string | null {
+  if (!isDateString(fromDate) || !isDateString(toDate)) {
+    return "fromDate and toDate must both be given as YYYY-MM-DD";
+  }
+  if (fromDate > toDate) {
+    return "fromDate must be on or before toDate";
+  }
+  if (monthsInRange(fromDate, toDate).length > MAX_MONTHS) {
+    return `Date range can cover at most ${MAX_MONTHS} months`;
+  }
+  return null;
+}
+
+// GET a page of the transactions behind a KPI (revenue, expenses, COGS, net profit or cash) for a period
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const metric = searchParams.get("metric");
+    const fromDate = searchParams.get("fromDate");
+    const toDate = searchParams.get("toDate");
+    const kind = searchParams.get("kind");
+    const sort = searchParams.get("sort") || "date";
+
+    if (!isDrillDownMetric(metric) || !fromDate || !toDate) {
+      return NextResponse.json(
+        { error: "metric (revenue, expenses, costOfGoodsSold, netProfit or cashBalance), fromDate and toDate are required" },
+        { status: 400 }
+      );
+    }
+    const rangeError = validateRange(fromDate, toDate);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+    if (kind && !isTransactionKind(kind)) {
+      return NextResponse.json({ error: `Unknown transaction kind ${kind}` }, { status: 400 });
+    }
+    if (!TRANSACTION_SORT_FIELDS.includes(sort as TransactionSortField)) {
+      return NextResponse.json({ error: `sort must be one of ${TRANSACTION_SORT_FIELDS.join(", ")}` }, { status: 400 });
+    }
+
+    const provider = await getAccountingProvider(
+      session.user.id,
+      resolveRequestedService(searchParams.get("service"), session.user.accountingService)
+    );
+
+    if (!provider) {
+      return NextResponse.json({ error: "No accounting connection found" }, { status: 404 });
+    }
+
+    const [organisation, currency] = await Promise.all([
+      provider.getOrganisation().catch(() => null),
+      getBaseCurrency(provider),
+    ]);
+
+    const result = await listKpiTransactions(provider.service, provider.organisationId, {
+      metric,
+      range: { fromDate, toDate },
+      search: searchParams.get("search"),
+      kind: kind && isTransactionKind(kind) ? kind : null,
+      sort: sort as TransactionSortField,
+      direction: searchParams.get("direction") === "asc" ? "asc" : "desc",
+      page: parseInt(searchParams.get("page") || "1", 10) || 1,
+      pageSize: parseInt(searchParams.get("pageSize") || "", 10) || undefined,
+    }, organisation?.shortCode);
+
+    return NextResponse.json({ ...result, service: provider.service, currency });
+  } catch (error) {
+    console.error("KPI transactions error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch transactions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { prisma } from '@/lib/db';
+import { authOptions } from '@/lib/auth';
+import { refreshWidget } from '@/lib/widget-sources';
+
+// Re-run a live widget's data source; returns the stored snapshot marked stale when the provider can't be reached
+export async function POST(_req: NextRequest, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  try {
+    const widget = await prisma.widget.findFirst({ where: { id: params.id, userId: session.user.id } });
+    if (!widget) return NextResponse.json({ error: 'not_found' }, { status: 404 });
+    if (!widget.dataSource) return NextResponse.json({ error: 'not_live', message: 'This widget has no data source' }, { status: 400 });
+
+    const result = await refreshWidget(widget);
+    return NextResponse.json(result);
+  } catch (e: any) {
+    console.error('[widgets:refresh] error', e);
+    return NextResponse.json({ error: 'refresh_failed', message: e?.message || 'Failed to refresh widget' }, { status: 500 });
+  }
+}
@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { prisma } from '@/lib/db';
 import { authOptions } from '@/lib/auth';
+import { getAccountingProvider, resolveRequestedService } from '@/lib/accounting';
+import {
+  buildWidgetData,
+  normaliseRefreshMinutes,
+  normaliseWidgetDataSource,
+  validateWidgetDataSource,
+  WidgetDataSource,
+} from '@/lib/widget-sources';
+import { isWidgetType, validateWidgetData, WIDGET_TYPES, WidgetType } from '@/lib/widgets';
 
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -10,11 +19,12 @@ export async function GET(req: NextRequest) {
   if (!user) return NextResponse.json({ widgets: [] });
 
   const chatId = req.nextUrl.searchParams.get('chatId') || undefined;
+  const dashboardId = req.nextUrl.searchParams.get('dashboardId') || undefined;
   // Defensive: in case Prisma client is stale during dev reload
   if (!(prisma as any).widget) return NextResponse.json({ widgets: [] });
 
   const widgets = await (prisma as any).widget.findMany({
-    where: { userId: user.id, ...(chatId ? { conversationId: chatId } : {}) },
+    where: { userId: user.id, ...(chatId ? { conversationId: chatId } : {}), ...(dashboardId ? { dashboardId } : {}) },
     orderBy: [{ y: 'asc' }, { x: 'asc' }, { createdAt: 'asc' }],
   });
 
@@ -40,30 +50,81 @@ export async function POST(req: NextRequest) {
     const body = await req.json().catch(() => ({}));
     console.log('[widgets:POST] body keys:', Object.keys(body || {}));
     const title: string = body?.title ?? 'Untitled';
-    const type: 'line' | 'bar' | 'pie' | 'gauge' | 'number' = (body?.type ?? 'line');
-    const data = body?.data ?? {};
+    const type: WidgetType = (body?.type ?? 'line');
+    if (!isWidgetType(type)) {
+      return NextResponse.json({ error: 'invalid_type', message: `type must be one of ${WIDGET_TYPES.join(', ')}` }, { status: 400 });
+    }
+    let data = body?.data ?? {};
     const w = [1,2,3].includes(body?.w) ? body.w : 1;
     const h = [1,2,3].includes(body?.h) ? body.h : 1;
     const conversationId: string | undefined = body?.chatId || body?.conversationId || undefined;
-    if (!conversationId) {
+    // Widgets live in a chat, or straight on a named dashboard
+    const dashboardId: string | undefined = conversationId ? undefined : body?.dashboardId || undefined;
+    if (!conversationId && !dashboardId) {
       console.warn('[widgets:POST] missing conversationId');
       return NextResponse.json({ error: 'missing_conversation' }, { status: 400 });
     }
+    if (dashboardId && !(await prisma.dashboard.findFirst({ where: { id: dashboardId, userId: user.id } }))) {
+      return NextResponse.json({ error: 'dashboard_not_found' }, { status: 404 });
+    }
+
+    // Snapshots from the caller must be drawable; live widgets build their own below
+    if (body?.data !== undefined && !body?.dataSource) {
+      const invalid = validateWidgetData(type, data);
+      if (invalid) {
+        return NextResponse.json({ error: 'invalid_data', message: invalid }, { status: 400 });
+      }
+    }
+
+    // Live widgets keep the report they came from and start with a fresh snapshot
+    let dataSource: WidgetDataSource | null = null;
+    let refreshedAt: Date | null = null;
+    let refreshError: string | null = null;
+    if (body?.dataSource) {
+      const invalid = validateWidgetDataSource(body.dataSource);
+      if (invalid) {
+        return NextResponse.json({ error: 'invalid_data_source', message: invalid }, { status: 400 });
+      }
+      const provider = await getAccountingProvider(
+        user.id,
+        resolveRequestedService(body.dataSource.service, session.user.accountingService),
+        body.dataSource.organisationId
+      );
+      if (!provider) {
+        return NextResponse.json({ error: 'no_connection', message: 'No accounting connection found' }, { status: 404 });
+      }
+      dataSource = normaliseWidgetDataSource(body.dataSource, provider.service, provider.organisationId);
+      try {
+        data = await buildWidgetData(user.id, dataSource, type);
+        refreshedAt = new Date();
+      } catch (e: any) {
+        // Keep whatever snapshot the caller sent; the panel retries on load
+        console.warn('[widgets:POST] initial refresh failed', e);
+        refreshError = e?.message || 'Refresh failed';
+      }
+    }
+    const refreshMinutes = dataSource ? normaliseRefreshMinutes(body?.refreshMinutes) : null;
 
     if (!(prisma as any).widget) {
       console.error('[widgets:POST] prisma.widget unavailable');
       return NextResponse.json({ error: 'unavailable' }, { status: 503 });
     }
-    console.log('[widgets:POST] creating', { userId: user.id, conversationId, title, type, w, h });
+    console.log('[widgets:POST] creating', { userId: user.id, conversationId, dashboardId, title, type, w, h });
     const created = await (prisma as any).widget.create({
       data: {
         title,
         type,
         data,
+        // Prisma rejects a plain null for Json columns
+        dataSource: dataSource ?? undefined,
+        refreshMinutes,
+        refreshedAt,
+        refreshError,
         w,
         h,
         userId: user.id,
         conversationId,
+        dashboardId,
       },
     });
     console.log('[widgets:POST] created', { id: created?.id });
@@ -0,0 +1,95 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { deleteDashboard, findDashboard, renameDashboard, validateDashboardName } from "@/lib/dashboards";
+
+// GET a dashboard with its widgets
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const dashboard = await findDashboard(session.user.id, params.id);
+
+    if (!dashboard) {
+      return NextResponse.json({ error: "Dashboard not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ dashboard });
+  } catch (error) {
+    console.error("Dashboard fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dashboard" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a dashboard
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const invalid = validateDashboardName(body?.name);
+
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const dashboard = await renameDashboard(session.user.id, params.id, body.name);
+
+    if (!dashboard) {
+      return NextResponse.json({ error: "Dashboard not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ dashboard });
+  } catch (error) {
+    console.error("Dashboard rename error:", error);
+    return NextResponse.json(
+      { error: "Failed to rename dashboard" },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a dashboard and the widgets pinned to it; the chats they came from keep theirs
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const deleted = await deleteDashboard(session.user.id, params.id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Dashboard not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Dashboard delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete dashboard" },
+      { status: 500 }
+    );
+  }
+}
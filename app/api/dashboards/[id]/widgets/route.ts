@@ -0,0 +1,38 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { pinWidget } from "@/lib/dashboards";
+
+// Pin a copy of a chat widget to a dashboard
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body?.widgetId !== "string" || !body.widgetId) {
+      return NextResponse.json({ error: "widgetId is required" }, { status: 400 });
+    }
+
+    const widget = await pinWidget(session.user.id, params.id, body.widgetId);
+
+    if (!widget) {
+      return NextResponse.json({ error: "Dashboard or widget not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ widget }, { status: 201 });
+  } catch (error) {
+    console.error("Widget pin error:", error);
+    return NextResponse.json(
+      { error: "Failed to pin widget" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { createDashboard, listDashboards, validateDashboardName } from "@/lib/dashboards";
+
+// GET the user's named dashboards
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const dashboards = await listDashboards(session.user.id);
+    return NextResponse.json({ dashboards });
+  } catch (error) {
+    console.error("Dashboards fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dashboards" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create an empty named dashboard
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const invalid = validateDashboardName(body?.name);
+
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const dashboard = await createDashboard(session.user.id, body.name);
+    return NextResponse.json({ dashboard }, { status: 201 });
+  } catch (error) {
+    console.error("Dashboard create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create dashboard" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { isAccountingService } from "@/lib/accounting";
+import { listOrganisations } from "@/lib/organisations";
+import { getLedgerSyncStatus, startLedgerSync } from "@/lib/ledger";
+
+// Sync status and recent run history for the user's connected organisations
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const organisations = await listOrganisations(session.user.id);
+    const status = await getLedgerSyncStatus(organisations);
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error("Ledger sync status error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sync status" },
+      { status: 500 }
+    );
+  }
+}
+
+// Start a sync for one of the user's organisations. The run continues in the
+// background; poll GET for progress.
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { service, organisationId, full } = await request.json();
+
+    if (!isAccountingService(service) || typeof organisationId !== "string") {
+      return NextResponse.json(
+        { error: "service (QBO or XERO) and organisationId are required" },
+        { status: 400 }
+      );
+    }
+
+    const organisations = await listOrganisations(session.user.id);
+    if (!organisations.some((org) => org.service === service && org.id === organisationId)) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 });
+    }
+
+    const started = await startLedgerSync(session.user.id, service, organisationId, {
+      trigger: "manual",
+      full: full === true,
+    });
+
+    if (!started) {
+      return NextResponse.json(
+        { error: "A sync is already running for this organisation" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ run: started.run }, { status: 202 });
+  } catch (error) {
+    console.error("Ledger sync start error:", error);
+    return NextResponse.json(
+      { error: "Failed to start sync" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { isAccountingService } from "@/lib/accounting";
+import { setDefaultService } from "@/lib/organisations";
+
+// Choose which connected service the dashboard and chat use by default
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { service } = await request.json();
+
+    if (!isAccountingService(service)) {
+      return NextResponse.json(
+        { error: "service must be QBO or XERO" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await setDefaultService(session.user.id, service);
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Service not connected" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Default service update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update default service" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,11 @@
 import { getServerSession } from "next-auth";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { isAccountingService } from "@/lib/accounting";
+import { disconnectService } from "@/lib/organisations";
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   const session = await getServerSession(authOptions);
 
   if (!session) {
@@ -11,33 +13,23 @@ export async function POST() {
   }
 
   try {
+    // Which service to disconnect; defaults to the user's default service
+    const body = await request.json().catch(() => ({}));
+
     const user = await prisma.user.findUnique({
       where: { id: session.user.id },
     });
 
-    if (!user || !user.accountingService) {
+    const service = body?.service ?? user?.accountingService;
+
+    if (!user || !isAccountingService(service)) {
       return NextResponse.json(
         { error: "No service connected" },
         { status: 400 }
       );
     }
 
-    // Delete tokens based on service type
-    if (user.accountingService === "QBO") {
-      await prisma.qboToken.deleteMany({
-        where: { userId: session.user.id },
-      });
-    } else if (user.accountingService === "XERO") {
-      await prisma.xeroToken.deleteMany({
-        where: { userId: session.user.id },
-      });
-    }
-
-    // Update user
-    await prisma.user.update({
-      where: { id: session.user.id },
-      data: { accountingService: null },
-    });
+    await disconnectService(session.user.id, service);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -48,4 +40,3 @@ export async function POST() {
     );
   }
 }
-
@@ -0,0 +1,92 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { isAccountingService } from "@/lib/accounting";
+import { listOrganisations, setActiveOrganisation, removeOrganisation } from "@/lib/organisations";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const organisations = await listOrganisations(session.user.id);
+    return NextResponse.json({ organisations });
+  } catch (error) {
+    console.error("List organisations error:", error);
+    return NextResponse.json(
+      { error: "Failed to load organisations" },
+      { status: 500 }
+    );
+  }
+}
+
+// Switch the active organisation for a service
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { service, organisationId } = await request.json();
+
+    if (!isAccountingService(service) || typeof organisationId !== "string" || !organisationId) {
+      return NextResponse.json(
+        { error: "service and organisationId are required" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await setActiveOrganisation(session.user.id, service, organisationId);
+    if (!updated) {
+      return NextResponse.json(
+        { error: "Organisation not connected" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Set active organisation error:", error);
+    return NextResponse.json(
+      { error: "Failed to switch organisation" },
+      { status: 500 }
+    );
+  }
+}
+
+// Disconnect a single organisation
+export async function DELETE(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const service = searchParams.get("service");
+    const organisationId = searchParams.get("organisationId");
+
+    if (!isAccountingService(service) || !organisationId) {
+      return NextResponse.json(
+        { error: "service and organisationId are required" },
+        { status: 400 }
+      );
+    }
+
+    await removeOrganisation(session.user.id, service, organisationId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Remove organisation error:", error);
+    return NextResponse.json(
+      { error: "Failed to disconnect organisation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { listOrganisations } from "@/lib/organisations";
+import { findReportSchedule, nextRunDate, validateScheduleInput } from "@/lib/report-schedules";
+
+// Replace a schedule's settings; the next run is recalculated from now
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const input = validateScheduleInput(await request.json());
+
+    if (typeof input === "string") {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    const existing = await findReportSchedule(params.id, session.user.id);
+    if (!existing) {
+      return NextResponse.json({ error: "Report schedule not found" }, { status: 404 });
+    }
+
+    const organisations = await listOrganisations(session.user.id);
+    if (!organisations.some((org) => org.service === input.service && org.id === input.organisationId)) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 });
+    }
+
+    const schedule = await prisma.reportSchedule.update({
+      where: { id: existing.id },
+      data: { ...input, nextRunAt: nextRunDate(input) },
+    });
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error("Report schedule update error:", error);
+    return NextResponse.json(
+      { error: "Failed to update report schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const schedule = await findReportSchedule(params.id, session.user.id);
+
+    if (!schedule) {
+      return NextResponse.json({ error: "Report schedule not found" }, { status: 404 });
+    }
+
+    await prisma.reportSchedule.delete({ where: { id: schedule.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Report schedule delete error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete report schedule" },
+      { status: 500 }
+    );
+  }
+}
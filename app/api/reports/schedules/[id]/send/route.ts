@@ -0,0 +1,35 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { findReportSchedule, runReportSchedule } from "@/lib/report-schedules";
+
+// Send a schedule's report now, without moving its next scheduled run
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const schedule = await findReportSchedule(params.id, session.user.id);
+
+    if (!schedule) {
+      return NextResponse.json({ error: "Report schedule not found" }, { status: 404 });
+    }
+
+    // Delivery failures are recorded on the run and returned with it
+    const run = await runReportSchedule(schedule, "manual");
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("Report send error:", error);
+    return NextResponse.json(
+      { error: "Failed to send report" },
+      { status: 500 }
+    );
+  }
+}
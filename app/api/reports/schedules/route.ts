@@ -0,0 +1,66 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/db";
+import { isEmailConfigured } from "@/lib/email";
+import { listOrganisations } from "@/lib/organisations";
+import { listReportSchedules, nextRunDate, validateScheduleInput } from "@/lib/report-schedules";
+
+// The user's report schedules with their recent runs
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const schedules = await listReportSchedules(session.user.id);
+
+    return NextResponse.json({ schedules, emailConfigured: isEmailConfigured() });
+  } catch (error) {
+    console.error("Report schedules fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch report schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a schedule for one of the user's organisations
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const input = validateScheduleInput(await request.json());
+
+    if (typeof input === "string") {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    const organisations = await listOrganisations(session.user.id);
+    if (!organisations.some((org) => org.service === input.service && org.id === input.organisationId)) {
+      return NextResponse.json({ error: "Organisation not found" }, { status: 404 });
+    }
+
+    const schedule = await prisma.reportSchedule.create({
+      data: {
+        ...input,
+        userId: session.user.id,
+        nextRunAt: nextRunDate(input),
+      },
+    });
+
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error) {
+    console.error("Report schedule create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create report schedule" },
+      { status: 500 }
+    );
+  }
+}
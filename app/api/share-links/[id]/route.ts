@@ -0,0 +1,32 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import { revokeShareLink } from "@/lib/share-links";
+
+// Revoke a share link; it stays listed as revoked
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const revoked = await revokeShareLink(session.user.id, params.id);
+
+    if (!revoked) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Share link revoke error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke share link" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { authOptions } from "@/lib/auth";
+import {
+  SHARE_RESOURCE_TYPES,
+  ShareResourceType,
+  createShareLink,
+  listShareLinks,
+  validateShareLinkInput,
+} from "@/lib/share-links";
+
+// GET the user's share links, optionally for one conversation or dashboard
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const resourceType = searchParams.get("resourceType");
+
+    if (resourceType && !SHARE_RESOURCE_TYPES.includes(resourceType as ShareResourceType)) {
+      return NextResponse.json({ error: "resourceType must be conversation or dashboard" }, { status: 400 });
+    }
+
+    const links = await listShareLinks(session.user.id, {
+      resourceType: (resourceType as ShareResourceType) || undefined,
+      resourceId: searchParams.get("resourceId") || undefined,
+    });
+    return NextResponse.json({ links });
+  } catch (error) {
+    console.error("Share links fetch error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch share links" },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a read-only link to a conversation or dashboard
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const input = validateShareLinkInput(body);
+
+    if (typeof input === "string") {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    const link = await createShareLink(session.user.id, input);
+
+    if (!link) {
+      return NextResponse.json({ error: "Conversation or dashboard not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ link }, { status: 201 });
+  } catch (error) {
+    console.error("Share link create error:", error);
+    return NextResponse.json(
+      { error: "Failed to create share link" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SHARE_ACCESS_COOKIE_PREFIX,
+  clearFailedUnlocks,
+  findShareLink,
+  recordFailedUnlock,
+  shareAccessToken,
+  shareLinkStatus,
+  unlockRetryAfterMs,
+  verifySharePassword,
+} from "@/lib/share-links";
+
+// First address in X-Forwarded-For is the client when behind a proxy
+function clientIp(request: NextRequest): string {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0].trim();
+  return forwarded || request.ip || "unknown";
+}
+
+function tooManyAttempts(retryAfterMs: number) {
+  const minutes = Math.ceil(retryAfterMs / 60000);
+  return NextResponse.json(
+    { error: `Too many incorrect passwords. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.` },
+    { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } }
+  );
+}
+
+// Public: exchange a share link's password for an access cookie scoped to that link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const link = await findShareLink(params.token);
+
+    if (!link || shareLinkStatus(link) !== "active") {
+      return NextResponse.json({ error: "This link is no longer available" }, { status: 404 });
+    }
+
+    // Checked before bcrypt so a locked-out link costs nothing to hammer
+    const ip = clientIp(request);
+    const retryAfterMs = unlockRetryAfterMs(link, ip);
+    if (retryAfterMs > 0) {
+      return tooManyAttempts(retryAfterMs);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const password = typeof body?.password === "string" ? body.password : "";
+
+    if (!(await verifySharePassword(link, password))) {
+      await recordFailedUnlock(link, ip);
+      return NextResponse.json({ error: "Incorrect password" }, { status: 401 });
+    }
+    await clearFailedUnlocks(link);
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(`${SHARE_ACCESS_COOKIE_PREFIX}${link.id}`, shareAccessToken(link), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: `/share/${link.token}`,
+      expires: link.expiresAt,
+    });
+    return response;
+  } catch (error) {
+    console.error("Share unlock error:", error);
+    return NextResponse.json(
+      { error: "Failed to unlock share link" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleLedgerChanges, parseQboEvents, verifyQboSignature } from "@/lib/webhooks";
+
+// QuickBooks Online change notifications, signed with the app's verifier token
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+
+  if (!verifyQboSignature(rawBody, request.headers.get("intuit-signature"))) {
+    return new NextResponse(null, { status: 401 });
+  }
+
+  try {
+    const changes = parseQboEvents(JSON.parse(rawBody));
+    if (changes.length > 0) {
+      await handleLedgerChanges("QBO", changes);
+    }
+  } catch (error) {
+    // Still acknowledge so Intuit does not keep retrying; the scheduled
+    // ledger sync catches up on anything missed here
+    console.error("QBO webhook error:", error);
+  }
+
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleLedgerChanges, parseXeroEvents, verifyXeroSignature } from "@/lib/webhooks";
+
+// Xero change notifications. Xero expects an empty 200 for a correctly signed
+// payload and an empty 401 otherwise (also used for its intent-to-receive check).
+export async function POST(request: NextRequest) {
+  const rawBody = await request.text();
+
+  if (!verifyXeroSignature(rawBody, request.headers.get("x-xero-signature"))) {
+    return new NextResponse(null, { status: 401 });
+  }
+
+  try {
+    const changes = parseXeroEvents(JSON.parse(rawBody));
+    if (changes.length > 0) {
+      await handleLedgerChanges("XERO", changes);
+    }
+  } catch (error) {
+    // Still acknowledge: Xero disables webhooks that keep failing, and the
+    // scheduled ledger sync catches up on anything missed here
+    console.error("Xero webhook error:", error);
+  }
+
+  return new NextResponse(null, { status: 200 });
+}
@@ -23,6 +23,7 @@ import {
   ModalFooter,
   useDisclosure,
 } from "@nextui-org/react";
+import ConnectionHealthChip, { ConnectionHealth } from "./ConnectionHealthChip";
 
 interface User {
   id: string;
@@ -32,6 +33,7 @@ interface User {
   accountingService: string | null;
   createdAt: string;
   updatedAt: string;
+  connections?: Array<{ service: string; name: string; health: ConnectionHealth }>;
 }
 
 interface Announcement {
@@ -576,6 +578,7 @@ export default function AdminPanel() {
                   <TableColumn>NAME</TableColumn>
                   <TableColumn>EMAIL</TableColumn>
                   <TableColumn>ACCOUNTING SERVICE</TableColumn>
+                  <TableColumn>CONNECTION HEALTH</TableColumn>
                   <TableColumn>ROLE</TableColumn>
                   <TableColumn>CREATED</TableColumn>
                   <TableColumn>ACTIONS</TableColumn>
@@ -597,6 +600,20 @@ export default function AdminPanel() {
                           <span className="text-gray-500">Not connected</span>
                         )}
                       </TableCell>
+                      <TableCell>
+                        {user.connections && user.connections.length > 0 ? (
+                          <div className="flex flex-col gap-1">
+                            {user.connections.map((connection) => (
+                              <div key={`${connection.service}-${connection.name}`} className="flex items-center gap-2">
+                                <span className="text-xs text-gray-400">{connection.name}</span>
+                                <ConnectionHealthChip health={connection.health} />
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="text-gray-500">—</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         {user.isAdmin ? (
                           <Chip
@@ -0,0 +1,178 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import LineItemsModal from './LineItemsModal'
+import { currencyLocale, formatCurrency as formatMoney } from '@/lib/currency'
+
+export interface AgingDocumentRow {
+  id: string
+  number: string
+  contactName: string
+  date: string
+  dueDate: string
+  daysOverdue: number
+  bucket: string
+  total: number
+  amountDue: number
+  currency?: string
+  baseTotal: number
+  baseAmountDue: number
+  exchangeRate?: number
+  reference?: string
+  lineItems: any[]
+}
+
+interface AgingDocumentsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  title: string
+  subtitle?: string
+  documents: AgingDocumentRow[]
+  /** Organisation base currency */
+  currency?: string | null
+}
+
+export default function AgingDocumentsModal({
+  isOpen,
+  onClose,
+  title,
+  subtitle,
+  documents,
+  currency,
+}: AgingDocumentsModalProps) {
+  const [selectedDocument, setSelectedDocument] = useState<AgingDocumentRow | null>(null)
+
+  if (!isOpen) return null
+
+  const formatCurrency = (value: number, documentCurrency?: string) => {
+    return formatMoney(value, documentCurrency || currency, { locale: currencyLocale(currency) })
+  }
+
+  const isForeign = (document: AgingDocumentRow) => !!document.currency && !!currency && document.currency !== currency
+
+  const formatDate = (dateStr: string) => {
+    if (!dateStr) return ''
+    try {
+      return new Date(dateStr).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+      })
+    } catch {
+      return dateStr
+    }
+  }
+
+  const headerClass = 'py-3 px-4 text-sm font-semibold text-gray-400 uppercase tracking-wide'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-[#1D1D1D] rounded-3xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{title}</h2>
+            {subtitle && <p className="text-sm text-gray-400 mt-1">{subtitle}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {documents.length === 0 ? (
+            <div className="flex items-center justify-center h-64">
+              <p className="text-gray-400">Nothing outstanding in this bucket.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-white/10">
+                    <th className={`text-left ${headerClass}`}>#</th>
+                    <th className={`text-left ${headerClass}`}>Contact</th>
+                    <th className={`text-left ${headerClass}`}>Date</th>
+                    <th className={`text-left ${headerClass}`}>Due</th>
+                    <th className={`text-right ${headerClass}`}>Days overdue</th>
+                    <th className={`text-right ${headerClass}`}>Total</th>
+                    <th className={`text-right ${headerClass}`}>Due now</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {documents.map(document => (
+                    <tr
+                      key={document.id}
+                      className={`border-b border-white/5 transition-colors ${
+                        document.lineItems.length > 0 ? 'hover:bg-white/10 cursor-pointer' : 'hover:bg-white/5'
+                      }`}
+                      onClick={() => {
+                        if (document.lineItems.length > 0) {
+                          setSelectedDocument(document)
+                        }
+                      }}
+                    >
+                      <td className="py-3 px-4 text-sm text-gray-300">{document.number}</td>
+                      <td className="py-3 px-4 text-sm text-white font-medium">{document.contactName}</td>
+                      <td className="py-3 px-4 text-sm text-gray-300">{formatDate(document.date)}</td>
+                      <td className="py-3 px-4 text-sm text-gray-300">{formatDate(document.dueDate)}</td>
+                      <td className={`py-3 px-4 text-sm text-right ${document.daysOverdue > 0 ? 'text-red-400' : 'text-gray-300'}`}>
+                        {document.daysOverdue > 0 ? document.daysOverdue : '-'}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-right text-gray-300">{formatCurrency(document.total, document.currency)}</td>
+                      <td className="py-3 px-4 text-sm text-right font-semibold text-white">
+                        {formatCurrency(document.amountDue, document.currency)}
+                        {isForeign(document) && (
+                          <div className="text-xs font-normal text-gray-400">{formatCurrency(document.baseAmountDue)}</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 border-white/10">
+                    <td colSpan={6} className="py-4 px-4 text-right text-sm font-semibold text-white">
+                      Total:
+                    </td>
+                    <td className="py-4 px-4 text-right text-lg font-bold text-white">
+                      {formatCurrency(documents.reduce((sum, document) => sum + document.baseAmountDue, 0))}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-white/10 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-[#E8E7BB] text-[#1D1D1D] rounded-full font-medium hover:bg-[#d4d3a7] transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {/* Line Items Modal */}
+      {selectedDocument && (
+        <LineItemsModal
+          isOpen={true}
+          onClose={() => setSelectedDocument(null)}
+          lineItems={selectedDocument.lineItems}
+          invoiceNumber={selectedDocument.number}
+          contactName={selectedDocument.contactName}
+          date={selectedDocument.date}
+          currency={selectedDocument.currency}
+          baseCurrency={currency}
+          exchangeRate={selectedDocument.exchangeRate}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import AgingDocumentsModal, { AgingDocumentRow } from './AgingDocumentsModal'
+import { formatCurrency as formatMoney } from '@/lib/currency'
+
+type AgingType = 'receivables' | 'payables'
+
+const buckets = ['current', '1-30', '31-60', '61-90', '90+'] as const
+type Bucket = typeof buckets[number]
+
+const bucketLabels: Record<Bucket, string> = {
+  current: 'Current',
+  '1-30': '1-30 days',
+  '31-60': '31-60 days',
+  '61-90': '61-90 days',
+  '90+': '90+ days',
+}
+
+interface AgingContact {
+  contactId?: string
+  contactName: string
+  buckets: Record<Bucket, number>
+  total: number
+  documentCount: number
+}
+
+interface AgingReportData {
+  asOf: string
+  totals: Record<Bucket, number>
+  total: number
+  contacts: AgingContact[]
+  documents: Array<AgingDocumentRow & { contactId?: string }>
+  truncated: boolean
+}
+
+interface DaysOutstandingMonth {
+  month: string
+  dso: number | null
+  dpo: number | null
+}
+
+interface AgingReportProps {
+  /** Service to report on; omitted uses the user's default */
+  service?: string | null
+}
+
+export default function AgingReport({ service }: AgingReportProps) {
+  const [reports, setReports] = useState<Record<AgingType, AgingReportData | null>>({ receivables: null, payables: null })
+  const [history, setHistory] = useState<DaysOutstandingMonth[]>([])
+  const [currency, setCurrency] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [type, setType] = useState<AgingType>('receivables')
+  const [drillDown, setDrillDown] = useState<{ title: string; subtitle: string; documents: AgingDocumentRow[] } | null>(null)
+
+  useEffect(() => {
+    const fetchAging = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/dashboard/aging${service ? `?service=${service}` : ''}`)
+        if (response.ok) {
+          const data = await response.json()
+          setReports({ receivables: data.receivables, payables: data.payables })
+          setHistory(data.history || [])
+          setCurrency(data.currency || null)
+        } else {
+          setReports({ receivables: null, payables: null })
+          setHistory([])
+        }
+      } catch (error) {
+        console.error('Error fetching aging report:', error)
+        setReports({ receivables: null, payables: null })
+        setHistory([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchAging()
+  }, [service])
+
+  const formatCurrency = (value: number) => {
+    return formatMoney(value, currency, { decimals: 0 })
+  }
+
+  const report = reports[type]
+  const typeLabel = type === 'receivables' ? 'Receivables' : 'Payables'
+
+  const openDrillDown = (bucket: Bucket | null, contact?: AgingContact) => {
+    if (!report) return
+    const documents = report.documents.filter(document =>
+      (!bucket || document.bucket === bucket) &&
+      (!contact || (contact.contactId ? document.contactId === contact.contactId : document.contactName === contact.contactName))
+    )
+    setDrillDown({
+      title: contact ? contact.contactName : `${typeLabel}: ${bucket ? bucketLabels[bucket] : 'All'}`,
+      subtitle: contact
+        ? `${typeLabel}${bucket ? `, ${bucketLabels[bucket]}` : ''}`
+        : `As of ${new Date(`${report.asOf}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}`,
+      documents,
+    })
+  }
+
+  const chartData = history.map(month => ({
+    ...month,
+    label: new Date(`${month.month}T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
+  }))
+  const latest = history[history.length - 1]
+
+  const bucketColor = (bucket: Bucket) =>
+    bucket === 'current' ? 'text-green-400' : bucket === '1-30' ? 'text-amber-400' : 'text-red-400'
+
+  return (
+    <div className="group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 hover:border-orange-500/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-6">
+        <div>
+          <div className="flex items-center space-x-3 mb-2">
+            <div className="bg-orange-500/20 p-2.5 rounded-xl">
+              <div className="w-2 h-2 bg-orange-400 rounded-full"></div>
+            </div>
+            <h3 className="text-2xl font-bold text-white">Aging</h3>
+          </div>
+          <p className="text-sm text-gray-400 ml-12">
+            Open invoices and bills by days past due
+          </p>
+        </div>
+        <div className="flex items-center gap-1 bg-white/5 rounded-xl p-1 border border-white/10 self-start">
+          {(['receivables', 'payables'] as AgingType[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setType(option)}
+              className={`px-4 py-2 text-sm rounded-lg font-medium transition-all ${
+                type === option ? 'bg-[#E8E7BB] text-[#1D1D1D] shadow-lg' : 'text-gray-300 hover:text-white hover:bg-white/5'
+              }`}
+            >
+              {option === 'receivables' ? 'Receivables' : 'Payables'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-72">
+          <div className="text-sm text-gray-400">Loading aging...</div>
+        </div>
+      ) : !report ? (
+        <div className="flex items-center justify-center h-72">
+          <div className="text-sm text-gray-400">No aging data available</div>
+        </div>
+      ) : (
+        <>
+          {/* Bucket totals */}
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+            {buckets.map(bucket => (
+              <button
+                key={bucket}
+                onClick={() => openDrillDown(bucket)}
+                className="text-left bg-white/5 rounded-xl p-3 border border-white/10 hover:border-white/20 hover:bg-white/10 transition-colors"
+              >
+                <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold">{bucketLabels[bucket]}</p>
+                <p className={`text-lg font-bold mt-1 ${report.totals[bucket] > 0 ? bucketColor(bucket) : 'text-white'}`}>
+                  {formatCurrency(report.totals[bucket])}
+                </p>
+              </button>
+            ))}
+            <button
+              onClick={() => openDrillDown(null)}
+              className="text-left bg-white/5 rounded-xl p-3 border border-white/10 hover:border-white/20 hover:bg-white/10 transition-colors"
+            >
+              <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold">Total</p>
+              <p className="text-lg font-bold text-white mt-1">{formatCurrency(report.total)}</p>
+            </button>
+          </div>
+
+          {report.truncated && (
+            <p className="text-xs text-amber-400 mb-6">
+              There are more open {type === 'receivables' ? 'invoices' : 'bills'} than could be read, so these totals leave some of them out.
+            </p>
+          )}
+
+          {/* Per contact */}
+          {report.contacts.length === 0 ? (
+            <p className="text-sm text-gray-400 mb-6">No open {type === 'receivables' ? 'invoices' : 'bills'}.</p>
+          ) : (
+            <div className="overflow-x-auto max-h-80 overflow-y-auto mb-6">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-white/10">
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-400 uppercase tracking-wide">Contact</th>
+                    {buckets.map(bucket => (
+                      <th key={bucket} className="text-right py-2 px-3 text-xs font-semibold text-gray-400 uppercase tracking-wide">
+                        {bucketLabels[bucket]}
+                      </th>
+                    ))}
+                    <th className="text-right py-2 px-3 text-xs font-semibold text-gray-400 uppercase tracking-wide">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.contacts.map(contact => (
+                    <tr key={contact.contactId || contact.contactName} className="border-b border-white/5">
+                      <td className="py-2 px-3 text-sm text-white font-medium">{contact.contactName}</td>
+                      {buckets.map(bucket => (
+                        <td key={bucket} className="py-2 px-3 text-sm text-right">
+                          {contact.buckets[bucket] > 0 ? (
+                            <button
+                              onClick={() => openDrillDown(bucket, contact)}
+                              className={`${bucketColor(bucket)} hover:underline`}
+                            >
+                              {formatCurrency(contact.buckets[bucket])}
+                            </button>
+                          ) : (
+                            <span className="text-gray-600">-</span>
+                          )}
+                        </td>
+                      ))}
+                      <td className="py-2 px-3 text-sm text-right">
+                        <button onClick={() => openDrillDown(null, contact)} className="text-white font-semibold hover:underline">
+                          {formatCurrency(contact.total)}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* DSO / DPO trend */}
+          {history.length > 0 && (
+            <>
+              <div className="flex items-baseline gap-6 mb-3">
+                <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold">Days outstanding</p>
+                <p className="text-sm text-gray-300">
+                  DSO <span className="font-bold text-white">{latest?.dso ?? '-'}</span>
+                </p>
+                <p className="text-sm text-gray-300">
+                  DPO <span className="font-bold text-white">{latest?.dpo ?? '-'}</span>
+                </p>
+              </div>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 5, right: 30, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#ffffff08" vertical={false} />
+                    <XAxis dataKey="label" stroke="#6b7280" fontSize={12} tickLine={false} axisLine={false} />
+                    <YAxis stroke="#6b7280" fontSize={12} tickLine={false} axisLine={false} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '0.5rem' }}
+                      formatter={(value: any, name: string) => [value === null ? '-' : `${value} days`, name.toUpperCase()]}
+                    />
+                    <Legend formatter={(value: string) => value.toUpperCase()} />
+                    <Line type="monotone" dataKey="dso" stroke="#22c55e" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+                    <Line type="monotone" dataKey="dpo" stroke="#f97316" strokeWidth={2} dot={{ r: 3 }} connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      {drillDown && (
+        <AgingDocumentsModal
+          isOpen={true}
+          onClose={() => setDrillDown(null)}
+          title={drillDown.title}
+          subtitle={drillDown.subtitle}
+          documents={drillDown.documents}
+          currency={currency}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X, Plus, Trash2, Loader2 } from 'lucide-react'
+
+interface BudgetLineRow {
+  accountName: string
+  accountType: 'revenue' | 'expense'
+  month: string
+  amount: string
+}
+
+interface BudgetEditorModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved: (budgetId: string) => void
+  /** Budget to edit; a new manual budget is created when omitted */
+  budgetId?: string | null
+  service?: string | null
+  /** Account names offered as suggestions */
+  accountSuggestions?: string[]
+}
+
+function currentMonth() {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+}
+
+const emptyRow = (): BudgetLineRow => ({ accountName: '', accountType: 'expense', month: currentMonth(), amount: '' })
+
+export default function BudgetEditorModal({
+  isOpen,
+  onClose,
+  onSaved,
+  budgetId,
+  service,
+  accountSuggestions = [],
+}: BudgetEditorModalProps) {
+  const [name, setName] = useState('')
+  const [rows, setRows] = useState<BudgetLineRow[]>([emptyRow()])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const serviceQuery = service ? `?service=${service}` : ''
+
+  useEffect(() => {
+    if (!isOpen) {
+      return
+    }
+    setError(null)
+
+    if (!budgetId) {
+      setName('')
+      setRows([emptyRow()])
+      return
+    }
+
+    const fetchBudget = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/budgets/${budgetId}${serviceQuery}`)
+        if (!response.ok) {
+          throw new Error('Failed to load budget')
+        }
+        const { budget } = await response.json()
+        setName(budget.name)
+        setRows(budget.lines.map((line: any) => ({
+          accountName: line.accountName,
+          accountType: line.accountType,
+          month: String(line.month).slice(0, 7),
+          amount: String(line.amount),
+        })))
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load budget')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBudget()
+  }, [isOpen, budgetId, serviceQuery])
+
+  const updateRow = (index: number, changes: Partial<BudgetLineRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      const lines = rows
+        .filter(row => row.accountName.trim() || row.amount)
+        .map(row => ({ ...row, amount: parseFloat(row.amount) }))
+      const response = await fetch(budgetId ? `/api/budgets/${budgetId}${serviceQuery}` : '/api/budgets', {
+        method: budgetId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, lines, service }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save budget')
+      }
+      onSaved(data.budget.id)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budget')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClass = 'bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-[#E8E7BB]/50'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-[#1D1D1D] rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <h2 className="text-2xl font-bold text-white">{budgetId ? 'Edit Budget' : 'New Budget'}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <Loader2 className="w-8 h-8 text-[#E8E7BB] animate-spin" />
+            </div>
+          ) : (
+            <>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Budget name"
+                className={`${inputClass} w-full`}
+              />
+
+              <datalist id="budget-account-suggestions">
+                {accountSuggestions.map(account => (
+                  <option key={account} value={account} />
+                ))}
+              </datalist>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-12 gap-2 text-xs text-gray-400 uppercase tracking-wide px-1">
+                  <span className="col-span-5">Account</span>
+                  <span className="col-span-2">Type</span>
+                  <span className="col-span-2">Month</span>
+                  <span className="col-span-2">Amount</span>
+                </div>
+                {rows.map((row, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      value={row.accountName}
+                      onChange={(e) => updateRow(index, { accountName: e.target.value })}
+                      list="budget-account-suggestions"
+                      placeholder="Account name"
+                      className={`${inputClass} col-span-5`}
+                    />
+                    <select
+                      value={row.accountType}
+                      onChange={(e) => updateRow(index, { accountType: e.target.value as BudgetLineRow['accountType'] })}
+                      className={`${inputClass} col-span-2`}
+                    >
+                      <option value="expense">Expense</option>
+                      <option value="revenue">Revenue</option>
+                    </select>
+                    <input
+                      type="month"
+                      value={row.month}
+                      onChange={(e) => updateRow(index, { month: e.target.value })}
+                      className={`${inputClass} col-span-2`}
+                    />
+                    <input
+                      type="number"
+                      value={row.amount}
+                      onChange={(e) => updateRow(index, { amount: e.target.value })}
+                      placeholder="0"
+                      className={`${inputClass} col-span-2`}
+                    />
+                    <button
+                      onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                      className="col-span-1 p-2 rounded-lg text-gray-400 hover:text-red-400 hover:bg-white/5 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={() => setRows([...rows, { ...emptyRow(), month: rows[rows.length - 1]?.month || currentMonth() }])}
+                className="flex items-center gap-2 text-sm text-[#E8E7BB] hover:text-white transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add line
+              </button>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 p-6 border-t border-white/10">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-full text-gray-300 hover:text-white hover:bg-white/5 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="px-4 py-2 bg-[#E8E7BB] text-[#1D1D1D] rounded-full font-medium hover:bg-[#d4d3a7] transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Budget'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,380 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts'
+import { Upload, Plus, Pencil, Trash2, Download } from 'lucide-react'
+import BudgetEditorModal from './BudgetEditorModal'
+import { formatCurrency as formatMoney, formatCompactCurrency } from '@/lib/currency'
+
+interface BudgetSummary {
+  id: string
+  name: string
+  source: 'xero' | 'csv' | 'manual'
+  lineCount: number
+}
+
+interface Variance {
+  budget: number
+  actual: number
+  variance: number
+  variancePercent: number | null
+  favourable: boolean
+}
+
+interface AccountVariance extends Variance {
+  accountName: string
+  accountCode: string | null
+  accountType: 'revenue' | 'expense'
+}
+
+interface BudgetComparison {
+  revenue: Variance
+  expenses: Variance
+  months: Array<{
+    label: string
+    revenueBudget: number
+    revenueActual: number
+    expenseBudget: number
+    expenseActual: number
+  }>
+  accounts: AccountVariance[]
+  currency?: string
+}
+
+interface BudgetVsActualProps {
+  service?: string | null
+  timeframe: string
+  fromDate?: string
+  toDate?: string
+  /** Opens the transactions behind an expense account */
+  onAccountClick?: (accountName: string) => void
+  accountSuggestions?: string[]
+}
+
+const sourceLabels: Record<BudgetSummary['source'], string> = {
+  xero: 'Imported from Xero',
+  csv: 'Uploaded CSV',
+  manual: 'Entered manually',
+}
+
+export default function BudgetVsActual({
+  service,
+  timeframe,
+  fromDate,
+  toDate,
+  onAccountClick,
+  accountSuggestions,
+}: BudgetVsActualProps) {
+  const [budgets, setBudgets] = useState<BudgetSummary[]>([])
+  const [selectedBudgetId, setSelectedBudgetId] = useState<string | null>(null)
+  const [comparison, setComparison] = useState<BudgetComparison | null>(null)
+  const [loadingBudgets, setLoadingBudgets] = useState(true)
+  const [loadingComparison, setLoadingComparison] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingBudgetId, setEditingBudgetId] = useState<string | null>(null)
+  // Bumped after budgets change so the comparison reloads
+  const [reloadKey, setReloadKey] = useState(0)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const serviceParam = service ? `service=${service}` : ''
+
+  const fetchBudgets = useCallback(async (selectId?: string) => {
+    setLoadingBudgets(true)
+    try {
+      const response = await fetch(`/api/budgets${serviceParam ? `?${serviceParam}` : ''}`)
+      if (response.ok) {
+        const data = await response.json()
+        const list: BudgetSummary[] = data.budgets || []
+        setBudgets(list)
+        setReloadKey(key => key + 1)
+        setSelectedBudgetId(current => {
+          const preferred = selectId || current
+          return list.some(budget => budget.id === preferred) ? preferred! : list[0]?.id ?? null
+        })
+      }
+    } catch (err) {
+      console.error('Error fetching budgets:', err)
+    } finally {
+      setLoadingBudgets(false)
+    }
+  }, [serviceParam])
+
+  useEffect(() => {
+    fetchBudgets()
+  }, [fetchBudgets])
+
+  useEffect(() => {
+    if (!selectedBudgetId) {
+      setComparison(null)
+      return
+    }
+
+    const fetchComparison = async () => {
+      setLoadingComparison(true)
+      try {
+        const params = new URLSearchParams({ budgetId: selectedBudgetId, timeframe })
+        if (fromDate && toDate) {
+          params.set('fromDate', fromDate)
+          params.set('toDate', toDate)
+        }
+        if (service) {
+          params.set('service', service)
+        }
+        const response = await fetch(`/api/dashboard/budget?${params.toString()}`)
+        setComparison(response.ok ? await response.json() : null)
+      } catch (err) {
+        console.error('Error fetching budget vs actual:', err)
+        setComparison(null)
+      } finally {
+        setLoadingComparison(false)
+      }
+    }
+
+    fetchComparison()
+  }, [selectedBudgetId, timeframe, fromDate, toDate, service, reloadKey])
+
+  const runImport = async (body: Record<string, unknown>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/budgets/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, service }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed')
+      }
+      if (data.budgets?.length === 0) {
+        setError('No budgets were found in Xero')
+      }
+      await fetchBudgets(data.budgets?.[0]?.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCsvSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+    await runImport({ source: 'csv', name: file.name.replace(/\.csv$/i, ''), csv: await file.text() })
+  }
+
+  const handleDelete = async () => {
+    const budget = budgets.find(candidate => candidate.id === selectedBudgetId)
+    if (!budget || !confirm(`Delete the budget "${budget.name}"?`)) {
+      return
+    }
+    try {
+      await fetch(`/api/budgets/${budget.id}${serviceParam ? `?${serviceParam}` : ''}`, { method: 'DELETE' })
+      await fetchBudgets()
+    } catch (err) {
+      console.error('Error deleting budget:', err)
+    }
+  }
+
+  const formatCurrency = (value: number) => {
+    return formatMoney(value, comparison?.currency, { decimals: 0 })
+  }
+
+  const varianceChip = (variance: Variance) => (
+    <span
+      className={`text-xs font-medium px-2 py-1 rounded-full ${
+        variance.favourable
+          ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+          : 'bg-red-500/20 text-red-400 border border-red-500/30'
+      }`}
+    >
+      {variance.variance >= 0 ? '+' : ''}{formatCurrency(variance.variance)}
+      {variance.variancePercent !== null && ` (${variance.variancePercent >= 0 ? '+' : ''}${variance.variancePercent.toFixed(1)}%)`}
+    </span>
+  )
+
+  const selectedBudget = budgets.find(budget => budget.id === selectedBudgetId)
+  const actionClass = 'flex items-center gap-2 px-3 py-2 text-sm rounded-lg text-gray-300 bg-white/5 border border-white/10 hover:text-white hover:bg-white/10 transition-all disabled:opacity-50'
+
+  return (
+    <div className="group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 hover:border-[#E8E7BB]/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-6">
+        <div>
+          <div className="flex items-center space-x-3 mb-2">
+            <div className="bg-[#E8E7BB]/20 p-2.5 rounded-xl">
+              <div className="w-2 h-2 bg-[#E8E7BB] rounded-full"></div>
+            </div>
+            <h3 className="text-2xl font-bold text-white">Budget vs Actual</h3>
+          </div>
+          <p className="text-sm text-gray-400 ml-12">
+            {selectedBudget ? sourceLabels[selectedBudget.source] : 'Import or create a budget to compare against actuals'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {budgets.length > 0 && (
+            <select
+              value={selectedBudgetId ?? ''}
+              onChange={(e) => setSelectedBudgetId(e.target.value)}
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none"
+            >
+              {budgets.map(budget => (
+                <option key={budget.id} value={budget.id} className="bg-[#1D1D1D]">
+                  {budget.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {selectedBudget && (
+            <>
+              <button
+                onClick={() => {
+                  setEditingBudgetId(selectedBudget.id)
+                  setEditorOpen(true)
+                }}
+                className={actionClass}
+                title="Edit budget"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={handleDelete} className={actionClass} title="Delete budget">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+          {service === 'XERO' && (
+            <button onClick={() => runImport({ source: 'xero' })} disabled={busy} className={actionClass}>
+              <Download className="w-4 h-4" />
+              Import from Xero
+            </button>
+          )}
+          <button onClick={() => fileInputRef.current?.click()} disabled={busy} className={actionClass}>
+            <Upload className="w-4 h-4" />
+            Upload CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvSelected} />
+          <button
+            onClick={() => {
+              setEditingBudgetId(null)
+              setEditorOpen(true)
+            }}
+            className={actionClass}
+          >
+            <Plus className="w-4 h-4" />
+            New
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-500/10 rounded-xl border border-red-500/30 text-sm text-red-400">{error}</div>
+      )}
+
+      {loadingBudgets || loadingComparison ? (
+        <div className="flex items-center justify-center h-48">
+          <div className="text-sm text-gray-400">Loading budget data...</div>
+        </div>
+      ) : !comparison ? (
+        <div className="flex items-center justify-center h-48">
+          <div className="text-sm text-gray-400 text-center">
+            No budget yet. Upload a CSV with <code>account</code>, <code>month</code> and <code>amount</code> columns,
+            or enter one manually.
+          </div>
+        </div>
+      ) : comparison.accounts.length === 0 ? (
+        <div className="flex items-center justify-center h-48">
+          <div className="text-sm text-gray-400">This budget has no lines in the selected period</div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            {([['Revenue', comparison.revenue], ['Expenses', comparison.expenses]] as const).map(([label, variance]) => (
+              <div key={label} className="p-4 bg-white/5 rounded-xl border border-white/10">
+                <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold mb-2">{label}</p>
+                <div className="flex items-end justify-between gap-2">
+                  <div>
+                    <p className="text-xl font-bold text-white">{formatCurrency(variance.actual)}</p>
+                    <p className="text-xs text-gray-500">of {formatCurrency(variance.budget)} budgeted</p>
+                  </div>
+                  {varianceChip(variance)}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-72 mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={comparison.months} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#ffffff08" vertical={false} />
+                <XAxis dataKey="label" stroke="#6b7280" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis
+                  stroke="#6b7280"
+                  fontSize={12}
+                  tickFormatter={(value) => formatCompactCurrency(value, comparison?.currency)}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <Tooltip
+                  formatter={(value: number) => formatCurrency(value)}
+                  contentStyle={{ backgroundColor: '#fff', borderRadius: 8, border: '1px solid #e5e7eb' }}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Bar dataKey="revenueBudget" name="Revenue budget" fill="#E8E7BB" fillOpacity={0.4} radius={[4, 4, 0, 0]} />
+                <Bar dataKey="revenueActual" name="Revenue actual" fill="#E8E7BB" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="expenseBudget" name="Expense budget" fill="#ef4444" fillOpacity={0.4} radius={[4, 4, 0, 0]} />
+                <Bar dataKey="expenseActual" name="Expense actual" fill="#ef4444" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-white/10 text-left text-xs text-gray-400 uppercase">
+                  <th className="py-2 pr-4">Account</th>
+                  <th className="py-2 pr-4 text-right">Budget</th>
+                  <th className="py-2 pr-4 text-right">Actual</th>
+                  <th className="py-2 pr-4 text-right">Variance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.accounts.map(account => {
+                  const clickable = account.accountType === 'expense' && !!onAccountClick
+                  return (
+                    <tr
+                      key={account.accountName}
+                      onClick={clickable ? () => onAccountClick!(account.accountName) : undefined}
+                      className={`border-b border-white/5 text-gray-300 ${clickable ? 'cursor-pointer hover:bg-white/5' : ''}`}
+                    >
+                      <td className="py-2 pr-4">
+                        {account.accountName}
+                        <span className="ml-2 text-xs text-gray-500 capitalize">{account.accountType}</span>
+                      </td>
+                      <td className="py-2 pr-4 text-right">{formatCurrency(account.budget)}</td>
+                      <td className="py-2 pr-4 text-right">{formatCurrency(account.actual)}</td>
+                      <td className="py-2 pr-4 text-right">{varianceChip(account)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <BudgetEditorModal
+        isOpen={editorOpen}
+        onClose={() => setEditorOpen(false)}
+        onSaved={(budgetId) => fetchBudgets(budgetId)}
+        budgetId={editingBudgetId}
+        service={service}
+        accountSuggestions={accountSuggestions}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { formatCurrency as formatMoney, formatCompactCurrency } from '@/lib/currency'
+
+interface ForecastWeek {
+  weekStart: string
+  weekEnd: string
+  openingBalance: number
+  receipts: number
+  billPayments: number
+  recurringPayments: number
+  closingBalance: number
+}
+
+interface CashForecast {
+  openingBalance: number
+  weeks: ForecastWeek[]
+  lowestBalance: number
+  lowestBalanceWeek: string
+  cashOutWeek: string | null
+  openReceivables: { count: number; total: number; overdue: number; truncated: boolean }
+  openPayables: { count: number; total: number; overdue: number; truncated: boolean }
+  recurring: Array<{ name: string; frequency: string; amount: number }>
+}
+
+interface CashForecastChartProps {
+  /** Service to forecast; omitted uses the user's default */
+  service?: string | null
+}
+
+const delayOptions = [0, 15, 30]
+
+// Which open document lists were cut off at the page limit
+function truncatedDocuments(forecast: CashForecast) {
+  return [forecast.openReceivables.truncated && 'invoices', forecast.openPayables.truncated && 'bills']
+    .filter(Boolean)
+    .join(' and ')
+}
+
+function formatWeek(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+export default function CashForecastChart({ service }: CashForecastChartProps) {
+  const [forecast, setForecast] = useState<CashForecast | null>(null)
+  const [currency, setCurrency] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [customerDelayDays, setCustomerDelayDays] = useState(0)
+  const [supplierDelayDays, setSupplierDelayDays] = useState(0)
+  const [excludeOverdueReceivables, setExcludeOverdueReceivables] = useState(false)
+  const [includeRecurring, setIncludeRecurring] = useState(true)
+
+  useEffect(() => {
+    const fetchForecast = async () => {
+      setLoading(true)
+      try {
+        const params = new URLSearchParams({
+          customerDelayDays: String(customerDelayDays),
+          supplierDelayDays: String(supplierDelayDays),
+          excludeOverdueReceivables: String(excludeOverdueReceivables),
+          includeRecurring: String(includeRecurring),
+        })
+        if (service) {
+          params.set('service', service)
+        }
+        const response = await fetch(`/api/dashboard/forecast?${params.toString()}`)
+        if (response.ok) {
+          const data = await response.json()
+          setForecast(data.forecast)
+          setCurrency(data.currency || null)
+        } else {
+          setForecast(null)
+        }
+      } catch (error) {
+        console.error('Error fetching cash forecast:', error)
+        setForecast(null)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchForecast()
+  }, [service, customerDelayDays, supplierDelayDays, excludeOverdueReceivables, includeRecurring])
+
+  const formatCurrency = (value: number) => {
+    return formatMoney(value, currency, { decimals: 0 })
+  }
+
+  const chartData = (forecast?.weeks || []).map(week => ({
+    ...week,
+    week: formatWeek(week.weekStart),
+    // Payments are drawn below the axis
+    payments: -(week.billPayments + week.recurringPayments),
+  }))
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload
+      return (
+        <div className="bg-white border border-gray-200 rounded-lg p-3 shadow-lg">
+          <p className="text-sm font-medium text-[#1D1D1D] mb-2">Week of {label}</p>
+          <p className="text-sm font-semibold text-blue-600 mb-1">
+            Closing balance: {formatCurrency(data.closingBalance)}
+          </p>
+          <p className="text-xs text-gray-500 mb-0.5">Receipts: {formatCurrency(data.receipts)}</p>
+          <p className="text-xs text-gray-500 mb-0.5">Bills: {formatCurrency(data.billPayments)}</p>
+          <p className="text-xs text-gray-500">Recurring: {formatCurrency(data.recurringPayments)}</p>
+        </div>
+      )
+    }
+    return null
+  }
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 text-xs rounded-lg font-medium transition-all ${
+      active ? 'bg-[#E8E7BB] text-[#1D1D1D] shadow-lg' : 'text-gray-300 hover:text-white hover:bg-white/5'
+    }`
+
+  return (
+    <div className="group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 hover:border-purple-500/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg">
+      <div className="mb-6">
+        <div className="flex items-center space-x-3 mb-2">
+          <div className="bg-purple-500/20 p-2.5 rounded-xl">
+            <div className="w-2 h-2 bg-purple-400 rounded-full"></div>
+          </div>
+          <h3 className="text-2xl font-bold text-white">13-Week Cash Forecast</h3>
+        </div>
+        <p className="text-sm text-gray-400 ml-12">
+          Current bank balance plus open invoices, open bills and recurring expenses
+        </p>
+      </div>
+
+      {/* Scenario toggles */}
+      <div className="flex flex-wrap gap-3 mb-6">
+        <div className="flex items-center gap-1 bg-white/5 rounded-xl p-1 border border-white/10">
+          <span className="text-xs text-gray-400 px-2">Customers pay late</span>
+          {delayOptions.map(days => (
+            <button key={days} onClick={() => setCustomerDelayDays(days)} className={toggleClass(customerDelayDays === days)}>
+              {days === 0 ? 'On time' : `+${days}d`}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 bg-white/5 rounded-xl p-1 border border-white/10">
+          <span className="text-xs text-gray-400 px-2">We pay suppliers late</span>
+          {delayOptions.map(days => (
+            <button key={days} onClick={() => setSupplierDelayDays(days)} className={toggleClass(supplierDelayDays === days)}>
+              {days === 0 ? 'On time' : `+${days}d`}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setExcludeOverdueReceivables(!excludeOverdueReceivables)}
+          className={`${toggleClass(excludeOverdueReceivables)} border border-white/10`}
+        >
+          Exclude overdue invoices
+        </button>
+        <button
+          onClick={() => setIncludeRecurring(!includeRecurring)}
+          className={`${toggleClass(includeRecurring)} border border-white/10`}
+        >
+          Recurring expenses
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-72">
+          <div className="text-sm text-gray-400">Loading forecast...</div>
+        </div>
+      ) : !forecast ? (
+        <div className="flex items-center justify-center h-72">
+          <div className="text-sm text-gray-400">No forecast available</div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+            <div>
+              <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold">Cash today</p>
+              <p className="text-xl font-bold text-white mt-1">{formatCurrency(forecast.openingBalance)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold">Lowest point</p>
+              <p className={`text-xl font-bold mt-1 ${forecast.lowestBalance < 0 ? 'text-red-400' : 'text-white'}`}>
+                {formatCurrency(forecast.lowestBalance)}
+              </p>
+              <p className="text-xs text-gray-500">Week of {formatWeek(forecast.lowestBalanceWeek)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold">Runs out</p>
+              <p className={`text-xl font-bold mt-1 ${forecast.cashOutWeek ? 'text-red-400' : 'text-green-400'}`}>
+                {forecast.cashOutWeek ? `Week of ${formatWeek(forecast.cashOutWeek)}` : 'Not within 13 weeks'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold">Open AR / AP</p>
+              <p className="text-xl font-bold text-white mt-1">
+                {formatCurrency(forecast.openReceivables.total)} / {formatCurrency(forecast.openPayables.total)}
+              </p>
+            </div>
+          </div>
+
+          {(forecast.openReceivables.truncated || forecast.openPayables.truncated) && (
+            <p className="text-xs text-amber-400 mb-4">
+              There are more open {truncatedDocuments(forecast)} than could be read, so the forecast leaves some of them out.
+            </p>
+          )}
+
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#ffffff08" vertical={false} />
+                <XAxis dataKey="week" stroke="#6b7280" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis
+                  stroke="#6b7280"
+                  fontSize={12}
+                  tickFormatter={(value) => formatCompactCurrency(value, currency)}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <Tooltip content={<CustomTooltip />} />
+                <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
+                <Bar dataKey="receipts" fill="#22c55e" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="payments" fill="#ef4444" radius={[0, 0, 4, 4]} />
+                <Line
+                  type="monotone"
+                  dataKey="closingBalance"
+                  stroke="#a855f7"
+                  strokeWidth={3}
+                  dot={{ fill: '#a855f7', strokeWidth: 2, r: 4 }}
+                  activeDot={{ r: 6, stroke: '#a855f7', strokeWidth: 2 }}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {includeRecurring && forecast.recurring.length > 0 && (
+            <div className="mt-6">
+              <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold mb-2">Recurring expenses detected</p>
+              <div className="flex flex-wrap gap-2">
+                {forecast.recurring.slice(0, 8).map(expense => (
+                  <span
+                    key={expense.name}
+                    className="text-xs text-gray-300 bg-white/5 px-3 py-1.5 rounded-full border border-white/10"
+                  >
+                    {expense.name}: {formatCurrency(expense.amount)} {expense.frequency}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { AlertTriangle } from "lucide-react";
+import { ConnectionHealth, needsReconnect } from "./ConnectionHealthChip";
+
+interface OrganisationHealth {
+  service: 'QBO' | 'XERO';
+  id: string;
+  name: string;
+  health: ConnectionHealth;
+}
+
+/**
+ * Prompts the user to reconnect organisations whose tokens are expiring,
+ * revoked or failing to refresh, before the dashboard stops loading
+ */
+export default function ConnectionHealthBanner() {
+  const [unhealthy, setUnhealthy] = useState<OrganisationHealth[]>([]);
+
+  useEffect(() => {
+    const fetchHealth = async () => {
+      try {
+        const response = await fetch('/api/profile/organisations');
+        if (response.ok) {
+          const data = await response.json();
+          setUnhealthy(
+            (data.organisations || []).filter((org: OrganisationHealth) => needsReconnect(org.health))
+          );
+        }
+      } catch (error) {
+        console.error('Error fetching connection health:', error);
+      }
+    };
+
+    fetchHealth();
+  }, []);
+
+  if (unhealthy.length === 0) {
+    return null;
+  }
+
+  const broken = unhealthy.some((org) => org.health === 'revoked' || org.health === 'error');
+
+  return (
+    <div className={`flex items-center justify-between gap-4 rounded-2xl px-6 py-4 border ${
+      broken ? 'bg-red-500/10 border-red-500/30' : 'bg-amber-500/10 border-amber-500/30'
+    }`}>
+      <div className="flex items-center gap-3">
+        <AlertTriangle className={`w-5 h-5 shrink-0 ${broken ? 'text-red-400' : 'text-amber-400'}`} />
+        <p className="text-sm text-gray-200">
+          Your connection to{' '}
+          <span className="font-semibold text-white">{unhealthy.map((org) => org.name).join(', ')}</span>
+          {broken ? ' has stopped working. Reconnect to keep your data up to date.' : ' expires soon. Reconnect now to avoid interruptions.'}
+        </p>
+      </div>
+      <Link
+        href="/profile"
+        className="shrink-0 px-4 py-2 text-sm rounded-lg font-medium bg-[#E8E7BB] text-[#1D1D1D] hover:bg-[#d4d3a7] transition-all"
+      >
+        Reconnect
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { Chip } from "@nextui-org/react";
+
+export type ConnectionHealth = "ok" | "expiring" | "revoked" | "error";
+
+const healthStyles: Record<ConnectionHealth, { label: string; className: string }> = {
+  ok: {
+    label: "Healthy",
+    className: "bg-green-500/20 text-green-400 border border-green-500/30",
+  },
+  expiring: {
+    label: "Expiring soon",
+    className: "bg-amber-500/20 text-amber-400 border border-amber-500/30",
+  },
+  revoked: {
+    label: "Disconnected",
+    className: "bg-red-500/20 text-red-400 border border-red-500/30",
+  },
+  error: {
+    label: "Refresh failing",
+    className: "bg-red-500/20 text-red-400 border border-red-500/30",
+  },
+};
+
+/**
+ * Whether a connection needs the user to reconnect it
+ */
+export function needsReconnect(health: ConnectionHealth): boolean {
+  return health !== "ok";
+}
+
+export default function ConnectionHealthChip({ health }: { health: ConnectionHealth }) {
+  const style = healthStyles[health] || healthStyles.error;
+  return (
+    <Chip size="sm" className={style.className}>
+      {style.label}
+    </Chip>
+  );
+}
@@ -13,19 +13,72 @@ import {
   Download,
   ArrowUpDown,
   ArrowUp,
-  ArrowDown
+  ArrowDown,
+  RefreshCw
 } from 'lucide-react';
 import RevenueExpensesChart from "./RevenueExpensesChart";
 import ExpenseBreakdownChart from "./ExpenseBreakdownChart";
+import FinancialCard from "./FinancialCard";
 import NetProfitTrendChart from "./NetProfitTrendChart";
+import CashForecastChart from "./CashForecastChart";
+import AgingReport from "./AgingReport";
+import BudgetVsActual from "./BudgetVsActual";
 import ExpenseDetailModal from "./ExpenseDetailModal";
+import TransactionDrillDownModal, { DrillDownMetric } from "./TransactionDrillDownModal";
 import FinancialInsightPopup from "./FinancialInsightPopup";
 import AnnouncementPopup from "./AnnouncementPopup";
+import OrganisationSwitcher from "./OrganisationSwitcher";
+import ProviderComparison from "./ProviderComparison";
+import ConnectionHealthBanner from "./ConnectionHealthBanner";
+import { formatCurrency as formatMoney } from "@/lib/currency";
 
 interface DashboardContentProps {
   session: Session;
 }
 
+// Which connected service the dashboard reads from, or both side by side
+type DashboardSource = 'QBO' | 'XERO' | 'COMBINED';
+
+const serviceLabels: Record<DashboardSource, string> = {
+  XERO: 'Xero',
+  QBO: 'QuickBooks',
+  COMBINED: 'Combined',
+};
+
+// What the KPI tiles and expense breakdown are compared against
+type ComparisonMode = 'previous' | 'last_year' | 'custom';
+
+const comparisonModes: Array<{ value: ComparisonMode; label: string }> = [
+  { value: 'previous', label: 'Previous period' },
+  { value: 'last_year', label: 'Last year' },
+  { value: 'custom', label: 'Custom' },
+];
+
+type DashboardTimeframe = 'YEAR' | 'QUARTER' | 'FYTD' | 'MONTH' | 'L12' | 'CUSTOM';
+
+// Preset timeframes; YEAR, QUARTER and FYTD follow the organisation's financial year
+const presetTimeframes: Array<{ value: Exclude<DashboardTimeframe, 'CUSTOM'>; label: string }> = [
+  { value: 'MONTH', label: 'MTD' },
+  { value: 'QUARTER', label: 'QTD' },
+  { value: 'FYTD', label: 'FYTD' },
+  { value: 'YEAR', label: 'FY' },
+  { value: 'L12', label: 'L12M' },
+];
+
+// Helper function to compute the from/to dates for a timeframe. Only custom
+// ranges are dated here; presets are resolved by the API against the
+// organisation's financial year end.
+function getTimeframeDates(
+  timeframe: DashboardTimeframe,
+  customFromDate: string,
+  customToDate: string
+): { fromDate?: string; toDate?: string } {
+  if (timeframe !== 'CUSTOM' || !customFromDate || !customToDate) {
+    return {};
+  }
+  return { fromDate: customFromDate, toDate: customToDate };
+}
+
 // Helper function to combine monthly expense breakdowns into a single aggregated breakdown
 function combineMonthlyExpenseBreakdowns(
   trendData: Array<{ month: string; revenue: number; expenses: number; expenseBreakdown?: Array<{ name: string; value: number; percentage: number }> }>
@@ -67,9 +120,12 @@ export default function DashboardContent({ session: initialSession }: DashboardC
   const [loading, setLoading] = useState(true);
   const [loadingMonthly, setLoadingMonthly] = useState(true);
   const [loadingPrevious, setLoadingPrevious] = useState(true);
-  const [timeframe, setTimeframe] = useState<'YEAR' | 'MONTH' | 'CUSTOM' | 'L12'>('YEAR');
+  const [timeframe, setTimeframe] = useState<DashboardTimeframe>('YEAR');
   const [customFromDate, setCustomFromDate] = useState<string>('');
   const [customToDate, setCustomToDate] = useState<string>('');
+  const [selectedSource, setSelectedSource] = useState<DashboardSource | null>(
+    (currentSession.user.accountingService as DashboardSource | null) ?? null
+  );
   const [sortField, setSortField] = useState<'name' | 'value' | 'percentage'>('value');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [selectedExpense, setSelectedExpense] = useState<string | null>(null);
@@ -79,6 +135,19 @@ export default function DashboardContent({ session: initialSession }: DashboardC
   const [showInsightsPopup, setShowInsightsPopup] = useState(false);
   const [announcements, setAnnouncements] = useState<any[]>([]);
   const [currentAnnouncementIndex, setCurrentAnnouncementIndex] = useState(0);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('previous');
+  const [compareFromDate, setCompareFromDate] = useState<string>('');
+  const [compareToDate, setCompareToDate] = useState<string>('');
+  const [comparisonData, setComparisonData] = useState<any>(null);
+  const [drillDown, setDrillDown] = useState<{
+    metric: DrillDownMetric;
+    fromDate: string;
+    toDate: string;
+    periodLabel?: string;
+  } | null>(null);
   
   // Check sessionStorage after mount to avoid hydration mismatch
   useEffect(() => {
@@ -93,6 +162,16 @@ export default function DashboardContent({ session: initialSession }: DashboardC
   }, []);
   const isFetchingRef = useRef(false);
 
+  const connectedServices = currentSession.user.connectedServices ?? [];
+  const defaultService = currentSession.user.accountingService;
+  const isCombined = selectedSource === 'COMBINED';
+  const serviceQuery = selectedSource && !isCombined ? `&service=${selectedSource}` : '';
+
+  // Follow the default service when it changes (e.g. after disconnecting one)
+  useEffect(() => {
+    setSelectedSource((defaultService as DashboardSource | null) ?? null);
+  }, [defaultService]);
+
   const fetchDashboardData = useCallback(async () => {
     // Prevent duplicate calls
     // if (isFetchingRef.current) {
@@ -104,6 +183,11 @@ export default function DashboardContent({ session: initialSession }: DashboardC
       return;
     }
 
+    // The combined view fetches its own data
+    if (isCombined) {
+      return;
+    }
+
     isFetchingRef.current = true;
     try {
       setLoading(true);
@@ -111,36 +195,10 @@ export default function DashboardContent({ session: initialSession }: DashboardC
       setLoadingPrevious(true);
       
       // Compute from/to dates for stats and monthly endpoints
-      let fromDateStr: string | undefined;
-      let toDateStr: string | undefined;
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      const currentMonth = now.getMonth();
-
-      if (timeframe === 'CUSTOM') {
-        if (!customFromDate || !customToDate) {
-          return;
-        }
-        fromDateStr = customFromDate;
-        toDateStr = customToDate;
-      } else if (timeframe === 'YEAR') {
-        fromDateStr = `${currentYear}-01-01`;
-        toDateStr = `${currentYear}-12-31`;
-      } else if (timeframe === 'MONTH') {
-        const monthStart = new Date(currentYear, currentMonth, 1);
-        const monthEnd = new Date(currentYear, currentMonth + 1, 0);
-        fromDateStr = monthStart.toISOString().split('T')[0];
-        toDateStr = monthEnd.toISOString().split('T')[0];
-      } else if (timeframe === 'L12') {
-        // Last 12 months (including current month)
-        const start = new Date(now.getFullYear(), now.getMonth() - 11, 1);
-        const end = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-        fromDateStr = start.toISOString().split('T')[0];
-        toDateStr = end.toISOString().split('T')[0];
-      }
+      const { fromDate: fromDateStr, toDate: toDateStr } = getTimeframeDates(timeframe, customFromDate, customToDate);
 
       // Build query string with optional date parameters
-      let statsUrl = `/api/dashboard/stats?timeframe=${timeframe}`;
+      let statsUrl = `/api/dashboard/stats?timeframe=${timeframe}${serviceQuery}`;
       if (fromDateStr && toDateStr) {
         statsUrl += `&fromDate=${fromDateStr}&toDate=${toDateStr}`;
       }
@@ -160,8 +218,11 @@ export default function DashboardContent({ session: initialSession }: DashboardC
       setLoading(false);
 
       // Fetch monthly trend data (slower - multiple API calls with rate limiting)
-      if (fromDateStr && toDateStr) {
-        const monthlyResponse = await fetch(`/api/dashboard/monthly?fromDate=${fromDateStr}&toDate=${toDateStr}`);
+      // over the range the stats endpoint resolved
+      const trendFrom = fromDateStr || statsData?.timeframe?.from;
+      const trendTo = toDateStr || statsData?.timeframe?.to;
+      if (trendFrom && trendTo) {
+        const monthlyResponse = await fetch(`/api/dashboard/monthly?fromDate=${trendFrom}&toDate=${trendTo}${serviceQuery}`);
         if (monthlyResponse.ok) {
           const monthlyData = await monthlyResponse.json();
           
@@ -188,7 +249,7 @@ export default function DashboardContent({ session: initialSession }: DashboardC
       if (statsResponse.ok && statsData) {
         const timeframeData = statsData.timeframe;
         if (timeframeData?.from && timeframeData?.to) {
-          let previousUrl = `/api/dashboard/previous?timeframe=${timeframe}&fromDate=${timeframeData.from}&toDate=${timeframeData.to}`;
+          let previousUrl = `/api/dashboard/previous?timeframe=${timeframe}&fromDate=${timeframeData.from}&toDate=${timeframeData.to}${serviceQuery}`;
           const previousResponse = await fetch(previousUrl);
           if (previousResponse.ok) {
             const previousData = await previousResponse.json();
@@ -208,7 +269,7 @@ export default function DashboardContent({ session: initialSession }: DashboardC
     } finally {
       isFetchingRef.current = false;
     }
-  }, [timeframe, customFromDate, customToDate]);
+  }, [timeframe, customFromDate, customToDate, isCombined, serviceQuery]);
 
   useEffect(() => {
     // Only auto-fetch for MTD and YTD, not for CUSTOM
@@ -221,6 +282,40 @@ export default function DashboardContent({ session: initialSession }: DashboardC
     console.log(dashboardData);
   }, [dashboardData]);
 
+  // Compare the loaded period with the selected one once the stats have resolved its dates
+  const periodFrom = dashboardData?.timeframe?.from;
+  const periodTo = dashboardData?.timeframe?.to;
+  useEffect(() => {
+    setComparisonData(null);
+    if (isCombined || !periodFrom || !periodTo) {
+      return;
+    }
+    if (comparisonMode === 'custom' && (!compareFromDate || !compareToDate)) {
+      return;
+    }
+
+    let cancelled = false;
+    const fetchComparison = async () => {
+      try {
+        let comparisonUrl = `/api/dashboard/period-comparison?timeframe=${timeframe}&fromDate=${periodFrom}&toDate=${periodTo}&mode=${comparisonMode}${serviceQuery}`;
+        if (comparisonMode === 'custom') {
+          comparisonUrl += `&compareFromDate=${compareFromDate}&compareToDate=${compareToDate}`;
+        }
+        const response = await fetch(comparisonUrl);
+        if (response.ok && !cancelled) {
+          setComparisonData(await response.json());
+        }
+      } catch (error) {
+        console.error('Error fetching period comparison:', error);
+      }
+    };
+    fetchComparison();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [periodFrom, periodTo, comparisonMode, compareFromDate, compareToDate, isCombined, serviceQuery, refreshKey]);
+
   // Fetch announcements on mount
   useEffect(() => {
     fetchAnnouncements();
@@ -234,11 +329,13 @@ export default function DashboardContent({ session: initialSession }: DashboardC
       !loadingMonthly &&
       !loadingPrevious &&
       currentSession.user.accountingService &&
-      currentSession.user.enableAiFinancialInsights
+      currentSession.user.enableAiFinancialInsights &&
+      // Insights are cached per user for their default service
+      selectedSource === currentSession.user.accountingService
     ) {
       fetchInsights();
     }
-  }, [loading, loadingMonthly, loadingPrevious, dashboardData, currentSession.user.accountingService, currentSession.user.enableAiFinancialInsights]);
+  }, [loading, loadingMonthly, loadingPrevious, dashboardData, currentSession.user.accountingService, currentSession.user.enableAiFinancialInsights, selectedSource]);
 
   const fetchInsights = async () => {
     if (!dashboardData) return;
@@ -386,9 +483,30 @@ export default function DashboardContent({ session: initialSession }: DashboardC
     }
   };
 
-  const handleExport = async (format: 'csv' | 'json') => {
+  // Bypass the report cache and reload figures from the accounting service
+  const handleRefresh = async () => {
+    setRefreshing(true);
     try {
-      let exportUrl = `/api/dashboard/export?format=${format}&timeframe=${timeframe}`;
+      const response = await fetch('/api/dashboard/refresh', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error('Refresh failed');
+      }
+      // Remounts the panels that fetch their own data
+      setRefreshKey((key) => key + 1);
+      if (!isCombined) {
+        await fetchDashboardData();
+      }
+    } catch (err) {
+      console.error('Refresh failed:', err);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'json' | 'pdf' | 'xlsx') => {
+    setExporting(format);
+    try {
+      let exportUrl = `/api/dashboard/export?format=${format}&timeframe=${timeframe}${serviceQuery}`;
       if (timeframe === 'CUSTOM' && customFromDate && customToDate) {
         exportUrl += `&fromDate=${customFromDate}&toDate=${customToDate}`;
       }
@@ -413,22 +531,33 @@ export default function DashboardContent({ session: initialSession }: DashboardC
       document.body.removeChild(a);
     } catch (err) {
       console.error('Export failed:', err);
+    } finally {
+      setExporting(null);
     }
   };
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
+    return formatMoney(amount, dashboardData?.currency, { decimals: 0 });
   };
 
   const formatPercentage = (value: number) => {
     return `${value.toFixed(1)}%`;
   };
 
+  const comparisonLabel = comparisonData
+    ? comparisonMode === 'previous'
+      ? 'previous period'
+      : comparisonMode === 'last_year'
+        ? 'same period last year'
+        : `${comparisonData.comparison.fromDate} to ${comparisonData.comparison.toDate}`
+    : '';
+
+  // Comparison for one KPI tile, in the shape FinancialCard takes
+  const kpiComparison = (kpi: string) => {
+    const value = comparisonData?.kpis?.[kpi];
+    return value ? { ...value, label: comparisonLabel } : null;
+  };
+
   // Cash Runway calculation (months) = cashBalance / lastMonthExpenses
   const cashRunwayMonths = (() => {
     const cash = dashboardData?.kpis?.cashBalance || 0;
@@ -475,6 +604,29 @@ export default function DashboardContent({ session: initialSession }: DashboardC
     setSelectedExpense(null);
   };
 
+  // Open the transactions behind a KPI for the whole period
+  const handleKpiClick = (metric: DrillDownMetric) => {
+    if (!dashboardData?.timeframe?.from || !dashboardData?.timeframe?.to) return;
+    setDrillDown({ metric, fromDate: dashboardData.timeframe.from, toDate: dashboardData.timeframe.to });
+  };
+
+  // Open the transactions for one month of the trend charts. The trend has
+  // one entry per calendar month from the start of the period.
+  const handleMonthClick = (metric: DrillDownMetric, index: number) => {
+    const periodFrom = dashboardData?.timeframe?.from;
+    if (!periodFrom) return;
+    const [year, month] = periodFrom.split('-').map(Number);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const start = new Date(year, month - 1 + index, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+    setDrillDown({
+      metric,
+      fromDate: `${start.getFullYear()}-${pad(start.getMonth() + 1)}-01`,
+      toDate: `${end.getFullYear()}-${pad(end.getMonth() + 1)}-${pad(end.getDate())}`,
+      periodLabel: start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+    });
+  };
+
   const firstName = currentSession.user.name?.split(" ")[0] || "User";
 
     return (
@@ -551,13 +703,42 @@ export default function DashboardContent({ session: initialSession }: DashboardC
           </div>
         ) : (
           <div className="space-y-6 animate-slide-in">
+            {/* Reconnect prompt for expiring or broken connections */}
+            <ConnectionHealthBanner />
+
             {/* Timeframe Toggle - Always visible */}
             <div className="flex-column sm:flex items-center justify-between bg-white/5 backdrop-blur-sm rounded-2xl px-2 sm:px-6 py-4 border border-white/10 shadow-lg">
               <div className="flex-column sm:flex items-center space-x-3">
                 <h2 className="text-xl font-semibold text-white">
-                  {dashboardData?.organisation?.name || 'Financial'} Overview
+                  {isCombined ? 'Combined' : dashboardData?.organisation?.name || 'Financial'} Overview
                 </h2>
-                {dashboardData?.timeframe && timeframe !== 'CUSTOM' && (
+                {connectedServices.length > 1 && (
+                  <div className="flex items-center space-x-2 bg-white/5 rounded-xl p-1.5 border border-white/10">
+                    {([...connectedServices, 'COMBINED'] as DashboardSource[]).map((source) => (
+                      <button
+                        key={source}
+                        onClick={() => setSelectedSource(source)}
+                        className={`px-2 py-1 sm:px-3 sm:py-1.5 text-sm rounded-lg font-medium transition-all ${
+                          selectedSource === source
+                            ? 'bg-[#E8E7BB] text-[#1D1D1D] shadow-lg'
+                            : 'text-gray-300 hover:text-white hover:bg-white/5'
+                        }`}
+                      >
+                        {serviceLabels[source]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {!isCombined && (
+                  <OrganisationSwitcher
+                    accountingService={selectedSource}
+                    onChange={() => {
+                      setInsights(null);
+                      fetchDashboardData();
+                    }}
+                  />
+                )}
+                {dashboardData?.timeframe && timeframe !== 'CUSTOM' && !isCombined && (
                   <span className="text-xs text-gray-300 bg-[#E8E7BB]/10 px-3 py-1.5 rounded-full border border-[#E8E7BB]/20">
                     {dashboardData.timeframe.from} to {dashboardData.timeframe.to}
                   </span>
@@ -566,54 +747,25 @@ export default function DashboardContent({ session: initialSession }: DashboardC
               
               <div className="flex-column sm:flex items-center space-x-3 space-y-3 mt-3 sm:mt-0">
                 <div className="flex items-center space-x-2 bg-white/5 rounded-xl p-1.5 border border-white/10">
-                  <button
-                    onClick={() => {
-                      setTimeframe('MONTH');
-                      if (timeframe === 'CUSTOM') {
-                        setCustomFromDate('');
-                        setCustomToDate('');
-                      }
-                    }}
-                    className={`px-2 py-1 sm:px-4 sm:py-2 text-sm rounded-lg font-medium transition-all ${
-                      timeframe === 'MONTH'
-                        ? 'bg-[#E8E7BB] text-[#1D1D1D] shadow-lg'
-                        : 'text-gray-300 hover:text-white hover:bg-white/5'
-                    }`}
-                  >
-                    MTD
-                  </button>
-                  <button
-                    onClick={() => {
-                      setTimeframe('YEAR');
-                      if (timeframe === 'CUSTOM') {
-                        setCustomFromDate('');
-                        setCustomToDate('');
-                      }
-                    }}
-                    className={`px-2 py-1 sm:px-4 sm:py-2 text-sm rounded-lg font-medium transition-all ${
-                      timeframe === 'YEAR'
-                        ? 'bg-[#E8E7BB] text-[#1D1D1D] shadow-lg'
-                        : 'text-gray-300 hover:text-white hover:bg-white/5'
-                    }`}
-                  >
-                    YTD
-                  </button>
-                  <button
-                    onClick={() => {
-                      setTimeframe('L12');
-                      if (timeframe === 'CUSTOM') {
-                        setCustomFromDate('');
-                        setCustomToDate('');
-                      }
-                    }}
-                    className={`px-2 py-1 sm:px-4 sm:py-2 text-sm rounded-lg font-medium transition-all ${
-                      timeframe === 'L12'
-                        ? 'bg-[#E8E7BB] text-[#1D1D1D] shadow-lg'
-                        : 'text-gray-300 hover:text-white'
-                    }`}
-                  >
-                    L12M
-                  </button>
+                  {presetTimeframes.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      onClick={() => {
+                        setTimeframe(value);
+                        if (timeframe === 'CUSTOM') {
+                          setCustomFromDate('');
+                          setCustomToDate('');
+                        }
+                      }}
+                      className={`px-2 py-1 sm:px-4 sm:py-2 text-sm rounded-lg font-medium transition-all ${
+                        timeframe === value
+                          ? 'bg-[#E8E7BB] text-[#1D1D1D] shadow-lg'
+                          : 'text-gray-300 hover:text-white hover:bg-white/5'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
                   <button
                     onClick={() => setTimeframe('CUSTOM')}
                     className={`px-2 py-1 sm:px-4 sm:py-2 text-sm rounded-full font-medium transition-all ${
@@ -625,6 +777,29 @@ export default function DashboardContent({ session: initialSession }: DashboardC
                     Custom
                   </button>
                 </div>
+
+                <button
+                  onClick={handleRefresh}
+                  disabled={refreshing || loading}
+                  title="Reload the latest figures from your accounting service"
+                  className="flex items-center space-x-2 text-sm text-gray-300 hover:text-white hover:bg-white/5 px-3 py-2 rounded-xl transition-all font-medium border border-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+                  <span>Refresh</span>
+                </button>
+
+                {(['pdf', 'xlsx'] as const).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={exporting !== null || loading}
+                    title={format === 'pdf' ? 'Download a PDF report of this period' : 'Download the figures as an Excel workbook'}
+                    className="flex items-center space-x-2 text-sm text-gray-300 hover:text-white hover:bg-white/5 px-3 py-2 rounded-xl transition-all font-medium border border-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Download className={`w-4 h-4 ${exporting === format ? 'animate-pulse' : ''}`} />
+                    <span>{format.toUpperCase()}</span>
+                  </button>
+                ))}
                 
                 {timeframe === 'CUSTOM' && (
                   <div className="flex-column sm:flex items-center space-x-2 ">
@@ -659,8 +834,14 @@ export default function DashboardContent({ session: initialSession }: DashboardC
               </div>
             </div>
 
-            {/* Loading State for Content */}
-            {loading ? (
+            {/* Combined view: KPIs from every connected service side by side */}
+            {isCombined ? (
+              <ProviderComparison
+                key={refreshKey}
+                timeframe={timeframe}
+                {...getTimeframeDates(timeframe, customFromDate, customToDate)}
+              />
+            ) : loading ? (
               <div className="flex items-center justify-center min-h-[400px]">
                 <div className="flex flex-col items-center space-y-4">
                   <Spinner size="lg" color="default" className="text-[#1D1D1D]" />
@@ -670,57 +851,101 @@ export default function DashboardContent({ session: initialSession }: DashboardC
             ) : (
               <>
 
-            {/* KPI Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-5">
-              <div className="group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 hover:border-[#E8E7BB]/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="bg-[#E8E7BB]/20 p-3 rounded-xl">
-                    <DollarSign className="w-6 h-6 text-[#E8E7BB]" />
-                  </div>
-                </div>
-                <p className="text-xs text-gray-400 mb-2 uppercase tracking-widest font-semibold">Revenue</p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(dashboardData?.kpis?.revenue || 0)}</p>
-              </div>
-
-              <div className="group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 hover:border-red-500/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="bg-red-500/20 p-3 rounded-xl">
-                    <TrendingDown className="w-6 h-6 text-red-400" />
-                  </div>
-                </div>
-                <p className="text-xs text-gray-400 mb-2 uppercase tracking-widest font-semibold">Operating Expenses</p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(dashboardData?.kpis?.expenses || 0)}</p>
-              </div>
-
-              <div className="group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 hover:border-yellow-500/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="bg-yellow-500/20 p-3 rounded-xl">
-                    <DollarSign className="w-6 h-6 text-yellow-400" />
-                  </div>
-                </div>
-                <p className="text-xs text-gray-400 mb-2 uppercase tracking-widest font-semibold">Cost of Goods Sold</p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(dashboardData?.kpis?.costOfGoodsSold || 0)}</p>
+            {/* Comparison period for the KPI tiles and expense breakdown */}
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-xs text-gray-400 uppercase tracking-widest font-semibold">Compare with</span>
+              <div className="flex items-center space-x-2 bg-white/5 rounded-xl p-1.5 border border-white/10">
+                {comparisonModes.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setComparisonMode(value)}
+                    className={`px-3 py-1 text-xs rounded-lg font-medium transition-all ${
+                      comparisonMode === value
+                        ? 'bg-[#E8E7BB] text-[#1D1D1D] shadow-lg'
+                        : 'text-gray-300 hover:text-white hover:bg-white/5'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
               </div>
-
-              <div className="group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 hover:border-blue-500/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="bg-blue-500/20 p-3 rounded-xl">
-                    <TrendingUp className="w-6 h-6 text-blue-400" />
-                  </div>
+              {comparisonMode === 'custom' && (
+                <div className="flex items-center space-x-2 bg-white/10 rounded-full px-4 py-1">
+                  <input
+                    type="date"
+                    value={compareFromDate}
+                    onChange={(e) => setCompareFromDate(e.target.value)}
+                    max={compareToDate || undefined}
+                    className="bg-transparent text-white text-xs border-none outline-none focus:ring-2 focus:ring-[#E8E7BB] rounded px-2 py-1"
+                    style={{ colorScheme: 'dark' }}
+                  />
+                  <span className="text-gray-400 text-xs font-medium">to</span>
+                  <input
+                    type="date"
+                    value={compareToDate}
+                    onChange={(e) => setCompareToDate(e.target.value)}
+                    min={compareFromDate || undefined}
+                    className="bg-transparent text-white text-xs border-none outline-none focus:ring-2 focus:ring-[#E8E7BB] rounded px-2 py-1"
+                    style={{ colorScheme: 'dark' }}
+                  />
                 </div>
-                <p className="text-xs text-gray-400 mb-2 uppercase tracking-widest font-semibold">Net Profit</p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(dashboardData?.kpis?.netProfit || 0)}</p>
-              </div>
+              )}
+              {comparisonData && comparisonMode !== 'custom' && (
+                <span className="text-xs text-gray-500">
+                  {comparisonData.comparison.fromDate} to {comparisonData.comparison.toDate}
+                </span>
+              )}
+            </div>
 
-              <div className="group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 hover:border-purple-500/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg">
-                <div className="flex items-center justify-between mb-4">
-                  <div className="bg-purple-500/20 p-3 rounded-xl">
-                    <Wallet className="w-6 h-6 text-purple-400" />
-                  </div>
-                </div>
-                <p className="text-xs text-gray-400 mb-2 uppercase tracking-widest font-semibold">Cash Balance</p>
-                <p className="text-2xl font-bold text-white">{formatCurrency(dashboardData?.kpis?.cashBalance || 0)}</p>
-              </div>
+            {/* KPI Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-5">
+              <FinancialCard
+                title="Revenue"
+                amount={dashboardData?.kpis?.revenue || 0}
+                icon={DollarSign}
+                accent="beige"
+                currency={dashboardData?.currency}
+                comparison={kpiComparison('revenue')}
+                onClick={() => handleKpiClick('revenue')}
+              />
+              <FinancialCard
+                title="Operating Expenses"
+                amount={dashboardData?.kpis?.expenses || 0}
+                icon={TrendingDown}
+                accent="red"
+                currency={dashboardData?.currency}
+                comparison={kpiComparison('expenses')}
+                onClick={() => handleKpiClick('expenses')}
+                higherIsBetter={false}
+              />
+              <FinancialCard
+                title="Cost of Goods Sold"
+                amount={dashboardData?.kpis?.costOfGoodsSold || 0}
+                icon={DollarSign}
+                accent="yellow"
+                currency={dashboardData?.currency}
+                comparison={kpiComparison('costOfGoodsSold')}
+                onClick={() => handleKpiClick('costOfGoodsSold')}
+                higherIsBetter={false}
+              />
+              <FinancialCard
+                title="Net Profit"
+                amount={dashboardData?.kpis?.netProfit || 0}
+                icon={TrendingUp}
+                accent="blue"
+                currency={dashboardData?.currency}
+                comparison={kpiComparison('netProfit')}
+                onClick={() => handleKpiClick('netProfit')}
+              />
+              <FinancialCard
+                title="Cash Balance"
+                amount={dashboardData?.kpis?.cashBalance || 0}
+                icon={Wallet}
+                accent="purple"
+                currency={dashboardData?.currency}
+                comparison={kpiComparison('cashBalance')}
+                onClick={() => handleKpiClick('cashBalance')}
+              />
             </div>
 
             {/* Net Margin & Cash Runway - Side by Side */}
@@ -735,6 +960,11 @@ export default function DashboardContent({ session: initialSession }: DashboardC
                     <div>
                       <p className="text-xs text-gray-400 uppercase tracking-widest font-semibold">Net Margin</p>
                       <p className="text-3xl font-bold text-white mt-1">{formatPercentage(dashboardData?.kpis?.netMargin || 0)}</p>
+                      {comparisonData?.kpis?.netMargin && (
+                        <p className={`text-xs mt-1 ${comparisonData.kpis.netMargin.delta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {comparisonData.kpis.netMargin.delta >= 0 ? '+' : ''}{comparisonData.kpis.netMargin.delta.toFixed(1)} pts vs {comparisonLabel}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -768,21 +998,52 @@ export default function DashboardContent({ session: initialSession }: DashboardC
 
             {/* Revenue vs Expenses Trend Chart */}
             {(timeframe !== 'CUSTOM' || (timeframe === 'CUSTOM' && customFromDate && customToDate)) && (
-              <RevenueExpensesChart data={dashboardData?.trendData || []} loading={loadingMonthly} />
+              <RevenueExpensesChart
+                data={dashboardData?.trendData || []}
+                loading={loadingMonthly}
+                currency={dashboardData?.currency}
+                onMonthClick={(index) => handleMonthClick('revenue', index)}
+              />
             )}
 
             {/* Net Profit Trend Chart */}
             {(timeframe !== 'CUSTOM' || (timeframe === 'CUSTOM' && customFromDate && customToDate)) && (
-              <NetProfitTrendChart data={dashboardData?.trendData || []} loading={loadingMonthly} />
+              <NetProfitTrendChart
+                data={dashboardData?.trendData || []}
+                loading={loadingMonthly}
+                currency={dashboardData?.currency}
+                onMonthClick={(index) => handleMonthClick('netProfit', index)}
+              />
             )}
 
+            {/* 13-week cash forecast */}
+            <CashForecastChart key={refreshKey} service={selectedSource} />
+
+            {/* Receivables / payables aging with DSO and DPO */}
+            <AgingReport key={refreshKey} service={selectedSource} />
+
             {/* Expense Breakdown Chart */}
             <ExpenseBreakdownChart 
               data={dashboardData?.expenseBreakdown || []} 
               loading={loading}
               onExpenseClick={handleExpenseClick}
+              currency={dashboardData?.currency}
+              comparison={comparisonData ? { label: comparisonLabel, categories: comparisonData.categories || [] } : null}
             />
 
+            {/* Budget vs actual, with drill-down into expense accounts */}
+            {dashboardData?.timeframe?.from && (
+              <BudgetVsActual
+                key={refreshKey}
+                service={selectedSource}
+                timeframe={timeframe}
+                fromDate={dashboardData.timeframe.from}
+                toDate={dashboardData.timeframe.to}
+                onAccountClick={handleExpenseClick}
+                accountSuggestions={(dashboardData?.expenseBreakdown || []).map((expense: any) => expense.name)}
+              />
+            )}
+
             {/* Category Highlights Table */}
             <div className="group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 hover:border-purple-500/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg">
               <div className="flex-column sm:flex items-center justify-between mb-8">
@@ -919,6 +1180,20 @@ export default function DashboardContent({ session: initialSession }: DashboardC
           expenseName={selectedExpense}
           fromDate={dashboardData.timeframe.from}
           toDate={dashboardData.timeframe.to}
+          service={isCombined ? null : selectedSource}
+        />
+      )}
+
+      {/* KPI / chart point drill-down */}
+      {drillDown && (
+        <TransactionDrillDownModal
+          isOpen={!!drillDown}
+          onClose={() => setDrillDown(null)}
+          metric={drillDown.metric}
+          fromDate={drillDown.fromDate}
+          toDate={drillDown.toDate}
+          periodLabel={drillDown.periodLabel}
+          service={isCombined ? null : selectedSource}
         />
       )}
 
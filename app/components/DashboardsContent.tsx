@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button, Spinner } from "@nextui-org/react";
+import { LayoutDashboard, Pencil, Trash2 } from "lucide-react";
+
+interface DashboardSummary {
+  id: string;
+  name: string;
+  widgetCount: number;
+  updatedAt: string;
+}
+
+const inputClass =
+  "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-[#E8E7BB]/50";
+
+export default function DashboardsContent() {
+  const [dashboards, setDashboards] = useState<DashboardSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDashboards = useCallback(async () => {
+    try {
+      const response = await fetch("/api/dashboards");
+      if (response.ok) {
+        const data = await response.json();
+        setDashboards(data.dashboards || []);
+      }
+    } catch (err) {
+      console.error("Error fetching dashboards:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDashboards();
+  }, [fetchDashboards]);
+
+  // Keep the sidebar's list in step
+  const notifyChanged = () => window.dispatchEvent(new CustomEvent("dashboards-changed"));
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/dashboards", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newName }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to create dashboard");
+        return;
+      }
+
+      setNewName("");
+      await fetchDashboards();
+      notifyChanged();
+    } catch (err) {
+      console.error("Error creating dashboard:", err);
+      setError("Failed to create dashboard");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = async (dashboard: DashboardSummary) => {
+    const name = prompt("Rename dashboard", dashboard.name);
+    if (!name || name.trim() === dashboard.name) return;
+
+    const response = await fetch(`/api/dashboards/${dashboard.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+
+    if (response.ok) {
+      await fetchDashboards();
+      notifyChanged();
+    } else {
+      const data = await response.json().catch(() => ({}));
+      setError(data.error || "Failed to rename dashboard");
+    }
+  };
+
+  const handleDelete = async (dashboard: DashboardSummary) => {
+    if (!confirm(`Delete the dashboard "${dashboard.name}" and its ${dashboard.widgetCount} widgets?`)) {
+      return;
+    }
+
+    const response = await fetch(`/api/dashboards/${dashboard.id}`, { method: "DELETE" });
+
+    if (response.ok) {
+      setDashboards((prev) => prev.filter((d) => d.id !== dashboard.id));
+      notifyChanged();
+    } else {
+      setError("Failed to delete dashboard");
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto bg-gradient-to-br from-[#0f0f0f] via-[#1D1D1D] to-[#1a1a1a]">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-[#1D1D1D]/80 backdrop-blur-xl border-b border-white/5 px-6 py-5">
+        <div className="max-w-5xl mx-auto">
+          <h1 className="text-2xl font-semibold text-white">Dashboards</h1>
+          <p className="text-gray-400 text-sm mt-1">Pin widgets from any chat to a named dashboard; they stay when the chat is deleted</p>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-5xl mx-auto p-6 space-y-6">
+        <div className="flex gap-3">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+            placeholder="New dashboard name"
+            className={inputClass}
+          />
+          <Button
+            onPress={handleCreate}
+            isDisabled={!newName.trim()}
+            isLoading={saving}
+            className="bg-[#E8E7BB] text-[#1D1D1D] font-medium rounded-lg"
+          >
+            Create
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-400">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Spinner color="default" />
+          </div>
+        ) : dashboards.length === 0 ? (
+          <div className="text-center py-12 text-gray-400 text-sm">
+            No dashboards yet. Create one, then pin widgets to it from a chat&apos;s dashboard panel.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {dashboards.map((dashboard) => (
+              <div
+                key={dashboard.id}
+                className="group bg-white/5 backdrop-blur-sm rounded-2xl p-5 border border-white/10 hover:border-[#E8E7BB]/30 hover:bg-gray-400/10 transition-all duration-300 shadow-lg"
+              >
+                <Link href={`/dashboards/${dashboard.id}`} className="block">
+                  <div className="flex items-center gap-3 mb-3">
+                    <div className="bg-[#E8E7BB]/20 p-2.5 rounded-xl">
+                      <LayoutDashboard className="w-5 h-5 text-[#E8E7BB]" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-white font-medium truncate">{dashboard.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {dashboard.widgetCount} {dashboard.widgetCount === 1 ? "widget" : "widgets"} · updated {new Date(dashboard.updatedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                </Link>
+                <div className="flex justify-end gap-1">
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    aria-label="Rename dashboard"
+                    className="text-gray-400 hover:text-[#E8E7BB] hover:bg-white/10 rounded-full"
+                    onPress={() => handleRename(dashboard)}
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </Button>
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="light"
+                    aria-label="Delete dashboard"
+                    className="text-gray-400 hover:text-red-400 hover:bg-red-500/20 rounded-full"
+                    onPress={() => handleDelete(dashboard)}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
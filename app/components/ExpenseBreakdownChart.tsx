@@ -1,6 +1,7 @@
 'use client'
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts'
 import { useMemo, useState } from 'react'
+import { formatCurrency as formatMoney } from '@/lib/currency'
 
 interface ExpenseData {
   name: string
@@ -8,10 +9,24 @@ interface ExpenseData {
   percentage: number
 }
 
+interface CategoryChange {
+  name: string
+  comparison: number
+  delta: number
+  percentChange: number | null
+}
+
 interface ExpenseBreakdownChartProps {
   data: ExpenseData[]
   loading?: boolean
   onExpenseClick?: (expenseName: string) => void
+  /** Organisation base currency */
+  currency?: string | null
+  /** Each category's change against a comparison period, e.g. "same period last year" */
+  comparison?: {
+    label: string
+    categories: CategoryChange[]
+  } | null
 }
 
 // Color palette for the pie chart segments - NO Beige
@@ -24,7 +39,7 @@ const COLORS = [
   '#a3a0fb','#f72585','#7209b7','#3f37c9','#ff9f1c','#ffbf69','#c08497','#7c3aed','#4cc9f0'
 ]
 
-export default function ExpenseBreakdownChart({ data, loading = false, onExpenseClick }: ExpenseBreakdownChartProps) {
+export default function ExpenseBreakdownChart({ data, loading = false, onExpenseClick, currency, comparison }: ExpenseBreakdownChartProps) {
   if (loading) {
       return (
         <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 shadow-lg">
@@ -46,17 +61,23 @@ export default function ExpenseBreakdownChart({ data, loading = false, onExpense
   }
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value)
+    return formatMoney(value, currency, { decimals: 0 })
   }
 
+  const changes = new Map((comparison?.categories || []).map((category) => [category.name, category]))
+
+  // Spending more is shown in red, spending less in green
+  const formatChange = (change: CategoryChange) =>
+    change.percentChange !== null
+      ? `${change.percentChange > 0 ? '+' : ''}${change.percentChange.toFixed(1)}%`
+      : change.delta > 0 ? 'New' : '0%'
+  const changeColor = (change: CategoryChange) =>
+    change.delta > 0 ? 'text-red-400' : change.delta < 0 ? 'text-green-400' : 'text-gray-400'
+
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0]
+      const change = changes.get(data.name)
       return (
         <div className="bg-white border border-gray-200 rounded-lg p-3 shadow-lg">
           <p className="text-sm font-medium text-[#1D1D1D] mb-1">
@@ -68,6 +89,14 @@ export default function ExpenseBreakdownChart({ data, loading = false, onExpense
           <p className="text-sm text-gray-600">
             Percentage: {data.payload.percentage.toFixed(1)}%
           </p>
+          {change && (
+            <p className="text-sm text-gray-600">
+              vs {comparison?.label}: {formatCurrency(change.comparison)}{' '}
+              <span className={change.delta > 0 ? 'text-red-600' : change.delta < 0 ? 'text-green-600' : ''}>
+                ({formatChange(change)})
+              </span>
+            </p>
+          )}
           {onExpenseClick && (
             <p className="text-xs text-blue-600 mt-2 cursor-pointer hover:underline">
               Click to view details
@@ -122,6 +151,7 @@ export default function ExpenseBreakdownChart({ data, loading = false, onExpense
       {visibleData.map((d) => {
         const k = keyFromName(d.name)
         const hidden = !!hiddenKeys[k]
+        const change = changes.get(d.name)
         return (
           <button
             key={k}
@@ -135,6 +165,9 @@ export default function ExpenseBreakdownChart({ data, loading = false, onExpense
             >
               {d.name}
             </span>
+            {change && (
+              <span className={`text-[10px] font-semibold ${changeColor(change)}`}>{formatChange(change)}</span>
+            )}
           </button>
         )
       })}
@@ -150,7 +183,9 @@ export default function ExpenseBreakdownChart({ data, loading = false, onExpense
           </div>
             <h3 className="text-2xl font-bold text-white tracking-wide">Expense Breakdown</h3>
         </div>
-          <p className="text-xs text-gray-500 ml-11 tracking-wide">Distribution of operating expenses by category</p>
+          <p className="text-xs text-gray-500 ml-11 tracking-wide">
+            Distribution of operating expenses by category{comparison ? `, change vs ${comparison.label}` : ''}
+          </p>
       </div>
       
       <div className="h-80">
@@ -218,6 +253,7 @@ export default function ExpenseBreakdownChart({ data, loading = false, onExpense
             {visibleData.map((key) => {
               const k = keyFromName(key.name)
               const hidden = !!hiddenKeys[k]
+              const change = changes.get(key.name)
 
               return (
               <button
@@ -235,6 +271,11 @@ export default function ExpenseBreakdownChart({ data, loading = false, onExpense
                 <span className={`text-xs font-medium transition-opacity ${hidden ? 'text-gray-500' : 'text-gray-300'}`}>
                   {key.name}
                 </span>
+                {change && (
+                  <span className={`ml-auto text-xs ${changeColor(change)}`}>
+                    {change.delta > 0 ? '+' : ''}{formatCurrency(change.delta)}
+                  </span>
+                )}
               </button>
             )})}
           </div>
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { X, Loader2 } from 'lucide-react'
 import LineItemsModal from './LineItemsModal'
+import { formatCurrency as formatMoney } from '@/lib/currency'
 
 interface ExpenseDetail {
   date: string
@@ -24,6 +25,7 @@ interface ExpenseDetailModalProps {
   expenseName: string
   fromDate: string
   toDate: string
+  service?: string | null
 }
 
 export default function ExpenseDetailModal({
@@ -32,8 +34,10 @@ export default function ExpenseDetailModal({
   expenseName,
   fromDate,
   toDate,
+  service,
 }: ExpenseDetailModalProps) {
   const [details, setDetails] = useState<ExpenseDetail[]>([])
+  const [currency, setCurrency] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const lastFetchRef = useRef<string>('')
@@ -48,7 +52,7 @@ export default function ExpenseDetailModal({
 
   useEffect(() => {
     if (isOpen && expenseName && fromDate && toDate) {
-      const fetchKey = `${expenseName}-${fromDate}-${toDate}`
+      const fetchKey = `${service || ''}-${expenseName}-${fromDate}-${toDate}`
       
       // Only fetch if parameters changed and not already fetching
       if (lastFetchRef.current !== fetchKey && !isFetchingRef.current) {
@@ -60,7 +64,7 @@ export default function ExpenseDetailModal({
       setDetails([])
       setError(null)
     }
-  }, [isOpen, expenseName, fromDate, toDate])
+  }, [isOpen, expenseName, fromDate, toDate, service])
 
   const fetchExpenseDetails = async (fetchKey: string) => {
     if (isFetchingRef.current) return
@@ -71,7 +75,7 @@ export default function ExpenseDetailModal({
     
     try {
       const response = await fetch(
-        `/api/dashboard/expense-detail?expenseName=${encodeURIComponent(expenseName)}&fromDate=${fromDate}&toDate=${toDate}`
+        `/api/dashboard/expense-detail?expenseName=${encodeURIComponent(expenseName)}&fromDate=${fromDate}&toDate=${toDate}${service ? `&service=${service}` : ''}`
       )
       
       if (!response.ok) {
@@ -80,6 +84,7 @@ export default function ExpenseDetailModal({
 
       const data = await response.json()
       setDetails(data.details || [])
+      setCurrency(data.currency || null)
       lastFetchRef.current = fetchKey
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
@@ -92,12 +97,7 @@ export default function ExpenseDetailModal({
   }
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(value)
+    return formatMoney(value, currency)
   }
 
   const formatDate = (dateStr: string) => {
@@ -150,7 +150,7 @@ export default function ExpenseDetailModal({
                 <p className="text-red-400 mb-2">{error}</p>
                 <button
                   onClick={() => {
-                    const fetchKey = `${expenseName}-${fromDate}-${toDate}`
+                    const fetchKey = `${service || ''}-${expenseName}-${fromDate}-${toDate}`
                     lastFetchRef.current = ''
                     fetchExpenseDetails(fetchKey)
                   }}
@@ -290,6 +290,7 @@ export default function ExpenseDetailModal({
           invoiceNumber={selectedLineItems.invoiceNumber}
           contactName={selectedLineItems.contactName}
           date={selectedLineItems.date}
+          baseCurrency={currency}
         />
       )}
     </div>
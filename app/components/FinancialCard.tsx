@@ -1,81 +1,109 @@
 "use client";
 
-import { Card, CardBody, Chip } from "@nextui-org/react";
+import { Chip } from "@nextui-org/react";
+import { LucideIcon } from "lucide-react";
+import { formatCurrency as formatMoney } from "@/lib/currency";
+
+type CardAccent = "beige" | "red" | "yellow" | "blue" | "purple";
+
+// Full class names so Tailwind keeps them
+const accentClasses: Record<CardAccent, { border: string; iconBackground: string; icon: string }> = {
+  beige: { border: "hover:border-[#E8E7BB]/30", iconBackground: "bg-[#E8E7BB]/20", icon: "text-[#E8E7BB]" },
+  red: { border: "hover:border-red-500/30", iconBackground: "bg-red-500/20", icon: "text-red-400" },
+  yellow: { border: "hover:border-yellow-500/30", iconBackground: "bg-yellow-500/20", icon: "text-yellow-400" },
+  blue: { border: "hover:border-blue-500/30", iconBackground: "bg-blue-500/20", icon: "text-blue-400" },
+  purple: { border: "hover:border-purple-500/30", iconBackground: "bg-purple-500/20", icon: "text-purple-400" },
+};
+
+interface FinancialCardComparison {
+  /** Value in the comparison period */
+  comparison: number;
+  delta: number;
+  percentChange: number | null;
+  /** e.g. "previous period" or "same period last year" */
+  label: string;
+}
 
 interface FinancialCardProps {
   title: string;
   amount: number;
+  icon?: LucideIcon;
+  accent?: CardAccent;
+  /** Static trend chip, used when there is no comparison */
   trend?: string;
   trendUp?: boolean;
-  showChart?: boolean;
   subtitle?: string;
+  /** Organisation base currency */
+  currency?: string | null;
+  comparison?: FinancialCardComparison | null;
+  /** False for costs, so a rise shows as unfavourable */
+  higherIsBetter?: boolean;
+  /** Makes the card clickable, e.g. to list the transactions behind it */
+  onClick?: () => void;
 }
 
 export default function FinancialCard({
   title,
   amount,
+  icon: Icon,
+  accent = "beige",
   trend,
   trendUp = true,
-  showChart = false,
   subtitle,
+  currency,
+  comparison,
+  higherIsBetter = true,
+  onClick,
 }: FinancialCardProps) {
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 2,
-    }).format(value);
+    return formatMoney(value, currency, { decimals: 0 });
   };
 
-  return (
-    <Card className="border border-gray-100 shadow-sm hover:shadow-md transition-shadow">
-      <CardBody className="p-5">
-        <div className="flex items-start justify-between mb-3">
-          <span className="text-sm text-gray-600 font-medium">{title}</span>
-          {trend && (
-            <Chip
-              size="sm"
-              variant="flat"
-              color={trendUp ? "success" : "danger"}
-              className="font-medium"
-            >
-              {trend}
-            </Chip>
-          )}
-        </div>
+  const classes = accentClasses[accent];
 
-        {showChart && title === "Total Balance" ? (
-          <div className="relative">
-            {/* Credit Card Style */}
-            <div className="bg-primary rounded-xl p-4 relative overflow-hidden shadow-lg border border-gray-200">
-              <div className="absolute top-0 right-0 w-24 h-24 bg-[#1D1D1D] opacity-5 rounded-full -mr-12 -mt-12"></div>
-              <div className="relative z-10">
-                <div className="flex items-center justify-between mb-6">
-                  <span className="text-lg font-bold text-[#1D1D1D]">VISA</span>
-                  <svg className="w-6 h-6 text-[#1D1D1D]" viewBox="0 0 24 24" fill="none" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.111 16.404a5.5 5.5 0 017.778 0M12 20h.01m-7.08-7.071c3.904-3.905 10.236-3.905 14.141 0M1.394 9.393c5.857-5.857 15.355-5.857 21.213 0" />
-                  </svg>
-                </div>
-                <div className="text-xs text-[#1D1D1D] opacity-60 mb-1">Credit Card</div>
-                <div className="text-2xl font-bold mb-4 text-[#1D1D1D]">{formatCurrency(amount)}</div>
-                <div className="flex items-center justify-between text-xs text-[#1D1D1D]">
-                  <span>•••• 9090</span>
-                  <span>09/26</span>
-                </div>
-              </div>
-            </div>
-          </div>
-        ) : (
-          <div className="flex flex-col items-center justify-center min-h-[120px]">
-            <div className="text-4xl font-bold text-[#1D1D1D] mb-1">
-              {formatCurrency(amount)}
-            </div>
-            {subtitle && (
-              <p className="text-xs text-gray-600">{subtitle}</p>
-            )}
+  let chipLabel = trend;
+  let chipFavourable = trendUp;
+  if (comparison) {
+    chipLabel = comparison.percentChange !== null
+      ? `${comparison.percentChange > 0 ? "+" : ""}${comparison.percentChange.toFixed(1)}%`
+      : comparison.delta !== 0 ? "New" : "0%";
+    chipFavourable = comparison.delta === 0 || (comparison.delta > 0) === higherIsBetter;
+  }
+
+  return (
+    <div
+      onClick={onClick}
+      role={onClick ? "button" : undefined}
+      title={onClick ? `View the transactions behind ${title.toLowerCase()}` : undefined}
+      className={`group bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 ${classes.border} hover:bg-gray-400/10 transition-all duration-300 shadow-lg ${onClick ? "cursor-pointer" : ""}`}
+    >
+      <div className="flex items-center justify-between mb-4">
+        {Icon && (
+          <div className={`${classes.iconBackground} p-3 rounded-xl`}>
+            <Icon className={`w-6 h-6 ${classes.icon}`} />
           </div>
         )}
-      </CardBody>
-    </Card>
+        {chipLabel && (
+          <Chip
+            size="sm"
+            variant="flat"
+            color={comparison?.delta === 0 ? "default" : chipFavourable ? "success" : "danger"}
+            className="font-medium"
+          >
+            {chipLabel}
+          </Chip>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mb-2 uppercase tracking-widest font-semibold">{title}</p>
+      <p className="text-2xl font-bold text-white">{formatCurrency(amount)}</p>
+      {comparison && (
+        <p className="text-xs text-gray-500 mt-2" title={`Change: ${formatCurrency(comparison.delta)}`}>
+          vs {comparison.label}: {formatCurrency(comparison.comparison)}
+        </p>
+      )}
+      {subtitle && (
+        <p className="text-xs text-gray-500 mt-2">{subtitle}</p>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardBody, Button, Chip, Spinner } from "@nextui-org/react";
+
+interface SyncRun {
+  id: string;
+  service: "QBO" | "XERO";
+  organisationId: string;
+  trigger: string;
+  mode: string;
+  status: "running" | "success" | "failed";
+  recordCounts: Record<string, number>;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface OrganisationSyncStatus {
+  service: "QBO" | "XERO";
+  organisationId: string;
+  name: string;
+  lastRun: SyncRun | null;
+  lastSuccessAt: string | null;
+  records: {
+    accounts: number;
+    contacts: number;
+    documents: number;
+    payments: number;
+    bankTransactions: number;
+  };
+}
+
+const statusStyles: Record<SyncRun["status"], string> = {
+  running: "bg-amber-500/20 text-amber-400 border border-amber-500/30",
+  success: "bg-green-500/20 text-green-400 border border-green-500/30",
+  failed: "bg-red-500/20 text-red-400 border border-red-500/30",
+};
+
+const serviceNames: Record<string, string> = {
+  QBO: "QuickBooks",
+  XERO: "Xero",
+};
+
+// Poll while a run is in progress
+const POLL_INTERVAL_MS = 5000;
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+function totalRecords(counts: Record<string, number>): number {
+  return Object.values(counts || {}).reduce((sum, count) => sum + count, 0);
+}
+
+export default function LedgerSyncPanel() {
+  const [organisations, setOrganisations] = useState<OrganisationSyncStatus[]>([]);
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/ledger/sync");
+      if (response.ok) {
+        const data = await response.json();
+        setOrganisations(data.organisations || []);
+        setRuns(data.runs || []);
+      }
+    } catch (err) {
+      console.error("Error fetching sync status:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const hasRunningSync = runs.some((run) => run.status === "running");
+
+  useEffect(() => {
+    if (!hasRunningSync) {
+      return;
+    }
+    const timer = setInterval(fetchStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasRunningSync, fetchStatus]);
+
+  const organisationName = (run: SyncRun) =>
+    organisations.find((org) => org.service === run.service && org.organisationId === run.organisationId)?.name ||
+    run.organisationId;
+
+  const handleSync = async (org: OrganisationSyncStatus, full: boolean) => {
+    if (full && !confirm(`Re-download all data for ${org.name}? This can take several minutes.`)) {
+      return;
+    }
+
+    setStarting(`${org.service}:${org.organisationId}`);
+    setError("");
+    try {
+      const response = await fetch("/api/ledger/sync", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ service: org.service, organisationId: org.organisationId, full }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Failed to start sync");
+      }
+      await fetchStatus();
+    } catch (err) {
+      setError("An error occurred while starting the sync");
+    } finally {
+      setStarting(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10 shadow-lg">
+      <CardBody className="p-6">
+        <div className="flex items-center space-x-3 mb-2">
+          <div className="bg-amber-500/20 p-3 rounded-xl">
+            <div className="w-2 h-2 bg-amber-400 rounded-full"></div>
+          </div>
+          <h2 className="text-2xl font-bold text-white tracking-wide">Data Sync</h2>
+        </div>
+        <p className="text-sm text-gray-400 mb-6">
+          Accounts, contacts, invoices, bills, payments and bank transactions are copied from your accounting
+          software on a schedule. The first sync downloads your full history.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-500/10 rounded-xl border border-red-500/30 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Spinner size="lg" color="default" />
+          </div>
+        ) : organisations.length === 0 ? (
+          <p className="text-sm text-gray-400">Connect an organisation to start syncing.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              {organisations.map((org) => {
+                const key = `${org.service}:${org.organisationId}`;
+                const isRunning = org.lastRun?.status === "running";
+                return (
+                  <div key={key} className="p-4 bg-white/5 rounded-xl border border-white/10 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm font-medium text-white">{org.name}</span>
+                        <span className="text-xs text-gray-400">{serviceNames[org.service]}</span>
+                        {org.lastRun && (
+                          <Chip size="sm" className={statusStyles[org.lastRun.status]}>
+                            {isRunning ? "Syncing" : org.lastRun.status === "success" ? "Up to date" : "Last sync failed"}
+                          </Chip>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          size="sm"
+                          onPress={() => handleSync(org, false)}
+                          isDisabled={isRunning || starting === key}
+                          className="bg-white/10 text-white rounded-lg hover:bg-white/20 transition-all"
+                        >
+                          Sync now
+                        </Button>
+                        <Button
+                          size="sm"
+                          onPress={() => handleSync(org, true)}
+                          isDisabled={isRunning || starting === key}
+                          className="bg-white/5 text-gray-300 border border-white/10 rounded-lg hover:bg-white/10 transition-all"
+                        >
+                          Full resync
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 text-xs text-gray-400">
+                      <span>{org.records.accounts} accounts</span>
+                      <span>{org.records.contacts} contacts</span>
+                      <span>{org.records.documents} invoices &amp; bills</span>
+                      <span>{org.records.payments} payments</span>
+                      <span>{org.records.bankTransactions} bank transactions</span>
+                    </div>
+                    <p className="text-xs text-gray-500">Last successful sync: {formatDateTime(org.lastSuccessAt)}</p>
+                    {org.lastRun?.status === "failed" && org.lastRun.error && (
+                      <p className="text-xs text-red-400">{org.lastRun.error}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {runs.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">History</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-white/10 text-left text-xs text-gray-400 uppercase">
+                        <th className="py-2 pr-4">Started</th>
+                        <th className="py-2 pr-4">Organisation</th>
+                        <th className="py-2 pr-4">Type</th>
+                        <th className="py-2 pr-4">Status</th>
+                        <th className="py-2 pr-4 text-right">Records</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {runs.map((run) => (
+                        <tr key={run.id} className="border-b border-white/5 text-gray-300">
+                          <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(run.startedAt)}</td>
+                          <td className="py-2 pr-4">{organisationName(run)}</td>
+                          <td className="py-2 pr-4 capitalize">
+                            {run.mode}, {run.trigger}
+                          </td>
+                          <td className="py-2 pr-4">
+                            <Chip size="sm" className={statusStyles[run.status]}>
+                              {run.status}
+                            </Chip>
+                          </td>
+                          <td className="py-2 pr-4 text-right">{totalRecords(run.recordCounts)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { X } from 'lucide-react'
+import { currencyLocale, formatCurrency as formatMoney } from '@/lib/currency'
 
 interface LineItem {
   lineItemID?: string
@@ -23,6 +24,12 @@ interface LineItemsModalProps {
   invoiceNumber?: string
   contactName?: string
   date?: string
+  /** Currency the document is in */
+  currency?: string | null
+  /** Organisation base currency; the total is also shown converted when it differs */
+  baseCurrency?: string | null
+  /** Base-currency units per unit of `currency` */
+  exchangeRate?: number
 }
 
 export default function LineItemsModal({
@@ -32,18 +39,22 @@ export default function LineItemsModal({
   invoiceNumber,
   contactName,
   date,
+  currency,
+  baseCurrency,
+  exchangeRate,
 }: LineItemsModalProps) {
   if (!isOpen) return null
 
+  const documentCurrency = currency || baseCurrency
+  const isForeign = !!currency && !!baseCurrency && currency !== baseCurrency
+
+  // Foreign amounts use the base currency's locale so the symbol is unambiguous (e.g. US$)
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    }).format(value)
+    return formatMoney(value, documentCurrency, { locale: currencyLocale(baseCurrency || documentCurrency) })
   }
 
+  const total = lineItems.reduce((sum, item) => sum + (item.lineAmount || 0), 0)
+
   const formatDate = (dateStr: string) => {
     if (!dateStr) return ''
     try {
@@ -158,8 +169,11 @@ export default function LineItemsModal({
                       Total:
                     </td>
                     <td className="py-4 px-4 text-right text-lg font-bold text-white">
-                      {formatCurrency(
-                        lineItems.reduce((sum, item) => sum + (item.lineAmount || 0), 0)
+                      {formatCurrency(total)}
+                      {isForeign && exchangeRate && (
+                        <div className="text-xs font-normal text-gray-400">
+                          {formatMoney(total * exchangeRate, baseCurrency)}
+                        </div>
                       )}
                     </td>
                   </tr>
@@ -1,6 +1,7 @@
 'use client'
 
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { formatCurrency as formatMoney, formatCompactCurrency } from '@/lib/currency'
 
 interface TrendData {
   month: string
@@ -12,9 +13,13 @@ interface TrendData {
 interface NetProfitTrendChartProps {
   data: TrendData[]
   loading?: boolean
+  /** Organisation base currency */
+  currency?: string | null
+  /** Called with the index of the month clicked */
+  onMonthClick?: (index: number) => void
 }
 
-export default function NetProfitTrendChart({ data, loading = false }: NetProfitTrendChartProps) {
+export default function NetProfitTrendChart({ data, loading = false, currency, onMonthClick }: NetProfitTrendChartProps) {
   if (loading) {
       return (
         <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 shadow-lg">
@@ -45,12 +50,7 @@ export default function NetProfitTrendChart({ data, loading = false }: NetProfit
   }))
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value)
+    return formatMoney(value, currency, { decimals: 0 })
   }
 
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -71,6 +71,11 @@ export default function NetProfitTrendChart({ data, loading = false }: NetProfit
           <p className="text-xs text-gray-500">
             Expenses: {formatCurrency(data.expenses || 0)}
           </p>
+          {onMonthClick && (
+            <p className="text-xs text-blue-600 mt-2">
+              Click to view transactions
+            </p>
+          )}
         </div>
       )
     }
@@ -91,7 +96,14 @@ export default function NetProfitTrendChart({ data, loading = false }: NetProfit
       
       <div className="h-72">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <LineChart
+            data={chartData}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            onClick={onMonthClick ? (state: any) => {
+              if (typeof state?.activeTooltipIndex === 'number') onMonthClick(state.activeTooltipIndex)
+            } : undefined}
+            style={onMonthClick ? { cursor: 'pointer' } : undefined}
+          >
               <CartesianGrid strokeDasharray="3 3" stroke="#ffffff08" vertical={false} />
             <XAxis 
               dataKey="month" 
@@ -103,7 +115,7 @@ export default function NetProfitTrendChart({ data, loading = false }: NetProfit
             <YAxis 
               stroke="#6b7280"
               fontSize={12}
-              tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+              tickFormatter={(value) => formatCompactCurrency(value, currency)}
               tickLine={false}
               axisLine={false}
             />
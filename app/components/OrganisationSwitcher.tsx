@@ -0,0 +1,99 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Building2 } from "lucide-react";
+
+interface Organisation {
+  service: 'QBO' | 'XERO';
+  id: string;
+  name: string;
+  active: boolean;
+}
+
+interface OrganisationSwitcherProps {
+  accountingService?: string | null;
+  onChange?: (organisationId: string) => void;
+}
+
+export const ORGANISATION_CHANGED_EVENT = 'organisation-changed';
+
+export default function OrganisationSwitcher({ accountingService, onChange }: OrganisationSwitcherProps) {
+  const [organisations, setOrganisations] = useState<Organisation[]>([]);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    if (!accountingService) {
+      setOrganisations([]);
+      return;
+    }
+
+    const fetchOrganisations = async () => {
+      try {
+        const response = await fetch('/api/profile/organisations');
+        if (response.ok) {
+          const data = await response.json();
+          setOrganisations(
+            (data.organisations || []).filter((org: Organisation) => org.service === accountingService)
+          );
+        }
+      } catch (error) {
+        console.error('Error fetching organisations:', error);
+      }
+    };
+
+    fetchOrganisations();
+  }, [accountingService]);
+
+  // Nothing to switch between
+  if (organisations.length < 2) {
+    return null;
+  }
+
+  const activeId = organisations.find((org) => org.active)?.id || organisations[0].id;
+
+  const handleChange = async (organisationId: string) => {
+    if (!accountingService || organisationId === activeId) return;
+
+    setSwitching(true);
+    try {
+      const response = await fetch('/api/profile/organisations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ service: accountingService, organisationId }),
+      });
+
+      if (response.ok) {
+        setOrganisations((prev) =>
+          prev.map((org) => ({ ...org, active: org.id === organisationId }))
+        );
+        window.dispatchEvent(new CustomEvent(ORGANISATION_CHANGED_EVENT, { detail: { organisationId } }));
+        onChange?.(organisationId);
+      } else {
+        console.error('Failed to switch organisation');
+      }
+    } catch (error) {
+      console.error('Error switching organisation:', error);
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 bg-white/5 rounded-xl px-3 py-1.5 border border-white/10">
+      <Building2 className="w-4 h-4 text-[#E8E7BB]" />
+      <select
+        value={activeId}
+        disabled={switching}
+        onChange={(e) => handleChange(e.target.value)}
+        className="bg-transparent text-sm text-white focus:outline-none disabled:opacity-50 cursor-pointer"
+        aria-label="Active organisation"
+      >
+        {organisations.map((org) => (
+          <option key={org.id} value={org.id} className="bg-[#1D1D1D] text-white">
+            {org.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
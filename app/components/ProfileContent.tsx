@@ -6,11 +6,19 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useSession } from "next-auth/react";
 import { Card, CardBody, Input, Button, Chip, Switch } from "@nextui-org/react";
 import AdminPanel from "./AdminPanel";
+import LedgerSyncPanel from "./LedgerSyncPanel";
+import ReportSchedulesPanel from "./ReportSchedulesPanel";
+import ConnectionHealthChip, { ConnectionHealth, needsReconnect } from "./ConnectionHealthChip";
 
 interface ProfileContentProps {
   session: Session;
 }
 
+const serviceNames: Record<"QBO" | "XERO", string> = {
+  QBO: "QuickBooks Online",
+  XERO: "Xero",
+};
+
 export default function ProfileContent({ session: initialSession }: ProfileContentProps) {
   const { data: session, update } = useSession();
   const currentSession = session || initialSession;
@@ -27,6 +35,16 @@ export default function ProfileContent({ session: initialSession }: ProfileConte
   const [enableAiInsights, setEnableAiInsights] = useState(
     (currentSession.user as any).enableAiFinancialInsights || false
   );
+  const [organisations, setOrganisations] = useState<
+    Array<{
+      service: "QBO" | "XERO";
+      id: string;
+      name: string;
+      active: boolean;
+      health: ConnectionHealth;
+      refreshTokenExpiresAt: string | null;
+    }>
+  >([]);
 
   // Trigger session update when returning from OAuth callback
   useEffect(() => {
@@ -41,9 +59,121 @@ export default function ProfileContent({ session: initialSession }: ProfileConte
       update();
       // Clean up the URL
       router.replace("/profile");
+      return;
+    }
+
+    // OAuth callbacks report failures (e.g. an expired or reused connect link) via ?error=
+    const error = searchParams.get("error");
+    if (error) {
+      setMessage({ type: "error", text: error });
+      router.replace("/profile");
     }
   }, [searchParams, update, router]);
 
+  // Both services can be connected at once; the default one drives the dashboard
+  const connectedServices = (["XERO", "QBO"] as const).filter(
+    (service) =>
+      currentSession.user.connectedServices?.includes(service) ||
+      currentSession.user.accountingService === service
+  );
+
+  // Load the organisations connected for each accounting service
+  useEffect(() => {
+    if (!currentSession.user.accountingService) {
+      setOrganisations([]);
+      return;
+    }
+    fetchOrganisations();
+  }, [currentSession.user.accountingService, currentSession.user.connectedServices?.length]);
+
+  const fetchOrganisations = async () => {
+    try {
+      const response = await fetch("/api/profile/organisations");
+      if (response.ok) {
+        const data = await response.json();
+        setOrganisations(data.organisations || []);
+      }
+    } catch (error) {
+      console.error("Error fetching organisations:", error);
+    }
+  };
+
+  const handleSetActiveOrganisation = async (service: "QBO" | "XERO", organisationId: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/profile/organisations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ service, organisationId }),
+      });
+
+      if (response.ok) {
+        setMessage({ type: "success", text: "Active organisation updated!" });
+        await fetchOrganisations();
+      } else {
+        const data = await response.json();
+        setMessage({ type: "error", text: data.error || "Failed to switch organisation" });
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: "An error occurred" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemoveOrganisation = async (service: "QBO" | "XERO", organisationId: string, organisationName: string) => {
+    if (!confirm(`Are you sure you want to disconnect ${organisationName}?`)) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ service, organisationId });
+      const response = await fetch(`/api/profile/organisations?${params.toString()}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setMessage({ type: "success", text: `${organisationName} disconnected successfully!` });
+        // Removing the last organisation clears the accountingService
+        await update();
+        await fetchOrganisations();
+        router.refresh();
+      } else {
+        const data = await response.json();
+        setMessage({ type: "error", text: data.error || "Failed to disconnect organisation" });
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: "An error occurred" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSetDefaultService = async (service: "QBO" | "XERO") => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/profile/default-service", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ service }),
+      });
+
+      if (response.ok) {
+        setMessage({ type: "success", text: `${serviceNames[service]} is now your default service!` });
+        await update();
+        router.refresh();
+      } else {
+        const data = await response.json();
+        setMessage({ type: "error", text: data.error || "Failed to update default service" });
+      }
+    } catch (error) {
+      setMessage({ type: "error", text: "An error occurred" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -104,8 +234,8 @@ export default function ProfileContent({ session: initialSession }: ProfileConte
     }
   };
 
-  const handleDisconnectService = async () => {
-    if (!confirm("Are you sure you want to disconnect your accounting service?")) {
+  const handleDisconnectService = async (service: "QBO" | "XERO") => {
+    if (!confirm(`Are you sure you want to disconnect ${serviceNames[service]}?`)) {
       return;
     }
 
@@ -113,12 +243,15 @@ export default function ProfileContent({ session: initialSession }: ProfileConte
     try {
       const response = await fetch("/api/profile/disconnect-service", {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ service }),
       });
 
       if (response.ok) {
         setMessage({ type: "success", text: "Service disconnected successfully!" });
         // Trigger session update to refresh accountingService
         await update();
+        await fetchOrganisations();
         router.refresh();
       } else {
         const data = await response.json();
@@ -330,36 +463,142 @@ export default function ProfileContent({ session: initialSession }: ProfileConte
               </div>
               <h2 className="text-2xl font-bold text-white tracking-wide">Connected Services</h2>
             </div>
-            {currentSession.user.accountingService ? (
-              <div className="flex items-center justify-between p-6 bg-white/5 rounded-2xl border border-white/10">
-                <div className="flex items-center gap-4">
-                  <div className="w-14 h-14 bg-gradient-to-br from-[#E8E7BB] to-[#d4d3a7] rounded-2xl flex items-center justify-center shadow-lg">
-                    <span className="text-[#1D1D1D] font-bold text-lg">
-                      {currentSession.user.accountingService === "QBO" ? "QB" : "X"}
-                    </span>
+            {connectedServices.length > 0 ? (
+              <div className="space-y-6">
+                {organisations.some((org) => needsReconnect(org.health)) && (
+                  <div className="p-4 bg-amber-500/10 rounded-xl border border-amber-500/30 text-sm text-amber-300">
+                    Some connections need attention. Reconnect them before they stop syncing, or data from those
+                    organisations will be unavailable in the dashboard and chat.
                   </div>
-                  <div>
-                    <div className="font-semibold text-base text-white mb-1">
-                      {currentSession.user.accountingService === "QBO"
-                        ? "QuickBooks Online"
-                        : "Xero"}
+                )}
+                {connectedServices.map((service) => {
+                  const serviceOrganisations = organisations.filter((org) => org.service === service);
+                  const isDefault = currentSession.user.accountingService === service;
+                  return (
+                    <div key={service} className="space-y-4">
+                      <div className="flex items-center justify-between p-6 bg-white/5 rounded-2xl border border-white/10">
+                        <div className="flex items-center gap-4">
+                          <div className="w-14 h-14 bg-gradient-to-br from-[#E8E7BB] to-[#d4d3a7] rounded-2xl flex items-center justify-center shadow-lg">
+                            <span className="text-[#1D1D1D] font-bold text-lg">
+                              {service === "QBO" ? "QB" : "X"}
+                            </span>
+                          </div>
+                          <div>
+                            <div className="font-semibold text-base text-white mb-1">
+                              {serviceNames[service]}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Chip 
+                                size="sm" 
+                                className="bg-green-500/20 text-green-400 border border-green-500/30"
+                              >
+                                Connected
+                              </Chip>
+                              {isDefault && connectedServices.length > 1 && (
+                                <Chip size="sm" className="bg-[#E8E7BB]/20 text-[#E8E7BB] border border-[#E8E7BB]/30">
+                                  Default
+                                </Chip>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {!isDefault && (
+                            <Button
+                              onPress={() => handleSetDefaultService(service)}
+                              isDisabled={loading}
+                              className="bg-white/10 text-white rounded-lg px-4 py-2 hover:bg-white/20 transition-all"
+                            >
+                              Make default
+                            </Button>
+                          )}
+                          <Button
+                            onPress={() => handleDisconnectService(service)}
+                            isLoading={loading}
+                            isDisabled={loading}
+                            className="bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg px-4 py-2 hover:bg-red-500/30 transition-all"
+                          >
+                            Disconnect
+                          </Button>
+                        </div>
+                      </div>
+                      {serviceOrganisations.length > 0 && (
+                        <div className="space-y-3">
+                          <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">Organisations</h3>
+                          {serviceOrganisations.map((org) => (
+                            <div
+                              key={org.id}
+                              className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-white/10"
+                            >
+                              <div className="flex items-center gap-3">
+                                <span className="text-sm font-medium text-white">{org.name}</span>
+                                {org.active && (
+                                  <Chip size="sm" className="bg-[#E8E7BB]/20 text-[#E8E7BB] border border-[#E8E7BB]/30">
+                                    Active
+                                  </Chip>
+                                )}
+                                <ConnectionHealthChip health={org.health} />
+                              </div>
+                              <div className="flex items-center gap-2">
+                                {needsReconnect(org.health) && (
+                                  <Button
+                                    as="a"
+                                    href={org.service === "QBO" ? "/api/auth/qbo/connect" : "/api/auth/xero/connect"}
+                                    size="sm"
+                                    className="bg-amber-500/20 text-amber-400 border border-amber-500/30 rounded-lg hover:bg-amber-500/30 transition-all"
+                                  >
+                                    Reconnect
+                                  </Button>
+                                )}
+                                {!org.active && (
+                                  <Button
+                                    size="sm"
+                                    onPress={() => handleSetActiveOrganisation(org.service, org.id)}
+                                    isDisabled={loading}
+                                    className="bg-white/10 text-white rounded-lg hover:bg-white/20 transition-all"
+                                  >
+                                    Make active
+                                  </Button>
+                                )}
+                                <Button
+                                  size="sm"
+                                  onPress={() => handleRemoveOrganisation(org.service, org.id, org.name)}
+                                  isDisabled={loading}
+                                  className="bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg hover:bg-red-500/30 transition-all"
+                                >
+                                  Disconnect
+                                </Button>
+                              </div>
+                            </div>
+                          ))}
+                          <Button
+                            as="a"
+                            href={service === "QBO" ? "/api/auth/qbo/connect" : "/api/auth/xero/connect"}
+                            size="sm"
+                            className="bg-[#E8E7BB] text-[#1D1D1D] font-semibold rounded-lg hover:bg-[#d4d3a7] transition-all"
+                          >
+                            Connect another organisation
+                          </Button>
+                        </div>
+                      )}
                     </div>
-                    <Chip 
-                      size="sm" 
-                      className="bg-green-500/20 text-green-400 border border-green-500/30"
+                  );
+                })}
+                {connectedServices.length < 2 && (
+                  <div className="flex items-center justify-between p-4 bg-white/5 rounded-xl border border-dashed border-white/10">
+                    <span className="text-sm text-gray-400">
+                      Migrating books? Connect {connectedServices[0] === "QBO" ? "Xero" : "QuickBooks"} as well to compare them side by side.
+                    </span>
+                    <Button
+                      as="a"
+                      href={connectedServices[0] === "QBO" ? "/api/auth/xero/connect" : "/api/auth/qbo/connect"}
+                      size="sm"
+                      className="bg-white/10 text-white rounded-lg hover:bg-white/20 transition-all"
                     >
-                      Connected
-                    </Chip>
+                      {connectedServices[0] === "QBO" ? "Connect Xero" : "Connect QuickBooks"}
+                    </Button>
                   </div>
-                </div>
-                <Button
-                  onPress={handleDisconnectService}
-                  isLoading={loading}
-                  isDisabled={loading}
-                  className="bg-red-500/20 text-red-400 border border-red-500/30 rounded-lg px-4 py-2 hover:bg-red-500/30 transition-all"
-                >
-                  Disconnect
-                </Button>
+                )}
               </div>
             ) : (
                 <div className="text-center py-12">
@@ -380,6 +619,12 @@ export default function ProfileContent({ session: initialSession }: ProfileConte
           </CardBody>
         </Card>
 
+        {/* Ledger sync status and history */}
+        {connectedServices.length > 0 && <LedgerSyncPanel />}
+
+        {/* Scheduled report emails and their delivery history */}
+        {connectedServices.length > 0 && <ReportSchedulesPanel />}
+
         {/* Admin Panel - Only visible to admins */}
         {currentSession.user.isAdmin && (
           <div>
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { formatCurrency } from "@/lib/currency";
+import { Spinner } from "@nextui-org/react";
+
+interface ProviderComparisonProps {
+  timeframe: string;
+  fromDate?: string;
+  toDate?: string;
+}
+
+interface ProviderKpis {
+  service: 'QBO' | 'XERO';
+  organisation?: { name: string };
+  currency?: string;
+  kpis?: Record<string, number>;
+  error?: string;
+}
+
+const serviceNames: Record<string, string> = {
+  QBO: 'QuickBooks Online',
+  XERO: 'Xero',
+};
+
+const rows: Array<{ key: string; label: string; percentage?: boolean }> = [
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'costOfGoodsSold', label: 'Cost of Goods Sold' },
+  { key: 'expenses', label: 'Operating Expenses' },
+  { key: 'netProfit', label: 'Net Profit' },
+  { key: 'netMargin', label: 'Net Margin', percentage: true },
+  { key: 'cashBalance', label: 'Cash Balance' },
+  { key: 'totalAssets', label: 'Total Assets' },
+  { key: 'totalLiabilities', label: 'Total Liabilities' },
+  { key: 'equity', label: 'Equity' },
+];
+
+export default function ProviderComparison({ timeframe, fromDate, toDate }: ProviderComparisonProps) {
+  const [providers, setProviders] = useState<ProviderKpis[]>([]);
+  const [range, setRange] = useState<{ from: string; to: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      setLoading(true);
+      try {
+        let url = `/api/dashboard/compare?timeframe=${timeframe}`;
+        if (fromDate && toDate) {
+          url += `&fromDate=${fromDate}&toDate=${toDate}`;
+        }
+        const response = await fetch(url);
+        if (response.ok) {
+          const data = await response.json();
+          setProviders(data.providers || []);
+          setRange(data.timeframe || null);
+        }
+      } catch (error) {
+        console.error('Error fetching comparison:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [timeframe, fromDate, toDate]);
+
+  const formatValue = (value: number | undefined, currency: string | undefined, percentage?: boolean) => {
+    if (typeof value !== 'number') return '—';
+    if (percentage) return `${value.toFixed(1)}%`;
+    return formatCurrency(value, currency, { decimals: 0 });
+  };
+
+  // A difference column only makes sense when both books returned figures in the same currency
+  const [first, second] = providers;
+  const showDifference = providers.length === 2 && Boolean(first?.kpis && second?.kpis) && first.currency === second.currency;
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 shadow-lg">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Side-by-side Comparison</h3>
+          <p className="text-xs text-gray-400 mt-1">
+            The same KPIs from each connected service{range ? `, ${range.from} to ${range.to}` : ''}
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Spinner size="lg" color="warning" />
+        </div>
+      ) : providers.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-12">No accounting services connected</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-white/10">
+                <th className="text-left py-3 pr-4 text-xs text-gray-400 uppercase tracking-widest font-semibold">Metric</th>
+                {providers.map((provider) => (
+                  <th key={provider.service} className="text-right py-3 px-4 text-xs text-gray-400 uppercase tracking-widest font-semibold">
+                    <div>{serviceNames[provider.service] || provider.service}</div>
+                    {provider.organisation?.name && (
+                      <div className="normal-case tracking-normal font-normal text-gray-500 mt-1">{provider.organisation.name}</div>
+                    )}
+                  </th>
+                ))}
+                {showDifference && (
+                  <th className="text-right py-3 pl-4 text-xs text-gray-400 uppercase tracking-widest font-semibold">Difference</th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const difference = showDifference
+                  ? (first.kpis![row.key] || 0) - (second.kpis![row.key] || 0)
+                  : 0;
+                return (
+                  <tr key={row.key} className="border-b border-white/5">
+                    <td className="py-3 pr-4 text-gray-300">{row.label}</td>
+                    {providers.map((provider) => (
+                      <td key={provider.service} className="py-3 px-4 text-right font-medium text-white">
+                        {provider.kpis ? formatValue(provider.kpis[row.key], provider.currency, row.percentage) : '—'}
+                      </td>
+                    ))}
+                    {showDifference && (
+                      <td className={`py-3 pl-4 text-right font-medium ${
+                        Math.abs(difference) < 0.005 ? 'text-green-400' : 'text-amber-400'
+                      }`}>
+                        {formatValue(difference, first.currency, row.percentage)}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {providers.filter((provider) => provider.error).map((provider) => (
+            <p key={provider.service} className="text-xs text-red-400 mt-3">
+              {serviceNames[provider.service] || provider.service}: {provider.error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,488 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardBody, Button, Chip, Spinner } from "@nextui-org/react";
+
+interface ReportRun {
+  id: string;
+  trigger: "scheduled" | "manual";
+  status: "running" | "sent" | "failed";
+  recipients: string[];
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface ReportSchedule {
+  id: string;
+  name: string;
+  service: "QBO" | "XERO";
+  organisationId: string;
+  frequency: "weekly" | "monthly";
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  timeframe: string;
+  format: "pdf" | "xlsx";
+  recipients: string[];
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  runs: ReportRun[];
+}
+
+interface Organisation {
+  service: "QBO" | "XERO";
+  id: string;
+  name: string;
+  active: boolean;
+}
+
+interface ScheduleForm {
+  name: string;
+  organisation: string;
+  frequency: "weekly" | "monthly";
+  dayOfWeek: number;
+  dayOfMonth: number;
+  timeframe: string;
+  format: "pdf" | "xlsx";
+  recipients: string;
+  enabled: boolean;
+}
+
+const statusStyles: Record<ReportRun["status"], string> = {
+  running: "bg-amber-500/20 text-amber-400 border border-amber-500/30",
+  sent: "bg-green-500/20 text-green-400 border border-green-500/30",
+  failed: "bg-red-500/20 text-red-400 border border-red-500/30",
+};
+
+const timeframeLabels: Record<string, string> = {
+  LAST_MONTH: "Last month",
+  MONTH: "Month to date",
+  QUARTER: "This quarter",
+  FYTD: "Financial year to date",
+  YEAR: "This financial year",
+  L12: "Last 12 months",
+};
+
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const inputClass =
+  "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-[#E8E7BB]/50";
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+function describeSchedule(schedule: ReportSchedule): string {
+  return schedule.frequency === "weekly"
+    ? `Every ${weekdays[schedule.dayOfWeek ?? 1]}`
+    : `Monthly on day ${schedule.dayOfMonth ?? 1}`;
+}
+
+export default function ReportSchedulesPanel() {
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [organisations, setOrganisations] = useState<Organisation[]>([]);
+  const [emailConfigured, setEmailConfigured] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<ScheduleForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [sending, setSending] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const [schedulesResponse, organisationsResponse] = await Promise.all([
+        fetch("/api/reports/schedules"),
+        fetch("/api/profile/organisations"),
+      ]);
+      if (schedulesResponse.ok) {
+        const data = await schedulesResponse.json();
+        setSchedules(data.schedules || []);
+        setEmailConfigured(data.emailConfigured !== false);
+      }
+      if (organisationsResponse.ok) {
+        const data = await organisationsResponse.json();
+        setOrganisations(data.organisations || []);
+      }
+    } catch (err) {
+      console.error("Error fetching report schedules:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const organisationName = (schedule: ReportSchedule) =>
+    organisations.find((org) => org.service === schedule.service && org.id === schedule.organisationId)?.name ||
+    schedule.organisationId;
+
+  const openNew = () => {
+    const organisation = organisations.find((org) => org.active) || organisations[0];
+    setEditingId(null);
+    setError("");
+    setForm({
+      name: "Monthly financial report",
+      organisation: organisation ? `${organisation.service}:${organisation.id}` : "",
+      frequency: "monthly",
+      dayOfWeek: 1,
+      dayOfMonth: 1,
+      timeframe: "LAST_MONTH",
+      format: "pdf",
+      recipients: "",
+      enabled: true,
+    });
+  };
+
+  const openEdit = (schedule: ReportSchedule) => {
+    setEditingId(schedule.id);
+    setError("");
+    setForm({
+      name: schedule.name,
+      organisation: `${schedule.service}:${schedule.organisationId}`,
+      frequency: schedule.frequency,
+      dayOfWeek: schedule.dayOfWeek ?? 1,
+      dayOfMonth: schedule.dayOfMonth ?? 1,
+      timeframe: schedule.timeframe,
+      format: schedule.format,
+      recipients: schedule.recipients.join(", "),
+      enabled: schedule.enabled,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) {
+      return;
+    }
+    const [service, ...organisationId] = form.organisation.split(":");
+
+    setSaving(true);
+    setError("");
+    try {
+      const response = await fetch(editingId ? `/api/reports/schedules/${editingId}` : "/api/reports/schedules", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          service,
+          organisationId: organisationId.join(":"),
+          frequency: form.frequency,
+          dayOfWeek: form.dayOfWeek,
+          dayOfMonth: form.dayOfMonth,
+          timeframe: form.timeframe,
+          format: form.format,
+          recipients: form.recipients,
+          enabled: form.enabled,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Failed to save schedule");
+        return;
+      }
+      setForm(null);
+      setEditingId(null);
+      await fetchSchedules();
+    } catch (err) {
+      setError("An error occurred while saving the schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!confirm(`Delete the schedule "${schedule.name}" and its history?`)) {
+      return;
+    }
+    setError("");
+    try {
+      const response = await fetch(`/api/reports/schedules/${schedule.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || "Failed to delete schedule");
+      }
+      await fetchSchedules();
+    } catch (err) {
+      setError("An error occurred while deleting the schedule");
+    }
+  };
+
+  const handleSend = async (schedule: ReportSchedule) => {
+    setSending(schedule.id);
+    setError("");
+    try {
+      const response = await fetch(`/api/reports/schedules/${schedule.id}/send`, { method: "POST" });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || "Failed to send report");
+      } else if (data.run?.status === "failed") {
+        setError(`Report could not be sent: ${data.run.error}`);
+      }
+      await fetchSchedules();
+    } catch (err) {
+      setError("An error occurred while sending the report");
+    } finally {
+      setSending(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white/5 backdrop-blur-sm rounded-2xl border border-white/10 shadow-lg">
+      <CardBody className="p-6">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center space-x-3">
+            <div className="bg-sky-500/20 p-3 rounded-xl">
+              <div className="w-2 h-2 bg-sky-400 rounded-full"></div>
+            </div>
+            <h2 className="text-2xl font-bold text-white tracking-wide">Scheduled Reports</h2>
+          </div>
+          {!form && organisations.length > 0 && (
+            <Button
+              size="sm"
+              onPress={openNew}
+              className="bg-[#E8E7BB] text-[#1D1D1D] font-semibold rounded-lg hover:bg-[#d4d3a7] transition-all"
+            >
+              New schedule
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-400 mb-6">
+          Email the dashboard report as a PDF or Excel workbook every week or month, without logging in.
+        </p>
+
+        {!emailConfigured && (
+          <div className="mb-4 p-4 bg-amber-500/10 rounded-xl border border-amber-500/30 text-sm text-amber-400">
+            Email delivery is not configured on this server, so reports can&apos;t be sent yet.
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-4 bg-red-500/10 rounded-xl border border-red-500/30 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {form && (
+          <div className="mb-6 p-4 bg-white/5 rounded-xl border border-white/10 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400 uppercase tracking-wider">Name</span>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400 uppercase tracking-wider">Organisation</span>
+                <select
+                  value={form.organisation}
+                  onChange={(e) => setForm({ ...form, organisation: e.target.value })}
+                  className={inputClass}
+                >
+                  {organisations.map((org) => (
+                    <option key={`${org.service}:${org.id}`} value={`${org.service}:${org.id}`} className="bg-[#1D1D1D]">
+                      {org.name} ({org.service === "QBO" ? "QuickBooks" : "Xero"})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400 uppercase tracking-wider">Frequency</span>
+                <div className="flex gap-2">
+                  <select
+                    value={form.frequency}
+                    onChange={(e) => setForm({ ...form, frequency: e.target.value as ScheduleForm["frequency"] })}
+                    className={inputClass}
+                  >
+                    <option value="weekly" className="bg-[#1D1D1D]">Weekly</option>
+                    <option value="monthly" className="bg-[#1D1D1D]">Monthly</option>
+                  </select>
+                  {form.frequency === "weekly" ? (
+                    <select
+                      value={form.dayOfWeek}
+                      onChange={(e) => setForm({ ...form, dayOfWeek: Number(e.target.value) })}
+                      className={inputClass}
+                    >
+                      {weekdays.map((day, index) => (
+                        <option key={day} value={index} className="bg-[#1D1D1D]">{day}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <select
+                      value={form.dayOfMonth}
+                      onChange={(e) => setForm({ ...form, dayOfMonth: Number(e.target.value) })}
+                      className={inputClass}
+                    >
+                      {Array.from({ length: 28 }, (_, index) => index + 1).map((day) => (
+                        <option key={day} value={day} className="bg-[#1D1D1D]">Day {day}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400 uppercase tracking-wider">Period</span>
+                <div className="flex gap-2">
+                  <select
+                    value={form.timeframe}
+                    onChange={(e) => setForm({ ...form, timeframe: e.target.value })}
+                    className={inputClass}
+                  >
+                    {Object.entries(timeframeLabels).map(([value, label]) => (
+                      <option key={value} value={value} className="bg-[#1D1D1D]">{label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={form.format}
+                    onChange={(e) => setForm({ ...form, format: e.target.value as ScheduleForm["format"] })}
+                    className={inputClass}
+                  >
+                    <option value="pdf" className="bg-[#1D1D1D]">PDF</option>
+                    <option value="xlsx" className="bg-[#1D1D1D]">Excel</option>
+                  </select>
+                </div>
+              </label>
+            </div>
+            <label className="block space-y-1">
+              <span className="text-xs text-gray-400 uppercase tracking-wider">Recipients</span>
+              <textarea
+                value={form.recipients}
+                onChange={(e) => setForm({ ...form, recipients: e.target.value })}
+                placeholder="client@example.com, partner@example.com"
+                rows={2}
+                className={inputClass}
+              />
+            </label>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onPress={() => {
+                    setForm(null);
+                    setEditingId(null);
+                  }}
+                  className="bg-white/5 text-gray-300 border border-white/10 rounded-lg hover:bg-white/10 transition-all"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onPress={handleSave}
+                  isDisabled={saving || !form.organisation}
+                  className="bg-[#E8E7BB] text-[#1D1D1D] font-semibold rounded-lg hover:bg-[#d4d3a7] transition-all"
+                >
+                  {saving ? "Saving..." : editingId ? "Save changes" : "Create schedule"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Spinner size="lg" color="default" />
+          </div>
+        ) : organisations.length === 0 ? (
+          <p className="text-sm text-gray-400">Connect an organisation to schedule reports.</p>
+        ) : schedules.length === 0 ? (
+          !form && <p className="text-sm text-gray-400">No scheduled reports yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="p-4 bg-white/5 rounded-xl border border-white/10 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-sm font-medium text-white">{schedule.name}</span>
+                    <span className="text-xs text-gray-400">{organisationName(schedule)}</span>
+                    {!schedule.enabled && (
+                      <Chip size="sm" className="bg-gray-500/20 text-gray-400 border border-gray-500/30">
+                        Paused
+                      </Chip>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      onPress={() => handleSend(schedule)}
+                      isDisabled={sending !== null || !emailConfigured}
+                      className="bg-white/10 text-white rounded-lg hover:bg-white/20 transition-all"
+                    >
+                      {sending === schedule.id ? "Sending..." : "Send now"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onPress={() => openEdit(schedule)}
+                      className="bg-white/5 text-gray-300 border border-white/10 rounded-lg hover:bg-white/10 transition-all"
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      onPress={() => handleDelete(schedule)}
+                      className="bg-white/5 text-red-400 border border-white/10 rounded-lg hover:bg-red-500/10 transition-all"
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs text-gray-400">
+                  <span>
+                    {describeSchedule(schedule)}, {timeframeLabels[schedule.timeframe] || schedule.timeframe},{" "}
+                    {schedule.format.toUpperCase()}
+                  </span>
+                  <span className="truncate">To {schedule.recipients.join(", ")}</span>
+                  <span>Next: {schedule.enabled ? formatDateTime(schedule.nextRunAt) : "Paused"}</span>
+                </div>
+
+                {schedule.runs.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-white/10 text-left text-xs text-gray-400 uppercase">
+                          <th className="py-2 pr-4">Started</th>
+                          <th className="py-2 pr-4">Trigger</th>
+                          <th className="py-2 pr-4">Status</th>
+                          <th className="py-2 pr-4">Details</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {schedule.runs.map((run) => (
+                          <tr key={run.id} className="border-b border-white/5 text-gray-300">
+                            <td className="py-2 pr-4 whitespace-nowrap">{formatDateTime(run.startedAt)}</td>
+                            <td className="py-2 pr-4 capitalize">{run.trigger}</td>
+                            <td className="py-2 pr-4">
+                              <Chip size="sm" className={statusStyles[run.status]}>
+                                {run.status}
+                              </Chip>
+                            </td>
+                            <td className={`py-2 pr-4 text-xs ${run.status === "failed" ? "text-red-400" : "text-gray-400"}`}>
+                              {run.status === "failed"
+                                ? run.error
+                                : `${run.recipients.length} recipient${run.recipients.length === 1 ? "" : "s"}`}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
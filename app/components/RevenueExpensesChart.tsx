@@ -2,6 +2,7 @@
 
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { useState, useMemo, useEffect } from 'react'
+import { formatCurrency as formatMoney, formatCompactCurrency } from '@/lib/currency'
 
 interface TrendData {
   month: string
@@ -16,9 +17,13 @@ interface RevenueExpensesChartProps {
   loading?: boolean
   // expenseBreakdown prop is optional; component will derive breakdowns from `data` if present
   expenseBreakdown?: { name: string; value?: number }[]
+  /** Organisation base currency */
+  currency?: string | null
+  /** Called with the index of the month clicked */
+  onMonthClick?: (index: number) => void
 }
 
-export default function RevenueExpensesChart({ data, loading = false, expenseBreakdown = [] }: RevenueExpensesChartProps) {
+export default function RevenueExpensesChart({ data, loading = false, expenseBreakdown = [], currency, onMonthClick }: RevenueExpensesChartProps) {
   if (loading) {
       return (
         <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10 shadow-lg">
@@ -40,12 +45,7 @@ export default function RevenueExpensesChart({ data, loading = false, expenseBre
   }
 
   const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value)
+    return formatMoney(value, currency, { decimals: 0 })
   }
 
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -64,6 +64,11 @@ export default function RevenueExpensesChart({ data, loading = false, expenseBre
               </span>
             </div>
           ))}
+          {onMonthClick && (
+            <p className="text-xs text-blue-600 mt-2">
+              Click to view transactions
+            </p>
+          )}
         </div>
       )
     }
@@ -309,7 +314,14 @@ export default function RevenueExpensesChart({ data, loading = false, expenseBre
       
       <div className="h-72">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={augmentedData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <LineChart
+            data={augmentedData}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            onClick={onMonthClick ? (state: any) => {
+              if (typeof state?.activeTooltipIndex === 'number') onMonthClick(state.activeTooltipIndex)
+            } : undefined}
+            style={onMonthClick ? { cursor: 'pointer' } : undefined}
+          >
             <CartesianGrid strokeDasharray="3 3" stroke="#ffffff08" vertical={false} />
             <XAxis 
               dataKey="month" 
@@ -321,7 +333,7 @@ export default function RevenueExpensesChart({ data, loading = false, expenseBre
             <YAxis 
               stroke="#6b7280"
               fontSize={12}
-              tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+              tickFormatter={(value) => formatCompactCurrency(value, currency)}
               tickLine={false}
               axisLine={false}
             />
@@ -6,24 +6,38 @@ import * as domtoimage from 'dom-to-image';
 import 'react-grid-layout/css/styles.css';
 import 'react-resizable/css/styles.css';
 import GridLayout, { Layout, WidthProvider } from 'react-grid-layout';
-import { Card, CardBody, Button } from "@nextui-org/react";
-import { Trash2 } from 'lucide-react';
-import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, TooltipProps } from 'recharts';
+import { Card, CardBody, Button, Dropdown, DropdownTrigger, DropdownMenu, DropdownItem } from "@nextui-org/react";
+import { ArrowDown, ArrowUp, Pin, RefreshCw, Share2, Trash2 } from 'lucide-react';
+import { LineChart, Line, BarChart, Bar, AreaChart, Area, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, TooltipProps } from 'recharts';
+import { formatCurrency } from '@/lib/currency';
+import ShareLinksModal from './ShareLinksModal';
+import type { WidgetTableColumn, WidgetType, WidgetValueFormat } from '@/lib/widgets';
 
-type Widget = {
+export type Widget = {
   id: string;
   title: string;
-  type: 'line' | 'bar' | 'pie' | 'gauge' | 'number';
+  type: WidgetType;
   data: any;
   w?: number;
   h?: number;
   x?: number;
   y?: number;
+  /** Present on live widgets; `data` is then the last refreshed snapshot */
+  dataSource?: unknown;
+  refreshMinutes?: number | null;
+  refreshedAt?: string | null;
+  /** Why the last refresh failed; the snapshot is stale until one succeeds */
+  refreshError?: string | null;
 };
 
-async function fetchWidgets(chatId?: string): Promise<Widget[]> {
+type DashboardOption = { id: string; name: string };
+
+const NEW_DASHBOARD_KEY = '__new';
+
+async function fetchWidgets(chatId?: string, dashboardId?: string): Promise<Widget[]> {
   try {
-    const res = await fetch(`/api/dashboard/widgets${chatId ? `?chatId=${encodeURIComponent(chatId)}` : ''}`, { cache: 'no-store' });
+    const query = chatId ? `?chatId=${encodeURIComponent(chatId)}` : dashboardId ? `?dashboardId=${encodeURIComponent(dashboardId)}` : '';
+    const res = await fetch(`/api/dashboard/widgets${query}`, { cache: 'no-store' });
     const j = await res.json();
     return Array.isArray(j?.widgets) ? j.widgets : [];
   } catch {
@@ -31,6 +45,16 @@ async function fetchWidgets(chatId?: string): Promise<Widget[]> {
   }
 }
 
+async function fetchDashboards(): Promise<DashboardOption[]> {
+  try {
+    const res = await fetch('/api/dashboards', { cache: 'no-store' });
+    const j = await res.json();
+    return Array.isArray(j?.dashboards) ? j.dashboards : [];
+  } catch {
+    return [];
+  }
+}
+
 async function deleteWidget(id: string) {
   try {
     await fetch(`/api/dashboard/widgets?id=${id}`, { method: 'DELETE' });
@@ -39,6 +63,27 @@ async function deleteWidget(id: string) {
   }
 }
 
+// Re-run a live widget's data source; null when the request itself fails
+async function refreshLiveWidget(id: string): Promise<Widget | null> {
+  try {
+    const res = await fetch(`/api/dashboard/widgets/${id}/refresh`, { method: 'POST' });
+    if (!res.ok) return null;
+    const j = await res.json();
+    return j?.widget ?? null;
+  } catch (err) {
+    console.error('Failed to refresh widget:', err);
+    return null;
+  }
+}
+
+function formatRefreshedAt(value: string) {
+  const date = new Date(value);
+  const time = date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' })} ${time}`;
+}
+
 const AutoWidthGrid: any = WidthProvider(GridLayout as any);
 
 // Custom tooltip for pie chart with white text
@@ -64,28 +109,133 @@ const CustomPieTooltip = ({ active, payload }: TooltipProps<any, any>) => {
   return null;
 };
 
-export default function RightPanelDashboard({ chatId }: { chatId?: string }) {
-  const [widgets, setWidgets] = useState<Widget[]>([]);
-  const [loading, setLoading] = useState(true);
+// Custom tooltip for waterfall bars: the signed change, not the invisible base
+const WaterfallTooltip = ({ active, payload }: TooltipProps<any, any>) => {
+  if (active && payload && payload.length) {
+    const row = payload[0].payload;
+    return (
+      <div style={{
+        backgroundColor: '#1D1D1D',
+        border: '1px solid rgba(255, 255, 255, 0.1)',
+        borderRadius: '8px',
+        padding: '8px 12px',
+        color: '#fff'
+      }}>
+        <p style={{ color: '#fff', margin: '0 0 4px 0', fontSize: '12px' }}>
+          {row.name}
+        </p>
+        <p style={{ color: '#fff', margin: 0, fontSize: '14px', fontWeight: 'bold' }}>
+          {row.kind !== 'total' && row.delta > 0 ? '+' : ''}{row.delta.toLocaleString()}
+        </p>
+      </div>
+    );
+  }
+  return null;
+};
+
+// A chat's widgets (chatId), a named dashboard's (dashboardId) shown full page,
+// or the read-only snapshots behind a share link (sharedWidgets)
+export default function RightPanelDashboard({ chatId, dashboardId, title, sharedWidgets }: {
+  chatId?: string;
+  dashboardId?: string;
+  title?: string;
+  sharedWidgets?: Widget[];
+}) {
+  const readOnly = Boolean(sharedWidgets);
+  const [widgets, setWidgets] = useState<Widget[]>(sharedWidgets ?? []);
+  const [dashboards, setDashboards] = useState<DashboardOption[]>([]);
+  const [loading, setLoading] = useState(!readOnly);
+  const [showShare, setShowShare] = useState(false);
+  const [refreshingIds, setRefreshingIds] = useState<string[]>([]);
   const dashRef = useRef<HTMLDivElement | null>(null);
   
   // Refresh widgets function
   const refreshWidgets = useCallback(async () => {
     setLoading(true);
     try {
-      const newWidgets = await fetchWidgets(chatId);
+      const newWidgets = await fetchWidgets(chatId, dashboardId);
       setWidgets(newWidgets);
     } finally {
       setLoading(false);
     }
-  }, [chatId]);
+  }, [chatId, dashboardId]);
+
+  // Re-run live widgets one at a time; a failed refresh keeps the stored snapshot
+  const refreshLive = useCallback(async (ids: string[]) => {
+    for (const id of ids) {
+      setRefreshingIds((prev) => [...prev, id]);
+      const updated = await refreshLiveWidget(id);
+      setRefreshingIds((prev) => prev.filter((r) => r !== id));
+      if (updated) {
+        setWidgets((prev) => prev.map((w) => (w.id === id ? { ...w, data: updated.data, refreshedAt: updated.refreshedAt, refreshError: updated.refreshError } : w)));
+      }
+    }
+  }, []);
 
-  // Load widgets from server (per chat)
+  // Load widgets from server (per chat), then bring live widgets up to date
   useEffect(() => {
-    fetchWidgets(chatId)
-      .then(setWidgets)
+    if (readOnly) return;
+    fetchWidgets(chatId, dashboardId)
+      .then((loaded) => {
+        setWidgets(loaded);
+        refreshLive(loaded.filter((w) => w.dataSource).map((w) => w.id));
+      })
       .finally(() => setLoading(false));
-  }, [chatId]);
+  }, [chatId, dashboardId, readOnly, refreshLive]);
+
+  // Chat widgets can be pinned to any of the user's dashboards
+  const canPin = Boolean(chatId) && !dashboardId;
+  useEffect(() => {
+    if (!canPin) return;
+    const load = () => fetchDashboards().then(setDashboards);
+    load();
+    window.addEventListener('dashboards-changed', load);
+    return () => window.removeEventListener('dashboards-changed', load);
+  }, [canPin]);
+
+  const pinToDashboard = useCallback(async (widgetId: string, key: string) => {
+    try {
+      let target = dashboards.find((d) => d.id === key);
+      if (key === NEW_DASHBOARD_KEY) {
+        const name = prompt('Name the new dashboard');
+        if (!name?.trim()) return;
+        const res = await fetch('/api/dashboards', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name }),
+        });
+        if (!res.ok) throw new Error('Failed to create dashboard');
+        target = (await res.json()).dashboard;
+      }
+      if (!target) return;
+
+      const res = await fetch(`/api/dashboards/${target.id}/widgets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ widgetId }),
+      });
+      if (!res.ok) throw new Error('Failed to pin widget');
+      window.dispatchEvent(new CustomEvent('dashboards-changed'));
+      alert(`Pinned to ${target.name}`);
+    } catch (err) {
+      console.error('Pin failed:', err);
+      alert('Failed to pin the widget. Please try again.');
+    }
+  }, [dashboards]);
+
+  // Live widgets with an interval refresh on their own timer
+  const refreshSchedule = widgets
+    .filter((w) => w.dataSource && w.refreshMinutes)
+    .map((w) => `${w.id}:${w.refreshMinutes}`)
+    .join(',');
+  useEffect(() => {
+    if (!refreshSchedule) return;
+    const timers = refreshSchedule.split(',').map((entry) => {
+      const [id, minutes] = entry.split(':');
+      return setInterval(() => refreshLive([id]), Number(minutes) * 60 * 1000);
+    });
+    return () => timers.forEach(clearInterval);
+  }, [refreshSchedule, refreshLive]);
 
   // Listen for dashboard widget added events
   useEffect(() => {
@@ -130,7 +280,7 @@ export default function RightPanelDashboard({ chatId }: { chatId?: string }) {
 
   const savePlacements = useCallback(async (next: Layout[]) => {
     // Only save after initial render and if we have widgets
-    if (!hasInitialized || widgets.length === 0) {
+    if (readOnly || !hasInitialized || widgets.length === 0) {
       return;
     }
 
@@ -155,7 +305,7 @@ export default function RightPanelDashboard({ chatId }: { chatId?: string }) {
     } catch (err) {
       console.error('Failed to save placements', err);
     }
-  }, [hasInitialized, widgets.length, layout]);
+  }, [readOnly, hasInitialized, widgets.length, layout]);
 
   const downloadDashboardPng = useCallback(async () => {
     try {
@@ -236,8 +386,19 @@ export default function RightPanelDashboard({ chatId }: { chatId?: string }) {
   return (
     <div className="h-full flex flex-col">
       <div className="py-2 px-4 border-b border-white/10 flex items-center justify-between bg-[#1D1D1D]">
-        <div className="text-xs uppercase tracking-wider text-gray-400 font-medium">Dashboard</div>
+        <div className="text-xs uppercase tracking-wider text-gray-400 font-medium truncate">{title || 'Dashboard'}</div>
         <div className="inline-flex items-center gap-2">
+          {!readOnly && (chatId || dashboardId) && (
+            <Button
+              size="sm"
+              variant="flat"
+              onPress={() => setShowShare(true)}
+              startContent={<Share2 className="w-3 h-3" />}
+              className="h-7 px-3 text-xs font-medium bg-white/10 text-gray-300 hover:bg-[#E8E7BB] hover:text-[#1D1D1D] transition-all rounded-full"
+            >
+              {dashboardId ? 'Share' : 'Share chat'}
+            </Button>
+          )}
           <Button 
             size="sm" 
             variant="flat" 
@@ -258,7 +419,7 @@ export default function RightPanelDashboard({ chatId }: { chatId?: string }) {
       >
         {widgets.length === 0 ? (
           <div className="flex items-center justify-center h-32">
-            <div className="text-sm text-[#1D1D1D]/70">No widgets yet</div>
+            <div className="text-sm text-[#1D1D1D]/70">{dashboardId ? 'No widgets yet. Pin widgets from a chat\'s dashboard panel.' : 'No widgets yet'}</div>
           </div>
         ) : (
           <AutoWidthGrid
@@ -266,8 +427,8 @@ export default function RightPanelDashboard({ chatId }: { chatId?: string }) {
             layout={layout}
             cols={3}
             rowHeight={120}
-            isResizable
-            isDraggable
+            isResizable={!readOnly}
+            isDraggable={!readOnly}
             isBounded={false}
             compactType={null}
             margin={[8, 8]}
@@ -286,23 +447,77 @@ export default function RightPanelDashboard({ chatId }: { chatId?: string }) {
               <div key={w.id} className="p-1 h-full">
                 <Card className="h-full border border-white/10 bg-[#1D1D1D] shadow-2xl rounded-2xl">
                   <CardBody className="p-3 h-full flex flex-col overflow-hidden">
-                    <div className="drag-handle flex items-center justify-between select-none h-8 -mx-1 px-2 cursor-move shrink-0">
+                    <div className={`drag-handle flex items-center justify-between select-none h-8 -mx-1 px-2 shrink-0 ${readOnly ? '' : 'cursor-move'}`}>
                       <div className="text-xs text-gray-300 truncate pr-2 font-medium">{w.title || w.type.toUpperCase()}</div>
-                      <Button
-                        isIconOnly
-                        size="sm"
-                        variant="light"
-                        className="no-drag h-6 w-6 min-w-6 text-gray-400 hover:text-red-400 hover:bg-red-500/20 rounded-full transition-all"
-                        onPress={(e) => { 
-                          removeWidget(w.id); 
-                        }}
-                      >
-                        <Trash2 className="w-3 h-3" />
-                      </Button>
+                      {!readOnly && (
+                        <div className="flex items-center gap-1 shrink-0">
+                          {canPin && (
+                            <Dropdown>
+                              <DropdownTrigger>
+                                <Button
+                                  isIconOnly
+                                  size="sm"
+                                  variant="light"
+                                  aria-label="Pin to dashboard"
+                                  className="no-drag h-6 w-6 min-w-6 text-gray-400 hover:text-[#E8E7BB] hover:bg-white/10 rounded-full transition-all"
+                                >
+                                  <Pin className="w-3 h-3" />
+                                </Button>
+                              </DropdownTrigger>
+                              <DropdownMenu
+                                aria-label="Pin to dashboard"
+                                items={[...dashboards, { id: NEW_DASHBOARD_KEY, name: 'New dashboard…' }]}
+                                onAction={(key) => pinToDashboard(w.id, String(key))}
+                              >
+                                {(item) => <DropdownItem key={item.id}>{item.name}</DropdownItem>}
+                              </DropdownMenu>
+                            </Dropdown>
+                          )}
+                          {Boolean(w.dataSource) && (
+                            <Button
+                              isIconOnly
+                              size="sm"
+                              variant="light"
+                              aria-label="Refresh widget"
+                              className="no-drag h-6 w-6 min-w-6 text-gray-400 hover:text-[#E8E7BB] hover:bg-white/10 rounded-full transition-all"
+                              isDisabled={refreshingIds.includes(w.id)}
+                              onPress={() => refreshLive([w.id])}
+                            >
+                              <RefreshCw className={`w-3 h-3 ${refreshingIds.includes(w.id) ? 'animate-spin' : ''}`} />
+                            </Button>
+                          )}
+                          <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            className="no-drag h-6 w-6 min-w-6 text-gray-400 hover:text-red-400 hover:bg-red-500/20 rounded-full transition-all"
+                            onPress={(e) => { 
+                              removeWidget(w.id); 
+                            }}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
                     <div className="flex-1 min-h-0 w-full">
                       <ChartContainer widget={w} />
                     </div>
+                    {readOnly && w.refreshedAt && (
+                      <div className="text-[10px] shrink-0 truncate pt-1 text-gray-500">
+                        Snapshot from {formatRefreshedAt(w.refreshedAt)}
+                      </div>
+                    )}
+                    {Boolean(w.dataSource) && (
+                      <div
+                        className={`text-[10px] shrink-0 truncate pt-1 ${w.refreshError ? 'text-yellow-400' : 'text-gray-500'}`}
+                        title={w.refreshError || undefined}
+                      >
+                        {w.refreshError
+                          ? `Couldn't refresh · showing data from ${w.refreshedAt ? formatRefreshedAt(w.refreshedAt) : 'when it was added'}`
+                          : w.refreshedAt ? `Updated ${formatRefreshedAt(w.refreshedAt)}` : 'Not refreshed yet'}
+                      </div>
+                    )}
                   </CardBody>
                 </Card>
               </div>
@@ -310,6 +525,15 @@ export default function RightPanelDashboard({ chatId }: { chatId?: string }) {
           </AutoWidthGrid>
         )}
       </div>
+      {(chatId || dashboardId) && (
+        <ShareLinksModal
+          isOpen={showShare}
+          onClose={() => setShowShare(false)}
+          resourceType={dashboardId ? 'dashboard' : 'conversation'}
+          resourceId={(dashboardId || chatId) as string}
+          resourceName={dashboardId ? title : undefined}
+        />
+      )}
     </div>
   );
 }
@@ -333,10 +557,18 @@ function ChartContainer({ widget }: { widget: Widget }) {
     const { data, type } = widget;
     if (!data) return null;
 
-    if (type === 'gauge' || type === 'number') {
+    if (type === 'gauge' || type === 'number' || type === 'table' || type === 'kpi-list') {
       return data; // Pass raw data for these
     }
 
+    if (type === 'area' || type === 'stacked-bar') {
+      return toSeriesRows(data);
+    }
+
+    if (type === 'waterfall') {
+      return toWaterfallRows(data);
+    }
+
     // Convert Chart.js/MUI format to Recharts format (array of objects)
     if (data.labels && data.datasets && data.datasets.length > 0) {
       const labels = data.labels;
@@ -357,7 +589,7 @@ function ChartContainer({ widget }: { widget: Widget }) {
     return [];
   }, [widget]);
 
-  if (!chartData && widget.type !== 'number' && widget.type !== 'gauge') {
+  if (!chartData && widget.type !== 'number' && widget.type !== 'gauge' && widget.type !== 'table' && widget.type !== 'kpi-list') {
     return (
       <div ref={ref} className="mt-2 h-full flex items-center justify-center">
         <div className="text-xs text-gray-400">No data available</div>
@@ -368,7 +600,7 @@ function ChartContainer({ widget }: { widget: Widget }) {
   const COLORS = ['#E8E7BB', '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16', '#f97316'];
 
   return (
-    <div ref={ref} className={`h-full w-full ${widget.type === 'number' || widget.type === 'pie' || widget.type === 'gauge' ? 'min-h-0' : 'mt-2'}`}>
+    <div ref={ref} className={`h-full w-full ${['number', 'pie', 'gauge', 'table', 'kpi-list'].includes(widget.type) ? 'min-h-0' : 'mt-2'}`}>
       {size.width > 0 && size.height > 0 && (
         <>
           {widget.type === 'line' && (
@@ -407,6 +639,79 @@ function ChartContainer({ widget }: { widget: Widget }) {
               </BarChart>
             </ResponsiveContainer>
           )}
+          {widget.type === 'area' && (
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData.rows}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255, 255, 255, 0.1)" />
+                <XAxis dataKey="name" hide={size.width < 200} tick={{fontSize: 10, fill: '#9ca3af'}} />
+                <YAxis width={30} tick={{fontSize: 10, fill: '#9ca3af'}} />
+                <Tooltip 
+                  contentStyle={{ 
+                    backgroundColor: '#1D1D1D', 
+                    border: '1px solid rgba(255, 255, 255, 0.1)',
+                    borderRadius: '8px',
+                    color: '#fff'
+                  }}
+                />
+                {chartData.keys.map((key: string, index: number) => (
+                  <Area
+                    key={key}
+                    type="monotone"
+                    dataKey={key}
+                    stroke={COLORS[index % COLORS.length]}
+                    fill={COLORS[index % COLORS.length]}
+                    fillOpacity={0.25}
+                    strokeWidth={2}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
+          {widget.type === 'stacked-bar' && (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData.rows}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255, 255, 255, 0.1)" />
+                <XAxis dataKey="name" hide={size.width < 200} tick={{fontSize: 10, fill: '#9ca3af'}} />
+                <YAxis width={30} tick={{fontSize: 10, fill: '#9ca3af'}} />
+                <Tooltip 
+                  contentStyle={{ 
+                    backgroundColor: '#1D1D1D', 
+                    border: '1px solid rgba(255, 255, 255, 0.1)',
+                    borderRadius: '8px',
+                    color: '#fff'
+                  }}
+                />
+                {chartData.keys.length > 1 && size.height > 160 && (
+                  <Legend wrapperStyle={{ fontSize: 10, color: '#9ca3af' }} />
+                )}
+                {chartData.keys.map((key: string, index: number) => (
+                  <Bar key={key} dataKey={key} stackId="stack" fill={COLORS[index % COLORS.length]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+          {widget.type === 'waterfall' && (
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="rgba(255, 255, 255, 0.1)" />
+                <XAxis dataKey="name" hide={size.width < 200} tick={{fontSize: 10, fill: '#9ca3af'}} />
+                <YAxis width={30} tick={{fontSize: 10, fill: '#9ca3af'}} />
+                <Tooltip content={<WaterfallTooltip />} cursor={{ fill: 'rgba(255, 255, 255, 0.05)' }} />
+                <Bar dataKey="base" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+                <Bar dataKey="change" stackId="waterfall" radius={[4, 4, 0, 0]}>
+                  {chartData.map((row: any, index: number) => (
+                    <Cell key={`cell-${index}`} fill={row.kind === 'total' ? '#E8E7BB' : row.kind === 'up' ? '#10b981' : '#ef4444'} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+          {widget.type === 'table' && (
+            <TableWidget data={chartData} />
+          )}
+          {widget.type === 'kpi-list' && (
+            <KpiListWidget data={chartData} />
+          )}
           {widget.type === 'pie' && (
             <div className="h-full w-full flex items-center justify-center min-h-0 p-2">
               <ResponsiveContainer width="100%" height="100%">
@@ -593,5 +898,159 @@ function NumberWidget({ data, width, height }: { data: any, width: number, heigh
   );
 }
 
+// Multi-series data ({labels, series}, Chart.js datasets or plain {labels, values}) as Recharts rows
+function toSeriesRows(data: any): { rows: any[]; keys: string[] } | null {
+  if (!Array.isArray(data?.labels)) return null;
 
+  let series: Array<{ name: string; values: number[] }> = [];
+  if (Array.isArray(data.series)) {
+    series = data.series.map((s: any, i: number) => ({ name: s?.name || `Series ${i + 1}`, values: s?.values || [] }));
+  } else if (Array.isArray(data.datasets)) {
+    series = data.datasets.map((d: any, i: number) => ({ name: d?.label || `Series ${i + 1}`, values: d?.data || [] }));
+  } else if (Array.isArray(data.values)) {
+    series = [{ name: 'value', values: data.values }];
+  }
+
+  return {
+    keys: series.map((s) => s.name),
+    rows: data.labels.map((label: string, i: number) => ({
+      name: label,
+      ...Object.fromEntries(series.map((s) => [s.name, s.values[i] ?? 0])),
+    })),
+  };
+}
 
+// Waterfall steps as an invisible base plus a visible change, with an optional closing total
+function toWaterfallRows(data: any): any[] | null {
+  const rows = toSeriesRows(data);
+  if (!rows || rows.keys.length === 0) return null;
+
+  const key = rows.keys[0];
+  let running = 0;
+  const steps = rows.rows.map((row) => {
+    const delta = Number(row[key]) || 0;
+    const start = running;
+    running += delta;
+    return { name: row.name, base: Math.min(start, running), change: Math.abs(delta), delta, kind: delta >= 0 ? 'up' : 'down' };
+  });
+
+  if (data.totalLabel) {
+    steps.push({ name: data.totalLabel, base: Math.min(0, running), change: Math.abs(running), delta: running, kind: 'total' });
+  }
+  return steps;
+}
+
+function formatWidgetValue(value: unknown, format: WidgetValueFormat | undefined, currency?: string) {
+  if (value === null || value === undefined || value === '') return '—';
+  if (format === 'text' || (typeof value !== 'number' && format !== 'date')) return String(value);
+
+  switch (format) {
+    case 'currency':
+      return formatCurrency(value as number, currency, { decimals: 0 });
+    case 'percent':
+      return `${(value as number).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+    case 'date': {
+      const date = new Date(String(value));
+      return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+    }
+    default:
+      return (value as number).toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+}
+
+function TableWidget({ data }: { data: any }) {
+  const rows: Array<Record<string, any>> = Array.isArray(data?.rows) ? data.rows : [];
+  const columns: WidgetTableColumn[] = Array.isArray(data?.columns) && data.columns.length > 0
+    ? data.columns
+    : Object.keys(rows[0] || {}).map((key) => ({ key }));
+  const [sort, setSort] = useState<{ key: string; direction: 'asc' | 'desc' } | null>(null);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    const factor = sort.direction === 'asc' ? 1 : -1;
+    return [...rows].sort((a, b) => {
+      const left = a[sort.key];
+      const right = b[sort.key];
+      if (typeof left === 'number' && typeof right === 'number') return (left - right) * factor;
+      return String(left ?? '').localeCompare(String(right ?? '')) * factor;
+    });
+  }, [rows, sort]);
+
+  const toggleSort = (key: string) => {
+    setSort((prev) => (prev?.key === key
+      ? { key, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: typeof rows[0]?.[key] === 'number' ? 'desc' : 'asc' }));
+  };
+
+  if (rows.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-xs text-gray-400">No rows</div>
+      </div>
+    );
+  }
+
+  const isNumeric = (column: WidgetTableColumn) => column.format === 'currency' || column.format === 'number' || column.format === 'percent'
+    || (!column.format && typeof rows[0]?.[column.key] === 'number');
+
+  return (
+    <div className="no-drag h-full w-full overflow-auto">
+      <table className="w-full text-xs">
+        <thead className="sticky top-0 bg-[#1D1D1D]">
+          <tr className="border-b border-white/10">
+            {columns.map((column) => (
+              <th
+                key={column.key}
+                onClick={() => toggleSort(column.key)}
+                className={`py-1.5 px-2 font-medium text-gray-400 cursor-pointer select-none whitespace-nowrap hover:text-[#E8E7BB] ${isNumeric(column) ? 'text-right' : 'text-left'}`}
+              >
+                <span className="inline-flex items-center gap-1">
+                  {column.label || column.key}
+                  {sort?.key === column.key && (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedRows.map((row, index) => (
+            <tr key={index} className="border-b border-white/5 hover:bg-white/5">
+              {columns.map((column) => (
+                <td
+                  key={column.key}
+                  className={`py-1.5 px-2 text-gray-200 whitespace-nowrap ${isNumeric(column) ? 'text-right tabular-nums' : 'text-left truncate max-w-[160px]'}`}
+                >
+                  {formatWidgetValue(row[column.key], column.format, data?.currency)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function KpiListWidget({ data }: { data: any }) {
+  const items: any[] = Array.isArray(data?.items) ? data.items : [];
+
+  return (
+    <div className="h-full w-full overflow-auto flex flex-col divide-y divide-white/5">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-center justify-between gap-2 py-1.5 px-1">
+          <span className="text-xs text-gray-400 truncate" title={item.label}>{item.label}</span>
+          <span className="flex items-center gap-2 shrink-0">
+            <span className="text-sm font-semibold text-white tabular-nums">
+              {formatWidgetValue(item.value, item.format ?? (typeof item.value === 'number' ? 'number' : 'text'), data?.currency)}
+            </span>
+            {typeof item.change === 'number' && (
+              <span className={`text-[10px] font-medium ${item.change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {item.change > 0 ? '+' : ''}{item.change.toFixed(1)}%
+              </span>
+            )}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { X, Loader2, Copy, Check, Lock, Ban } from 'lucide-react'
+
+type ShareResourceType = 'conversation' | 'dashboard'
+
+interface ShareLinkSummary {
+  id: string
+  token: string
+  hasPassword: boolean
+  status: 'active' | 'expired' | 'revoked'
+  expiresAt: string
+  revokedAt: string | null
+  viewCount: number
+  lastViewedAt: string | null
+  createdAt: string
+}
+
+interface ShareLinksModalProps {
+  isOpen: boolean
+  onClose: () => void
+  resourceType: ShareResourceType
+  resourceId: string
+  /** Conversation title or dashboard name */
+  resourceName?: string
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+]
+
+const statusClasses: Record<ShareLinkSummary['status'], string> = {
+  active: 'bg-green-500/20 text-green-400',
+  expired: 'bg-white/10 text-gray-400',
+  revoked: 'bg-red-500/20 text-red-400',
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-[#E8E7BB]/50'
+
+export default function ShareLinksModal({ isOpen, onClose, resourceType, resourceId, resourceName }: ShareLinksModalProps) {
+  const [links, setLinks] = useState<ShareLinkSummary[]>([])
+  const [loading, setLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [expiresInDays, setExpiresInDays] = useState(7)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const fetchLinks = useCallback(async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ resourceType, resourceId })
+      const response = await fetch(`/api/share-links?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setLinks(data.links || [])
+      }
+    } catch (err) {
+      console.error('Error fetching share links:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [resourceType, resourceId])
+
+  useEffect(() => {
+    if (isOpen) fetchLinks()
+  }, [isOpen, fetchLinks])
+
+  if (!isOpen) return null
+
+  const shareUrl = (link: ShareLinkSummary) => `${window.location.origin}/share/${link.token}`
+
+  const copyLink = async (link: ShareLinkSummary) => {
+    await navigator.clipboard.writeText(shareUrl(link))
+    setCopiedId(link.id)
+    setTimeout(() => setCopiedId(null), 2000)
+  }
+
+  const handleCreate = async () => {
+    setCreating(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/share-links', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resourceType, resourceId, expiresInDays, password: password || undefined }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to create link')
+        return
+      }
+      setPassword('')
+      setLinks((prev) => [data.link, ...prev])
+      copyLink(data.link).catch(() => {})
+    } catch (err) {
+      console.error('Error creating share link:', err)
+      setError('Failed to create link')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (link: ShareLinkSummary) => {
+    if (!confirm('Revoke this link? Anyone who has it will lose access.')) return
+
+    const response = await fetch(`/api/share-links/${link.id}`, { method: 'DELETE' })
+    if (response.ok) {
+      setLinks((prev) => prev.map((l) => (l.id === link.id ? { ...l, status: 'revoked', revokedAt: new Date().toISOString() } : l)))
+    } else {
+      setError('Failed to revoke link')
+    }
+  }
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-[#1D1D1D] rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Share {resourceType === 'conversation' ? 'Conversation' : 'Dashboard'}</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              {resourceName ? `${resourceName} • ` : ''}Read-only: viewers see stored {resourceType === 'conversation' ? 'messages and ' : ''}widget snapshots, never live accounting data
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="p-4 bg-white/5 rounded-xl border border-white/10 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400 uppercase tracking-wider">Expires after</span>
+                <select
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(Number(e.target.value))}
+                  className={inputClass}
+                >
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.days} value={option.days} className="bg-[#1D1D1D]">{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="text-xs text-gray-400 uppercase tracking-wider">Password (optional)</span>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="At least 6 characters"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="px-4 py-2 rounded-lg bg-[#E8E7BB] text-[#1D1D1D] text-sm font-medium hover:opacity-90 disabled:opacity-50 flex items-center gap-2"
+            >
+              {creating && <Loader2 className="w-4 h-4 animate-spin" />}
+              Create and copy link
+            </button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">No links yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {links.map((link) => (
+                <div key={link.id} className="flex items-center justify-between gap-3 p-3 bg-white/5 rounded-xl border border-white/10">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${statusClasses[link.status]}`}>
+                        {link.status}
+                      </span>
+                      {link.hasPassword && <Lock className="w-3 h-3 text-gray-400" aria-label="Password protected" />}
+                      <span className="text-xs text-gray-500 truncate">…/share/{link.token.slice(0, 8)}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Created {formatDate(link.createdAt)} •{' '}
+                      {link.status === 'revoked' && link.revokedAt
+                        ? `revoked ${formatDate(link.revokedAt)}`
+                        : `${link.status === 'expired' ? 'expired' : 'expires'} ${formatDate(link.expiresAt)}`}
+                      {' '}• {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                    </p>
+                  </div>
+                  {link.status === 'active' && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => copyLink(link)}
+                        className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-[#E8E7BB]"
+                        title="Copy link"
+                      >
+                        {copiedId === link.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(link)}
+                        className="p-2 rounded-full hover:bg-red-500/20 transition-colors text-gray-400 hover:text-red-400"
+                        title="Revoke link"
+                      >
+                        <Ban className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Lock, Loader2 } from 'lucide-react'
+
+export default function SharePasswordForm({ token }: { token: string }) {
+  const router = useRouter()
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/share/${encodeURIComponent(token)}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || 'Incorrect password')
+        return
+      }
+      // The access cookie is set; render the shared content
+      router.refresh()
+    } catch (err) {
+      console.error('Error unlocking share link:', err)
+      setError('Something went wrong. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white/5 backdrop-blur-sm rounded-2xl p-8 border border-white/10 shadow-lg w-full max-w-sm space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="bg-[#E8E7BB]/20 p-3 rounded-xl">
+          <Lock className="w-5 h-5 text-[#E8E7BB]" />
+        </div>
+        <div>
+          <h1 className="text-lg font-semibold text-white">Password required</h1>
+          <p className="text-xs text-gray-400">Enter the password you were given with this link</p>
+        </div>
+      </div>
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        autoFocus
+        className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white focus:outline-none focus:border-[#E8E7BB]/50"
+      />
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={submitting || !password}
+        className="w-full px-4 py-2 rounded-lg bg-[#E8E7BB] text-[#1D1D1D] text-sm font-medium hover:opacity-90 disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+        View
+      </button>
+    </form>
+  )
+}
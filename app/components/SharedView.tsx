@@ -0,0 +1,73 @@
+'use client'
+
+import Markdown from './Markdown'
+import RightPanelDashboard, { Widget } from './RightPanelDashboard'
+
+interface SharedMessage {
+  id: string
+  role: 'user' | 'assistant'
+  text: string
+}
+
+interface SharedViewProps {
+  resourceType: 'conversation' | 'dashboard'
+  title: string
+  messages?: SharedMessage[]
+  widgets: Widget[]
+  expiresAt: string
+}
+
+// Read-only page behind a share link: stored messages and widget snapshots only
+export default function SharedView({ resourceType, title, messages = [], widgets, expiresAt }: SharedViewProps) {
+  const showDashboard = resourceType === 'dashboard' || widgets.length > 0
+
+  return (
+    <div className="h-screen flex flex-col bg-[#1D1D1D]">
+      <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="text-lg font-semibold text-white truncate">{title}</h1>
+          <p className="text-xs text-gray-400">
+            Shared read-only {resourceType} · link expires {new Date(expiresAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        {resourceType === 'conversation' && (
+          <div className={`${showDashboard ? 'w-1/2 border-r border-white/10' : 'w-full'} overflow-y-auto bg-[#E8E7BB] p-6`}>
+            <div className="max-w-3xl mx-auto space-y-4">
+              {messages.length === 0 && (
+                <p className="text-sm text-[#1D1D1D]/70 text-center py-12">This conversation has no messages.</p>
+              )}
+              {messages.map((message) => (
+                <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div
+                    className={`max-w-xl px-5 py-3 rounded-3xl leading-relaxed overflow-hidden shadow-md ${
+                      message.role === 'user'
+                        ? 'bg-gradient-to-br from-[#1D1D1D] to-[#2a2a2a] text-[#E8E7BB] rounded-tr-lg border border-gray-700'
+                        : 'bg-gradient-to-br from-white to-gray-50 text-[#1D1D1D] border border-gray-200 rounded-tl-lg'
+                    }`}
+                  >
+                    <div className="text-xs uppercase tracking-widest mb-2 font-semibold">
+                      <span className={message.role === 'user' ? 'text-gray-400' : 'text-gray-500'}>
+                        {message.role === 'user' ? 'User' : 'Assistant'}
+                      </span>
+                    </div>
+                    <div className="overflow-x-auto wide-content-scroll message-content">
+                      <Markdown>{message.text}</Markdown>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        {showDashboard && (
+          <div className={`${resourceType === 'conversation' ? 'w-1/2' : 'w-full'} min-w-0 h-full`}>
+            <RightPanelDashboard sharedWidgets={widgets} title={resourceType === 'dashboard' ? title : 'Dashboard'} />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -10,6 +10,7 @@ import { PopupModal } from "react-calendly";
 
 interface SidebarProps {
   accountingService?: string | null;
+  connectedServices?: string[];
 }
 
 interface NavItem {
@@ -19,7 +20,7 @@ interface NavItem {
   isCalendly?: boolean;
 }
 
-export default function Sidebar({ accountingService }: SidebarProps) {
+export default function Sidebar({ accountingService, connectedServices }: SidebarProps) {
   const pathname = usePathname();
   const [showCalendly, setShowCalendly] = useState(false);
   const [isClient, setIsClient] = useState(false);
@@ -28,8 +29,28 @@ export default function Sidebar({ accountingService }: SidebarProps) {
     setIsClient(true);
   }, []);
   const [isExpanded, setIsExpanded] = useState(false);
+  const [dashboards, setDashboards] = useState<Array<{ id: string; name: string }>>([]);
 
-  const isActive = (path: string) => pathname === path;
+  // Named dashboards are listed under their nav item when the sidebar is expanded
+  useEffect(() => {
+    const fetchDashboards = async () => {
+      try {
+        const response = await fetch("/api/dashboards");
+        if (response.ok) {
+          const data = await response.json();
+          setDashboards(data.dashboards || []);
+        }
+      } catch (error) {
+        console.error("Error fetching dashboards:", error);
+      }
+    };
+
+    fetchDashboards();
+    window.addEventListener("dashboards-changed", fetchDashboards);
+    return () => window.removeEventListener("dashboards-changed", fetchDashboards);
+  }, []);
+
+  const isActive = (path: string) => pathname === path || (path === "/dashboards" && pathname.startsWith("/dashboards/"));
 
   const navItems: NavItem[] = [
     {
@@ -41,9 +62,23 @@ export default function Sidebar({ accountingService }: SidebarProps) {
         </svg>
       ),
     },
+    {
+      name: "Dashboards",
+      href: "/dashboards",
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h4a1 1 0 011 1v5a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v2a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10-3a1 1 0 011-1h4a1 1 0 011 1v7a1 1 0 01-1 1h-4a1 1 0 01-1-1v-7z" />
+        </svg>
+      ),
+    },
   ];
 
-  if (accountingService === "QBO") {
+  // Both services can be connected at once; each gets its own chat
+  const services = connectedServices?.length
+    ? connectedServices
+    : accountingService ? [accountingService] : [];
+
+  if (services.includes("QBO")) {
     navItems.push(
       {
         name: "QBO Chat",
@@ -55,7 +90,8 @@ export default function Sidebar({ accountingService }: SidebarProps) {
         ),
       },
     );
-  } else if (accountingService === "XERO") {
+  }
+  if (services.includes("XERO")) {
     navItems.push(
       {
         name: "Xero Chat",
@@ -150,7 +186,7 @@ export default function Sidebar({ accountingService }: SidebarProps) {
             ? { href: item.href, target: "_blank", rel: "noopener noreferrer" }
             : { href: item.href };
 
-          return (
+          const button = (
             <Button
               key={item.name}
               as={LinkComponent}
@@ -169,6 +205,28 @@ export default function Sidebar({ accountingService }: SidebarProps) {
               </div>
             </Button>
           );
+
+          if (item.href !== "/dashboards" || !isExpanded || dashboards.length === 0) {
+            return button;
+          }
+
+          return (
+            <div key={item.name} className="flex flex-col gap-1">
+              {button}
+              {dashboards.map((dashboard) => (
+                <Link
+                  key={dashboard.id}
+                  href={`/dashboards/${dashboard.id}`}
+                  className={`ml-12 mr-2 px-2 py-1 rounded-lg text-xs truncate ${
+                    pathname === `/dashboards/${dashboard.id}` ? "text-[#E8E7BB] bg-white/10" : "text-gray-400 hover:text-white hover:bg-white/10"
+                  }`}
+                  title={dashboard.name}
+                >
+                  {dashboard.name}
+                </Link>
+              ))}
+            </div>
+          );
         })}
       </nav>
 
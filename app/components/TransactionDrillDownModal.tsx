@@ -0,0 +1,452 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X, Loader2, Search, ExternalLink, ArrowUp, ArrowDown, ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react'
+import LineItemsModal from './LineItemsModal'
+import { formatCurrency as formatMoney } from '@/lib/currency'
+
+export type DrillDownMetric = 'revenue' | 'expenses' | 'costOfGoodsSold' | 'netProfit' | 'cashBalance'
+
+type SortField = 'date' | 'number' | 'contactName' | 'amount'
+
+interface KpiTransaction {
+  id: string
+  kind: string
+  typeLabel: string
+  date: string
+  number: string
+  contactName: string
+  reference: string
+  status: string | null
+  currency?: string
+  exchangeRate?: number
+  amount: number
+  baseAmount: number
+  lineItems: any[]
+  sourceUrl: string | null
+}
+
+interface TransactionPage {
+  transactions: KpiTransaction[]
+  page: number
+  totalCount: number
+  totalPages: number
+  totalAmount: number
+  kinds: string[]
+  ledgerSyncedAt: string | null
+  service: 'QBO' | 'XERO'
+  currency: string | null
+}
+
+interface TransactionDrillDownModalProps {
+  isOpen: boolean
+  onClose: () => void
+  metric: DrillDownMetric
+  fromDate: string
+  toDate: string
+  /** Shown under the title, e.g. "March" for a chart point */
+  periodLabel?: string
+  service?: string | null
+}
+
+const metricLabels: Record<DrillDownMetric, string> = {
+  revenue: 'Revenue',
+  expenses: 'Operating Expenses',
+  costOfGoodsSold: 'Cost of Goods Sold',
+  netProfit: 'Net Profit',
+  cashBalance: 'Cash Movements',
+}
+
+const kindLabels: Record<string, string> = {
+  invoice: 'Invoices',
+  bill: 'Bills',
+  bank_received: 'Money received',
+  bank_spent: 'Money spent',
+  payment_received: 'Customer payments',
+  payment_paid: 'Supplier payments',
+}
+
+const serviceNames: Record<string, string> = {
+  QBO: 'QuickBooks',
+  XERO: 'Xero',
+}
+
+export default function TransactionDrillDownModal({
+  isOpen,
+  onClose,
+  metric: initialMetric,
+  fromDate,
+  toDate,
+  periodLabel,
+  service,
+}: TransactionDrillDownModalProps) {
+  const [metric, setMetric] = useState<DrillDownMetric>(initialMetric)
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [kind, setKind] = useState('')
+  const [sortField, setSortField] = useState<SortField>('date')
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc')
+  const [page, setPage] = useState(1)
+  const [data, setData] = useState<TransactionPage | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [selectedTransaction, setSelectedTransaction] = useState<KpiTransaction | null>(null)
+
+  // Start from the clicked KPI each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setMetric(initialMetric)
+      setSearchInput('')
+      setSearch('')
+      setKind('')
+      setSortField('date')
+      setSortDirection('desc')
+      setPage(1)
+    } else {
+      setData(null)
+      setError(null)
+    }
+  }, [isOpen, initialMetric, fromDate, toDate])
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim())
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  useEffect(() => {
+    if (!isOpen || !fromDate || !toDate) return
+
+    let cancelled = false
+    const fetchTransactions = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const params = new URLSearchParams({
+          metric,
+          fromDate,
+          toDate,
+          sort: sortField,
+          direction: sortDirection,
+          page: String(page),
+        })
+        if (search) params.set('search', search)
+        if (kind) params.set('kind', kind)
+        if (service) params.set('service', service)
+
+        const response = await fetch(`/api/dashboard/transactions?${params}`)
+        if (!response.ok) {
+          throw new Error('Failed to fetch transactions')
+        }
+        const result = await response.json()
+        if (!cancelled) setData(result)
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'An error occurred')
+          setData(null)
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    fetchTransactions()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, metric, fromDate, toDate, search, kind, sortField, sortDirection, page, service, reloadKey])
+
+  const currency = data?.currency || null
+
+  const formatCurrency = (value: number, valueCurrency?: string | null) => {
+    return formatMoney(value, valueCurrency || currency)
+  }
+
+  const formatDate = (dateStr: string) => {
+    if (!dateStr) return ''
+    try {
+      const date = new Date(dateStr + 'T00:00:00')
+      return date.toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+      })
+    } catch {
+      return dateStr
+    }
+  }
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
+    } else {
+      setSortField(field)
+      setSortDirection(field === 'date' || field === 'amount' ? 'desc' : 'asc')
+    }
+    setPage(1)
+  }
+
+  const SortIcon = ({ field }: { field: SortField }) => {
+    if (sortField !== field) return <ArrowUpDown className="w-3.5 h-3.5 opacity-40" />
+    return sortDirection === 'asc' ? <ArrowUp className="w-3.5 h-3.5" /> : <ArrowDown className="w-3.5 h-3.5" />
+  }
+
+  const SortableHeader = ({ field, label, align = 'left' }: { field: SortField; label: string; align?: 'left' | 'right' }) => (
+    <th className={`${align === 'right' ? 'text-right' : 'text-left'} py-3 px-4 text-sm font-semibold text-gray-400 uppercase tracking-wide`}>
+      <button
+        onClick={() => handleSort(field)}
+        className={`inline-flex items-center space-x-1 hover:text-white transition-colors ${align === 'right' ? 'flex-row-reverse space-x-reverse' : ''}`}
+      >
+        <span>{label}</span>
+        <SortIcon field={field} />
+      </button>
+    </th>
+  )
+
+  if (!isOpen) return null
+
+  const transactions = data?.transactions || []
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+      <div className="bg-[#1D1D1D] rounded-3xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div>
+            <h2 className="text-2xl font-bold text-white">{metricLabels[metric]}</h2>
+            <p className="text-sm text-gray-400 mt-1">
+              {periodLabel ? `${periodLabel} • ` : ''}{formatDate(fromDate)} - {formatDate(toDate)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full hover:bg-white/10 transition-colors text-gray-400 hover:text-white"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3 px-6 pt-4">
+          <div className="flex items-center space-x-1 bg-white/5 rounded-xl p-1 border border-white/10">
+            {(Object.keys(metricLabels) as DrillDownMetric[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => {
+                  setMetric(value)
+                  setKind('')
+                  setPage(1)
+                }}
+                className={`px-3 py-1.5 text-xs rounded-lg font-medium transition-all ${
+                  metric === value
+                    ? 'bg-[#E8E7BB] text-[#1D1D1D] shadow-lg'
+                    : 'text-gray-300 hover:text-white hover:bg-white/5'
+                }`}
+              >
+                {metricLabels[value]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center space-x-2 bg-white/5 rounded-xl px-3 py-2 border border-white/10 flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search number, contact or reference"
+              className="bg-transparent text-white text-sm border-none outline-none w-full placeholder:text-gray-500"
+            />
+          </div>
+
+          <select
+            value={kind}
+            onChange={(e) => {
+              setKind(e.target.value)
+              setPage(1)
+            }}
+            className="bg-white/5 text-white text-sm rounded-xl px-3 py-2 border border-white/10 outline-none"
+            style={{ colorScheme: 'dark' }}
+          >
+            <option value="">All types</option>
+            {(data?.kinds || []).map((value) => (
+              <option key={value} value={value}>{kindLabels[value] || value}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading && !data ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="flex flex-col items-center space-y-4">
+                <Loader2 className="w-8 h-8 text-[#E8E7BB] animate-spin" />
+                <p className="text-sm text-gray-400">Loading transactions...</p>
+              </div>
+            </div>
+          ) : error ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="text-center">
+                <p className="text-red-400 mb-2">{error}</p>
+                <button
+                  onClick={() => setReloadKey((key) => key + 1)}
+                  className="px-4 py-2 bg-[#E8E7BB] text-[#1D1D1D] rounded-full font-medium hover:bg-[#d4d3a7] transition-colors"
+                >
+                  Retry
+                </button>
+              </div>
+            </div>
+          ) : data && !data.ledgerSyncedAt ? (
+            <div className="flex items-center justify-center h-64">
+              <p className="text-gray-400 text-center max-w-md">
+                Transactions are read from the ledger mirror. Run a ledger sync from your Profile page to see them here.
+              </p>
+            </div>
+          ) : transactions.length === 0 ? (
+            <div className="flex items-center justify-center h-64">
+              <p className="text-gray-400">No transactions found for this period.</p>
+            </div>
+          ) : (
+            <div className={`overflow-x-auto transition-opacity ${loading ? 'opacity-50' : ''}`}>
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b-2 border-white/10">
+                    <SortableHeader field="date" label="Date" />
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                      Type
+                    </th>
+                    <SortableHeader field="number" label="#" />
+                    <SortableHeader field="contactName" label="Contact" />
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-400 uppercase tracking-wide">
+                      Reference
+                    </th>
+                    <SortableHeader field="amount" label="Amount" align="right" />
+                    <th className="py-3 px-4"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {transactions.map((transaction) => {
+                    const hasLineItems = transaction.lineItems.length > 0
+                    const isForeign = !!transaction.currency && !!currency && transaction.currency !== currency
+                    return (
+                      <tr
+                        key={transaction.id}
+                        className={`border-b border-white/5 transition-colors ${
+                          hasLineItems ? 'hover:bg-white/10 cursor-pointer' : 'hover:bg-white/5'
+                        }`}
+                        onClick={() => {
+                          if (hasLineItems) setSelectedTransaction(transaction)
+                        }}
+                      >
+                        <td className="py-3 px-4 text-sm text-white">
+                          {formatDate(transaction.date)}
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-300">
+                          {transaction.typeLabel}
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-300">
+                          {transaction.number}
+                        </td>
+                        <td className="py-3 px-4 text-sm text-white font-medium">
+                          {transaction.contactName}
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-300">
+                          {transaction.reference}
+                        </td>
+                        <td className={`py-3 px-4 text-sm text-right font-semibold ${transaction.baseAmount < 0 ? 'text-red-400' : 'text-white'}`}>
+                          {formatCurrency(transaction.baseAmount)}
+                          {isForeign && (
+                            <div className="text-xs font-normal text-gray-400">
+                              {formatCurrency(transaction.amount, transaction.currency)}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          {transaction.sourceUrl && (
+                            <a
+                              href={transaction.sourceUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              onClick={(e) => e.stopPropagation()}
+                              title={`Open in ${serviceNames[data?.service || ''] || 'your accounting software'}`}
+                              className="inline-flex p-1.5 rounded-lg text-gray-400 hover:text-[#E8E7BB] hover:bg-white/10 transition-colors"
+                            >
+                              <ExternalLink className="w-4 h-4" />
+                            </a>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 border-white/10">
+                    <td colSpan={5} className="py-4 px-4 text-right text-sm font-semibold text-white">
+                      Total ({data?.totalCount} transactions):
+                    </td>
+                    <td className="py-4 px-4 text-right text-lg font-bold text-white">
+                      {formatCurrency(data?.totalAmount || 0)}
+                    </td>
+                    <td className="py-4 px-4"></td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-6 border-t border-white/10 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            {data && data.totalPages > 1 && (
+              <>
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1 || loading}
+                  className="p-2 rounded-full text-gray-300 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                </button>
+                <span className="text-sm text-gray-400">
+                  Page {data.page} of {data.totalPages}
+                </span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= data.totalPages || loading}
+                  className="p-2 rounded-full text-gray-300 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="px-6 py-2 bg-[#E8E7BB] text-[#1D1D1D] rounded-full font-medium hover:bg-[#d4d3a7] transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {/* Line Items Modal */}
+      {selectedTransaction && (
+        <LineItemsModal
+          isOpen={!!selectedTransaction}
+          onClose={() => setSelectedTransaction(null)}
+          lineItems={selectedTransaction.lineItems}
+          invoiceNumber={selectedTransaction.number || selectedTransaction.typeLabel}
+          contactName={selectedTransaction.contactName}
+          date={selectedTransaction.date}
+          currency={selectedTransaction.currency}
+          baseCurrency={currency}
+          exchangeRate={selectedTransaction.exchangeRate}
+        />
+      )}
+    </div>
+  )
+}
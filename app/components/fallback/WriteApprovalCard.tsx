@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, X, Loader2, ShieldCheck, AlertTriangle } from 'lucide-react';
+
+type WriteStatus = 'pending' | 'approved' | 'executed' | 'failed' | 'rejected' | 'expired';
+
+export interface WriteProposal {
+  id: string;
+  service: 'QBO' | 'XERO';
+  action: string;
+  summary: string;
+  preview: {
+    details: Array<{ label: string; value: string }>;
+    lineItems?: Array<{ description: string; quantity: number; unitAmount: number; amount: number }>;
+    total?: number;
+    currency?: string;
+    note?: string;
+  };
+  status: WriteStatus;
+  externalId: string | null;
+  error: string | null;
+  expiresAt: string;
+}
+
+const serviceNames: Record<string, string> = {
+  QBO: 'QuickBooks',
+  XERO: 'Xero',
+};
+
+const statusLabels: Record<WriteStatus, string> = {
+  pending: 'Waiting for approval',
+  approved: 'Sending…',
+  executed: 'Done',
+  failed: 'Failed',
+  rejected: 'Rejected',
+  expired: 'Expired',
+};
+
+const statusClasses: Record<WriteStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300',
+  approved: 'bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-300',
+  executed: 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-400',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-400',
+  rejected: 'bg-gray-100 text-gray-600 dark:bg-white/10 dark:text-gray-400',
+  expired: 'bg-gray-100 text-gray-600 dark:bg-white/10 dark:text-gray-400',
+};
+
+function formatAmount(value: number, currency?: string) {
+  const amount = value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return currency ? `${currency} ${amount}` : amount;
+}
+
+/**
+ * Approval card for a change proposed by one of the chat's write tools.
+ * Nothing reaches the accounting system until Approve is clicked.
+ */
+export function WriteApprovalCard({ proposal }: { proposal: WriteProposal }) {
+  const [write, setWrite] = useState<WriteProposal>(proposal);
+  const [busy, setBusy] = useState<'approve' | 'reject' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The tool output is frozen at proposal time; load the current status
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/accounting-writes/${proposal.id}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.write) setWrite(data.write);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [proposal.id]);
+
+  const decide = async (decision: 'approve' | 'reject') => {
+    setBusy(decision);
+    setError(null);
+    try {
+      const response = await fetch(`/api/accounting-writes/${write.id}/${decision}`, { method: 'POST' });
+      const data = await response.json().catch(() => ({}));
+      if (data.write) setWrite(data.write);
+      if (!response.ok) setError(data.error || `Failed to ${decision}`);
+    } catch (err) {
+      console.error(`Error ${decision === 'approve' ? 'approving' : 'rejecting'} write:`, err);
+      setError(`Failed to ${decision}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const { preview } = write;
+  const source = serviceNames[write.service] || 'your accounting system';
+  const canDecide = write.status === 'pending' && new Date(write.expiresAt) > new Date();
+  const status: WriteStatus = write.status === 'pending' && !canDecide ? 'expired' : write.status;
+
+  return (
+    <div className="my-2 max-w-lg rounded-2xl border border-gray-200 dark:border-white/10 bg-white dark:bg-white/5 p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-2 min-w-0">
+          <ShieldCheck className="size-4 mt-0.5 shrink-0 text-amber-600 dark:text-[#E8E7BB]" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">{write.summary}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Proposed change in {source}</p>
+          </div>
+        </div>
+        <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase ${statusClasses[status]}`}>
+          {statusLabels[status]}
+        </span>
+      </div>
+
+      <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-xs">
+        {preview.details.map((detail) => (
+          <div key={detail.label} className="contents">
+            <dt className="text-gray-500 dark:text-gray-400">{detail.label}</dt>
+            <dd className="text-gray-900 dark:text-gray-100 break-words">{detail.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {preview.lineItems && preview.lineItems.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-white/10">
+              <th className="text-left font-normal py-1">Description</th>
+              <th className="text-right font-normal py-1">Qty</th>
+              <th className="text-right font-normal py-1">Unit</th>
+              <th className="text-right font-normal py-1">Amount</th>
+            </tr>
+          </thead>
+          <tbody className="text-gray-900 dark:text-gray-100">
+            {preview.lineItems.map((line, index) => (
+              <tr key={index} className="border-b border-gray-100 dark:border-white/5">
+                <td className="py-1 pr-2">{line.description}</td>
+                <td className="py-1 text-right">{line.quantity}</td>
+                <td className="py-1 text-right">{formatAmount(line.unitAmount)}</td>
+                <td className="py-1 text-right">{formatAmount(line.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {preview.total !== undefined && (
+        <div className="flex justify-between text-sm font-medium text-gray-900 dark:text-white">
+          <span>{write.action === 'recordBillPayment' ? 'Payment' : 'Total before tax'}</span>
+          <span>{formatAmount(preview.total, preview.currency)}</span>
+        </div>
+      )}
+
+      {preview.note && <p className="text-xs text-gray-500 dark:text-gray-400">{preview.note}</p>}
+
+      {status === 'executed' && (
+        <p className="flex items-center gap-1 text-xs text-green-700 dark:text-green-400">
+          <Check className="size-3.5" /> Created in {source}{write.externalId ? ` (ID ${write.externalId})` : ''}
+        </p>
+      )}
+      {(error || write.error) && (
+        <p className="flex items-start gap-1 text-xs text-red-600 dark:text-red-400">
+          <AlertTriangle className="size-3.5 mt-0.5 shrink-0" /> {error || write.error}
+        </p>
+      )}
+
+      {canDecide && (
+        <div className="flex gap-2 pt-1">
+          <button
+            onClick={() => decide('approve')}
+            disabled={busy !== null}
+            className="px-3 py-1.5 rounded-lg bg-[#1D1D1D] text-white dark:bg-[#E8E7BB] dark:text-[#1D1D1D] text-xs font-medium hover:opacity-90 disabled:opacity-50 flex items-center gap-1"
+          >
+            {busy === 'approve' ? <Loader2 className="size-3.5 animate-spin" /> : <Check className="size-3.5" />}
+            Approve
+          </button>
+          <button
+            onClick={() => decide('reject')}
+            disabled={busy !== null}
+            className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-white/20 text-gray-700 dark:text-gray-300 text-xs font-medium hover:bg-gray-100 dark:hover:bg-white/10 disabled:opacity-50 flex items-center gap-1"
+          >
+            {busy === 'reject' ? <Loader2 className="size-3.5 animate-spin" /> : <X className="size-3.5" />}
+            Reject
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
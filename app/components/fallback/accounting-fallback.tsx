@@ -0,0 +1,135 @@
+'use client';
+
+import { TrendingUp, BarChart3, FileText, Receipt, Users, Landmark, LineChart, Target, Clock, GitCompare, UserPlus, FilePlus, Banknote } from "lucide-react";
+import { WriteApprovalCard } from './WriteApprovalCard';
+
+type TypedPartProps = {
+  state: 'input-streaming' | 'input-available' | 'output-available';
+  input?: any;
+  role?: string;
+  id?: string | number;
+  idx?: number;
+  toolName: string;
+};
+
+type ResultPartProps = {
+  output: unknown;
+  role?: string;
+  id?: string | number;
+  idx?: number;
+  toolName: string;
+};
+
+const serviceNames: Record<string, string> = {
+  QBO: 'QuickBooks',
+  XERO: 'Xero',
+};
+
+const toolIcons: Record<string, React.ComponentType<any>> = {
+  getFinancialSummary: TrendingUp,
+  getBalanceSheetSummary: BarChart3,
+  getSalesInvoices: FileText,
+  getSupplierBills: Receipt,
+  getAccountingContacts: Users,
+  getBankSummary: Landmark,
+  getCashForecast: LineChart,
+  getBudgetVsActual: Target,
+  getAgingReport: Clock,
+  comparePeriods: GitCompare,
+  proposeCreateContact: UserPlus,
+  proposeDraftInvoice: FilePlus,
+  proposeBillPayment: Banknote,
+};
+
+const toolLabels: Record<string, string> = {
+  getFinancialSummary: 'financial summary',
+  getBalanceSheetSummary: 'balance sheet summary',
+  getSalesInvoices: 'invoices',
+  getSupplierBills: 'bills',
+  getAccountingContacts: 'contacts',
+  getBankSummary: 'bank summary',
+  getCashForecast: 'cash forecast',
+  getBudgetVsActual: 'budget vs actual',
+  getAgingReport: 'aging report',
+  comparePeriods: 'period comparison',
+  proposeCreateContact: 'contact',
+  proposeDraftInvoice: 'invoice',
+  proposeBillPayment: 'bill payment',
+};
+
+export const ACCOUNTING_TOOL_NAMES = Object.keys(toolLabels);
+
+// Tools that propose a change for the user to approve instead of reading data
+const WRITE_TOOL_NAMES = ['proposeCreateContact', 'proposeDraftInvoice', 'proposeBillPayment'];
+
+/**
+ * Returns the tool name for a provider-agnostic accounting tool part, or null
+ */
+export function getAccountingToolName(partType: unknown): string | null {
+  if (typeof partType !== 'string' || !partType.startsWith('tool-')) {
+    return null;
+  }
+  const toolName = partType.slice('tool-'.length);
+  return ACCOUNTING_TOOL_NAMES.includes(toolName) ? toolName : null;
+}
+
+export function AccountingTypedPart({ toolName }: TypedPartProps) {
+  const Icon = toolIcons[toolName] || TrendingUp;
+  const label = toolLabels[toolName] || 'data';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 py-2">
+        <div className="animate-spin">
+          <Icon className="size-4 text-blue-500 dark:text-blue-400" />
+        </div>
+        <span className="text-gray-600 dark:text-gray-400 text-sm">
+          {WRITE_TOOL_NAMES.includes(toolName) ? 'preparing' : 'fetching'} {label}...
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export function AccountingResultPart({ output, toolName }: ResultPartProps) {
+  const parsedResult = typeof output === "string" ? JSON.parse(output) : output as any;
+  const Icon = toolIcons[toolName] || TrendingUp;
+  const label = toolLabels[toolName] || 'data';
+  const source = serviceNames[parsedResult?.service] || 'your accounting system';
+
+  if (parsedResult?.success && parsedResult.requiresApproval && parsedResult.proposal) {
+    return <WriteApprovalCard proposal={parsedResult.proposal} />;
+  }
+
+  if (parsedResult?.success) {
+    const items = parsedResult.invoices || parsedResult.bills || parsedResult.contacts;
+    const resultText = Array.isArray(items) ? `${items.length} ${label}` : label;
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 py-2">
+          <Icon className="size-4 text-blue-600 dark:text-blue-400" />
+          <span className="text-gray-600 dark:text-gray-400 text-sm">
+            retrieved {resultText} from {source}
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 py-2">
+        <Icon className="size-4 text-red-500 dark:text-red-400" />
+        <span className="text-gray-600 dark:text-gray-400 text-sm">
+          {label} {WRITE_TOOL_NAMES.includes(toolName) ? 'proposal' : 'fetch'} failed
+          {parsedResult?.error && (
+            <span className="block text-red-600 dark:text-red-400 mt-1">
+              {parsedResult.error}
+            </span>
+          )}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { getServerSession } from "next-auth";
+import { notFound, redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import { findDashboard } from "@/lib/dashboards";
+import Sidebar from "../../components/Sidebar";
+import RightPanelDashboard from "../../components/RightPanelDashboard";
+
+export default async function NamedDashboardPage({ params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  const dashboard = await findDashboard(session.user.id, params.id);
+
+  if (!dashboard) {
+    notFound();
+  }
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <Sidebar accountingService={session.user.accountingService} connectedServices={session.user.connectedServices} />
+      <main className="flex-1 min-w-0 h-full">
+        <RightPanelDashboard dashboardId={dashboard.id} title={dashboard.name} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { getServerSession } from "next-auth";
+import { redirect } from "next/navigation";
+import { authOptions } from "@/lib/auth";
+import Sidebar from "../components/Sidebar";
+import DashboardsContent from "../components/DashboardsContent";
+
+export default async function DashboardsPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect("/login");
+  }
+
+  return (
+    <div className="flex h-screen bg-gray-50">
+      <Sidebar accountingService={session.user.accountingService} connectedServices={session.user.connectedServices} />
+      <DashboardsContent />
+    </div>
+  );
+}
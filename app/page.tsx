@@ -13,7 +13,7 @@ export default async function HomePage() {
 
   return (
     <div className="flex h-screen bg-gray-50">
-      <Sidebar accountingService={session.user.accountingService} />
+      <Sidebar accountingService={session.user.accountingService} connectedServices={session.user.connectedServices} />
       <DashboardContent session={session} />
     </div>
   );
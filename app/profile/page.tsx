@@ -13,7 +13,7 @@ export default async function ProfilePage() {
 
   return (
     <div className="flex h-screen bg-gray-50">
-      <Sidebar accountingService={session.user.accountingService} />
+      <Sidebar accountingService={session.user.accountingService} connectedServices={session.user.connectedServices} />
       <ProfileContent session={session} />
     </div>
   );
@@ -8,6 +8,7 @@ import { signOut, useSession } from 'next-auth/react';
 import Markdown from '@/app/components/Markdown';
 import { ChevronLeft, ChevronRight, ArrowDown, Brain } from 'lucide-react';
 import AddDashboardWidgetTypedPart, { AddDashboardWidgetResultPart } from '@/app/components/fallback/AddDashboardWidgetFallback';
+import { AccountingTypedPart, AccountingResultPart, getAccountingToolName } from '@/app/components/fallback/accounting-fallback';
 import { 
   QboCompanyInfoTypedPart, 
   QboCompanyInfoResultPart, 
@@ -46,6 +47,7 @@ import {
 } from '@/app/components/fallback/qbo-fallback';
 import RightPanelDashboard from '@/app/components/RightPanelDashboard';
 import Sidebar from '@/app/components/Sidebar';
+import OrganisationSwitcher from '@/app/components/OrganisationSwitcher';
 type UIMessageLike = {
   id?: string;
   role: 'user' | 'assistant' | 'system' | 'tool';
@@ -62,7 +64,7 @@ type Conversation = {
 
 async function fetchConversations(): Promise<Conversation[]> {
   try {
-    const res = await fetch('/api/conversations', { cache: 'no-store' });
+    const res = await fetch('/api/conversations?service=QBO', { cache: 'no-store' });
     if (!res.ok) return [];
     return (await res.json()) as Conversation[];
   } catch {
@@ -75,7 +77,7 @@ async function createConversation(title: string): Promise<Conversation | null> {
     const res = await fetch('/api/conversations', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ title }),
+      body: JSON.stringify({ title, service: 'QBO' }),
     });
     if (!res.ok) return null;
     return (await res.json()) as Conversation;
@@ -340,6 +342,17 @@ function ChatPane({ id, initialMessages, onMessagesChange, onToggleRightPanel, r
                       return;
                     }
 
+                    // provider-agnostic accounting tool parts
+                    const accountingToolName = getAccountingToolName(part?.type);
+                    if (accountingToolName) {
+                      pushTool(`${m.id}-${accountingToolName}-${idx}`, m.role, part.state === 'output-available' ? (
+                        <AccountingResultPart output={part.output} toolName={accountingToolName} id={`${m.id}-${accountingToolName}-${idx}`} idx={idx} role={m.role} />
+                      ) : (
+                        <AccountingTypedPart state={part.state} input={part.input} toolName={accountingToolName} id={`${m.id}-${accountingToolName}-${idx}`} idx={idx} role={m.role} />
+                      ));
+                      return;
+                    }
+
                     // typed addDashboardWidget tool part
                     if (part?.type === 'tool-addDashboardWidget' && part.state !== 'output-available') {
                       pushTool(`${m.id}-addw-${idx}`, m.role, (
@@ -814,7 +827,7 @@ export default function Chat() {
 
   return (
     <div className="flex h-screen bg-gradient-to-br from-[#0f0f0f] via-[#1D1D1D] to-[#1a1a1a] text-white overflow-hidden">
-      <Sidebar accountingService={session?.user?.accountingService} />
+      <Sidebar accountingService={session?.user?.accountingService} connectedServices={session?.user?.connectedServices} />
       
       {!session ? (
         <div className="flex-1 flex items-center justify-center">
@@ -838,6 +851,7 @@ export default function Chat() {
                   Welcome Back, <span className="text-gray-400">{firstName}</span>
                 </h1>
               </div>
+              <OrganisationSwitcher accountingService="QBO" />
             </div>
           </div>
 
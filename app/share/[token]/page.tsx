@@ -0,0 +1,72 @@
+import type { Metadata } from "next";
+import { cookies } from "next/headers";
+import {
+  SHARE_ACCESS_COOKIE_PREFIX,
+  findShareLink,
+  getSharedContent,
+  hasShareAccess,
+  recordShareView,
+  shareLinkStatus,
+} from "@/lib/share-links";
+import type { WidgetType } from "@/lib/widgets";
+import SharePasswordForm from "../../components/SharePasswordForm";
+import SharedView from "../../components/SharedView";
+
+export const metadata: Metadata = {
+  title: "Shared from Writeoff App",
+  robots: { index: false, follow: false },
+};
+
+function Unavailable({ message }: { message: string }) {
+  return (
+    <div className="h-screen flex items-center justify-center bg-[#1D1D1D] p-4">
+      <div className="bg-white/5 rounded-2xl p-8 border border-white/10 shadow-lg max-w-sm text-center">
+        <h1 className="text-lg font-semibold text-white mb-2">Link unavailable</h1>
+        <p className="text-sm text-gray-400">{message}</p>
+      </div>
+    </div>
+  );
+}
+
+// Public read-only view of a shared conversation or dashboard; no session required
+export default async function SharePage({ params }: { params: { token: string } }) {
+  const link = await findShareLink(params.token);
+  const status = link ? shareLinkStatus(link) : null;
+
+  if (!link || status === "revoked") {
+    return <Unavailable message="This link doesn't exist or has been revoked by its owner." />;
+  }
+  if (status === "expired") {
+    return <Unavailable message="This link has expired. Ask the person who shared it for a new one." />;
+  }
+
+  if (!hasShareAccess(link, cookies().get(`${SHARE_ACCESS_COOKIE_PREFIX}${link.id}`)?.value)) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-[#1D1D1D] p-4">
+        <SharePasswordForm token={link.token} />
+      </div>
+    );
+  }
+
+  const content = await getSharedContent(link);
+
+  if (!content) {
+    return <Unavailable message="What was shared here has since been deleted." />;
+  }
+
+  await recordShareView(link);
+
+  return (
+    <SharedView
+      resourceType={content.resourceType}
+      title={content.title}
+      messages={content.resourceType === "conversation" ? content.messages : undefined}
+      widgets={content.widgets.map((widget) => ({
+        ...widget,
+        type: widget.type as WidgetType,
+        refreshedAt: widget.refreshedAt?.toISOString() ?? null,
+      }))}
+      expiresAt={link.expiresAt.toISOString()}
+    />
+  );
+}
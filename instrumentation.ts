@@ -0,0 +1,27 @@
+export async function register() {
+  // The background jobs need Node APIs and the database, so only start them
+  // in the Node.js server runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  if (process.env.DISABLE_TOKEN_REFRESH_JOB !== 'true') {
+    const { startTokenRefreshScheduler } = await import('./lib/token-refresh');
+    startTokenRefreshScheduler();
+  }
+
+  if (process.env.DISABLE_LEDGER_SYNC_JOB !== 'true') {
+    const { startLedgerSyncScheduler } = await import('./lib/ledger');
+    startLedgerSyncScheduler();
+  }
+
+  if (process.env.DISABLE_REPORT_SCHEDULE_JOB !== 'true') {
+    const { startReportScheduler } = await import('./lib/report-schedules');
+    startReportScheduler();
+  }
+
+  if (process.env.DISABLE_REPORT_CACHE_PRUNE_JOB !== 'true') {
+    const { startReportCachePruneScheduler } = await import('./lib/accounting');
+    startReportCachePruneScheduler();
+  }
+}
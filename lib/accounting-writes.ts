@@ -0,0 +1,624 @@
+import { AccountingWrite, Prisma } from '@prisma/client';
+import { prisma } from './db';
+import {
+  AccountingProvider,
+  AccountingService,
+  getBaseCurrency,
+  invalidateReportCache,
+  toDateString,
+} from './accounting';
+import {
+  createContact as createXeroContact,
+  createInvoice as createXeroInvoice,
+  createPayment as createXeroPayment,
+  getAccountById as getXeroAccountById,
+  getContactById as getXeroContactById,
+  getInvoiceById as getXeroInvoiceById,
+} from './xero-api';
+import {
+  createBillPayment as createQboBillPayment,
+  createCustomer as createQboCustomer,
+  createInvoice as createQboInvoice,
+  createVendor as createQboVendor,
+  getAccountById as getQboAccountById,
+  getBillById as getQboBillById,
+  getCustomerById as getQboCustomerById,
+} from './qbo-api';
+
+/*
+ * Changes the chat assistant can make in the connected accounting system:
+ * new contacts, draft sales invoices and supplier bill payments. A write tool
+ * only proposes the change. The proposal is stored with the exact request
+ * that will be sent and what the approval card shows, and it reaches Xero or
+ * QuickBooks only when the user approves it. Rows are never deleted, so the
+ * table doubles as the audit log of what was written, when and with what
+ * result.
+ */
+
+export type AccountingWriteAction = 'createContact' | 'draftInvoice' | 'recordBillPayment';
+
+/** `approved` means the provider call is in flight */
+export type AccountingWriteStatus = 'pending' | 'approved' | 'executed' | 'failed' | 'rejected' | 'expired';
+
+/** How long a proposal can be approved for; after that the assistant has to propose again */
+export const WRITE_PROPOSAL_TTL_HOURS = 24;
+
+export const MAX_INVOICE_LINES = 50;
+
+export interface ContactWriteInput {
+  name: string;
+  type: 'customer' | 'supplier';
+  email?: string;
+  phone?: string;
+}
+
+export interface InvoiceLineInput {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  /** Xero revenue account code */
+  accountCode?: string;
+  /** QBO product or service ID; QuickBooks uses its default item when missing */
+  itemId?: string;
+}
+
+export interface InvoiceWriteInput {
+  contactId: string;
+  date: string;
+  dueDate?: string;
+  reference?: string;
+  lineItems: InvoiceLineInput[];
+}
+
+export interface BillPaymentWriteInput {
+  billId: string;
+  bankAccountId: string;
+  /** Defaults to the amount still due on the bill */
+  amount?: number;
+  date: string;
+  reference?: string;
+}
+
+export type AccountingWriteInput = ContactWriteInput | InvoiceWriteInput | BillPaymentWriteInput;
+
+/** What the approval card shows */
+export interface AccountingWritePreview {
+  details: Array<{ label: string; value: string }>;
+  lineItems?: Array<{ description: string; quantity: number; unitAmount: number; amount: number }>;
+  total?: number;
+  currency?: string;
+  note?: string;
+}
+
+export interface AccountingWriteSummary {
+  id: string;
+  service: AccountingService;
+  organisationId: string;
+  conversationId: string | null;
+  action: AccountingWriteAction;
+  summary: string;
+  preview: AccountingWritePreview;
+  status: AccountingWriteStatus;
+  externalId: string | null;
+  error: string | null;
+  expiresAt: Date;
+  decidedAt: Date | null;
+  executedAt: Date | null;
+  createdAt: Date;
+}
+
+/** Outcome of approving or rejecting a proposal */
+export type AccountingWriteDecision =
+  | { write: AccountingWriteSummary; error?: undefined }
+  | { write?: undefined; error: string };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function checkDate(value: unknown, field: string): string | null {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+    ? null
+    : `${field} must be a date in YYYY-MM-DD format`;
+}
+
+/**
+ * Check and normalise a write tool's input. Returns an error message when
+ * invalid.
+ */
+export function validateAccountingWriteInput(action: AccountingWriteAction, body: any): AccountingWriteInput | string {
+  const today = toDateString(new Date());
+
+  switch (action) {
+    case 'createContact': {
+      const name = optionalText(body?.name);
+      if (!name) return 'name is required';
+      if (name.length > 255) return 'name must be at most 255 characters';
+      if (body.type !== 'customer' && body.type !== 'supplier') return 'type must be customer or supplier';
+      const email = optionalText(body.email);
+      if (email && !EMAIL_PATTERN.test(email)) return 'email is not a valid email address';
+      return { name, type: body.type, email, phone: optionalText(body.phone) };
+    }
+
+    case 'draftInvoice': {
+      const contactId = optionalText(body?.contactId);
+      if (!contactId) return 'contactId is required';
+      const date = optionalText(body.date) || today;
+      const dueDate = optionalText(body.dueDate);
+      const dateError = checkDate(date, 'date') || (dueDate ? checkDate(dueDate, 'dueDate') : null);
+      if (dateError) return dateError;
+      if (dueDate && dueDate < date) return 'dueDate must not be before date';
+
+      if (!Array.isArray(body.lineItems) || body.lineItems.length === 0) return 'lineItems needs at least one line';
+      if (body.lineItems.length > MAX_INVOICE_LINES) return `lineItems can have at most ${MAX_INVOICE_LINES} lines`;
+
+      const lineItems: InvoiceLineInput[] = [];
+      for (const [index, line] of body.lineItems.entries()) {
+        const description = optionalText(line?.description);
+        const quantity = Number(line?.quantity ?? 1);
+        const unitAmount = Number(line?.unitAmount);
+        if (!description) return `line ${index + 1} needs a description`;
+        if (!Number.isFinite(quantity) || quantity <= 0) return `line ${index + 1} quantity must be greater than 0`;
+        if (!Number.isFinite(unitAmount)) return `line ${index + 1} needs a unitAmount`;
+        lineItems.push({
+          description,
+          quantity,
+          unitAmount,
+          accountCode: optionalText(line.accountCode),
+          itemId: optionalText(line.itemId),
+        });
+      }
+
+      return { contactId, date, dueDate, reference: optionalText(body.reference), lineItems };
+    }
+
+    case 'recordBillPayment': {
+      const billId = optionalText(body?.billId);
+      const bankAccountId = optionalText(body?.bankAccountId);
+      if (!billId) return 'billId is required';
+      if (!bankAccountId) return 'bankAccountId is required';
+      const date = optionalText(body.date) || today;
+      const dateError = checkDate(date, 'date');
+      if (dateError) return dateError;
+      if (date > today) return 'date must not be in the future';
+
+      let amount: number | undefined;
+      if (body.amount !== undefined && body.amount !== null) {
+        amount = roundMoney(Number(body.amount));
+        if (!Number.isFinite(amount) || amount <= 0) return 'amount must be greater than 0';
+      }
+
+      return { billId, bankAccountId, amount, date, reference: optionalText(body.reference) };
+    }
+  }
+}
+
+export function accountingWriteStatus(write: AccountingWrite, now: Date = new Date()): AccountingWriteStatus {
+  if (write.status === 'pending' && write.expiresAt <= now) return 'expired';
+  return write.status as AccountingWriteStatus;
+}
+
+function toSummary(write: AccountingWrite): AccountingWriteSummary {
+  return {
+    id: write.id,
+    service: write.service as AccountingService,
+    organisationId: write.organisationId,
+    conversationId: write.conversationId,
+    action: write.action as AccountingWriteAction,
+    summary: write.summary,
+    preview: write.preview as unknown as AccountingWritePreview,
+    status: accountingWriteStatus(write),
+    externalId: write.externalId,
+    error: write.error,
+    expiresAt: write.expiresAt,
+    decidedAt: write.decidedAt,
+    executedAt: write.executedAt,
+    createdAt: write.createdAt,
+  };
+}
+
+interface PreparedWrite {
+  summary: string;
+  /** The provider request body, stored so approval sends exactly what was shown */
+  payload: Record<string, unknown>;
+  preview: AccountingWritePreview;
+}
+
+function formatMoney(value: number, currency?: string): string {
+  const amount = value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return currency ? `${currency} ${amount}` : amount;
+}
+
+function compact(details: Array<{ label: string; value: string | undefined }>): Array<{ label: string; value: string }> {
+  return details.filter((detail): detail is { label: string; value: string } => Boolean(detail.value));
+}
+
+async function prepareContact(provider: AccountingProvider, input: ContactWriteInput): Promise<PreparedWrite> {
+  const payload = provider.service === 'XERO'
+    ? {
+      name: input.name,
+      emailAddress: input.email,
+      phones: input.phone ? [{ phoneType: 'DEFAULT', phoneNumber: input.phone }] : undefined,
+    }
+    : {
+      DisplayName: input.name,
+      PrimaryEmailAddr: input.email ? { Address: input.email } : undefined,
+      PrimaryPhone: input.phone ? { FreeFormNumber: input.phone } : undefined,
+    };
+
+  return {
+    summary: `Create ${input.type} ${input.name}`,
+    payload: { contactType: input.type, body: payload },
+    preview: {
+      details: compact([
+        { label: 'Name', value: input.name },
+        { label: 'Type', value: input.type === 'customer' ? 'Customer' : 'Supplier' },
+        { label: 'Email', value: input.email },
+        { label: 'Phone', value: input.phone },
+      ]),
+    },
+  };
+}
+
+async function prepareInvoice(userId: string, provider: AccountingProvider, input: InvoiceWriteInput): Promise<PreparedWrite | string> {
+  const { service, organisationId } = provider;
+  const contact: any = service === 'XERO'
+    ? await getXeroContactById(userId, organisationId, input.contactId).catch(() => null)
+    : await getQboCustomerById(userId, organisationId, input.contactId).catch(() => null);
+  if (!contact) {
+    return `No ${service === 'XERO' ? 'contact' : 'customer'} found with ID ${input.contactId}`;
+  }
+
+  const contactName: string = service === 'XERO' ? contact.name : contact.DisplayName;
+  const currency = service === 'XERO'
+    ? (contact.defaultCurrency ? String(contact.defaultCurrency) : await getBaseCurrency(provider))
+    : contact.CurrencyRef?.value || await getBaseCurrency(provider);
+  const lineItems = input.lineItems.map((line) => ({
+    description: line.description,
+    quantity: line.quantity,
+    unitAmount: line.unitAmount,
+    amount: roundMoney(line.quantity * line.unitAmount),
+  }));
+  const total = roundMoney(lineItems.reduce((sum, line) => sum + line.amount, 0));
+
+  const payload = service === 'XERO'
+    ? {
+      type: 'ACCREC',
+      status: 'DRAFT',
+      contact: { contactID: input.contactId },
+      date: input.date,
+      dueDate: input.dueDate,
+      reference: input.reference,
+      lineItems: input.lineItems.map((line) => ({
+        description: line.description,
+        quantity: line.quantity,
+        unitAmount: line.unitAmount,
+        accountCode: line.accountCode,
+      })),
+    }
+    : {
+      CustomerRef: { value: input.contactId },
+      TxnDate: input.date,
+      DueDate: input.dueDate,
+      PrivateNote: input.reference,
+      Line: input.lineItems.map((line) => ({
+        DetailType: 'SalesItemLineDetail',
+        Description: line.description,
+        Amount: roundMoney(line.quantity * line.unitAmount),
+        SalesItemLineDetail: {
+          ItemRef: line.itemId ? { value: line.itemId } : undefined,
+          Qty: line.quantity,
+          UnitPrice: line.unitAmount,
+        },
+      })),
+    };
+
+  return {
+    summary: `${service === 'XERO' ? 'Draft invoice' : 'Invoice'} for ${contactName}, ${formatMoney(total, currency)} before tax`,
+    payload: { body: payload },
+    preview: {
+      details: compact([
+        { label: 'Customer', value: contactName },
+        { label: 'Date', value: input.date },
+        { label: 'Due', value: input.dueDate },
+        { label: 'Reference', value: input.reference },
+      ]),
+      lineItems,
+      total,
+      currency,
+      note: service === 'XERO'
+        ? 'Saved as a draft in Xero; it is not approved or sent.'
+        : 'QuickBooks has no draft invoices: it is saved as an open invoice but not emailed to the customer.',
+    },
+  };
+}
+
+async function prepareBillPayment(userId: string, provider: AccountingProvider, input: BillPaymentWriteInput): Promise<PreparedWrite | string> {
+  const { service, organisationId } = provider;
+
+  if (service === 'XERO') {
+    const [bill, account]: any[] = await Promise.all([
+      getXeroInvoiceById(userId, organisationId, input.billId).catch(() => null),
+      getXeroAccountById(userId, organisationId, input.bankAccountId).catch(() => null),
+    ]);
+    if (!bill || String(bill.type) !== 'ACCPAY') return `No bill found with ID ${input.billId}`;
+    if (String(bill.status) !== 'AUTHORISED') return `Bill ${bill.invoiceNumber || input.billId} is ${String(bill.status).toLowerCase()} and can't take a payment`;
+    if (!account || (String(account.type) !== 'BANK' && !account.enablePaymentsToAccount)) {
+      return `Account ${input.bankAccountId} is not a bank account that can make payments`;
+    }
+
+    const amountDue = Number(bill.amountDue) || 0;
+    const amount = input.amount ?? amountDue;
+    if (amount > amountDue) return `amount is more than the ${formatMoney(amountDue)} still due on the bill`;
+    const currency = bill.currencyCode ? String(bill.currencyCode) : undefined;
+
+    return {
+      summary: `Pay ${formatMoney(amount, currency)} to ${bill.contact?.name || 'supplier'} for bill ${bill.invoiceNumber || input.billId}`,
+      payload: {
+        body: {
+          invoice: { invoiceID: input.billId },
+          account: { accountID: input.bankAccountId },
+          amount,
+          date: input.date,
+          reference: input.reference,
+        },
+      },
+      preview: billPaymentPreview(bill.contact?.name, bill.invoiceNumber, amountDue, account.name, input, amount, currency),
+    };
+  }
+
+  const [bill, account]: any[] = await Promise.all([
+    getQboBillById(userId, organisationId, input.billId).catch(() => null),
+    getQboAccountById(userId, organisationId, input.bankAccountId).catch(() => null),
+  ]);
+  if (!bill) return `No bill found with ID ${input.billId}`;
+  if (!account || account.AccountType !== 'Bank') return `Account ${input.bankAccountId} is not a bank account`;
+
+  const amountDue = Number(bill.Balance) || 0;
+  if (amountDue <= 0) return `Bill ${bill.DocNumber || input.billId} is already paid`;
+  const amount = input.amount ?? amountDue;
+  if (amount > amountDue) return `amount is more than the ${formatMoney(amountDue)} still due on the bill`;
+  const currency = bill.CurrencyRef?.value;
+
+  return {
+    summary: `Pay ${formatMoney(amount, currency)} to ${bill.VendorRef?.name || 'supplier'} for bill ${bill.DocNumber || input.billId}`,
+    payload: {
+      body: {
+        VendorRef: { value: bill.VendorRef?.value },
+        PayType: 'Check',
+        CheckPayment: { BankAccountRef: { value: input.bankAccountId } },
+        TotalAmt: amount,
+        TxnDate: input.date,
+        PrivateNote: input.reference,
+        Line: [{ Amount: amount, LinkedTxn: [{ TxnId: input.billId, TxnType: 'Bill' }] }],
+      },
+    },
+    preview: billPaymentPreview(bill.VendorRef?.name, bill.DocNumber, amountDue, account.Name, input, amount, currency),
+  };
+}
+
+function billPaymentPreview(
+  supplier: string | undefined,
+  billNumber: string | undefined,
+  amountDue: number,
+  bankAccount: string | undefined,
+  input: BillPaymentWriteInput,
+  amount: number,
+  currency: string | undefined
+): AccountingWritePreview {
+  return {
+    details: compact([
+      { label: 'Supplier', value: supplier },
+      { label: 'Bill', value: billNumber || input.billId },
+      { label: 'Amount due', value: formatMoney(amountDue, currency) },
+      { label: 'Paid from', value: bankAccount },
+      { label: 'Payment date', value: input.date },
+      { label: 'Reference', value: input.reference },
+    ]),
+    total: amount,
+    currency,
+    note: amount < amountDue ? `Part payment: ${formatMoney(roundMoney(amountDue - amount), currency)} stays due.` : undefined,
+  };
+}
+
+/**
+ * Store a proposed write for the user to approve. Looks up what the card
+ * needs (contact names, bill balances) from the provider. Returns an error
+ * message when the change can't be made as asked.
+ */
+export async function proposeAccountingWrite(
+  userId: string,
+  provider: AccountingProvider,
+  action: AccountingWriteAction,
+  input: AccountingWriteInput,
+  conversationId?: string | null
+): Promise<AccountingWriteSummary | string> {
+  const prepared = action === 'createContact'
+    ? await prepareContact(provider, input as ContactWriteInput)
+    : action === 'draftInvoice'
+      ? await prepareInvoice(userId, provider, input as InvoiceWriteInput)
+      : await prepareBillPayment(userId, provider, input as BillPaymentWriteInput);
+
+  if (typeof prepared === 'string') {
+    return prepared;
+  }
+
+  const write = await prisma.accountingWrite.create({
+    data: {
+      userId,
+      conversationId: conversationId || null,
+      service: provider.service,
+      organisationId: provider.organisationId,
+      action,
+      // Drops undefined fields so the stored request matches what is sent
+      payload: JSON.parse(JSON.stringify(prepared.payload)),
+      preview: JSON.parse(JSON.stringify(prepared.preview)),
+      summary: prepared.summary,
+      expiresAt: new Date(Date.now() + WRITE_PROPOSAL_TTL_HOURS * 60 * 60 * 1000),
+    },
+  });
+  return toSummary(write);
+}
+
+/**
+ * The user's writes, newest first, optionally for one conversation. Includes
+ * rejected and failed proposals.
+ */
+export async function listAccountingWrites(
+  userId: string,
+  filter: { conversationId?: string; limit?: number } = {}
+): Promise<AccountingWriteSummary[]> {
+  const writes = await prisma.accountingWrite.findMany({
+    where: { userId, ...(filter.conversationId ? { conversationId: filter.conversationId } : {}) },
+    orderBy: { createdAt: 'desc' },
+    take: Math.min(Math.max(filter.limit || 50, 1), 200),
+  });
+  return writes.map(toSummary);
+}
+
+export async function findAccountingWrite(userId: string, id: string): Promise<AccountingWriteSummary | null> {
+  const write = await prisma.accountingWrite.findFirst({ where: { id, userId } });
+  return write ? toSummary(write) : null;
+}
+
+/** Pull a readable message out of a Xero or QBO error */
+function providerErrorMessage(error: unknown): string {
+  const err = error as any;
+  // QBO fails with an axios error carrying a Fault; xero-node rejects with { response, body }
+  let body = err?.response?.data ?? err?.body ?? err?.response?.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      body = undefined;
+    }
+  }
+
+  return (
+    body?.Fault?.Error?.[0]?.Detail ||
+    body?.Elements?.[0]?.ValidationErrors?.[0]?.Message ||
+    body?.Message ||
+    (error instanceof Error ? error.message : 'The accounting system rejected the change')
+  );
+}
+
+/**
+ * Send an approved write to the provider. The write's ID is the idempotency
+ * key, so a retried call can't create the record twice.
+ */
+async function sendToProvider(write: AccountingWrite): Promise<{ externalId: string; result: Record<string, unknown> }> {
+  const { userId, organisationId, id } = write;
+  const payload = write.payload as any;
+
+  if (write.service === 'XERO') {
+    switch (write.action as AccountingWriteAction) {
+      case 'createContact': {
+        const response: any = await createXeroContact(userId, organisationId, payload.body, id);
+        const contact = response?.contacts?.[0];
+        return { externalId: contact?.contactID, result: { contactID: contact?.contactID, name: contact?.name } };
+      }
+      case 'draftInvoice': {
+        const response: any = await createXeroInvoice(userId, organisationId, payload.body, id);
+        const invoice = response?.invoices?.[0];
+        return {
+          externalId: invoice?.invoiceID,
+          result: { invoiceID: invoice?.invoiceID, invoiceNumber: invoice?.invoiceNumber, status: invoice?.status, total: invoice?.total },
+        };
+      }
+      case 'recordBillPayment': {
+        const response: any = await createXeroPayment(userId, organisationId, payload.body, id);
+        const payment = response?.payments?.[0];
+        return { externalId: payment?.paymentID, result: { paymentID: payment?.paymentID, amount: payment?.amount, status: payment?.status } };
+      }
+    }
+  }
+
+  switch (write.action as AccountingWriteAction) {
+    case 'createContact': {
+      const create = payload.contactType === 'supplier' ? createQboVendor : createQboCustomer;
+      const contact = await create(userId, organisationId, payload.body, id);
+      return { externalId: contact?.Id, result: { id: contact?.Id, displayName: contact?.DisplayName } };
+    }
+    case 'draftInvoice': {
+      const invoice = await createQboInvoice(userId, organisationId, payload.body, id);
+      return { externalId: invoice?.Id, result: { id: invoice?.Id, docNumber: invoice?.DocNumber, total: invoice?.TotalAmt } };
+    }
+    case 'recordBillPayment': {
+      const payment = await createQboBillPayment(userId, organisationId, payload.body, id);
+      return { externalId: payment?.Id, result: { id: payment?.Id, total: payment?.TotalAmt } };
+    }
+  }
+
+  throw new Error(`Unknown write action ${write.action}`);
+}
+
+/**
+ * Approve a pending proposal and send it to the provider. Claiming the row
+ * before the call means a double click can't submit the change twice. A
+ * provider error is recorded on the write and returned with status `failed`.
+ * Null when the proposal isn't the user's.
+ */
+export async function approveAccountingWrite(userId: string, id: string): Promise<AccountingWriteDecision | null> {
+  const write = await prisma.accountingWrite.findFirst({ where: { id, userId } });
+  if (!write) {
+    return null;
+  }
+
+  const now = new Date();
+  const { count } = await prisma.accountingWrite.updateMany({
+    where: { id, status: 'pending', expiresAt: { gt: now } },
+    data: { status: 'approved', decidedAt: now },
+  });
+  if (count === 0) {
+    const status = accountingWriteStatus(write, now);
+    return { error: status === 'expired' ? 'This proposal has expired; ask for it again' : `This proposal is already ${status}` };
+  }
+
+  let updated: AccountingWrite;
+  try {
+    const { externalId, result } = await sendToProvider(write);
+    updated = await prisma.accountingWrite.update({
+      where: { id },
+      data: { status: 'executed', externalId: externalId || null, result: result as Prisma.InputJsonValue, executedAt: new Date() },
+    });
+    console.info(`[accounting-writes] ${write.action} executed on ${write.service} ${write.organisationId} by user ${userId}: ${externalId}`);
+
+    // Reports read before the write no longer add up
+    await invalidateReportCache(write.service as AccountingService, write.organisationId).catch((error) => {
+      console.warn('Report cache invalidation after write failed:', error);
+    });
+  } catch (error) {
+    const message = providerErrorMessage(error);
+    updated = await prisma.accountingWrite.update({
+      where: { id },
+      data: { status: 'failed', error: message, executedAt: new Date() },
+    });
+    console.error(`[accounting-writes] ${write.action} failed on ${write.service} ${write.organisationId} for user ${userId}:`, message);
+  }
+
+  return { write: toSummary(updated) };
+}
+
+/** Turn down a pending proposal. Null when it isn't the user's. */
+export async function rejectAccountingWrite(userId: string, id: string): Promise<AccountingWriteDecision | null> {
+  const write = await prisma.accountingWrite.findFirst({ where: { id, userId } });
+  if (!write) {
+    return null;
+  }
+
+  const { count } = await prisma.accountingWrite.updateMany({
+    where: { id, status: 'pending' },
+    data: { status: 'rejected', decidedAt: new Date() },
+  });
+  if (count === 0) {
+    return { error: `This proposal is already ${accountingWriteStatus(write)}` };
+  }
+
+  const updated = await prisma.accountingWrite.findUniqueOrThrow({ where: { id } });
+  return { write: toSummary(updated) };
+}
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { AccountingProvider, AccountingService, DateRange } from './types';
+import { toDateString } from './utils';
+
+// Periods that ended before the current month rarely change
+const CLOSED_PERIOD_TTL_MS = 24 * 60 * 60 * 1000;
+// Figures for the current month move as transactions are entered
+const OPEN_PERIOD_TTL_MS = 10 * 60 * 1000;
+const ORGANISATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_PRUNE_INTERVAL_MINUTES = 60;
+
+let pruneSchedulerStarted = false;
+
+function cacheKey(service: AccountingService, organisationId: string, report: string, params: unknown): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([service, organisationId, report, params]))
+    .digest('hex');
+}
+
+/**
+ * TTL for a report ending on `toDate`: longer once the period has closed
+ */
+function ttlForPeriod(toDate: string): number {
+  const now = new Date();
+  const currentMonthStart = toDateString(new Date(now.getFullYear(), now.getMonth(), 1));
+  return toDate < currentMonthStart ? CLOSED_PERIOD_TTL_MS : OPEN_PERIOD_TTL_MS;
+}
+
+/**
+ * Return a cached report, or load it and store the result. Cache errors never
+ * fail the request; the report is loaded directly instead.
+ */
+async function getOrLoad<T>(
+  service: AccountingService,
+  organisationId: string,
+  report: string,
+  params: unknown,
+  ttlMs: number,
+  load: () => Promise<T>
+): Promise<T> {
+  const key = cacheKey(service, organisationId, report, params);
+
+  try {
+    const entry = await prisma.reportCache.findUnique({ where: { key } });
+    if (entry && entry.expiresAt > new Date()) {
+      return entry.data as T;
+    }
+  } catch (error) {
+    console.warn('Report cache read failed:', error);
+  }
+
+  const data = await load();
+
+  try {
+    const expiresAt = new Date(Date.now() + ttlMs);
+    const json = data as unknown as Prisma.InputJsonValue;
+    await prisma.reportCache.upsert({
+      where: { key },
+      update: { data: json, expiresAt, createdAt: new Date() },
+      create: { key, service, organisationId, report, data: json, expiresAt },
+    });
+  } catch (error) {
+    console.warn('Report cache write failed:', error);
+  }
+
+  return data;
+}
+
+/**
+ * Wrap a provider so report calls are served from the cache. Document lists
+ * (invoices, bills, contacts) are always fetched live.
+ */
+export function withReportCache(provider: AccountingProvider): AccountingProvider {
+  const { service, organisationId } = provider;
+  const cached = <T>(report: string, params: unknown, ttlMs: number, load: () => Promise<T>) =>
+    getOrLoad(service, organisationId, report, params, ttlMs, load);
+
+  return {
+    ...provider,
+    getOrganisation: () =>
+      cached('organisation', null, ORGANISATION_TTL_MS, () => provider.getOrganisation()),
+    getProfitAndLoss: (range: DateRange) =>
+      cached('profit-and-loss', range, ttlForPeriod(range.toDate), () => provider.getProfitAndLoss(range)),
+    getBalanceSheet: (date: string) =>
+      cached('balance-sheet', { date }, ttlForPeriod(date), () => provider.getBalanceSheet(date)),
+    getBankSummary: (range: DateRange) =>
+      cached('bank-summary', range, ttlForPeriod(range.toDate), () => provider.getBankSummary(range)),
+    getExpenseDetails: (expenseName: string, range: DateRange) =>
+      cached('expense-details', { expenseName, ...range }, ttlForPeriod(range.toDate), () =>
+        provider.getExpenseDetails(expenseName, range)
+      ),
+  };
+}
+
+/**
+ * Drop every cached report for an organisation, e.g. on a manual refresh or
+ * when the provider reports a change
+ */
+export async function invalidateReportCache(service: AccountingService, organisationId: string): Promise<number> {
+  const { count } = await prisma.reportCache.deleteMany({
+    where: { service, organisationId },
+  });
+  return count;
+}
+
+/**
+ * Remove expired entries so the table does not grow without bound
+ */
+export async function pruneReportCache(): Promise<number> {
+  const { count } = await prisma.reportCache.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return count;
+}
+
+/**
+ * Run pruneReportCache on startup and then every
+ * REPORT_CACHE_PRUNE_INTERVAL_MINUTES (default 60). Safe to call more than
+ * once per process.
+ */
+export function startReportCachePruneScheduler(): void {
+  if (pruneSchedulerStarted) {
+    return;
+  }
+  pruneSchedulerStarted = true;
+
+  const minutes = parseInt(process.env.REPORT_CACHE_PRUNE_INTERVAL_MINUTES || '', 10) || DEFAULT_PRUNE_INTERVAL_MINUTES;
+
+  const run = async () => {
+    try {
+      const pruned = await pruneReportCache();
+      if (pruned) {
+        console.log(`Report cache: ${pruned} expired entries pruned`);
+      }
+    } catch (error) {
+      console.error('Report cache prune job error:', error);
+    }
+  };
+
+  run();
+  setInterval(run, minutes * 60 * 1000);
+}
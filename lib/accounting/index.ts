@@ -0,0 +1,90 @@
+import { prisma } from '../db';
+import { getActiveOrganisationId } from '../organisations';
+import { createXeroProvider } from './xero-provider';
+import { createQboProvider } from './qbo-provider';
+import { withReportCache } from './cache';
+import { AccountingProvider, AccountingService } from './types';
+
+export * from './types';
+export {
+  parseAmount,
+  withPercentages,
+  combineBreakdowns,
+  toBaseAmount,
+  toDateString,
+  monthsInRange,
+  financialYearStart,
+  resolveTimeframeRange,
+  previousPeriodRange,
+  shiftRangeMonths,
+  lastMonthRange,
+} from './utils';
+export type { DashboardTimeframe } from './utils';
+export { invalidateReportCache, pruneReportCache, startReportCachePruneScheduler } from './cache';
+
+export function isAccountingService(value: unknown): value is AccountingService {
+  return value === 'QBO' || value === 'XERO';
+}
+
+/**
+ * Pick the service a request reads from: an explicitly requested one
+ * (e.g. `?service=QBO`) or the user's default
+ */
+export function resolveRequestedService(
+  requested: string | null | undefined,
+  defaultService: string | null | undefined
+): string | null {
+  return isAccountingService(requested) ? requested : defaultService ?? null;
+}
+
+/**
+ * Resolve the accounting provider for a user's connected service. Uses the
+ * given organisation (Xero tenant / QBO realm) or the user's active one.
+ * Returns null when the service has no stored connection. Report calls go
+ * through the report cache.
+ */
+export async function getAccountingProvider(
+  userId: string,
+  service: string | null | undefined,
+  organisationId?: string | null
+): Promise<AccountingProvider | null> {
+  if (!isAccountingService(service)) {
+    return null;
+  }
+
+  const resolvedId = organisationId || await getActiveOrganisationId(userId, service);
+  if (!resolvedId) {
+    return null;
+  }
+
+  if (service === 'XERO') {
+    const token = await prisma.xeroToken.findUnique({
+      where: { userId_tenantId: { userId, tenantId: resolvedId } },
+      select: { tenantId: true },
+    });
+    return token ? withReportCache(createXeroProvider(userId, token.tenantId)) : null;
+  }
+
+  const token = await prisma.qboToken.findUnique({
+    where: { userId_realmId: { userId, realmId: resolvedId } },
+    select: { realmId: true },
+  });
+  return token ? withReportCache(createQboProvider(userId, token.realmId)) : null;
+}
+
+/**
+ * Month (1-12) the provider's organisation ends its financial year in,
+ * December when the organisation can't be read
+ */
+export async function getFinancialYearEndMonth(provider: AccountingProvider): Promise<number> {
+  const organisation = await provider.getOrganisation().catch(() => null);
+  return organisation?.financialYearEndMonth || 12;
+}
+
+/**
+ * The organisation's base currency (ISO code), USD when it can't be read
+ */
+export async function getBaseCurrency(provider: AccountingProvider): Promise<string> {
+  const organisation = await provider.getOrganisation().catch(() => null);
+  return organisation?.baseCurrency || 'USD';
+}
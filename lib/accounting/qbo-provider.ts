@@ -0,0 +1,426 @@
+import {
+  getCompanyInfo,
+  getPreferences,
+  getCustomers,
+  getVendors,
+  getInvoices,
+  getBills,
+  getProfitAndLossReport,
+  getBalanceSheetReport,
+  getProfitAndLossDetailReport,
+  getGeneralLedgerReport,
+  queryEntities,
+} from '../qbo-api';
+import {
+  AccountingContact,
+  AccountingDocument,
+  AccountingLineItem,
+  AccountingProvider,
+  ACCOUNTING_PAGE_SIZE,
+  BankAccountMovement,
+  DocumentQuery,
+  ExpenseDetail,
+} from './types';
+import { parseAmount, withPercentages } from './utils';
+
+const INCOME_SECTIONS = ['INCOME', 'Income'];
+const EXPENSE_SECTIONS = ['EXPENSES', 'OTHER EXPENSES'];
+const COST_OF_GOODS_SOLD_SECTIONS = ['COST OF GOODS SOLD', 'COST OF SALES', 'COGS'];
+const BANK_LEDGER_COLUMNS = 'tx_date,txn_type,debt_amt,credit_amt,rbal_nat_amount';
+
+/**
+ * Creates an AccountingProvider backed by a single QuickBooks Online company
+ */
+export function createQboProvider(userId: string, realmId: string): AccountingProvider {
+  return {
+    service: 'QBO',
+    organisationId: realmId,
+
+    async getOrganisation() {
+      const [companyInfo, preferences]: any[] = await Promise.all([
+        getCompanyInfo(userId, realmId),
+        // Home currency lives in the preferences; fall back to USD formatting without it
+        getPreferences(userId, realmId).catch(() => null),
+      ]);
+      return {
+        id: realmId,
+        name: companyInfo?.CompanyName || 'Unknown',
+        shortCode: companyInfo?.LegalName || '',
+        baseCurrency: preferences?.CurrencyPrefs?.HomeCurrency?.value || undefined,
+        financialYearEndMonth: fiscalYearEndMonth(companyInfo?.FiscalYearStartMonth),
+      };
+    },
+
+    async getProfitAndLoss({ fromDate, toDate }) {
+      const report = await getProfitAndLossReport(userId, realmId, { startDate: fromDate, endDate: toDate });
+
+      return {
+        revenue: Math.abs(findSummaryValue(report, ['Total Income'])),
+        costOfGoodsSold: Math.abs(findSummaryValue(report, ['Total Cost of Goods Sold'])),
+        operatingExpenses: Math.abs(findSummaryValue(report, ['Total Expenses'])),
+        otherExpenses: Math.abs(findSummaryValue(report, ['Total Other Expenses'])),
+        netProfit: findSummaryValue(report, ['PROFIT', 'Net Income']),
+        revenueBreakdown: withPercentages(extractSectionItems(report, INCOME_SECTIONS, true)),
+        expenseBreakdown: withPercentages(extractSectionItems(report, EXPENSE_SECTIONS, false)),
+        costOfGoodsSoldBreakdown: withPercentages(extractSectionItems(report, COST_OF_GOODS_SOLD_SECTIONS, true)),
+      };
+    },
+
+    async getBalanceSheet(date) {
+      const report = await getBalanceSheetReport(userId, realmId, { endDate: date });
+      const totalAssets = findSummaryValue(report, ['TOTAL ASSETS', 'Total Assets']);
+      const totalLiabilities = findSummaryValue(report, ['Total Liabilities']);
+
+      return {
+        date,
+        cashBalance: findSummaryValue(report, ['Total Cash and Cash Equivalent', 'Total Bank Accounts']),
+        totalAssets,
+        totalLiabilities,
+        equity: findSummaryValue(report, ['Total Equity']) || totalAssets - totalLiabilities,
+      };
+    },
+
+    async getInvoices(query) {
+      const response = await getInvoices(userId, realmId, toQueryOptions(query));
+      return response.invoices.map((invoice: any) => toAccountingDocument(invoice, 'invoice'));
+    },
+
+    async getBills(query) {
+      const response = await getBills(userId, realmId, toQueryOptions(query));
+      return response.bills.map((bill: any) => toAccountingDocument(bill, 'bill'));
+    },
+
+    async getContacts(query) {
+      const pageOptions = {
+        maxResults: ACCOUNTING_PAGE_SIZE,
+        startPosition: ((query?.page || 1) - 1) * ACCOUNTING_PAGE_SIZE + 1,
+      };
+      const contacts: AccountingContact[] = [];
+
+      if (query?.type !== 'supplier') {
+        const { customers } = await getCustomers(userId, realmId, pageOptions);
+        contacts.push(...customers.map((customer: any) => ({
+          id: customer.Id,
+          name: customer.DisplayName || '',
+          email: customer.PrimaryEmailAddr?.Address,
+          isCustomer: true,
+          isSupplier: false,
+        })));
+      }
+
+      if (query?.type !== 'customer') {
+        const { vendors } = await getVendors(userId, realmId, pageOptions);
+        contacts.push(...vendors.map((vendor: any) => ({
+          id: vendor.Id,
+          name: vendor.DisplayName || '',
+          email: vendor.PrimaryEmailAddr?.Address,
+          isCustomer: false,
+          isSupplier: true,
+        })));
+      }
+
+      return contacts;
+    },
+
+    async getBankSummary({ fromDate, toDate }) {
+      // Inactive accounts can still have transactions in the period
+      const bankAccounts = await queryEntities(userId, realmId, 'Account', {
+        where: "AccountType = 'Bank' AND Active IN (true, false)",
+        maxResults: 1000,
+      });
+      if (bankAccounts.length === 0) {
+        return { cashIn: 0, cashOut: 0, accounts: [] };
+      }
+
+      const report = await getGeneralLedgerReport(userId, realmId, {
+        startDate: fromDate,
+        endDate: toDate,
+        accountIds: bankAccounts.map((account: any) => account.Id),
+        columns: BANK_LEDGER_COLUMNS,
+      });
+      const accounts = extractBankMovements(report, bankAccounts);
+
+      return {
+        cashIn: accounts.reduce((sum, account) => sum + account.cashIn, 0),
+        cashOut: accounts.reduce((sum, account) => sum + account.cashOut, 0),
+        accounts,
+      };
+    },
+
+    async getExpenseDetails(expenseName, { fromDate, toDate }) {
+      const report = await getProfitAndLossDetailReport(userId, realmId, { startDate: fromDate, endDate: toDate });
+      return extractExpenseDetails(report, expenseName);
+    },
+  };
+}
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+/**
+ * QBO gives the month the fiscal year starts in ("April"); the year ends the month before
+ */
+function fiscalYearEndMonth(startMonth: unknown): number | undefined {
+  const index = MONTH_NAMES.indexOf(String(startMonth || '').toLowerCase());
+  if (index === -1) {
+    return undefined;
+  }
+  return index === 0 ? 12 : index;
+}
+
+function toRowArray(rows: any): any[] {
+  if (!rows) {
+    return [];
+  }
+  if (Array.isArray(rows)) {
+    return rows;
+  }
+  if (rows.Row) {
+    return Array.isArray(rows.Row) ? rows.Row : [rows.Row];
+  }
+  return [];
+}
+
+/**
+ * Find the first summary row (at any depth) whose label matches one of the names
+ */
+function findSummaryValue(report: any, names: string[]): number {
+  function search(rows: any[]): number | null {
+    for (const row of rows) {
+      const label = row.Summary?.ColData?.[0]?.value;
+      if (label && names.includes(label)) {
+        return parseAmount(row.Summary.ColData[1]?.value);
+      }
+
+      const nested = search(toRowArray(row.Rows));
+      if (nested !== null) {
+        return nested;
+      }
+    }
+    return null;
+  }
+
+  return search(toRowArray(report?.Rows)) ?? 0;
+}
+
+/**
+ * Collect data rows from the named report sections. When `recursive` is set,
+ * rows of nested sub-sections (e.g. "Subcontractors" under COGS) are included.
+ */
+function extractSectionItems(
+  report: any,
+  sectionNames: string[],
+  recursive: boolean
+): Array<{ name: string; value: number }> {
+  const items: Array<{ name: string; value: number }> = [];
+
+  function collect(rows: any[]) {
+    for (const row of rows) {
+      if (row.type === 'Data' && row.ColData) {
+        const name = row.ColData[0]?.value || '';
+        if (name && !name.toLowerCase().includes('total')) {
+          items.push({ name, value: Math.abs(parseAmount(row.ColData[1]?.value)) });
+        }
+      }
+      if (recursive) {
+        collect(toRowArray(row.Rows));
+      }
+    }
+  }
+
+  function findSections(rows: any[]) {
+    for (const row of rows) {
+      const header = row.Header?.ColData?.[0]?.value;
+      if (header && sectionNames.includes(header)) {
+        collect(toRowArray(row.Rows));
+      } else {
+        findSections(toRowArray(row.Rows));
+      }
+    }
+  }
+
+  findSections(toRowArray(report?.Rows));
+  return items;
+}
+
+/**
+ * Returns a lookup for a data row's value by column key (e.g. 'tx_date'),
+ * using the report's Columns metadata
+ */
+function columnReader(report: any): (colData: any[], colKey: string) => string {
+  const columnMap: Record<string, number> = {};
+  const columns = report?.Columns?.Column
+    ? Array.isArray(report.Columns.Column) ? report.Columns.Column : [report.Columns.Column]
+    : [];
+  columns.forEach((col: any, index: number) => {
+    const metaData = Array.isArray(col.MetaData) ? col.MetaData : col.MetaData ? [col.MetaData] : [];
+    const colKey = metaData.find((meta: any) => meta.Name === 'ColKey');
+    if (colKey?.Value) {
+      columnMap[colKey.Value] = index;
+    }
+  });
+
+  return (colData, colKey) => {
+    const index = columnMap[colKey];
+    return index !== undefined ? colData[index]?.value || '' : '';
+  };
+}
+
+/**
+ * Money in (debits) and out (credits) per bank account from a GeneralLedger
+ * report limited to bank accounts. Sub-accounts are reported as their own
+ * sections; accounts with no activity in the period are omitted.
+ */
+function extractBankMovements(report: any, bankAccounts: any[]): BankAccountMovement[] {
+  const getColumnValue = columnReader(report);
+  const bankIds = new Set(bankAccounts.map((account: any) => String(account.Id)));
+  const bankNames = new Set(bankAccounts.map((account: any) => account.Name));
+  const movements: BankAccountMovement[] = [];
+
+  function collect(rows: any[]) {
+    for (const row of rows) {
+      const header = row.Header?.ColData?.[0];
+      const isBankSection = header && (bankIds.has(String(header.id)) || bankNames.has(header.value));
+
+      if (isBankSection) {
+        let openingBalance = 0;
+        let cashIn = 0;
+        let cashOut = 0;
+
+        for (const dataRow of toRowArray(row.Rows)) {
+          if (dataRow.type !== 'Data' || !dataRow.ColData) {
+            continue;
+          }
+          if (dataRow.ColData[0]?.value === 'Beginning Balance') {
+            openingBalance = parseAmount(getColumnValue(dataRow.ColData, 'rbal_nat_amount'));
+            continue;
+          }
+          cashIn += parseAmount(getColumnValue(dataRow.ColData, 'debt_amt'));
+          cashOut += parseAmount(getColumnValue(dataRow.ColData, 'credit_amt'));
+        }
+
+        movements.push({
+          name: header.value || '',
+          openingBalance,
+          cashIn,
+          cashOut,
+          closingBalance: openingBalance + cashIn - cashOut,
+        });
+      }
+
+      collect(toRowArray(row.Rows));
+    }
+  }
+
+  collect(toRowArray(report?.Rows));
+  return movements;
+}
+
+function toQueryOptions(query?: DocumentQuery) {
+  const conditions: string[] = [];
+  if (query?.status === 'open') {
+    conditions.push("Balance > '0'");
+  }
+  if (query?.fromDate) {
+    conditions.push(`TxnDate >= '${query.fromDate}'`);
+  }
+  if (query?.toDate) {
+    conditions.push(`TxnDate <= '${query.toDate}'`);
+  }
+
+  return {
+    where: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+    maxResults: ACCOUNTING_PAGE_SIZE,
+    startPosition: ((query?.page || 1) - 1) * ACCOUNTING_PAGE_SIZE + 1,
+  };
+}
+
+export function toLineItem(line: any): AccountingLineItem {
+  const detail = line.SalesItemLineDetail || line.ItemBasedExpenseLineDetail || line.AccountBasedExpenseLineDetail || line.DepositLineDetail || {};
+  return {
+    lineItemID: line.Id,
+    description: line.Description,
+    quantity: detail.Qty,
+    unitAmount: detail.UnitPrice,
+    accountCode: detail.AccountRef?.name,
+    accountID: detail.AccountRef?.value,
+    taxType: detail.TaxCodeRef?.value,
+    lineAmount: line.Amount,
+    itemCode: detail.ItemRef?.name,
+  };
+}
+
+export function toAccountingDocument(transaction: any, type: 'invoice' | 'bill'): AccountingDocument {
+  const contactRef = type === 'invoice' ? transaction.CustomerRef : transaction.VendorRef;
+  const total = transaction.TotalAmt || 0;
+  const amountDue = transaction.Balance || 0;
+
+  return {
+    id: transaction.Id,
+    type,
+    number: transaction.DocNumber || '',
+    contactId: contactRef?.value,
+    contactName: contactRef?.name || '',
+    date: transaction.TxnDate || '',
+    dueDate: transaction.DueDate || '',
+    status: amountDue > 0 ? 'open' : 'paid',
+    total,
+    amountDue,
+    currency: transaction.CurrencyRef?.value,
+    // QBO quotes home currency per unit of the transaction currency
+    exchangeRate: transaction.ExchangeRate && transaction.ExchangeRate !== 1 ? transaction.ExchangeRate : undefined,
+    reference: transaction.PrivateNote || undefined,
+    lineItems: (transaction.Line || [])
+      .filter((line: any) => line.DetailType !== 'SubTotalLineDetail')
+      .map(toLineItem),
+  };
+}
+
+/**
+ * Extract the transactions listed under an expense account in a
+ * ProfitAndLossDetail report
+ */
+function extractExpenseDetails(report: any, expenseName: string): ExpenseDetail[] {
+  const details: ExpenseDetail[] = [];
+  const getColumnValue = columnReader(report);
+
+  const normalizedExpense = expenseName.toLowerCase().trim();
+
+  function findExpenseCategory(rows: any[]) {
+    for (const row of rows) {
+      const header = (row.Header?.ColData?.[0]?.value || '').toLowerCase().trim();
+
+      if (header && header === normalizedExpense) {
+        for (const dataRow of toRowArray(row.Rows)) {
+          if (dataRow.type !== 'Data' || !dataRow.ColData) {
+            continue;
+          }
+
+          const colData = dataRow.ColData;
+          const date = getColumnValue(colData, 'tx_date');
+          const transactionType = getColumnValue(colData, 'txn_type');
+          const name = getColumnValue(colData, 'name');
+          const amountStr = getColumnValue(colData, 'subt_nat_amount_nt');
+
+          if (amountStr || date || transactionType || name) {
+            details.push({
+              date,
+              transactionType,
+              docNumber: getColumnValue(colData, 'doc_num'),
+              name,
+              class: getColumnValue(colData, 'klass_name'),
+              memo: getColumnValue(colData, 'memo'),
+              split: getColumnValue(colData, 'split_acc'),
+              amount: Math.abs(parseAmount(amountStr)),
+              balance: Math.abs(parseAmount(getColumnValue(colData, 'rbal_nat_amount_nt'))),
+            });
+          }
+        }
+      }
+
+      findExpenseCategory(toRowArray(row.Rows));
+    }
+  }
+
+  findExpenseCategory(toRowArray(report?.Rows));
+  return details;
+}
@@ -0,0 +1,149 @@
+export type AccountingService = 'QBO' | 'XERO';
+
+export interface DateRange {
+  fromDate: string;
+  toDate: string;
+}
+
+export interface BreakdownItem {
+  name: string;
+  value: number;
+  percentage: number;
+}
+
+export interface OrganisationSummary {
+  id: string;
+  name: string;
+  shortCode: string;
+  baseCurrency?: string;
+  /** Month (1-12) the financial year ends in */
+  financialYearEndMonth?: number;
+}
+
+/**
+ * Normalized profit and loss summary. All expense figures are positive amounts;
+ * `operatingExpenses` never includes cost of goods sold.
+ */
+export interface ProfitAndLossSummary {
+  revenue: number;
+  costOfGoodsSold: number;
+  operatingExpenses: number;
+  otherExpenses: number;
+  netProfit: number;
+  revenueBreakdown: BreakdownItem[];
+  expenseBreakdown: BreakdownItem[];
+  costOfGoodsSoldBreakdown: BreakdownItem[];
+}
+
+export interface BalanceSheetSummary {
+  date: string;
+  cashBalance: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  equity: number;
+}
+
+export interface AccountingLineItem {
+  lineItemID?: string;
+  description?: string;
+  quantity?: number;
+  unitAmount?: number;
+  accountCode?: string;
+  accountID?: string;
+  taxType?: string;
+  taxAmount?: number;
+  lineAmount?: number;
+  itemCode?: string;
+}
+
+export type DocumentStatus = 'draft' | 'open' | 'paid' | 'voided';
+
+/**
+ * A sales invoice (`invoice`) or a supplier bill (`bill`)
+ */
+export interface AccountingDocument {
+  id: string;
+  type: 'invoice' | 'bill';
+  number: string;
+  contactId?: string;
+  contactName: string;
+  date: string;
+  dueDate: string;
+  status: DocumentStatus;
+  total: number;
+  amountDue: number;
+  currency?: string;
+  /** Base-currency units per unit of `currency`; only set for foreign-currency documents */
+  exchangeRate?: number;
+  reference?: string;
+  lineItems: AccountingLineItem[];
+}
+
+export interface DocumentQuery {
+  status?: 'open' | 'all';
+  fromDate?: string;
+  toDate?: string;
+  page?: number;
+}
+
+export interface AccountingContact {
+  id: string;
+  name: string;
+  email?: string;
+  isCustomer: boolean;
+  isSupplier: boolean;
+}
+
+export interface ContactQuery {
+  type?: 'customer' | 'supplier';
+  page?: number;
+}
+
+export interface BankAccountMovement {
+  name: string;
+  openingBalance: number;
+  cashIn: number;
+  cashOut: number;
+  closingBalance: number;
+}
+
+export interface BankSummary {
+  cashIn: number;
+  cashOut: number;
+  accounts: BankAccountMovement[];
+}
+
+export interface ExpenseDetail {
+  date: string;
+  transactionType: string;
+  docNumber: string;
+  name: string;
+  class: string;
+  memo: string;
+  split: string;
+  amount: number;
+  balance: number;
+  lineItems?: AccountingLineItem[];
+  invoiceId?: string;
+}
+
+/**
+ * Common interface implemented by every accounting integration. Routes and AI
+ * tools should depend on this rather than on lib/xero-api or lib/qbo-api.
+ */
+export interface AccountingProvider {
+  readonly service: AccountingService;
+  /** Xero tenant ID or QBO realm ID */
+  readonly organisationId: string;
+  getOrganisation(): Promise<OrganisationSummary>;
+  getProfitAndLoss(range: DateRange): Promise<ProfitAndLossSummary>;
+  getBalanceSheet(date: string): Promise<BalanceSheetSummary>;
+  getInvoices(query?: DocumentQuery): Promise<AccountingDocument[]>;
+  getBills(query?: DocumentQuery): Promise<AccountingDocument[]>;
+  getContacts(query?: ContactQuery): Promise<AccountingContact[]>;
+  getBankSummary(range: DateRange): Promise<BankSummary>;
+  getExpenseDetails(expenseName: string, range: DateRange): Promise<ExpenseDetail[]>;
+}
+
+/** Number of documents or contacts returned per page by every provider */
+export const ACCOUNTING_PAGE_SIZE = 100;
@@ -0,0 +1,182 @@
+import { BreakdownItem, DateRange } from './types';
+
+/**
+ * Parse a report cell value ("1,234.56", 1234.56, undefined) into a number
+ */
+export function parseAmount(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const numericValue = parseFloat(value.replace(/,/g, ''));
+    return isNaN(numericValue) ? 0 : numericValue;
+  }
+  return 0;
+}
+
+/**
+ * Add percentage-of-total to each item and sort largest first
+ */
+export function withPercentages(items: Array<{ name: string; value: number }>): BreakdownItem[] {
+  const total = items.reduce((sum, item) => sum + item.value, 0);
+  return items
+    .map((item) => ({
+      ...item,
+      percentage: total > 0 ? (item.value / total) * 100 : 0,
+    }))
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Merge breakdowns that may share names (e.g. several months) into one list
+ */
+export function combineBreakdowns(...breakdowns: Array<BreakdownItem[] | undefined>): BreakdownItem[] {
+  const totals = new Map<string, number>();
+  for (const breakdown of breakdowns) {
+    for (const item of breakdown || []) {
+      totals.set(item.name, (totals.get(item.name) || 0) + item.value);
+    }
+  }
+  return withPercentages(Array.from(totals, ([name, value]) => ({ name, value })));
+}
+
+/**
+ * Convert a document amount (e.g. `amountDue`) into the organisation's base currency
+ */
+export function toBaseAmount(document: { exchangeRate?: number }, amount: number): number {
+  return document.exchangeRate ? Math.round(amount * document.exchangeRate * 100) / 100 : amount;
+}
+
+/**
+ * Format a Date as YYYY-MM-DD using its local calendar date
+ */
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Split a date range into calendar months
+ */
+export function monthsInRange(fromDate: string, toDate: string): Array<{ start: Date; end: Date }> {
+  const months: Array<{ start: Date; end: Date }> = [];
+  const start = new Date(fromDate + 'T00:00:00');
+  const end = new Date(toDate + 'T00:00:00');
+  const cursor = new Date(start.getFullYear(), start.getMonth(), 1);
+  while (cursor <= end) {
+    months.push({
+      start: new Date(cursor.getFullYear(), cursor.getMonth(), 1),
+      end: new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0),
+    });
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return months;
+}
+
+/**
+ * Dashboard timeframes. YEAR, QUARTER and FYTD follow the organisation's
+ * financial year; L12 is the last 12 months including the current one.
+ */
+export type DashboardTimeframe = 'YEAR' | 'QUARTER' | 'FYTD' | 'MONTH' | 'L12' | 'CUSTOM';
+
+/**
+ * First day of the financial year containing `date`, for a year ending in
+ * `yearEndMonth` (1-12, December for calendar years)
+ */
+export function financialYearStart(date: Date, yearEndMonth: number = 12): Date {
+  const startMonth = yearEndMonth % 12;
+  const year = date.getMonth() >= startMonth ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, startMonth, 1);
+}
+
+/**
+ * Resolve a dashboard timeframe into a date range, unless an explicit
+ * fromDate/toDate pair is supplied. YEAR is the whole current financial year,
+ * QUARTER the current financial quarter and FYTD the financial year to today.
+ */
+export function resolveTimeframeRange(
+  timeframe: string,
+  fromDate?: string | null,
+  toDate?: string | null,
+  yearEndMonth: number = 12,
+  today: Date = new Date()
+): DateRange {
+  if (fromDate && toDate) {
+    return { fromDate, toDate };
+  }
+
+  const yearStart = financialYearStart(today, yearEndMonth);
+  const monthRange = (start: Date, months: number): DateRange => ({
+    fromDate: toDateString(start),
+    toDate: toDateString(new Date(start.getFullYear(), start.getMonth() + months, 0)),
+  });
+
+  if (timeframe === 'MONTH') {
+    return monthRange(new Date(today.getFullYear(), today.getMonth(), 1), 1);
+  }
+
+  if (timeframe === 'QUARTER') {
+    const monthsIntoYear = (today.getFullYear() - yearStart.getFullYear()) * 12 + today.getMonth() - yearStart.getMonth();
+    const quarterStart = new Date(yearStart.getFullYear(), yearStart.getMonth() + Math.floor(monthsIntoYear / 3) * 3, 1);
+    return monthRange(quarterStart, 3);
+  }
+
+  if (timeframe === 'FYTD') {
+    return { fromDate: toDateString(yearStart), toDate: toDateString(today) };
+  }
+
+  if (timeframe === 'L12') {
+    return monthRange(new Date(today.getFullYear(), today.getMonth() - 11, 1), 12);
+  }
+
+  return monthRange(yearStart, 12);
+}
+
+/**
+ * The period before `range` to compare it against: the previous financial
+ * year for YEAR, the same stretch a year earlier for FYTD, the 12 months
+ * before for L12, the previous quarter for QUARTER, and otherwise the
+ * calendar month before the range starts
+ */
+export function previousPeriodRange(timeframe: string, range: DateRange): DateRange {
+  const from = new Date(range.fromDate + 'T00:00:00');
+  const months = timeframe === 'YEAR' || timeframe === 'FYTD' || timeframe === 'L12' ? 12 : timeframe === 'QUARTER' ? 3 : 0;
+
+  if (months === 0) {
+    return {
+      fromDate: toDateString(new Date(from.getFullYear(), from.getMonth() - 1, 1)),
+      toDate: toDateString(new Date(from.getFullYear(), from.getMonth(), 0)),
+    };
+  }
+
+  return shiftRangeMonths(range, -months);
+}
+
+/**
+ * Move a range by whole months (negative moves it back). Month starts and
+ * month ends stay month starts and ends; other days are clamped to the
+ * target month's length.
+ */
+export function shiftRangeMonths(range: DateRange, months: number): DateRange {
+  const shift = (date: Date) => {
+    const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+    const isMonthEnd = date.getDate() === new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+    return new Date(date.getFullYear(), date.getMonth() + months, isMonthEnd ? lastDay : Math.min(date.getDate(), lastDay));
+  };
+  return {
+    fromDate: toDateString(shift(new Date(range.fromDate + 'T00:00:00'))),
+    toDate: toDateString(shift(new Date(range.toDate + 'T00:00:00'))),
+  };
+}
+
+/**
+ * Date range covering the previous calendar month
+ */
+export function lastMonthRange(): DateRange {
+  const now = new Date();
+  return {
+    fromDate: toDateString(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+    toDate: toDateString(new Date(now.getFullYear(), now.getMonth(), 0)),
+  };
+}
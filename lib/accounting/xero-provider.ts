@@ -0,0 +1,388 @@
+import {
+  getOrganisation,
+  getContacts,
+  getInvoices,
+  getAccounts,
+  getProfitAndLossReport,
+  getBalanceSheetReport,
+  getBankSummaryReport,
+  extractAccountValue,
+  extractCashMovements,
+} from '../xero-api';
+import {
+  AccountingContact,
+  AccountingDocument,
+  AccountingLineItem,
+  AccountingProvider,
+  ACCOUNTING_PAGE_SIZE,
+  BankAccountMovement,
+  DocumentQuery,
+  DocumentStatus,
+  ExpenseDetail,
+} from './types';
+import { parseAmount, withPercentages } from './utils';
+
+/**
+ * Creates an AccountingProvider backed by a single Xero tenant
+ */
+export function createXeroProvider(userId: string, tenantId: string): AccountingProvider {
+  return {
+    service: 'XERO',
+    organisationId: tenantId,
+
+    async getOrganisation() {
+      const organisation: any = await getOrganisation(userId, tenantId);
+      return {
+        id: tenantId,
+        name: organisation?.name || 'Unknown',
+        shortCode: organisation?.shortCode || '',
+        baseCurrency: organisation?.baseCurrency ? String(organisation.baseCurrency) : undefined,
+        financialYearEndMonth: organisation?.financialYearEndMonth || undefined,
+      };
+    },
+
+    async getProfitAndLoss({ fromDate, toDate }) {
+      const report = await getProfitAndLossReport(userId, tenantId, { fromDate, toDate });
+      const costOfGoodsSold = Math.abs(extractAccountValue(report, ['Total Cost of Sales']));
+      const operatingExpenses = Math.abs(extractAccountValue(report, ['Total Operating Expenses']));
+
+      return {
+        revenue: Math.abs(extractAccountValue(report, ['Total Income'])),
+        costOfGoodsSold,
+        operatingExpenses,
+        otherExpenses: Math.abs(extractAccountValue(report, ['Total Other Expenses'])),
+        netProfit: extractAccountValue(report, ['Net Profit']),
+        revenueBreakdown: withPercentages(extractSectionRows(report, 'income', 'other income')),
+        expenseBreakdown: withPercentages(extractSectionRows(report, 'less operating expenses')),
+        costOfGoodsSoldBreakdown: withPercentages(extractSectionRows(report, 'less cost of sales')),
+      };
+    },
+
+    async getBalanceSheet(date) {
+      const report = await getBalanceSheetReport(userId, tenantId, { date });
+      const totalAssets = extractAccountValue(report, ['Total Assets']);
+      const totalLiabilities = extractAccountValue(report, ['Total Liabilities']);
+
+      return {
+        date,
+        cashBalance: extractAccountValue(report, ['Total Bank']),
+        totalAssets,
+        totalLiabilities,
+        equity: totalAssets - totalLiabilities,
+      };
+    },
+
+    async getInvoices(query) {
+      return fetchDocuments(userId, tenantId, 'ACCREC', query);
+    },
+
+    async getBills(query) {
+      return fetchDocuments(userId, tenantId, 'ACCPAY', query);
+    },
+
+    async getContacts(query) {
+      const where = query?.type === 'customer'
+        ? 'IsCustomer==true'
+        : query?.type === 'supplier'
+          ? 'IsSupplier==true'
+          : undefined;
+
+      const response: any = await getContacts(userId, tenantId, {
+        page: query?.page || 1,
+        where,
+        order: 'Name ASC',
+        pageSize: ACCOUNTING_PAGE_SIZE,
+      });
+
+      return (response?.contacts || []).map((contact: any): AccountingContact => ({
+        id: contact.contactID,
+        name: contact.name || '',
+        email: contact.emailAddress || undefined,
+        isCustomer: !!contact.isCustomer,
+        isSupplier: !!contact.isSupplier,
+      }));
+    },
+
+    async getBankSummary({ fromDate, toDate }) {
+      const report = await getBankSummaryReport(userId, tenantId, { fromDate, toDate });
+      const accounts = extractBankAccounts(report);
+      const { cashIn, cashOut } = extractCashMovements(report);
+
+      // Fall back to summing account rows when the report has no usable totals row
+      if (cashIn === 0 && cashOut === 0 && accounts.length > 0) {
+        return {
+          cashIn: accounts.reduce((sum, account) => sum + account.cashIn, 0),
+          cashOut: accounts.reduce((sum, account) => sum + account.cashOut, 0),
+          accounts,
+        };
+      }
+
+      return { cashIn, cashOut, accounts };
+    },
+
+    async getExpenseDetails(expenseName, { fromDate, toDate }) {
+      const accountsResponse: any = await getAccounts(userId, tenantId);
+      const accounts = accountsResponse?.accounts || [];
+
+      // Find the expense account that matches the expense name (by name or code)
+      const normalizedExpenseName = expenseName.toLowerCase().trim();
+      const expenseAccount = accounts.find(
+        (acc: any) =>
+          acc.name?.toLowerCase().trim() === normalizedExpenseName ||
+          acc.code?.toLowerCase().trim() === normalizedExpenseName
+      );
+
+      if (!expenseAccount || !expenseAccount.accountID) {
+        return [];
+      }
+
+      // In Xero, purchase invoices (ACCPAY) are expenses
+      const invoices = await fetchAllDocuments(userId, tenantId, 'ACCPAY', fromDate, toDate, [
+        'AUTHORISED',
+        'PAID',
+        'VOIDED',
+      ]);
+
+      return extractExpenseDetails(invoices, expenseAccount.accountID, expenseAccount.code || '');
+    },
+  };
+}
+
+/**
+ * Collect the account rows of a P&L section (e.g. "Less Operating Expenses"),
+ * skipping sections whose title contains `excludeTitle`
+ */
+function extractSectionRows(
+  report: any,
+  sectionTitle: string,
+  excludeTitle?: string
+): Array<{ name: string; value: number }> {
+  const items: Array<{ name: string; value: number }> = [];
+
+  for (const reportData of report?.reports || []) {
+    for (const row of reportData.rows || []) {
+      if (
+        row.rowType !== 'Section' ||
+        !row.title ||
+        !row.title.toLowerCase().includes(sectionTitle) ||
+        (excludeTitle && row.title.toLowerCase().includes(excludeTitle))
+      ) {
+        continue;
+      }
+
+      for (const sectionRow of row.rows || []) {
+        if (sectionRow.rowType !== 'Row' || !sectionRow.cells || sectionRow.cells.length < 2) {
+          continue;
+        }
+
+        const name = sectionRow.cells[0]?.value?.toString();
+        const value = parseAmount(sectionRow.cells[1]?.value);
+
+        if (name && !name.toLowerCase().startsWith('total') && value !== 0) {
+          items.push({ name, value: Math.abs(value) });
+        }
+      }
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Read per-account rows from a Bank Summary report
+ */
+function extractBankAccounts(report: any): BankAccountMovement[] {
+  const accounts: BankAccountMovement[] = [];
+
+  for (const reportData of report?.reports || []) {
+    for (const row of reportData.rows || []) {
+      for (const accountRow of row.rows || []) {
+        if (accountRow.rowType !== 'Row' || !accountRow.cells || accountRow.cells.length < 5) {
+          continue;
+        }
+
+        accounts.push({
+          name: accountRow.cells[0]?.value?.toString() || '',
+          openingBalance: parseAmount(accountRow.cells[1]?.value),
+          cashIn: Math.abs(parseAmount(accountRow.cells[2]?.value)),
+          cashOut: Math.abs(parseAmount(accountRow.cells[3]?.value)),
+          closingBalance: parseAmount(accountRow.cells[4]?.value),
+        });
+      }
+    }
+  }
+
+  return accounts;
+}
+
+function toXeroDateFilter(field: string, operator: '>=' | '<=', date: string): string {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  return `${field}${operator}DateTime(${year},${month},${day})`;
+}
+
+async function fetchDocuments(
+  userId: string,
+  tenantId: string,
+  type: 'ACCREC' | 'ACCPAY',
+  query?: DocumentQuery
+): Promise<AccountingDocument[]> {
+  const filters = [`Type=="${type}"`];
+  if (query?.fromDate) {
+    filters.push(toXeroDateFilter('Date', '>=', query.fromDate));
+  }
+  if (query?.toDate) {
+    filters.push(toXeroDateFilter('Date', '<=', query.toDate));
+  }
+
+  const response: any = await getInvoices(userId, tenantId, {
+    page: query?.page || 1,
+    where: filters.join(' AND '),
+    order: 'Date DESC',
+    statuses: query?.status === 'open' ? ['AUTHORISED'] : undefined,
+    pageSize: ACCOUNTING_PAGE_SIZE,
+  });
+
+  return (response?.invoices || []).map(toAccountingDocument);
+}
+
+/**
+ * Fetch every page of invoices or bills dated within a range
+ */
+async function fetchAllDocuments(
+  userId: string,
+  tenantId: string,
+  type: 'ACCREC' | 'ACCPAY',
+  fromDate: string,
+  toDate: string,
+  statuses: string[]
+): Promise<any[]> {
+  const documents: any[] = [];
+  const where = [
+    `Type=="${type}"`,
+    toXeroDateFilter('Date', '>=', fromDate),
+    toXeroDateFilter('Date', '<=', toDate),
+  ].join(' AND ');
+
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore) {
+    try {
+      const response: any = await getInvoices(userId, tenantId, {
+        page,
+        where,
+        statuses,
+        pageSize: ACCOUNTING_PAGE_SIZE,
+      });
+      const invoices = response?.invoices || [];
+
+      documents.push(...invoices);
+      hasMore = invoices.length === ACCOUNTING_PAGE_SIZE;
+      page++;
+    } catch (error) {
+      console.error('Error fetching invoices page:', error);
+      hasMore = false;
+    }
+  }
+
+  return documents;
+}
+
+function toDocumentStatus(status: unknown): DocumentStatus {
+  switch (String(status)) {
+    case 'AUTHORISED':
+      return 'open';
+    case 'PAID':
+      return 'paid';
+    case 'VOIDED':
+    case 'DELETED':
+      return 'voided';
+    default:
+      return 'draft';
+  }
+}
+
+export function toLineItem(lineItem: any): AccountingLineItem {
+  return {
+    lineItemID: lineItem.lineItemID,
+    description: lineItem.description,
+    quantity: lineItem.quantity,
+    unitAmount: lineItem.unitAmount,
+    accountCode: lineItem.accountCode,
+    accountID: lineItem.accountID,
+    taxType: lineItem.taxType,
+    taxAmount: lineItem.taxAmount,
+    lineAmount: lineItem.lineAmount,
+    itemCode: lineItem.itemCode,
+  };
+}
+
+export function toAccountingDocument(invoice: any): AccountingDocument {
+  return {
+    id: invoice.invoiceID,
+    type: String(invoice.type) === 'ACCPAY' ? 'bill' : 'invoice',
+    number: invoice.invoiceNumber || '',
+    contactId: invoice.contact?.contactID,
+    contactName: invoice.contact?.name || '',
+    date: invoice.date ? String(invoice.date).split('T')[0] : '',
+    dueDate: invoice.dueDate ? String(invoice.dueDate).split('T')[0] : '',
+    status: toDocumentStatus(invoice.status),
+    total: invoice.total || 0,
+    amountDue: invoice.amountDue || 0,
+    currency: invoice.currencyCode ? String(invoice.currencyCode) : undefined,
+    // Xero quotes units of the invoice currency per unit of base currency
+    exchangeRate: invoice.currencyRate && invoice.currencyRate !== 1 ? 1 / invoice.currencyRate : undefined,
+    reference: invoice.reference || undefined,
+    lineItems: (invoice.lineItems || []).map(toLineItem),
+  };
+}
+
+function extractExpenseDetails(
+  invoices: any[],
+  expenseAccountId: string,
+  expenseAccountCode: string
+): ExpenseDetail[] {
+  const details: ExpenseDetail[] = [];
+
+  for (const invoice of invoices) {
+    if (!invoice.lineItems || !Array.isArray(invoice.lineItems)) {
+      continue;
+    }
+
+    // Only bills with at least one line coded to the expense account
+    const expenseLineItems = invoice.lineItems.filter(
+      (lineItem: any) =>
+        (lineItem.accountID && String(lineItem.accountID) === String(expenseAccountId)) ||
+        (lineItem.accountCode && lineItem.accountCode === expenseAccountCode)
+    );
+
+    if (expenseLineItems.length === 0) {
+      continue;
+    }
+
+    details.push({
+      date: invoice.date ? new Date(invoice.date).toISOString().split('T')[0] : '',
+      transactionType: 'Bill',
+      docNumber: invoice.invoiceNumber || '',
+      name: invoice.contact?.name || '',
+      class: '',
+      memo: invoice.reference || '',
+      split: expenseAccountCode || '',
+      amount: Math.abs(invoice.subTotal || 0),
+      balance: 0,
+      lineItems: invoice.lineItems.map(toLineItem),
+      invoiceId: invoice.invoiceID,
+    });
+  }
+
+  details.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  // Running balance in date order
+  let runningBalance = 0;
+  for (const detail of details) {
+    runningBalance += detail.amount;
+    detail.balance = runningBalance;
+  }
+
+  return details;
+}
@@ -0,0 +1,292 @@
+import { prisma } from './db';
+import {
+  AccountingDocument,
+  AccountingLineItem,
+  AccountingProvider,
+  AccountingService,
+  toBaseAmount,
+  toDateString,
+} from './accounting';
+import { fetchOpenDocuments } from './forecast';
+import { exchangeRateOf } from './transactions';
+
+/*
+ * Accounts receivable / payable aging. Open invoices and bills are read live
+ * from the provider and bucketed by days past their due date, per contact.
+ * DSO and DPO history is rebuilt from the ledger mirror: the balance still
+ * owed at each month end against that month's invoiced or billed total.
+ */
+
+export type AgingType = 'receivables' | 'payables';
+export type AgingBucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', '1-30', '31-60', '61-90', '90+'];
+const DEFAULT_METRIC_MONTHS = 12;
+const MAX_METRIC_MONTHS = 36;
+
+export type AgingBucketTotals = Record<AgingBucket, number>;
+
+export interface AgingDocument {
+  id: string;
+  number: string;
+  contactId?: string;
+  contactName: string;
+  date: string;
+  dueDate: string;
+  /** Days past the due date; zero or less is not yet due */
+  daysOverdue: number;
+  bucket: AgingBucket;
+  /** Total and amount due in the document's currency */
+  total: number;
+  amountDue: number;
+  currency?: string;
+  /** Base-currency units per unit of `currency`, for foreign-currency documents */
+  exchangeRate?: number;
+  /** Total and amount due in the organisation's base currency */
+  baseTotal: number;
+  baseAmountDue: number;
+  reference?: string;
+  lineItems: AccountingLineItem[];
+}
+
+export interface AgingContact {
+  contactId?: string;
+  contactName: string;
+  buckets: AgingBucketTotals;
+  total: number;
+  documentCount: number;
+}
+
+export interface AgingReport {
+  type: AgingType;
+  service: AccountingService;
+  organisationId: string;
+  asOf: string;
+  /** Bucket and contact totals are in base currency */
+  totals: AgingBucketTotals;
+  total: number;
+  /** Largest balance first */
+  contacts: AgingContact[];
+  documents: AgingDocument[];
+  /** More open documents exist than were read, so the totals are too low */
+  truncated: boolean;
+}
+
+export interface DaysOutstandingMonth {
+  /** First day of the month, YYYY-MM-DD */
+  month: string;
+  receivables: number;
+  sales: number;
+  /** Days sales outstanding; null when nothing was invoiced that month */
+  dso: number | null;
+  payables: number;
+  purchases: number;
+  /** Days payable outstanding; null when nothing was billed that month */
+  dpo: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  const start = new Date(`${from.slice(0, 10)}T00:00:00Z`).getTime();
+  const end = new Date(`${to.slice(0, 10)}T00:00:00Z`).getTime();
+  return Math.round((end - start) / DAY_MS);
+}
+
+function emptyBuckets(): AgingBucketTotals {
+  return { current: 0, '1-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+}
+
+function bucketFor(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) {
+    return 'current';
+  }
+  if (daysOverdue <= 30) {
+    return '1-30';
+  }
+  if (daysOverdue <= 60) {
+    return '31-60';
+  }
+  return daysOverdue <= 90 ? '61-90' : '90+';
+}
+
+export function isAgingType(value: unknown): value is AgingType {
+  return value === 'receivables' || value === 'payables';
+}
+
+/**
+ * Bucket open invoices (receivables) or bills (payables) by how far past due
+ * they are as of today. Documents without a due date age from their issue date.
+ */
+export async function buildAgingReport(provider: AccountingProvider, type: AgingType): Promise<AgingReport> {
+  const asOf = toDateString(new Date());
+  const { documents: open, truncated } = await fetchOpenDocuments((page) =>
+    type === 'receivables'
+      ? provider.getInvoices({ status: 'open', page })
+      : provider.getBills({ status: 'open', page })
+  );
+
+  const totals = emptyBuckets();
+  const contacts = new Map<string, AgingContact>();
+  const documents = open.map((document: AccountingDocument): AgingDocument => {
+    const dueDate = (document.dueDate || document.date || asOf).slice(0, 10);
+    const daysOverdue = daysBetween(dueDate, asOf);
+    const bucket = bucketFor(daysOverdue);
+    const baseAmountDue = toBaseAmount(document, document.amountDue);
+    totals[bucket] += baseAmountDue;
+
+    const contactName = document.contactName || 'Unknown contact';
+    const key = document.contactId || contactName.toLowerCase();
+    const contact = contacts.get(key) || {
+      contactId: document.contactId,
+      contactName,
+      buckets: emptyBuckets(),
+      total: 0,
+      documentCount: 0,
+    };
+    contact.buckets[bucket] += baseAmountDue;
+    contact.total += baseAmountDue;
+    contact.documentCount += 1;
+    contacts.set(key, contact);
+
+    return {
+      id: document.id,
+      number: document.number,
+      contactId: document.contactId,
+      contactName,
+      date: document.date,
+      dueDate,
+      daysOverdue,
+      bucket,
+      total: document.total,
+      amountDue: document.amountDue,
+      currency: document.currency,
+      exchangeRate: document.exchangeRate,
+      baseTotal: toBaseAmount(document, document.total),
+      baseAmountDue,
+      reference: document.reference,
+      lineItems: document.lineItems,
+    };
+  });
+
+  return {
+    type,
+    service: provider.service,
+    organisationId: provider.organisationId,
+    asOf,
+    totals,
+    total: AGING_BUCKETS.reduce((sum, bucket) => sum + totals[bucket], 0),
+    contacts: Array.from(contacts.values()).sort((a, b) => b.total - a.total),
+    documents: documents.sort((a, b) => b.daysOverdue - a.daysOverdue),
+    truncated,
+  };
+}
+
+/**
+ * Clamp a requested number of DSO / DPO months to 1-36
+ */
+export function resolveMetricMonths(value: unknown): number {
+  const months = Math.round(Number(value) || DEFAULT_METRIC_MONTHS);
+  return Math.min(Math.max(months, 1), MAX_METRIC_MONTHS);
+}
+
+/**
+ * Month-end DSO and DPO for the last `months` months (the current month
+ * included, measured to today) from the ledger mirror. A document counts as
+ * owed from its issue date until payments applied to it cover its total;
+ * paid documents with no payment on record count as settled when issued.
+ * Balances and totals are converted to base currency at each document's
+ * stored exchange rate, like the aging buckets.
+ */
+export async function getDaysOutstandingHistory(
+  service: AccountingService,
+  organisationId: string,
+  months: number = DEFAULT_METRIC_MONTHS
+): Promise<DaysOutstandingMonth[]> {
+  const now = new Date();
+  const periods = Array.from({ length: months }, (_, index) => {
+    const start = new Date(Date.UTC(now.getFullYear(), now.getMonth() - (months - 1 - index), 1));
+    const monthEnd = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0));
+    const end = index === months - 1 ? new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())) : monthEnd;
+    return { start, end };
+  });
+  const lastEnd = periods[periods.length - 1].end;
+  const where = { service, organisationId };
+
+  const [documents, payments] = await Promise.all([
+    prisma.ledgerDocument.findMany({
+      where: { ...where, status: { in: ['open', 'paid'] }, date: { lte: lastEnd } },
+      select: { externalId: true, type: true, date: true, status: true, total: true, amountDue: true, raw: true },
+    }),
+    prisma.ledgerPayment.findMany({
+      where: { ...where, documentExternalId: { not: null }, date: { lte: lastEnd } },
+      select: { direction: true, documentExternalId: true, date: true, amount: true },
+    }),
+  ]);
+
+  const paymentsByDocument = new Map<string, Array<{ date: Date; amount: number }>>();
+  for (const payment of payments) {
+    if (!payment.date) {
+      continue;
+    }
+    const key = `${payment.direction === 'received' ? 'invoice' : 'bill'}:${payment.documentExternalId}`;
+    const list = paymentsByDocument.get(key) || [];
+    list.push({ date: payment.date, amount: Number(payment.amount) });
+    paymentsByDocument.set(key, list);
+  }
+
+  // Payments are applied in the document's currency, so balances are worked
+  // out in that currency and converted to base currency afterwards
+  const ratedDocuments = documents.map(({ raw, ...document }) => ({
+    ...document,
+    exchangeRate: exchangeRateOf(service, raw),
+  }));
+
+  const outstandingAt = (document: (typeof ratedDocuments)[number], end: Date): number => {
+    if (!document.date || document.date > end) {
+      return 0;
+    }
+    const applied = paymentsByDocument.get(`${document.type}:${document.externalId}`);
+    if (!applied) {
+      return document.status === 'open' ? Number(document.amountDue) : 0;
+    }
+    const paid = applied.filter((payment) => payment.date <= end).reduce((sum, payment) => sum + payment.amount, 0);
+    return Math.max(Number(document.total) - paid, 0);
+  };
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const daysOutstanding = (balance: number, flow: number, days: number) =>
+    flow > 0 ? Math.round((balance / flow) * days * 10) / 10 : null;
+
+  return periods.map(({ start, end }) => {
+    const days = daysBetween(start.toISOString(), end.toISOString()) + 1;
+    let receivables = 0;
+    let sales = 0;
+    let payables = 0;
+    let purchases = 0;
+
+    for (const document of ratedDocuments) {
+      const outstanding = toBaseAmount(document, outstandingAt(document, end));
+      const issued = !!document.date && document.date >= start && document.date <= end
+        ? toBaseAmount(document, Number(document.total))
+        : 0;
+      if (document.type === 'invoice') {
+        receivables += outstanding;
+        sales += issued;
+      } else {
+        payables += outstanding;
+        purchases += issued;
+      }
+    }
+
+    return {
+      month: start.toISOString().slice(0, 10),
+      receivables: round(receivables),
+      sales: round(sales),
+      dso: daysOutstanding(receivables, sales, days),
+      payables: round(payables),
+      purchases: round(purchases),
+      dpo: daysOutstanding(payables, purchases, days),
+    };
+  });
+}
@@ -3,6 +3,7 @@ import CredentialsProvider from "next-auth/providers/credentials";
 import { PrismaAdapter } from "@next-auth/prisma-adapter";
 import { compare } from "bcryptjs";
 import { prisma } from "./db";
+import { getConnectedServices } from "./organisations";
 
 export const authOptions: NextAuthOptions = {
   adapter: PrismaAdapter(prisma),
@@ -62,6 +63,7 @@ export const authOptions: NextAuthOptions = {
         token.isAdmin = user.isAdmin;
         token.accountingService = user.accountingService;
         token.enableAiFinancialInsights = user.enableAiFinancialInsights;
+        token.connectedServices = await getConnectedServices(user.id);
       }
       
       // Refresh user data from database on update trigger
@@ -74,6 +76,7 @@ export const authOptions: NextAuthOptions = {
           token.accountingService = dbUser.accountingService;
           token.enableAiFinancialInsights = dbUser.enableAiFinancialInsights;
         }
+        token.connectedServices = await getConnectedServices(token.id as string);
       }
       
       return token;
@@ -84,6 +87,7 @@ export const authOptions: NextAuthOptions = {
         session.user.isAdmin = token.isAdmin as boolean;
         session.user.accountingService = token.accountingService as string | null;
         session.user.enableAiFinancialInsights = token.enableAiFinancialInsights as boolean;
+        session.user.connectedServices = (token.connectedServices as string[] | undefined) ?? [];
       }
       return session;
     },
@@ -0,0 +1,531 @@
+import { Budget, BudgetLine } from '@prisma/client';
+import { prisma } from './db';
+import {
+  AccountingProvider,
+  AccountingService,
+  DateRange,
+  monthsInRange,
+  toDateString,
+} from './accounting';
+import { getAccounts, getBudget, getBudgets } from './xero-api';
+
+/*
+ * Budgets are stored per organisation with one amount per account per month,
+ * whether they were imported from Xero, uploaded as CSV or entered by hand.
+ * Actuals come from the monthly P&L breakdowns, matched on account name.
+ */
+
+export type BudgetSource = 'xero' | 'csv' | 'manual';
+export type BudgetAccountType = 'revenue' | 'expense';
+
+export interface BudgetLineInput {
+  accountName: string;
+  accountCode?: string | null;
+  /** Looked up from the ledger mirror when not given */
+  accountType?: BudgetAccountType | null;
+  /** YYYY-MM */
+  month: string;
+  amount: number;
+}
+
+export type BudgetWithLines = Budget & { lines: BudgetLine[] };
+
+export interface BudgetVariance {
+  budget: number;
+  actual: number;
+  /** actual - budget */
+  variance: number;
+  /** Variance as a percentage of budget, or null when nothing was budgeted */
+  variancePercent: number | null;
+  /** Revenue over budget or expenses under budget */
+  favourable: boolean;
+}
+
+export interface BudgetAccountVariance extends BudgetVariance {
+  accountName: string;
+  accountCode: string | null;
+  accountType: BudgetAccountType;
+  months: Array<{ month: string; budget: number; actual: number }>;
+}
+
+export interface BudgetVsActual {
+  budget: { id: string; name: string; source: string };
+  fromDate: string;
+  toDate: string;
+  revenue: BudgetVariance;
+  expenses: BudgetVariance;
+  months: Array<{
+    month: string;
+    label: string;
+    revenueBudget: number;
+    revenueActual: number;
+    expenseBudget: number;
+    expenseActual: number;
+  }>;
+  accounts: BudgetAccountVariance[];
+}
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Each month is a separate provider P&L call
+export const MAX_BUDGET_MONTHS = 24;
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function toMonthDate(month: string): Date {
+  return new Date(`${month}-01T00:00:00Z`);
+}
+
+function toMonthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toVariance(budget: number, actual: number, accountType: BudgetAccountType): BudgetVariance {
+  const variance = actual - budget;
+  return {
+    budget: round(budget),
+    actual: round(actual),
+    variance: round(variance),
+    variancePercent: budget !== 0 ? round((variance / Math.abs(budget)) * 100) : null,
+    favourable: accountType === 'revenue' ? variance >= 0 : variance <= 0,
+  };
+}
+
+/**
+ * Validate budget lines from a request body. Returns the lines or an error
+ * message.
+ */
+export function validateBudgetLines(value: unknown): BudgetLineInput[] | string {
+  if (!Array.isArray(value)) {
+    return 'lines must be an array';
+  }
+
+  const lines: BudgetLineInput[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const line = value[index];
+    const accountName = typeof line?.accountName === 'string' ? line.accountName.trim() : '';
+    const amount = typeof line?.amount === 'string' ? parseFloat(line.amount) : line?.amount;
+
+    if (!accountName) {
+      return `Line ${index + 1}: accountName is required`;
+    }
+    if (typeof line.month !== 'string' || !MONTH_PATTERN.test(line.month)) {
+      return `Line ${index + 1}: month must be YYYY-MM`;
+    }
+    if (typeof amount !== 'number' || !isFinite(amount)) {
+      return `Line ${index + 1}: amount must be a number`;
+    }
+    if (line.accountType != null && line.accountType !== 'revenue' && line.accountType !== 'expense') {
+      return `Line ${index + 1}: accountType must be revenue or expense`;
+    }
+
+    lines.push({
+      accountName,
+      accountCode: typeof line.accountCode === 'string' && line.accountCode.trim() ? line.accountCode.trim() : null,
+      accountType: line.accountType ?? null,
+      month: line.month,
+      amount,
+    });
+  }
+
+  return lines;
+}
+
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  rows.push(row);
+  return rows.filter((cells) => cells.some((cell) => cell !== ''));
+}
+
+/**
+ * Read a month heading such as "2026-01", "Jan 2026" or "Jan-26" as YYYY-MM
+ */
+function parseMonthHeading(value: string): string | null {
+  const text = value.trim().toLowerCase();
+  if (MONTH_PATTERN.test(text)) {
+    return text;
+  }
+
+  const match = text.match(/^([a-z]{3})[a-z]*[\s\-\/]+(\d{2}|\d{4})$/);
+  const monthIndex = match ? MONTH_NAMES.indexOf(match[1]) : -1;
+  if (!match || monthIndex === -1) {
+    return null;
+  }
+  const year = match[2].length === 2 ? 2000 + parseInt(match[2], 10) : parseInt(match[2], 10);
+  return `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Parse a budget CSV. Accepts one row per account and month (columns
+ * `account`, `month`, `amount`) or one row per account with a column per
+ * month (`account`, `2026-01`, `2026-02`, ...). Optional `code` and `type`
+ * (revenue / expense) columns are read in both layouts. Returns the lines or
+ * an error message.
+ */
+export function parseBudgetCsv(csv: string): BudgetLineInput[] | string {
+  const [header, ...rows] = parseCsvRows(csv);
+  if (!header || rows.length === 0) {
+    return 'The CSV needs a header row and at least one data row';
+  }
+
+  const headings = header.map((cell) => cell.toLowerCase());
+  const column = (...names: string[]) => headings.findIndex((heading) => names.includes(heading));
+  const accountColumn = column('account', 'account name', 'accountname');
+  const codeColumn = column('code', 'account code', 'accountcode');
+  const typeColumn = column('type', 'account type', 'accounttype');
+  const monthColumn = column('month', 'period');
+  const amountColumn = column('amount', 'budget');
+
+  if (accountColumn === -1) {
+    return 'The CSV needs an "account" column';
+  }
+
+  const cell = (cells: string[], index: number) => (index === -1 ? null : cells[index] || null);
+  const parseType = (value: string | null) => {
+    const type = value?.toLowerCase();
+    return type === 'revenue' || type === 'income' ? 'revenue' : type === 'expense' ? 'expense' : null;
+  };
+  const parseNumber = (value: string) => parseFloat(value.replace(/[,$\s]/g, ''));
+
+  const raw: unknown[] = [];
+  if (monthColumn !== -1 && amountColumn !== -1) {
+    for (const cells of rows) {
+      raw.push({
+        accountName: cell(cells, accountColumn),
+        accountCode: cell(cells, codeColumn),
+        accountType: parseType(cell(cells, typeColumn)),
+        month: parseMonthHeading(cell(cells, monthColumn) || '') ?? cell(cells, monthColumn),
+        amount: parseNumber(cell(cells, amountColumn) || ''),
+      });
+    }
+  } else {
+    const monthColumns = header
+      .map((heading, index) => ({ index, month: parseMonthHeading(heading) }))
+      .filter((entry): entry is { index: number; month: string } => entry.month !== null);
+    if (monthColumns.length === 0) {
+      return 'The CSV needs "month" and "amount" columns, or one column per month (e.g. 2026-01)';
+    }
+
+    for (const cells of rows) {
+      for (const { index, month } of monthColumns) {
+        // Blank cells mean nothing was budgeted for that month
+        if (!cells[index]) {
+          continue;
+        }
+        raw.push({
+          accountName: cell(cells, accountColumn),
+          accountCode: cell(cells, codeColumn),
+          accountType: parseType(cell(cells, typeColumn)),
+          month,
+          amount: parseNumber(cells[index]),
+        });
+      }
+    }
+  }
+
+  return validateBudgetLines(raw);
+}
+
+/**
+ * Fill in missing account types from the ledger mirror's account
+ * classifications, defaulting to expense
+ */
+async function withAccountTypes(
+  service: AccountingService,
+  organisationId: string,
+  lines: BudgetLineInput[]
+): Promise<Array<BudgetLineInput & { accountType: BudgetAccountType }>> {
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { service, organisationId, classification: 'revenue' },
+    select: { name: true },
+  });
+  const revenueAccounts = new Set(accounts.map((account) => account.name.toLowerCase()));
+
+  return lines.map((line) => ({
+    ...line,
+    accountType: line.accountType || (revenueAccounts.has(line.accountName.toLowerCase()) ? 'revenue' : 'expense'),
+  }));
+}
+
+/**
+ * Budgets for an organisation, newest first
+ */
+export async function listBudgets(service: AccountingService, organisationId: string) {
+  return prisma.budget.findMany({
+    where: { service, organisationId },
+    orderBy: { updatedAt: 'desc' },
+    include: { _count: { select: { lines: true } } },
+  });
+}
+
+/**
+ * A budget with its lines, or null when it does not belong to the organisation
+ */
+export async function findBudget(
+  id: string,
+  service: AccountingService,
+  organisationId: string
+): Promise<BudgetWithLines | null> {
+  return prisma.budget.findFirst({
+    where: { id, service, organisationId },
+    include: { lines: { orderBy: [{ accountName: 'asc' }, { month: 'asc' }] } },
+  });
+}
+
+/**
+ * Create a budget, or replace the name and lines of an existing one. Lines
+ * for the same account and month are added together.
+ */
+export async function saveBudget(
+  userId: string,
+  service: AccountingService,
+  organisationId: string,
+  budget: { id?: string; name: string; source: BudgetSource; externalId?: string; lines: BudgetLineInput[] }
+): Promise<BudgetWithLines> {
+  const typed = await withAccountTypes(service, organisationId, budget.lines);
+  const merged = new Map<string, (typeof typed)[number]>();
+  for (const line of typed) {
+    const key = `${line.accountName.toLowerCase()}|${line.month}`;
+    const existing = merged.get(key);
+    merged.set(key, existing ? { ...existing, amount: existing.amount + line.amount } : line);
+  }
+  const lines = Array.from(merged.values()).map((line) => ({
+    accountName: line.accountName,
+    accountCode: line.accountCode ?? null,
+    accountType: line.accountType,
+    month: toMonthDate(line.month),
+    amount: round(line.amount),
+  }));
+
+  return prisma.$transaction(async (tx) => {
+    const existing = budget.id
+      ? await tx.budget.findFirst({ where: { id: budget.id, service, organisationId } })
+      : budget.externalId
+        ? await tx.budget.findFirst({ where: { service, organisationId, externalId: budget.externalId } })
+        : null;
+
+    const saved = existing
+      ? await tx.budget.update({ where: { id: existing.id }, data: { name: budget.name } })
+      : await tx.budget.create({
+          data: {
+            service,
+            organisationId,
+            name: budget.name,
+            source: budget.source,
+            externalId: budget.externalId ?? null,
+            createdById: userId,
+          },
+        });
+
+    await tx.budgetLine.deleteMany({ where: { budgetId: saved.id } });
+    await tx.budgetLine.createMany({ data: lines.map((line) => ({ ...line, budgetId: saved.id })) });
+
+    return tx.budget.findUniqueOrThrow({
+      where: { id: saved.id },
+      include: { lines: { orderBy: [{ accountName: 'asc' }, { month: 'asc' }] } },
+    });
+  });
+}
+
+/**
+ * Import every budget of a Xero tenant, replacing the lines of budgets
+ * imported before. Returns the saved budgets.
+ */
+export async function importXeroBudgets(userId: string, tenantId: string): Promise<BudgetWithLines[]> {
+  const [budgetsResponse, accountsResponse]: any[] = await Promise.all([
+    getBudgets(userId, tenantId),
+    getAccounts(userId, tenantId),
+  ]);
+
+  const accounts = new Map<string, any>(
+    (accountsResponse?.accounts || []).map((account: any) => [account.accountID, account])
+  );
+
+  const saved: BudgetWithLines[] = [];
+  for (const summary of budgetsResponse?.budgets || []) {
+    // The list endpoint leaves out budget lines
+    const detail: any = await getBudget(userId, tenantId, summary.budgetID);
+    const budget = detail?.budgets?.[0] || summary;
+
+    const lines: BudgetLineInput[] = [];
+    for (const budgetLine of budget.budgetLines || []) {
+      const account = accounts.get(budgetLine.accountID);
+      for (const balance of budgetLine.budgetBalances || []) {
+        if (!balance.period || !balance.amount) {
+          continue;
+        }
+        lines.push({
+          accountName: account?.name || budgetLine.accountCode || budgetLine.accountID,
+          accountCode: budgetLine.accountCode ?? account?.code ?? null,
+          accountType: String(account?._class || '') === 'REVENUE' ? 'revenue' : 'expense',
+          month: String(balance.period).slice(0, 7),
+          amount: Math.abs(balance.amount),
+        });
+      }
+    }
+
+    saved.push(await saveBudget(userId, 'XERO', tenantId, {
+      name: budget.description || (String(budget.type) === 'OVERALL' ? 'Overall Budget' : 'Xero Budget'),
+      source: 'xero',
+      externalId: budget.budgetID,
+      lines,
+    }));
+  }
+
+  return saved;
+}
+
+/**
+ * Check a budget vs actual range. Returns an error message when invalid.
+ */
+export function validateBudgetRange(range: DateRange): string | null {
+  if (!DATE_PATTERN.test(range.fromDate) || !DATE_PATTERN.test(range.toDate)) {
+    return 'fromDate and toDate must both be given as YYYY-MM-DD';
+  }
+  if (range.fromDate > range.toDate) {
+    return 'fromDate must be on or before toDate';
+  }
+  if (monthsInRange(range.fromDate, range.toDate).length > MAX_BUDGET_MONTHS) {
+    return `Date range can cover at most ${MAX_BUDGET_MONTHS} months`;
+  }
+  return null;
+}
+
+/**
+ * Compare a budget with actuals from the provider's monthly P&L for the
+ * months in `range`. Only accounts that appear in the budget are compared.
+ * Throws if any month's P&L can't be fetched: zero actuals for a missing
+ * month would show every account as under budget.
+ */
+export async function getBudgetVsActual(
+  provider: AccountingProvider,
+  budget: BudgetWithLines,
+  range: DateRange
+): Promise<BudgetVsActual> {
+  const months = monthsInRange(range.fromDate, range.toDate).map(({ start, end }) => ({
+    month: toDateString(start).slice(0, 7),
+    label: start.toLocaleDateString('en-US', { month: 'short' }).toUpperCase(),
+    range: { fromDate: toDateString(start), toDate: toDateString(end) },
+  }));
+  const monthKeys = new Set(months.map((month) => month.month));
+
+  // Actual per lower-cased account name, per month; the provider's rate
+  // limiter and report cache pace the monthly calls
+  const actuals = new Map<string, Map<string, number>>();
+  for (const month of months) {
+    const values = new Map<string, number>();
+    const profitLoss = await provider.getProfitAndLoss(month.range);
+    const items = [
+      ...(profitLoss.revenueBreakdown || []),
+      ...profitLoss.expenseBreakdown,
+      ...profitLoss.costOfGoodsSoldBreakdown,
+    ];
+    for (const item of items) {
+      const key = item.name.toLowerCase();
+      values.set(key, (values.get(key) || 0) + item.value);
+    }
+    actuals.set(month.month, values);
+  }
+
+  const accounts = new Map<string, BudgetAccountVariance>();
+  for (const line of budget.lines) {
+    const month = toMonthKey(line.month);
+    if (!monthKeys.has(month)) {
+      continue;
+    }
+
+    const key = line.accountName.toLowerCase();
+    let account = accounts.get(key);
+    if (!account) {
+      const accountType = line.accountType as BudgetAccountType;
+      account = {
+        accountName: line.accountName,
+        accountCode: line.accountCode,
+        accountType,
+        ...toVariance(0, 0, accountType),
+        months: months.map((entry) => ({
+          month: entry.month,
+          budget: 0,
+          actual: actuals.get(entry.month)?.get(key) || 0,
+        })),
+      };
+      accounts.set(key, account);
+    }
+
+    const entry = account.months.find((candidate) => candidate.month === month);
+    if (entry) {
+      entry.budget += Number(line.amount);
+    }
+  }
+
+  const accountList = Array.from(accounts.values()).map((account) => ({
+    ...account,
+    ...toVariance(
+      account.months.reduce((sum, month) => sum + month.budget, 0),
+      account.months.reduce((sum, month) => sum + month.actual, 0),
+      account.accountType
+    ),
+  }));
+
+  const sumFor = (type: BudgetAccountType, field: 'budget' | 'actual', month?: string) =>
+    accountList
+      .filter((account) => account.accountType === type)
+      .reduce((sum, account) => sum + (month
+        ? account.months.find((entry) => entry.month === month)?.[field] || 0
+        : account[field]), 0);
+
+  return {
+    budget: { id: budget.id, name: budget.name, source: budget.source },
+    fromDate: range.fromDate,
+    toDate: range.toDate,
+    revenue: toVariance(sumFor('revenue', 'budget'), sumFor('revenue', 'actual'), 'revenue'),
+    expenses: toVariance(sumFor('expense', 'budget'), sumFor('expense', 'actual'), 'expense'),
+    months: months.map((month) => ({
+      month: month.month,
+      label: month.label,
+      revenueBudget: round(sumFor('revenue', 'budget', month.month)),
+      revenueActual: round(sumFor('revenue', 'actual', month.month)),
+      expenseBudget: round(sumFor('expense', 'budget', month.month)),
+      expenseActual: round(sumFor('expense', 'actual', month.month)),
+    })),
+    // Largest overspends and revenue shortfalls first
+    accounts: accountList.sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance)),
+  };
+}
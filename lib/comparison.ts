@@ -0,0 +1,172 @@
+import {
+  AccountingProvider,
+  AccountingService,
+  DateRange,
+  combineBreakdowns,
+  monthsInRange,
+  previousPeriodRange,
+  shiftRangeMonths,
+  toDateString,
+} from './accounting';
+
+/*
+ * Side-by-side comparison of two reporting periods: the current one against
+ * the period before it, the same period a year earlier, or any custom range.
+ * Both periods are read from the provider's P&L and balance sheet; each KPI
+ * and each cost line comes back with its change and percent change.
+ */
+
+export type ComparisonMode = 'previous' | 'last_year' | 'custom';
+
+export const COMPARISON_MODES: ComparisonMode[] = ['previous', 'last_year', 'custom'];
+
+export type ComparisonKpi = 'revenue' | 'expenses' | 'costOfGoodsSold' | 'netProfit' | 'netMargin' | 'cashBalance';
+
+export interface ComparisonValue {
+  current: number;
+  comparison: number;
+  /** current - comparison; percentage points for netMargin */
+  delta: number;
+  /** Change relative to the comparison value, or null when that is zero */
+  percentChange: number | null;
+}
+
+export interface CategoryComparison extends ComparisonValue {
+  name: string;
+}
+
+export interface PeriodComparison {
+  service: AccountingService;
+  mode: ComparisonMode;
+  current: DateRange;
+  comparison: DateRange;
+  kpis: Record<ComparisonKpi, ComparisonValue>;
+  /** Every cost line, including cost of goods sold, largest current value first */
+  categories: CategoryComparison[];
+}
+
+export function isComparisonMode(value: unknown): value is ComparisonMode {
+  return COMPARISON_MODES.includes(value as ComparisonMode);
+}
+
+/**
+ * The period to compare `range` against. "previous" follows the dashboard's
+ * previous-period rules for preset timeframes; a custom range is compared
+ * with the stretch of the same length just before it. "last_year" is the
+ * same dates twelve months earlier. "custom" uses the given range, or returns
+ * null when it is missing or inverted.
+ */
+export function resolveComparisonRange(
+  mode: ComparisonMode,
+  timeframe: string,
+  range: DateRange,
+  custom?: Partial<DateRange> | null
+): DateRange | null {
+  if (mode === 'custom') {
+    if (!custom?.fromDate || !custom.toDate || custom.fromDate > custom.toDate) {
+      return null;
+    }
+    return { fromDate: custom.fromDate, toDate: custom.toDate };
+  }
+
+  if (mode === 'last_year') {
+    return shiftRangeMonths(range, -12);
+  }
+
+  if (timeframe !== 'CUSTOM') {
+    return previousPeriodRange(timeframe, range);
+  }
+
+  const from = new Date(range.fromDate + 'T00:00:00');
+  const to = new Date(range.toDate + 'T00:00:00');
+  const isWholeMonths = from.getDate() === 1 && new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1).getDate() === 1;
+  if (isWholeMonths) {
+    return shiftRangeMonths(range, -monthsInRange(range.fromDate, range.toDate).length);
+  }
+
+  const days = Math.round((to.getTime() - from.getTime()) / 86400000) + 1;
+  return {
+    fromDate: toDateString(new Date(from.getFullYear(), from.getMonth(), from.getDate() - days)),
+    toDate: toDateString(new Date(from.getFullYear(), from.getMonth(), from.getDate() - 1)),
+  };
+}
+
+export function compareValues(current: number, comparison: number): ComparisonValue {
+  const delta = current - comparison;
+  return {
+    current,
+    comparison,
+    delta,
+    percentChange: comparison !== 0 ? (delta / Math.abs(comparison)) * 100 : null,
+  };
+}
+
+interface PeriodFigures {
+  kpis: Record<ComparisonKpi, number>;
+  categories: Map<string, number>;
+}
+
+async function getPeriodFigures(provider: AccountingProvider, range: DateRange): Promise<PeriodFigures> {
+  const [profitLoss, balanceSheet] = await Promise.all([
+    provider.getProfitAndLoss(range),
+    provider.getBalanceSheet(range.toDate),
+  ]);
+
+  const { revenue, operatingExpenses, costOfGoodsSold, netProfit } = profitLoss;
+  const categories = new Map<string, number>();
+  for (const item of combineBreakdowns(profitLoss.expenseBreakdown, profitLoss.costOfGoodsSoldBreakdown)) {
+    categories.set(item.name, item.value);
+  }
+
+  return {
+    kpis: {
+      revenue,
+      expenses: operatingExpenses,
+      costOfGoodsSold,
+      netProfit,
+      netMargin: revenue > 0 ? (netProfit / revenue) * 100 : 0,
+      cashBalance: Math.abs(balanceSheet.cashBalance),
+    },
+    categories,
+  };
+}
+
+/**
+ * Compare two periods KPI by KPI and cost line by cost line. Lines that only
+ * appear in one period compare against zero. Throws when either period's
+ * reports can't be fetched.
+ */
+export async function comparePeriods(
+  provider: AccountingProvider,
+  mode: ComparisonMode,
+  current: DateRange,
+  comparison: DateRange
+): Promise<PeriodComparison> {
+  // Sequential so the two periods share the provider's rate limit politely
+  const currentFigures = await getPeriodFigures(provider, current);
+  const comparisonFigures = await getPeriodFigures(provider, comparison);
+
+  const kpis = {} as Record<ComparisonKpi, ComparisonValue>;
+  for (const key of Object.keys(currentFigures.kpis) as ComparisonKpi[]) {
+    kpis[key] = compareValues(currentFigures.kpis[key], comparisonFigures.kpis[key]);
+  }
+  // A margin's change is already in percentage points
+  kpis.netMargin.percentChange = null;
+
+  const names = new Set([...Array.from(currentFigures.categories.keys()), ...Array.from(comparisonFigures.categories.keys())]);
+  const categories = Array.from(names)
+    .map((name) => ({
+      name,
+      ...compareValues(currentFigures.categories.get(name) || 0, comparisonFigures.categories.get(name) || 0),
+    }))
+    .sort((a, b) => b.current - a.current || b.comparison - a.comparison);
+
+  return {
+    service: provider.service,
+    mode,
+    current,
+    comparison,
+    kpis,
+    categories,
+  };
+}
@@ -0,0 +1,76 @@
+/*
+ * Currency formatting shared by the dashboard components and API routes.
+ * Amounts are shown in the organisation's base currency using the locale of
+ * the country that issues it, so NZD reads "$1,234.00" and GBP "£1,234.00",
+ * while a USD amount on an NZD organisation reads "US$1,234.00".
+ */
+
+export const DEFAULT_CURRENCY = 'USD';
+
+const CURRENCY_LOCALES: Record<string, string> = {
+  USD: 'en-US',
+  NZD: 'en-NZ',
+  AUD: 'en-AU',
+  GBP: 'en-GB',
+  CAD: 'en-CA',
+  EUR: 'en-IE',
+  ZAR: 'en-ZA',
+  SGD: 'en-SG',
+  HKD: 'en-HK',
+  INR: 'en-IN',
+  FJD: 'en-FJ',
+  PHP: 'en-PH',
+  MYR: 'en-MY',
+  JPY: 'ja-JP',
+};
+
+/**
+ * Locale amounts in `currency` are formatted in, en-US for unknown currencies
+ */
+export function currencyLocale(currency?: string | null): string {
+  return CURRENCY_LOCALES[(currency || DEFAULT_CURRENCY).toUpperCase()] || 'en-US';
+}
+
+/**
+ * Format an amount in `currency` (ISO code, USD when missing). `locale`
+ * defaults to the currency's own; pass the base currency's locale when
+ * showing a foreign amount next to base amounts.
+ */
+export function formatCurrency(
+  value: number,
+  currency?: string | null,
+  options: { decimals?: number; locale?: string } = {}
+): string {
+  const decimals = options.decimals ?? 2;
+  const format = (code: string) =>
+    new Intl.NumberFormat(options.locale || currencyLocale(code), {
+      style: 'currency',
+      currency: code,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    }).format(value);
+
+  try {
+    return format((currency || DEFAULT_CURRENCY).toUpperCase());
+  } catch {
+    // Unknown currency code
+    return format(DEFAULT_CURRENCY);
+  }
+}
+
+/**
+ * Short form for chart axes, e.g. "$12K" or "£1.2M"
+ */
+export function formatCompactCurrency(value: number, currency?: string | null): string {
+  const code = (currency || DEFAULT_CURRENCY).toUpperCase();
+  try {
+    return new Intl.NumberFormat(currencyLocale(code), {
+      style: 'currency',
+      currency: code,
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(value);
+  } catch {
+    return formatCompactCurrency(value, DEFAULT_CURRENCY);
+  }
+}
@@ -0,0 +1,215 @@
+import {
+  AccountingProvider,
+  BreakdownItem,
+  DateRange,
+  OrganisationSummary,
+  ProfitAndLossSummary,
+  combineBreakdowns,
+  lastMonthRange,
+  monthsInRange,
+  toDateString,
+} from './accounting';
+
+/*
+ * Dashboard figures shared by the dashboard routes, the export route and
+ * scheduled report delivery: the period summary, the monthly trend, the
+ * previous period's cost lines and the monthly cash flow.
+ */
+
+export interface DashboardKpis {
+  revenue: number;
+  /** Operating expenses; cost of goods sold is a separate tile */
+  expenses: number;
+  costOfGoodsSold: number;
+  netProfit: number;
+  netMargin: number;
+  cashBalance: number;
+  /** Months of cash at last month's spending, or null when nothing was spent */
+  cashRunway: number | null;
+}
+
+export interface DashboardSummary {
+  organisation: OrganisationSummary | null;
+  kpis: DashboardKpis;
+  expenseBreakdown: BreakdownItem[];
+}
+
+export type MonthlyTrendItem = {
+  month: string;
+  revenue: number;
+  expenses: number;
+  costOfGoodsSold: number;
+  costOfGoodsSoldBreakdown: BreakdownItem[];
+  expenseBreakdown?: BreakdownItem[];
+};
+
+export interface CashFlowMonth {
+  month: string;
+  cashIn: number;
+  cashOut: number;
+}
+
+/**
+ * KPIs and expense breakdown for a period. Throws when the provider's
+ * P&L or balance sheet can't be fetched.
+ */
+export async function getDashboardSummary(provider: AccountingProvider, range: DateRange): Promise<DashboardSummary> {
+  const [organisation, profitLoss, balanceSheet] = await Promise.all([
+    provider.getOrganisation().catch(() => null),
+    provider.getProfitAndLoss(range),
+    provider.getBalanceSheet(range.toDate),
+  ]);
+
+  const { revenue, operatingExpenses, costOfGoodsSold, netProfit, expenseBreakdown } = profitLoss;
+  const netMargin = revenue > 0 ? (netProfit / revenue) * 100 : 0;
+  const cashBalance = Math.abs(balanceSheet.cashBalance);
+
+  // Compute static cash runway based on current cash and last month's expenses
+  let cashRunway: number | null = null;
+  try {
+    const lastMonth = await provider.getProfitAndLoss(lastMonthRange());
+    const lastMonthExpenses = lastMonth.operatingExpenses + lastMonth.costOfGoodsSold;
+    if (lastMonthExpenses > 0) {
+      cashRunway = cashBalance / lastMonthExpenses;
+    }
+  } catch (err) {
+    console.warn(`Failed to compute last month expenses for cash runway (${provider.service}):`, err);
+  }
+
+  return {
+    organisation,
+    kpis: {
+      revenue,
+      expenses: operatingExpenses,
+      costOfGoodsSold,
+      netProfit,
+      netMargin,
+      cashBalance,
+      cashRunway,
+    },
+    expenseBreakdown,
+  };
+}
+
+/**
+ * How the monthly helpers treat a month the provider couldn't return. The
+ * interactive charts show it as zero; `strict` callers (live widget refresh,
+ * exports) throw instead, so stored snapshots and emailed reports never
+ * carry zeros that stand in for missing data.
+ */
+export interface MonthlyFetchOptions {
+  strict?: boolean;
+}
+
+/**
+ * One P&L summary per calendar month in the range; months that fail are
+ * zero, or throw in strict mode
+ */
+export async function getMonthlyTrend(
+  provider: AccountingProvider,
+  fromDate?: string | null,
+  toDate?: string | null,
+  options: MonthlyFetchOptions = {}
+): Promise<MonthlyTrendItem[]> {
+  const trendData: MonthlyTrendItem[] = [];
+  const months = fromDate && toDate ? monthsInRange(fromDate, toDate) : [];
+
+  // Process months sequentially; the provider's rate limiter paces the calls
+  for (const { start, end } of months) {
+    const month = start.toLocaleDateString('en-US', { month: 'short' }).toUpperCase();
+    const range = { fromDate: toDateString(start), toDate: toDateString(end) };
+
+    try {
+      const profitLoss = await provider.getProfitAndLoss(range);
+      trendData.push(toTrendItem(month, profitLoss));
+    } catch (error) {
+      console.error(`Error fetching ${provider.service} data for ${month} ${start.getFullYear()}:`, error);
+      if (options.strict) {
+        throw error;
+      }
+      trendData.push({
+        month,
+        revenue: 0,
+        expenses: 0,
+        costOfGoodsSold: 0,
+        costOfGoodsSoldBreakdown: [],
+      });
+    }
+  }
+
+  return trendData;
+}
+
+function toTrendItem(month: string, profitLoss: ProfitAndLossSummary): MonthlyTrendItem {
+  return {
+    month,
+    revenue: profitLoss.revenue,
+    expenses: profitLoss.operatingExpenses,
+    costOfGoodsSold: profitLoss.costOfGoodsSold,
+    costOfGoodsSoldBreakdown: profitLoss.costOfGoodsSoldBreakdown,
+    // Category highlights cover every cost line, including cost of goods sold
+    expenseBreakdown: combineBreakdowns(profitLoss.expenseBreakdown, profitLoss.costOfGoodsSoldBreakdown),
+  };
+}
+
+/**
+ * Top 10 cost lines, including cost of goods sold, for the period before;
+ * empty when the provider call fails
+ */
+export async function getPreviousPeriodBreakdown(
+  provider: AccountingProvider,
+  range: DateRange
+): Promise<BreakdownItem[]> {
+  try {
+    const previousProfitLoss = await provider.getProfitAndLoss(range);
+
+    return combineBreakdowns(previousProfitLoss.expenseBreakdown, previousProfitLoss.costOfGoodsSoldBreakdown)
+      .filter((item) => item.value > 0)
+      .slice(0, 10);
+  } catch (error) {
+    console.error(`${provider.service} previous period data fetch error:`, error);
+    return [];
+  }
+}
+
+/**
+ * Bank cash in and out per calendar month in the range; months that fail are
+ * zero, or throw in strict mode
+ */
+export async function getCashFlowTrend(
+  provider: AccountingProvider,
+  range: DateRange,
+  options: MonthlyFetchOptions = {}
+): Promise<CashFlowMonth[]> {
+  // Fetch Bank Summary for each month individually (sequentially); the
+  // provider's rate limiter paces the calls
+  const results: CashFlowMonth[] = [];
+  for (const { start, end } of monthsInRange(range.fromDate, range.toDate)) {
+    const month = start.toLocaleDateString('en-US', { month: 'short' }).toUpperCase();
+    // Partial first and last months stay within the requested range
+    const fromDate = toDateString(start) < range.fromDate ? range.fromDate : toDateString(start);
+    const toDate = toDateString(end) > range.toDate ? range.toDate : toDateString(end);
+
+    try {
+      const { cashIn, cashOut } = await provider.getBankSummary({ fromDate, toDate });
+
+      results.push({
+        month,
+        cashIn: Math.round(cashIn),
+        cashOut: Math.round(cashOut),
+      });
+    } catch (error) {
+      console.error(`Error fetching Bank Summary for ${month} ${start.getFullYear()}:`, error);
+      if (options.strict) {
+        throw error;
+      }
+      results.push({
+        month,
+        cashIn: 0,
+        cashOut: 0,
+      });
+    }
+  }
+
+  return results;
+}
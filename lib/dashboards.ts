@@ -0,0 +1,95 @@
+import { Dashboard, Prisma, Widget } from '@prisma/client';
+import { prisma } from './db';
+
+/*
+ * Named dashboards. Chat widgets belong to their conversation and go when it
+ * is deleted; pinning copies a widget (including its live data source) onto
+ * a dashboard, so dashboards outlive the chats their widgets came from.
+ */
+
+export const MAX_DASHBOARD_NAME_LENGTH = 100;
+
+export type DashboardSummary = Dashboard & { widgetCount: number };
+
+export type DashboardWithWidgets = Dashboard & { widgets: Widget[] };
+
+/** Returns an error message when the name can't be used */
+export function validateDashboardName(name: unknown): string | null {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'name is required';
+  }
+  if (name.trim().length > MAX_DASHBOARD_NAME_LENGTH) {
+    return `name must be at most ${MAX_DASHBOARD_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * The user's dashboards in name order, with how many widgets each holds
+ */
+export async function listDashboards(userId: string): Promise<DashboardSummary[]> {
+  const dashboards = await prisma.dashboard.findMany({
+    where: { userId },
+    include: { _count: { select: { widgets: true } } },
+    orderBy: { name: 'asc' },
+  });
+  return dashboards.map(({ _count, ...dashboard }) => ({ ...dashboard, widgetCount: _count.widgets }));
+}
+
+export async function findDashboard(userId: string, id: string): Promise<DashboardWithWidgets | null> {
+  return prisma.dashboard.findFirst({
+    where: { id, userId },
+    include: { widgets: { orderBy: [{ y: 'asc' }, { x: 'asc' }, { createdAt: 'asc' }] } },
+  });
+}
+
+export async function createDashboard(userId: string, name: string): Promise<Dashboard> {
+  return prisma.dashboard.create({ data: { userId, name: name.trim() } });
+}
+
+/** Null when the dashboard doesn't exist or isn't the user's */
+export async function renameDashboard(userId: string, id: string, name: string): Promise<Dashboard | null> {
+  const { count } = await prisma.dashboard.updateMany({ where: { id, userId }, data: { name: name.trim() } });
+  return count > 0 ? prisma.dashboard.findUnique({ where: { id } }) : null;
+}
+
+/** Deletes the dashboard and its pinned widgets; false when it wasn't found */
+export async function deleteDashboard(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.dashboard.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
+
+/**
+ * Copy one of the user's widgets onto a dashboard, below what is already
+ * there. Returns null when either the widget or the dashboard isn't theirs.
+ */
+export async function pinWidget(userId: string, dashboardId: string, widgetId: string): Promise<Widget | null> {
+  const [dashboard, widget] = await Promise.all([
+    prisma.dashboard.findFirst({ where: { id: dashboardId, userId }, include: { widgets: { select: { y: true, h: true } } } }),
+    prisma.widget.findFirst({ where: { id: widgetId, userId } }),
+  ]);
+  if (!dashboard || !widget) {
+    return null;
+  }
+
+  const bottom = dashboard.widgets.reduce((max, w) => Math.max(max, w.y + w.h), 0);
+  const copy = await prisma.widget.create({
+    data: {
+      userId,
+      dashboardId,
+      title: widget.title,
+      type: widget.type,
+      data: widget.data ?? Prisma.JsonNull,
+      dataSource: widget.dataSource ?? Prisma.JsonNull,
+      refreshMinutes: widget.refreshMinutes,
+      refreshedAt: widget.refreshedAt,
+      refreshError: widget.refreshError,
+      x: 0,
+      y: bottom,
+      w: widget.w,
+      h: widget.h,
+    },
+  });
+  await prisma.dashboard.update({ where: { id: dashboardId }, data: { updatedAt: new Date() } });
+  return copy;
+}
@@ -0,0 +1,110 @@
+import nodemailer from 'nodemailer';
+
+/*
+ * Outgoing email. Messages go through a pluggable transport; the default one
+ * sends over SMTP using SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and
+ * SMTP_PASSWORD, so a local test server (MailHog, smtp4dev) can stand in by
+ * pointing SMTP_HOST at it. SMTP_FROM is the sender address.
+ */
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_FROM = 'reports@localhost';
+
+let transportOverride: EmailTransport | null = null;
+let smtpTransport: EmailTransport | null = null;
+
+/**
+ * SMTP settings from the environment, or null when SMTP_HOST isn't set
+ */
+export function smtpConfigFromEnv(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    return null;
+  }
+  const port = parseInt(process.env.SMTP_PORT || '', 10) || DEFAULT_SMTP_PORT;
+  return {
+    host,
+    port,
+    // Implicit TLS on 465; other ports upgrade with STARTTLS when offered
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+  };
+}
+
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Test servers usually take mail without authentication
+    ...(config.user ? { auth: { user: config.user, pass: config.password } } : {}),
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments,
+      });
+    },
+  };
+}
+
+/**
+ * Replace the transport email is sent through; null restores SMTP
+ */
+export function setEmailTransport(transport: EmailTransport | null): void {
+  transportOverride = transport;
+}
+
+export function isEmailConfigured(): boolean {
+  return !!transportOverride || !!smtpConfigFromEnv();
+}
+
+/**
+ * Send a message through the current transport. Throws when no transport
+ * is configured or the transport rejects the message.
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  let transport = transportOverride || smtpTransport;
+  if (!transport) {
+    const config = smtpConfigFromEnv();
+    if (!config) {
+      throw new Error('Email is not configured; set SMTP_HOST');
+    }
+    transport = smtpTransport = createSmtpTransport(config);
+  }
+
+  await transport.send({ ...message, from: process.env.SMTP_FROM || DEFAULT_FROM });
+}
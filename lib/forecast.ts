@@ -0,0 +1,365 @@
+import { prisma } from './db';
+import {
+  ACCOUNTING_PAGE_SIZE,
+  AccountingDocument,
+  AccountingProvider,
+  AccountingService,
+  toBaseAmount,
+  toDateString,
+} from './accounting';
+
+/*
+ * 13-week cash forecast. Starts from today's bank balance and adds expected
+ * receipts from open sales invoices (by due date), expected payments of open
+ * bills, and recurring expenses detected in the ledger mirror's last year of
+ * bills and bank payments. Scenario settings shift or drop those flows.
+ */
+
+export const FORECAST_WEEKS = 13;
+const MAX_DELAY_DAYS = 120;
+// Safety limit when paging through open invoices / bills
+const MAX_DOCUMENT_PAGES = 50;
+const RECURRING_HISTORY_DAYS = 365;
+const MIN_RECURRING_OCCURRENCES = 3;
+
+export interface ForecastScenario {
+  /** Days added to when customers pay their open invoices */
+  customerDelayDays: number;
+  /** Days added to when open bills are paid */
+  supplierDelayDays: number;
+  /** Leave out receipts from invoices that are already overdue */
+  excludeOverdueReceivables: boolean;
+  /** Project recurring expenses detected from history */
+  includeRecurring: boolean;
+}
+
+export const DEFAULT_FORECAST_SCENARIO: ForecastScenario = {
+  customerDelayDays: 0,
+  supplierDelayDays: 0,
+  excludeOverdueReceivables: false,
+  includeRecurring: true,
+};
+
+type RecurringFrequency = 'weekly' | 'fortnightly' | 'monthly' | 'quarterly';
+
+export interface RecurringExpense {
+  name: string;
+  frequency: RecurringFrequency;
+  /** Typical (median) payment */
+  amount: number;
+  lastDate: string;
+  occurrences: number;
+}
+
+export interface ForecastWeek {
+  weekStart: string;
+  weekEnd: string;
+  openingBalance: number;
+  receipts: number;
+  billPayments: number;
+  recurringPayments: number;
+  closingBalance: number;
+}
+
+export interface OpenDocumentSummary {
+  count: number;
+  total: number;
+  overdue: number;
+  /** More open documents exist than were read, so the totals are too low */
+  truncated: boolean;
+}
+
+export interface OpenDocuments {
+  documents: AccountingDocument[];
+  /** Paging stopped at the page limit with more pages left */
+  truncated: boolean;
+}
+
+export interface CashForecast {
+  service: AccountingService;
+  organisationId: string;
+  generatedAt: string;
+  scenario: ForecastScenario;
+  openingBalance: number;
+  weeks: ForecastWeek[];
+  lowestBalance: number;
+  lowestBalanceWeek: string;
+  /** Start of the first week that closes below zero, or null if cash lasts the whole forecast */
+  cashOutWeek: string | null;
+  openReceivables: OpenDocumentSummary;
+  openPayables: OpenDocumentSummary;
+  recurring: RecurringExpense[];
+}
+
+const FREQUENCIES: Array<{ frequency: RecurringFrequency; minDays: number; maxDays: number }> = [
+  { frequency: 'weekly', minDays: 5, maxDays: 9 },
+  { frequency: 'fortnightly', minDays: 12, maxDays: 16 },
+  { frequency: 'monthly', minDays: 26, maxDays: 35 },
+  { frequency: 'quarterly', minDays: 84, maxDays: 98 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date arithmetic on YYYY-MM-DD strings, in UTC so DST changes don't shift days
+function parseDay(date: string): Date {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return formatDay(new Date(parseDay(date).getTime() + days * DAY_MS));
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+}
+
+function nextOccurrence(date: string, frequency: RecurringFrequency): string {
+  if (frequency === 'weekly') {
+    return addDays(date, 7);
+  }
+  if (frequency === 'fortnightly') {
+    return addDays(date, 14);
+  }
+
+  const months = frequency === 'monthly' ? 1 : 3;
+  const current = parseDay(date);
+  const next = new Date(Date.UTC(current.getUTCFullYear(), current.getUTCMonth() + months, 1));
+  // Keep the day of month, clamped to the length of the target month
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(current.getUTCDate(), lastDay));
+  return formatDay(next);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function clampDays(value: unknown): number {
+  const days = Math.round(Number(value) || 0);
+  return Math.min(Math.max(days, 0), MAX_DELAY_DAYS);
+}
+
+/**
+ * Fill in scenario settings that were not given, clamping delays to 0-120 days
+ */
+export function resolveForecastScenario(input?: Partial<Record<keyof ForecastScenario, unknown>>): ForecastScenario {
+  return {
+    customerDelayDays: clampDays(input?.customerDelayDays ?? DEFAULT_FORECAST_SCENARIO.customerDelayDays),
+    supplierDelayDays: clampDays(input?.supplierDelayDays ?? DEFAULT_FORECAST_SCENARIO.supplierDelayDays),
+    excludeOverdueReceivables: input?.excludeOverdueReceivables === undefined
+      ? DEFAULT_FORECAST_SCENARIO.excludeOverdueReceivables
+      : input.excludeOverdueReceivables === true || input.excludeOverdueReceivables === 'true',
+    includeRecurring: input?.includeRecurring === undefined
+      ? DEFAULT_FORECAST_SCENARIO.includeRecurring
+      : input.includeRecurring === true || input.includeRecurring === 'true',
+  };
+}
+
+/**
+ * Page through open invoices or bills, keeping those with an amount still due.
+ * Stops after MAX_DOCUMENT_PAGES pages and reports whether more were left.
+ */
+export async function fetchOpenDocuments(
+  fetchPage: (page: number) => Promise<AccountingDocument[]>
+): Promise<OpenDocuments> {
+  const documents: AccountingDocument[] = [];
+  for (let page = 1; page <= MAX_DOCUMENT_PAGES; page++) {
+    const batch = await fetchPage(page);
+    documents.push(...batch.filter((document) => document.status === 'open' && document.amountDue > 0));
+    if (batch.length < ACCOUNTING_PAGE_SIZE) {
+      return { documents, truncated: false };
+    }
+  }
+  return { documents, truncated: true };
+}
+
+/**
+ * Detect expenses paid to the same contact on a regular schedule, from bills
+ * (by due date) and direct bank payments in the ledger mirror. Needs at
+ * least three payments at a consistent interval, the latest of them recent.
+ */
+export async function detectRecurringExpenses(
+  service: AccountingService,
+  organisationId: string,
+  today: string = toDateString(new Date())
+): Promise<RecurringExpense[]> {
+  const since = parseDay(addDays(today, -RECURRING_HISTORY_DAYS));
+  const where = { service, organisationId };
+
+  const [bills, bankPayments] = await Promise.all([
+    prisma.ledgerDocument.findMany({
+      where: { ...where, type: 'bill', status: { in: ['open', 'paid'] }, date: { gte: since } },
+      select: { contactName: true, date: true, dueDate: true, total: true },
+    }),
+    prisma.ledgerBankTransaction.findMany({
+      where: { ...where, direction: 'spent', date: { gte: since } },
+      select: { contactName: true, date: true, total: true },
+    }),
+  ]);
+
+  // Amount paid per contact per day
+  const payments = new Map<string, { name: string; byDate: Map<string, number> }>();
+  const addPayment = (contactName: string | null, date: Date | null, amount: number) => {
+    const name = contactName?.trim();
+    if (!name || !date || amount <= 0) {
+      return;
+    }
+    const key = name.toLowerCase();
+    const entry = payments.get(key) || { name, byDate: new Map<string, number>() };
+    const day = formatDay(date);
+    entry.byDate.set(day, (entry.byDate.get(day) || 0) + amount);
+    payments.set(key, entry);
+  };
+
+  for (const bill of bills) {
+    addPayment(bill.contactName, bill.dueDate ?? bill.date, Number(bill.total));
+  }
+  for (const transaction of bankPayments) {
+    addPayment(transaction.contactName, transaction.date, Number(transaction.total));
+  }
+
+  const recurring: RecurringExpense[] = [];
+  for (const { name, byDate } of Array.from(payments.values())) {
+    if (byDate.size < MIN_RECURRING_OCCURRENCES) {
+      continue;
+    }
+
+    const dates = Array.from(byDate.keys()).sort();
+    const intervals = dates.slice(1).map((date, index) => daysBetween(dates[index], date));
+    const typical = median(intervals);
+    const match = FREQUENCIES.find((candidate) => typical >= candidate.minDays && typical <= candidate.maxDays);
+    if (!match) {
+      continue;
+    }
+
+    // Most gaps must fit the schedule, and the last payment must be recent
+    const regular = intervals.filter((days) => days >= match.minDays && days <= match.maxDays).length;
+    const lastDate = dates[dates.length - 1];
+    if (regular < intervals.length * 0.66 || daysBetween(lastDate, today) > match.maxDays * 1.5) {
+      continue;
+    }
+
+    recurring.push({
+      name,
+      frequency: match.frequency,
+      amount: Math.round(median(Array.from(byDate.values())) * 100) / 100,
+      lastDate,
+      occurrences: dates.length,
+    });
+  }
+
+  return recurring.sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Build a weekly cash forecast for the provider's organisation. Week 1 starts
+ * today; overdue receipts and payments fall into week 1 unless delayed
+ * further by the scenario.
+ */
+export async function buildCashForecast(
+  provider: AccountingProvider,
+  scenario: ForecastScenario = DEFAULT_FORECAST_SCENARIO
+): Promise<CashForecast> {
+  const today = toDateString(new Date());
+  const horizonEnd = addDays(today, FORECAST_WEEKS * 7 - 1);
+
+  const [balanceSheet, openInvoices, openBills, recurring] = await Promise.all([
+    provider.getBalanceSheet(today),
+    fetchOpenDocuments((page) => provider.getInvoices({ status: 'open', page })),
+    fetchOpenDocuments((page) => provider.getBills({ status: 'open', page })),
+    detectRecurringExpenses(provider.service, provider.organisationId, today),
+  ]);
+  const invoices = openInvoices.documents;
+  const bills = openBills.documents;
+
+  const weeks: ForecastWeek[] = Array.from({ length: FORECAST_WEEKS }, (_, index) => ({
+    weekStart: addDays(today, index * 7),
+    weekEnd: addDays(today, index * 7 + 6),
+    openingBalance: 0,
+    receipts: 0,
+    billPayments: 0,
+    recurringPayments: 0,
+    closingBalance: 0,
+  }));
+
+  const weekFor = (date: string): ForecastWeek | null => {
+    const index = Math.floor(Math.max(daysBetween(today, date), 0) / 7);
+    return index < FORECAST_WEEKS ? weeks[index] : null;
+  };
+
+  const isOverdue = (document: AccountingDocument) => !!document.dueDate && document.dueDate.slice(0, 10) < today;
+  // Documents without a due date are expected on their issue date
+  const expectedDate = (document: AccountingDocument, delayDays: number) => {
+    const due = (document.dueDate || document.date || today).slice(0, 10);
+    return addDays(due < today ? today : due, delayDays);
+  };
+
+  for (const invoice of invoices) {
+    if (scenario.excludeOverdueReceivables && isOverdue(invoice)) {
+      continue;
+    }
+    const week = weekFor(expectedDate(invoice, scenario.customerDelayDays));
+    if (week) {
+      week.receipts += toBaseAmount(invoice, invoice.amountDue);
+    }
+  }
+
+  for (const bill of bills) {
+    const week = weekFor(expectedDate(bill, scenario.supplierDelayDays));
+    if (week) {
+      week.billPayments += toBaseAmount(bill, bill.amountDue);
+    }
+  }
+
+  if (scenario.includeRecurring) {
+    for (const expense of recurring) {
+      // Occurrences up to the last one seen are already paid or in open bills
+      for (let date = nextOccurrence(expense.lastDate, expense.frequency); date <= horizonEnd; date = nextOccurrence(date, expense.frequency)) {
+        if (date < today) {
+          continue;
+        }
+        const week = weekFor(date);
+        if (week) {
+          week.recurringPayments += expense.amount;
+        }
+      }
+    }
+  }
+
+  const openingBalance = balanceSheet.cashBalance;
+  let balance = openingBalance;
+  for (const week of weeks) {
+    week.openingBalance = balance;
+    balance += week.receipts - week.billPayments - week.recurringPayments;
+    week.closingBalance = balance;
+  }
+
+  const lowest = weeks.reduce((min, week) => (week.closingBalance < min.closingBalance ? week : min), weeks[0]);
+  const summarise = ({ documents, truncated }: OpenDocuments): OpenDocumentSummary => ({
+    count: documents.length,
+    total: documents.reduce((sum, document) => sum + toBaseAmount(document, document.amountDue), 0),
+    overdue: documents.filter(isOverdue).reduce((sum, document) => sum + toBaseAmount(document, document.amountDue), 0),
+    truncated,
+  });
+
+  return {
+    service: provider.service,
+    organisationId: provider.organisationId,
+    generatedAt: new Date().toISOString(),
+    scenario,
+    openingBalance,
+    weeks,
+    lowestBalance: lowest.closingBalance,
+    lowestBalanceWeek: lowest.weekStart,
+    cashOutWeek: weeks.find((week) => week.closingBalance < 0)?.weekStart ?? null,
+    openReceivables: summarise(openInvoices),
+    openPayables: summarise(openBills),
+    recurring,
+  };
+}
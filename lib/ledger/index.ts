@@ -0,0 +1,264 @@
+import { LedgerSyncRun } from '@prisma/client';
+import { prisma } from '../db';
+import type { AccountingService } from '../accounting';
+import { runWithPriority } from '../rate-limit';
+import { EntitySync, saveLedgerPage } from './store';
+import { xeroEntitySyncs } from './xero-sync';
+import { qboEntitySyncs } from './qbo-sync';
+
+export { deleteLedgerData } from './store';
+
+/*
+ * Local ledger mirror. Each run pulls accounts, contacts, invoices, bills,
+ * payments and bank transactions for one organisation into the Ledger*
+ * tables. The first run for an entity is a full backfill; later runs only
+ * fetch records changed since the newest update seen (LedgerSyncState.cursor).
+ */
+
+export type LedgerSyncTrigger = 'manual' | 'scheduled' | 'webhook';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+// A run still marked as running after this long died with its process
+const STALE_RUN_MS = 2 * 60 * 60 * 1000;
+const HISTORY_LIMIT = 20;
+
+let schedulerStarted = false;
+let schedulerRunning = false;
+
+function getEntitySyncs(service: AccountingService, userId: string, organisationId: string): EntitySync[] {
+  return service === 'XERO'
+    ? xeroEntitySyncs(userId, organisationId)
+    : qboEntitySyncs(userId, organisationId);
+}
+
+async function executeRun(
+  run: LedgerSyncRun,
+  syncs: EntitySync[],
+  states: Map<string, Date | null>
+): Promise<LedgerSyncRun> {
+  const service = run.service as AccountingService;
+  const { organisationId } = run;
+  const counts: Record<string, number> = {};
+
+  try {
+    for (const sync of syncs) {
+      const since = run.mode === 'full' ? null : states.get(sync.entity) ?? null;
+      let cursor = states.get(sync.entity) ?? null;
+      counts[sync.entity] = 0;
+
+      for await (const page of sync.pages(since)) {
+        counts[sync.entity] += await saveLedgerPage(service, organisationId, page);
+        for (const record of page.records) {
+          const updatedAt = record.sourceUpdatedAt ? new Date(record.sourceUpdatedAt) : null;
+          if (updatedAt && (!cursor || updatedAt > cursor)) {
+            cursor = updatedAt;
+          }
+        }
+      }
+
+      const now = new Date();
+      await prisma.ledgerSyncState.upsert({
+        where: { service_organisationId_entity: { service, organisationId, entity: sync.entity } },
+        create: { service, organisationId, entity: sync.entity, cursor, lastSyncedAt: now },
+        update: { cursor, lastSyncedAt: now },
+      });
+      // Keep the history view current while a long backfill runs
+      await prisma.ledgerSyncRun.update({ where: { id: run.id }, data: { recordCounts: counts } });
+    }
+
+    return await prisma.ledgerSyncRun.update({
+      where: { id: run.id },
+      data: { status: 'success', recordCounts: counts, finishedAt: new Date() },
+    });
+  } catch (error) {
+    console.error(`Ledger sync failed for ${service} ${organisationId}:`, error);
+    return prisma.ledgerSyncRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'failed',
+        recordCounts: counts,
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      },
+    });
+  }
+}
+
+/**
+ * Start a sync run for an organisation using the given user's connection.
+ * `full` re-fetches everything (e.g. to pick up QBO deletions). Returns the
+ * new run and a promise for its completion, or null when the organisation
+ * already has a run in progress.
+ */
+export async function startLedgerSync(
+  userId: string,
+  service: AccountingService,
+  organisationId: string,
+  options: { trigger: LedgerSyncTrigger; full?: boolean }
+): Promise<{ run: LedgerSyncRun; completion: Promise<LedgerSyncRun> } | null> {
+  const running = await prisma.ledgerSyncRun.findFirst({
+    where: {
+      service,
+      organisationId,
+      status: 'running',
+      startedAt: { gt: new Date(Date.now() - STALE_RUN_MS) },
+    },
+  });
+  if (running) {
+    return null;
+  }
+
+  const syncs = getEntitySyncs(service, userId, organisationId);
+  const stateRows = await prisma.ledgerSyncState.findMany({ where: { service, organisationId } });
+  const states = new Map(stateRows.map((state) => [state.entity, state.cursor]));
+  const backfill = options.full || syncs.some((sync) => !states.get(sync.entity));
+
+  const run = await prisma.ledgerSyncRun.create({
+    data: {
+      service,
+      organisationId,
+      trigger: options.trigger,
+      mode: backfill && options.full ? 'full' : backfill ? 'backfill' : 'incremental',
+    },
+  });
+
+  // Sync traffic yields to chat and dashboard requests in the rate limiter
+  const completion = runWithPriority('background', () => executeRun(run, syncs, states));
+  return { run, completion };
+}
+
+export interface LedgerSyncStatus {
+  service: AccountingService;
+  organisationId: string;
+  name: string;
+  lastRun: LedgerSyncRun | null;
+  lastSuccessAt: Date | null;
+  entities: Array<{ entity: string; lastSyncedAt: Date | null }>;
+  records: {
+    accounts: number;
+    contacts: number;
+    documents: number;
+    payments: number;
+    bankTransactions: number;
+  };
+}
+
+/**
+ * Sync status, record counts and recent run history for the given
+ * organisations
+ */
+export async function getLedgerSyncStatus(
+  organisations: Array<{ service: AccountingService; id: string; name: string }>
+): Promise<{ organisations: LedgerSyncStatus[]; runs: LedgerSyncRun[] }> {
+  const statuses = await Promise.all(organisations.map(async (organisation): Promise<LedgerSyncStatus> => {
+    const where = { service: organisation.service, organisationId: organisation.id };
+    const [lastRun, lastSuccess, states, accounts, contacts, documents, payments, bankTransactions] = await Promise.all([
+      prisma.ledgerSyncRun.findFirst({ where, orderBy: { startedAt: 'desc' } }),
+      prisma.ledgerSyncRun.findFirst({ where: { ...where, status: 'success' }, orderBy: { startedAt: 'desc' } }),
+      prisma.ledgerSyncState.findMany({ where, orderBy: { entity: 'asc' } }),
+      prisma.ledgerAccount.count({ where }),
+      prisma.ledgerContact.count({ where }),
+      prisma.ledgerDocument.count({ where }),
+      prisma.ledgerPayment.count({ where }),
+      prisma.ledgerBankTransaction.count({ where }),
+    ]);
+
+    return {
+      service: organisation.service,
+      organisationId: organisation.id,
+      name: organisation.name,
+      lastRun,
+      lastSuccessAt: lastSuccess?.finishedAt ?? null,
+      entities: states.map((state) => ({ entity: state.entity, lastSyncedAt: state.lastSyncedAt })),
+      records: { accounts, contacts, documents, payments, bankTransactions },
+    };
+  }));
+
+  const runs = organisations.length > 0
+    ? await prisma.ledgerSyncRun.findMany({
+        where: {
+          OR: organisations.map((organisation) => ({
+            service: organisation.service,
+            organisationId: organisation.id,
+          })),
+        },
+        orderBy: { startedAt: 'desc' },
+        take: HISTORY_LIMIT,
+      })
+    : [];
+
+  return { organisations: statuses, runs };
+}
+
+/**
+ * Run an incremental sync for every connected organisation, one at a time.
+ * Each organisation is synced once, through any user with a working
+ * connection to it.
+ */
+export async function syncAllOrganisations(): Promise<{ succeeded: number; failed: number }> {
+  const result = { succeeded: 0, failed: 0 };
+  const healthy = { healthStatus: { not: 'revoked' } };
+
+  const [xeroTokens, qboTokens] = await Promise.all([
+    prisma.xeroToken.findMany({ where: healthy, select: { userId: true, tenantId: true }, distinct: ['tenantId'] }),
+    prisma.qboToken.findMany({ where: healthy, select: { userId: true, realmId: true }, distinct: ['realmId'] }),
+  ]);
+
+  const targets: Array<{ userId: string; service: AccountingService; organisationId: string }> = [
+    ...xeroTokens.map((token) => ({ userId: token.userId, service: 'XERO' as const, organisationId: token.tenantId })),
+    ...qboTokens.map((token) => ({ userId: token.userId, service: 'QBO' as const, organisationId: token.realmId })),
+  ];
+
+  for (const target of targets) {
+    const started = await startLedgerSync(target.userId, target.service, target.organisationId, {
+      trigger: 'scheduled',
+    });
+    if (!started) {
+      continue;
+    }
+
+    const run = await started.completion;
+    if (run.status === 'success') {
+      result.succeeded++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run syncAllOrganisations on startup and then every
+ * LEDGER_SYNC_INTERVAL_MINUTES (default 60). Safe to call more than once per
+ * process.
+ */
+export function startLedgerSyncScheduler(): void {
+  if (schedulerStarted) {
+    return;
+  }
+  schedulerStarted = true;
+
+  const minutes = parseInt(process.env.LEDGER_SYNC_INTERVAL_MINUTES || '', 10) || DEFAULT_INTERVAL_MINUTES;
+
+  const run = async () => {
+    // Skip a tick if the previous run is still going
+    if (schedulerRunning) {
+      return;
+    }
+    schedulerRunning = true;
+    try {
+      const { succeeded, failed } = await syncAllOrganisations();
+      if (succeeded || failed) {
+        console.log(`Ledger sync: ${succeeded} organisations synced, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('Ledger sync job error:', error);
+    } finally {
+      schedulerRunning = false;
+    }
+  };
+
+  run();
+  setInterval(run, minutes * 60 * 1000);
+}
@@ -0,0 +1,243 @@
+import { queryEntities } from '../qbo-api';
+import { toAccountingDocument, toLineItem } from '../accounting/qbo-provider';
+import {
+  EntitySync,
+  LEDGER_PAGE_SIZE,
+  LedgerBankTransactionRecord,
+  LedgerContactRecord,
+  LedgerDocumentRecord,
+  LedgerPaymentRecord,
+  toDate,
+  toJson,
+} from './store';
+
+/**
+ * Page through every row of a QBO entity changed since `since`, oldest
+ * change first. Name-list entities (accounts, customers, vendors) include
+ * inactive rows, which QBO otherwise leaves out.
+ */
+async function* qboPages(
+  userId: string,
+  realmId: string,
+  entity: string,
+  since: Date | null,
+  includeInactive = false
+): AsyncGenerator<any[]> {
+  const conditions: string[] = [];
+  if (includeInactive) {
+    conditions.push('Active IN (true, false)');
+  }
+  if (since) {
+    conditions.push(`Metadata.LastUpdatedTime >= '${since.toISOString()}'`);
+  }
+
+  for (let startPosition = 1; ; startPosition += LEDGER_PAGE_SIZE) {
+    const rows = await queryEntities(userId, realmId, entity, {
+      where: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+      orderBy: 'Metadata.LastUpdatedTime',
+      startPosition,
+      maxResults: LEDGER_PAGE_SIZE,
+    });
+    yield rows;
+    if (rows.length < LEDGER_PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+function lastUpdated(row: any): Date | null {
+  return toDate(row.MetaData?.LastUpdatedTime);
+}
+
+/**
+ * First transaction a payment was applied to
+ */
+function linkedTransactionId(row: any): string | null {
+  for (const line of row.Line || []) {
+    const linked = Array.isArray(line.LinkedTxn) ? line.LinkedTxn[0] : line.LinkedTxn;
+    if (linked?.TxnId) {
+      return linked.TxnId;
+    }
+  }
+  return null;
+}
+
+function toContactRecord(row: any, sourceType: 'Customer' | 'Vendor'): LedgerContactRecord {
+  return {
+    sourceType,
+    externalId: row.Id,
+    name: row.DisplayName || '',
+    email: row.PrimaryEmailAddr?.Address ?? null,
+    isCustomer: sourceType === 'Customer',
+    isSupplier: sourceType === 'Vendor',
+    status: row.Active === false ? 'inactive' : 'active',
+    raw: toJson(row),
+    sourceUpdatedAt: lastUpdated(row),
+  };
+}
+
+function toDocumentRecord(row: any, type: 'invoice' | 'bill'): LedgerDocumentRecord {
+  const document = toAccountingDocument(row, type);
+  return {
+    sourceType: type === 'invoice' ? 'Invoice' : 'Bill',
+    externalId: row.Id,
+    type,
+    number: document.number || null,
+    contactExternalId: document.contactId ?? null,
+    contactName: document.contactName || null,
+    date: toDate(row.TxnDate),
+    dueDate: toDate(row.DueDate),
+    status: document.status,
+    currency: document.currency ?? null,
+    total: document.total,
+    amountDue: document.amountDue,
+    reference: document.reference ?? null,
+    lineItems: toJson(document.lineItems),
+    raw: toJson(row),
+    sourceUpdatedAt: lastUpdated(row),
+  };
+}
+
+function toPaymentRecord(row: any, sourceType: 'Payment' | 'BillPayment'): LedgerPaymentRecord {
+  const received = sourceType === 'Payment';
+  const contact = received ? row.CustomerRef : row.VendorRef;
+  const account = received
+    ? row.DepositToAccountRef
+    : row.CheckPayment?.BankAccountRef || row.CreditCardPayment?.CCAccountRef;
+
+  return {
+    sourceType,
+    externalId: row.Id,
+    direction: received ? 'received' : 'paid',
+    date: toDate(row.TxnDate),
+    amount: row.TotalAmt || 0,
+    currency: row.CurrencyRef?.value ?? null,
+    contactExternalId: contact?.value ?? null,
+    contactName: contact?.name ?? null,
+    documentExternalId: linkedTransactionId(row),
+    accountExternalId: account?.value ?? null,
+    status: null,
+    reference: (received ? row.PaymentRefNum : row.DocNumber) || null,
+    raw: toJson(row),
+    sourceUpdatedAt: lastUpdated(row),
+  };
+}
+
+function toBankTransactionRecord(row: any, sourceType: 'Purchase' | 'Deposit'): LedgerBankTransactionRecord {
+  const spent = sourceType === 'Purchase';
+  const account = spent ? row.AccountRef : row.DepositToAccountRef;
+
+  return {
+    sourceType,
+    externalId: row.Id,
+    direction: spent ? 'spent' : 'received',
+    date: toDate(row.TxnDate),
+    total: row.TotalAmt || 0,
+    currency: row.CurrencyRef?.value ?? null,
+    contactExternalId: spent ? row.EntityRef?.value ?? null : null,
+    contactName: spent ? row.EntityRef?.name ?? null : null,
+    accountExternalId: account?.value ?? null,
+    accountName: account?.name ?? null,
+    status: null,
+    reference: row.DocNumber || row.PrivateNote || null,
+    lineItems: toJson((row.Line || []).map(toLineItem)),
+    raw: toJson(row),
+    sourceUpdatedAt: lastUpdated(row),
+  };
+}
+
+/**
+ * Entities mirrored for a QBO realm. Incremental runs filter on each
+ * record's MetaData.LastUpdatedTime. QBO queries do not return deleted
+ * records, so deletions are only picked up by a full resync.
+ */
+export function qboEntitySyncs(userId: string, realmId: string): EntitySync[] {
+  return [
+    {
+      entity: 'accounts',
+      async *pages(since) {
+        for await (const rows of qboPages(userId, realmId, 'Account', since, true)) {
+          yield {
+            model: 'account',
+            records: rows.map((row) => ({
+              sourceType: 'Account',
+              externalId: row.Id,
+              code: row.AcctNum || null,
+              name: row.Name || '',
+              type: row.AccountType || null,
+              classification: row.Classification ? String(row.Classification).toLowerCase() : null,
+              status: row.Active === false ? 'inactive' : 'active',
+              currency: row.CurrencyRef?.value ?? null,
+              raw: toJson(row),
+              sourceUpdatedAt: lastUpdated(row),
+            })),
+          };
+        }
+      },
+    },
+    {
+      entity: 'customers',
+      async *pages(since) {
+        for await (const rows of qboPages(userId, realmId, 'Customer', since, true)) {
+          yield { model: 'contact', records: rows.map((row) => toContactRecord(row, 'Customer')) };
+        }
+      },
+    },
+    {
+      entity: 'vendors',
+      async *pages(since) {
+        for await (const rows of qboPages(userId, realmId, 'Vendor', since, true)) {
+          yield { model: 'contact', records: rows.map((row) => toContactRecord(row, 'Vendor')) };
+        }
+      },
+    },
+    {
+      entity: 'invoices',
+      async *pages(since) {
+        for await (const rows of qboPages(userId, realmId, 'Invoice', since)) {
+          yield { model: 'document', records: rows.map((row) => toDocumentRecord(row, 'invoice')) };
+        }
+      },
+    },
+    {
+      entity: 'bills',
+      async *pages(since) {
+        for await (const rows of qboPages(userId, realmId, 'Bill', since)) {
+          yield { model: 'document', records: rows.map((row) => toDocumentRecord(row, 'bill')) };
+        }
+      },
+    },
+    {
+      entity: 'payments',
+      async *pages(since) {
+        for await (const rows of qboPages(userId, realmId, 'Payment', since)) {
+          yield { model: 'payment', records: rows.map((row) => toPaymentRecord(row, 'Payment')) };
+        }
+      },
+    },
+    {
+      entity: 'billPayments',
+      async *pages(since) {
+        for await (const rows of qboPages(userId, realmId, 'BillPayment', since)) {
+          yield { model: 'payment', records: rows.map((row) => toPaymentRecord(row, 'BillPayment')) };
+        }
+      },
+    },
+    {
+      entity: 'purchases',
+      async *pages(since) {
+        for await (const rows of qboPages(userId, realmId, 'Purchase', since)) {
+          yield { model: 'bankTransaction', records: rows.map((row) => toBankTransactionRecord(row, 'Purchase')) };
+        }
+      },
+    },
+    {
+      entity: 'deposits',
+      async *pages(since) {
+        for await (const rows of qboPages(userId, realmId, 'Deposit', since)) {
+          yield { model: 'bankTransaction', records: rows.map((row) => toBankTransactionRecord(row, 'Deposit')) };
+        }
+      },
+    },
+  ];
+}
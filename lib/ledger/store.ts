@@ -0,0 +1,141 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import type { AccountingService } from '../accounting';
+
+// Columns filled in by the sync rather than by the vendor mappers
+type Mirrored<T> = Omit<T, 'id' | 'service' | 'organisationId' | 'syncedAt'>;
+
+export type LedgerAccountRecord = Mirrored<Prisma.LedgerAccountUncheckedCreateInput>;
+export type LedgerContactRecord = Mirrored<Prisma.LedgerContactUncheckedCreateInput>;
+export type LedgerDocumentRecord = Mirrored<Prisma.LedgerDocumentUncheckedCreateInput>;
+export type LedgerPaymentRecord = Mirrored<Prisma.LedgerPaymentUncheckedCreateInput>;
+export type LedgerBankTransactionRecord = Mirrored<Prisma.LedgerBankTransactionUncheckedCreateInput>;
+
+/**
+ * One page of mirrored records, tagged with the model it is stored in
+ */
+export type LedgerPage =
+  | { model: 'account'; records: LedgerAccountRecord[] }
+  | { model: 'contact'; records: LedgerContactRecord[] }
+  | { model: 'document'; records: LedgerDocumentRecord[] }
+  | { model: 'payment'; records: LedgerPaymentRecord[] }
+  | { model: 'bankTransaction'; records: LedgerBankTransactionRecord[] };
+
+/**
+ * Mirrors one vendor entity (e.g. Xero invoices) for an organisation
+ */
+export interface EntitySync {
+  entity: string;
+  /** Pages of records changed since `since`, or every record when null */
+  pages(since: Date | null): AsyncGenerator<LedgerPage>;
+}
+
+// Largest page both Xero and QBO return
+export const LEDGER_PAGE_SIZE = 1000;
+
+/**
+ * Parse a vendor date: a Date, an ISO string or a Microsoft JSON date
+ * (`/Date(1704412800000+0000)/`)
+ */
+export function toDate(value: unknown): Date | null {
+  if (!value) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+
+  const text = String(value);
+  const msDate = /^\/Date\((-?\d+)/.exec(text);
+  const date = msDate ? new Date(parseInt(msDate[1], 10)) : new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Plain JSON copy of a vendor payload (drops class instances and undefined)
+ */
+export function toJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value ?? null)) ?? {};
+}
+
+function recordKey(service: AccountingService, organisationId: string, record: { sourceType: string; externalId: string }) {
+  return {
+    service_organisationId_sourceType_externalId: {
+      service,
+      organisationId,
+      sourceType: record.sourceType,
+      externalId: record.externalId,
+    },
+  };
+}
+
+/**
+ * Insert or update a page of records. Returns the number saved.
+ */
+export async function saveLedgerPage(
+  service: AccountingService,
+  organisationId: string,
+  page: LedgerPage
+): Promise<number> {
+  if (page.records.length === 0) {
+    return 0;
+  }
+
+  const scope = { service, organisationId };
+
+  switch (page.model) {
+    case 'account':
+      await prisma.$transaction(page.records.map((record) => prisma.ledgerAccount.upsert({
+        where: recordKey(service, organisationId, record),
+        create: { ...record, ...scope },
+        update: record,
+      })));
+      break;
+    case 'contact':
+      await prisma.$transaction(page.records.map((record) => prisma.ledgerContact.upsert({
+        where: recordKey(service, organisationId, record),
+        create: { ...record, ...scope },
+        update: record,
+      })));
+      break;
+    case 'document':
+      await prisma.$transaction(page.records.map((record) => prisma.ledgerDocument.upsert({
+        where: recordKey(service, organisationId, record),
+        create: { ...record, ...scope },
+        update: record,
+      })));
+      break;
+    case 'payment':
+      await prisma.$transaction(page.records.map((record) => prisma.ledgerPayment.upsert({
+        where: recordKey(service, organisationId, record),
+        create: { ...record, ...scope },
+        update: record,
+      })));
+      break;
+    case 'bankTransaction':
+      await prisma.$transaction(page.records.map((record) => prisma.ledgerBankTransaction.upsert({
+        where: recordKey(service, organisationId, record),
+        create: { ...record, ...scope },
+        update: record,
+      })));
+      break;
+  }
+
+  return page.records.length;
+}
+
+/**
+ * Delete every mirrored record and the sync history for an organisation
+ */
+export async function deleteLedgerData(service: AccountingService, organisationId: string): Promise<void> {
+  const where = { service, organisationId };
+  await prisma.$transaction([
+    prisma.ledgerAccount.deleteMany({ where }),
+    prisma.ledgerContact.deleteMany({ where }),
+    prisma.ledgerDocument.deleteMany({ where }),
+    prisma.ledgerPayment.deleteMany({ where }),
+    prisma.ledgerBankTransaction.deleteMany({ where }),
+    prisma.ledgerSyncState.deleteMany({ where }),
+    prisma.ledgerSyncRun.deleteMany({ where }),
+  ]);
+}
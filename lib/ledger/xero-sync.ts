@@ -0,0 +1,199 @@
+import { getAccounts, getBankTransactions, getContacts, getInvoices, getPayments } from '../xero-api';
+import { toAccountingDocument, toLineItem } from '../accounting/xero-provider';
+import {
+  EntitySync,
+  LEDGER_PAGE_SIZE,
+  LedgerBankTransactionRecord,
+  LedgerDocumentRecord,
+  LedgerPaymentRecord,
+  toDate,
+  toJson,
+} from './store';
+
+/**
+ * Page through a Xero list endpoint until a short page comes back
+ */
+async function* xeroPages(fetchPage: (page: number) => Promise<any[]>): AsyncGenerator<any[]> {
+  for (let page = 1; ; page++) {
+    const rows = await fetchPage(page);
+    yield rows;
+    if (rows.length < LEDGER_PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+function toDocumentRecord(invoice: any): LedgerDocumentRecord {
+  const document = toAccountingDocument(invoice);
+  return {
+    sourceType: 'Invoice',
+    externalId: invoice.invoiceID,
+    type: document.type,
+    number: document.number || null,
+    contactExternalId: document.contactId ?? null,
+    contactName: document.contactName || null,
+    date: toDate(invoice.date),
+    dueDate: toDate(invoice.dueDate),
+    status: document.status,
+    currency: document.currency ?? null,
+    total: document.total,
+    amountDue: document.amountDue,
+    reference: document.reference ?? null,
+    lineItems: toJson(document.lineItems),
+    raw: toJson(invoice),
+    sourceUpdatedAt: toDate(invoice.updatedDateUTC),
+  };
+}
+
+function toPaymentRecord(payment: any): LedgerPaymentRecord {
+  const paymentType = String(payment.paymentType || '');
+  return {
+    sourceType: 'Payment',
+    externalId: payment.paymentID,
+    // ACCPAY* and AP* payments settle bills; the rest settle sales invoices
+    direction: paymentType.startsWith('ACCPAY') || paymentType.startsWith('AP') ? 'paid' : 'received',
+    date: toDate(payment.date),
+    amount: payment.amount || 0,
+    currency: payment.invoice?.currencyCode ? String(payment.invoice.currencyCode) : null,
+    contactExternalId: payment.invoice?.contact?.contactID ?? null,
+    contactName: payment.invoice?.contact?.name ?? null,
+    documentExternalId: payment.invoice?.invoiceID ?? null,
+    accountExternalId: payment.account?.accountID ?? null,
+    status: payment.status ? String(payment.status) : null,
+    reference: payment.reference || null,
+    raw: toJson(payment),
+    sourceUpdatedAt: toDate(payment.updatedDateUTC),
+  };
+}
+
+function toBankTransactionRecord(transaction: any): LedgerBankTransactionRecord {
+  return {
+    sourceType: 'BankTransaction',
+    externalId: transaction.bankTransactionID,
+    direction: String(transaction.type || '').startsWith('RECEIVE') ? 'received' : 'spent',
+    date: toDate(transaction.date),
+    total: transaction.total || 0,
+    currency: transaction.currencyCode ? String(transaction.currencyCode) : null,
+    contactExternalId: transaction.contact?.contactID ?? null,
+    contactName: transaction.contact?.name ?? null,
+    accountExternalId: transaction.bankAccount?.accountID ?? null,
+    accountName: transaction.bankAccount?.name ?? null,
+    status: transaction.status ? String(transaction.status) : null,
+    reference: transaction.reference || null,
+    lineItems: toJson((transaction.lineItems || []).map(toLineItem)),
+    raw: toJson(transaction),
+    sourceUpdatedAt: toDate(transaction.updatedDateUTC),
+  };
+}
+
+/**
+ * Entities mirrored for a Xero tenant. Incremental runs use the
+ * If-Modified-Since header against each record's UpdatedDateUTC.
+ */
+export function xeroEntitySyncs(userId: string, tenantId: string): EntitySync[] {
+  const order = 'UpdatedDateUTC ASC';
+
+  const documents = (type: 'ACCREC' | 'ACCPAY') => async function* (since: Date | null) {
+    for await (const invoices of xeroPages(async (page) => {
+      const response: any = await getInvoices(userId, tenantId, {
+        ifModifiedSince: since ?? undefined,
+        where: `Type=="${type}"`,
+        order,
+        page,
+        pageSize: LEDGER_PAGE_SIZE,
+      });
+      return response?.invoices || [];
+    })) {
+      yield { model: 'document' as const, records: invoices.map(toDocumentRecord) };
+    }
+  };
+
+  return [
+    {
+      entity: 'accounts',
+      async *pages(since) {
+        // The accounts endpoint is not paged
+        const response: any = await getAccounts(userId, tenantId, { ifModifiedSince: since ?? undefined });
+        yield {
+          model: 'account',
+          records: (response?.accounts || []).map((account: any) => ({
+            sourceType: 'Account',
+            externalId: account.accountID,
+            code: account.code || null,
+            name: account.name || '',
+            type: account.type ? String(account.type) : null,
+            classification: account._class ? String(account._class).toLowerCase() : null,
+            status: account.status ? String(account.status) : null,
+            currency: account.currencyCode ? String(account.currencyCode) : null,
+            raw: toJson(account),
+            sourceUpdatedAt: toDate(account.updatedDateUTC),
+          })),
+        };
+      },
+    },
+    {
+      entity: 'contacts',
+      async *pages(since) {
+        for await (const contacts of xeroPages(async (page) => {
+          const response: any = await getContacts(userId, tenantId, {
+            ifModifiedSince: since ?? undefined,
+            order,
+            page,
+            includeArchived: true,
+            pageSize: LEDGER_PAGE_SIZE,
+          });
+          return response?.contacts || [];
+        })) {
+          yield {
+            model: 'contact',
+            records: contacts.map((contact: any) => ({
+              sourceType: 'Contact',
+              externalId: contact.contactID,
+              name: contact.name || '',
+              email: contact.emailAddress || null,
+              isCustomer: !!contact.isCustomer,
+              isSupplier: !!contact.isSupplier,
+              status: contact.contactStatus ? String(contact.contactStatus) : null,
+              raw: toJson(contact),
+              sourceUpdatedAt: toDate(contact.updatedDateUTC),
+            })),
+          };
+        }
+      },
+    },
+    { entity: 'invoices', pages: documents('ACCREC') },
+    { entity: 'bills', pages: documents('ACCPAY') },
+    {
+      entity: 'payments',
+      async *pages(since) {
+        for await (const payments of xeroPages(async (page) => {
+          const response: any = await getPayments(userId, tenantId, {
+            ifModifiedSince: since ?? undefined,
+            order,
+            page,
+            pageSize: LEDGER_PAGE_SIZE,
+          });
+          return response?.payments || [];
+        })) {
+          yield { model: 'payment', records: payments.map(toPaymentRecord) };
+        }
+      },
+    },
+    {
+      entity: 'bankTransactions',
+      async *pages(since) {
+        for await (const transactions of xeroPages(async (page) => {
+          const response: any = await getBankTransactions(userId, tenantId, {
+            ifModifiedSince: since ?? undefined,
+            order,
+            page,
+            pageSize: LEDGER_PAGE_SIZE,
+          });
+          return response?.bankTransactions || [];
+        })) {
+          yield { model: 'bankTransaction', records: transactions.map(toBankTransactionRecord) };
+        }
+      },
+    },
+  ];
+}
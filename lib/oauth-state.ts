@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/db';
+
+export type OAuthProvider = 'QBO' | 'XERO';
+
+interface OAuthStatePayload {
+  userId: string;
+  provider: OAuthProvider;
+  nonce: string;
+  exp: number;
+}
+
+export type OAuthStateVerification =
+  | { valid: true; userId: string }
+  | { valid: false; error: string };
+
+// How long a user has to finish the provider's consent screen
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+function getStateSecret(): string {
+  const secret = process.env.OAUTH_STATE_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('OAUTH_STATE_SECRET or NEXTAUTH_SECRET must be set to sign OAuth state');
+  }
+  return secret;
+}
+
+function sign(encodedPayload: string): string {
+  return crypto.createHmac('sha256', getStateSecret()).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * Create a signed, single-use OAuth `state` value for a connect flow.
+ * The nonce is stored so the callback can reject replays.
+ */
+export async function createOAuthState(userId: string, provider: OAuthProvider): Promise<string> {
+  const payload: OAuthStatePayload = {
+    userId,
+    provider,
+    nonce: crypto.randomBytes(16).toString('hex'),
+    exp: Date.now() + STATE_TTL_MS,
+  };
+
+  await prisma.oAuthState.create({
+    data: {
+      nonce: payload.nonce,
+      userId,
+      provider,
+      expiresAt: new Date(payload.exp),
+    },
+  });
+
+  // Opportunistically clear out states that were never used
+  await prisma.oAuthState.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Verify an OAuth `state` returned to a callback: signature, provider, expiry,
+ * binding to the signed-in user, and that it has not been used before.
+ */
+export async function verifyOAuthState(
+  state: string,
+  provider: OAuthProvider,
+  sessionUserId: string | undefined
+): Promise<OAuthStateVerification> {
+  const [encodedPayload, signature] = state.split('.');
+  if (!encodedPayload || !signature) {
+    return { valid: false, error: 'Invalid connection request. Please try connecting again.' };
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { valid: false, error: 'Invalid connection request. Please try connecting again.' };
+  }
+
+  let payload: OAuthStatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+  } catch {
+    return { valid: false, error: 'Invalid connection request. Please try connecting again.' };
+  }
+
+  if (payload.provider !== provider) {
+    return { valid: false, error: 'Invalid connection request. Please try connecting again.' };
+  }
+
+  if (!sessionUserId || payload.userId !== sessionUserId) {
+    return { valid: false, error: 'This connection was started from a different account. Please sign in and try again.' };
+  }
+
+  // Consume the nonce; a count of zero means it was already used or never issued
+  const consumed = await prisma.oAuthState.deleteMany({
+    where: { nonce: payload.nonce, userId: payload.userId, provider },
+  });
+  if (consumed.count !== 1) {
+    return { valid: false, error: 'This connection link has already been used. Please try connecting again.' };
+  }
+
+  if (payload.exp < Date.now()) {
+    return { valid: false, error: 'Connection request expired. Please try connecting again.' };
+  }
+
+  return { valid: true, userId: payload.userId };
+}
@@ -0,0 +1,292 @@
+import { prisma } from '@/lib/db';
+import type { AccountingService } from '@/lib/accounting';
+import { ConnectionHealth, getConnectionHealth } from '@/lib/token-health';
+import { deleteLedgerData } from '@/lib/ledger';
+
+export interface ConnectedOrganisation {
+  service: AccountingService;
+  id: string;
+  name: string;
+  active: boolean;
+  connectedAt: string;
+  health: ConnectionHealth;
+  refreshTokenExpiresAt: string | null;
+}
+
+/**
+ * List every Xero tenant and QBO realm the user has connected, flagging the
+ * active one for each service
+ */
+export async function listOrganisations(userId: string): Promise<ConnectedOrganisation[]> {
+  const [user, xeroTokens, qboTokens] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { activeXeroTenantId: true, activeQboRealmId: true },
+    }),
+    prisma.xeroToken.findMany({
+      where: { userId },
+      select: {
+        tenantId: true,
+        tenantName: true,
+        healthStatus: true,
+        refreshTokenExpiresAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.qboToken.findMany({
+      where: { userId },
+      select: {
+        realmId: true,
+        companyName: true,
+        healthStatus: true,
+        refreshTokenExpiresAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  const activeXero = resolveActiveId(user?.activeXeroTenantId, xeroTokens.map((t) => ({ id: t.tenantId, updatedAt: t.updatedAt })));
+  const activeQbo = resolveActiveId(user?.activeQboRealmId, qboTokens.map((t) => ({ id: t.realmId, updatedAt: t.updatedAt })));
+
+  return [
+    ...xeroTokens.map((token) => ({
+      service: 'XERO' as const,
+      id: token.tenantId,
+      name: token.tenantName || 'Xero organisation',
+      active: token.tenantId === activeXero,
+      connectedAt: token.createdAt.toISOString(),
+      health: getConnectionHealth(token),
+      refreshTokenExpiresAt: token.refreshTokenExpiresAt?.toISOString() ?? null,
+    })),
+    ...qboTokens.map((token) => ({
+      service: 'QBO' as const,
+      id: token.realmId,
+      name: token.companyName || `QuickBooks company ${token.realmId}`,
+      active: token.realmId === activeQbo,
+      connectedAt: token.createdAt.toISOString(),
+      health: getConnectionHealth(token),
+      refreshTokenExpiresAt: token.refreshTokenExpiresAt?.toISOString() ?? null,
+    })),
+  ];
+}
+
+/**
+ * Pick the stored active ID if it is still connected, otherwise the most
+ * recently updated connection
+ */
+function resolveActiveId(
+  storedId: string | null | undefined,
+  connections: Array<{ id: string; updatedAt: Date }>
+): string | null {
+  if (storedId && connections.some((c) => c.id === storedId)) {
+    return storedId;
+  }
+  const latest = [...connections].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
+  return latest?.id || null;
+}
+
+/**
+ * Resolve the Xero tenant ID or QBO realm ID the user is currently working in
+ */
+export async function getActiveOrganisationId(userId: string, service: AccountingService): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { activeXeroTenantId: true, activeQboRealmId: true },
+  });
+
+  if (service === 'XERO') {
+    const tokens = await prisma.xeroToken.findMany({
+      where: { userId },
+      select: { tenantId: true, updatedAt: true },
+    });
+    return resolveActiveId(user?.activeXeroTenantId, tokens.map((t) => ({ id: t.tenantId, updatedAt: t.updatedAt })));
+  }
+
+  const tokens = await prisma.qboToken.findMany({
+    where: { userId },
+    select: { realmId: true, updatedAt: true },
+  });
+  return resolveActiveId(user?.activeQboRealmId, tokens.map((t) => ({ id: t.realmId, updatedAt: t.updatedAt })));
+}
+
+/**
+ * Token row for the user's active Xero tenant
+ */
+export async function findActiveXeroToken(userId: string) {
+  const tenantId = await getActiveOrganisationId(userId, 'XERO');
+  if (!tenantId) {
+    return null;
+  }
+  return prisma.xeroToken.findUnique({
+    where: { userId_tenantId: { userId, tenantId } },
+  });
+}
+
+/**
+ * Token row for the user's active QBO realm
+ */
+export async function findActiveQboToken(userId: string) {
+  const realmId = await getActiveOrganisationId(userId, 'QBO');
+  if (!realmId) {
+    return null;
+  }
+  return prisma.qboToken.findUnique({
+    where: { userId_realmId: { userId, realmId } },
+  });
+}
+
+/**
+ * Make a connected organisation the active one for its service.
+ * Returns false when the organisation is not connected for this user.
+ */
+export async function setActiveOrganisation(
+  userId: string,
+  service: AccountingService,
+  organisationId: string
+): Promise<boolean> {
+  if (service === 'XERO') {
+    const token = await prisma.xeroToken.findUnique({
+      where: { userId_tenantId: { userId, tenantId: organisationId } },
+      select: { id: true },
+    });
+    if (!token) {
+      return false;
+    }
+    await prisma.user.update({
+      where: { id: userId },
+      data: { activeXeroTenantId: organisationId },
+    });
+    await clearOrganisationScopedCaches(userId);
+    return true;
+  }
+
+  const token = await prisma.qboToken.findUnique({
+    where: { userId_realmId: { userId, realmId: organisationId } },
+    select: { id: true },
+  });
+  if (!token) {
+    return false;
+  }
+  await prisma.user.update({
+    where: { id: userId },
+    data: { activeQboRealmId: organisationId },
+  });
+  await clearOrganisationScopedCaches(userId);
+  return true;
+}
+
+/**
+ * Cached per-user data that describes a single organisation must not leak
+ * into another one after switching
+ */
+async function clearOrganisationScopedCaches(userId: string): Promise<void> {
+  await prisma.financialInsight.deleteMany({ where: { userId } });
+}
+
+/**
+ * Services the user currently has at least one organisation connected for
+ */
+export async function getConnectedServices(userId: string): Promise<AccountingService[]> {
+  const [xeroCount, qboCount] = await Promise.all([
+    prisma.xeroToken.count({ where: { userId } }),
+    prisma.qboToken.count({ where: { userId } }),
+  ]);
+
+  const services: AccountingService[] = [];
+  if (xeroCount > 0) services.push('XERO');
+  if (qboCount > 0) services.push('QBO');
+  return services;
+}
+
+/**
+ * Make a connected service the user's default for the dashboard and chat.
+ * Returns false when the service is not connected.
+ */
+export async function setDefaultService(userId: string, service: AccountingService): Promise<boolean> {
+  const connected = await getConnectedServices(userId);
+  if (!connected.includes(service)) {
+    return false;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { accountingService: service },
+  });
+  await clearOrganisationScopedCaches(userId);
+  return true;
+}
+
+/**
+ * Disconnect every organisation for a service
+ */
+export async function disconnectService(userId: string, service: AccountingService): Promise<void> {
+  let organisationIds: string[];
+  if (service === 'XERO') {
+    const tokens = await prisma.xeroToken.findMany({ where: { userId }, select: { tenantId: true } });
+    organisationIds = tokens.map((token) => token.tenantId);
+    await prisma.xeroToken.deleteMany({ where: { userId } });
+    await prisma.user.update({ where: { id: userId }, data: { activeXeroTenantId: null } });
+  } else {
+    const tokens = await prisma.qboToken.findMany({ where: { userId }, select: { realmId: true } });
+    organisationIds = tokens.map((token) => token.realmId);
+    await prisma.qboToken.deleteMany({ where: { userId } });
+    await prisma.user.update({ where: { id: userId }, data: { activeQboRealmId: null } });
+  }
+
+  await reassignDefaultService(userId, service);
+  await removeOrphanedLedgerData(service, organisationIds);
+}
+
+/**
+ * Remove a single connected organisation. Once no organisations remain for
+ * the service, the user's default falls back to their other service.
+ */
+export async function removeOrganisation(
+  userId: string,
+  service: AccountingService,
+  organisationId: string
+): Promise<void> {
+  if (service === 'XERO') {
+    await prisma.xeroToken.deleteMany({ where: { userId, tenantId: organisationId } });
+  } else {
+    await prisma.qboToken.deleteMany({ where: { userId, realmId: organisationId } });
+  }
+
+  await reassignDefaultService(userId, service);
+  await removeOrphanedLedgerData(service, [organisationId]);
+}
+
+/**
+ * Drop the ledger mirror of organisations no user is connected to any more
+ */
+async function removeOrphanedLedgerData(service: AccountingService, organisationIds: string[]): Promise<void> {
+  for (const organisationId of organisationIds) {
+    const connections = service === 'XERO'
+      ? await prisma.xeroToken.count({ where: { tenantId: organisationId } })
+      : await prisma.qboToken.count({ where: { realmId: organisationId } });
+
+    if (connections === 0) {
+      await deleteLedgerData(service, organisationId);
+    }
+  }
+}
+
+/**
+ * Move the default off a service that no longer has any connections
+ */
+async function reassignDefaultService(userId: string, removedService: AccountingService): Promise<void> {
+  const connected = await getConnectedServices(userId);
+  if (connected.includes(removedService)) {
+    return;
+  }
+
+  await prisma.user.updateMany({
+    where: { id: userId, accountingService: removedService },
+    data: { accountingService: connected[0] ?? null },
+  });
+  await clearOrganisationScopedCaches(userId);
+}
@@ -1,5 +1,6 @@
 import { getValidToken, createOAuthClient, getIntuitEnv, QboToken } from './qbo';
 import { prisma } from './db';
+import { scheduleProviderCall } from './rate-limit';
 
 /**
  * Creates an authenticated QBO API client for a specific user and realm
@@ -28,7 +29,7 @@ async function getQboApiClient(userId: string, realmId?: string) {
 }
 
 /**
- * Make an authenticated API call to QBO
+ * Make an authenticated API call to QBO through the realm's rate limiter
  */
 async function makeQboApiCall(
   userId: string,
@@ -37,10 +38,10 @@ async function makeQboApiCall(
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
   body?: any
 ) {
-  const { oauthClient, base } = await getQboApiClient(userId, realmId);
+  const { oauthClient, base, realmId: actualRealmId } = await getQboApiClient(userId, realmId);
   const url = `${base}${endpoint}`;
   
-  const response = await oauthClient.makeApiCall({
+  const response = await scheduleProviderCall<any>('QBO', actualRealmId, () => oauthClient.makeApiCall({
     url,
     method,
     headers: {
@@ -48,7 +49,7 @@ async function makeQboApiCall(
       'Content-Type': 'application/json',
     },
     body: body ? JSON.stringify(body) : undefined,
-  });
+  }));
 
   return response.json || JSON.parse(response.body || '{}');
 }
@@ -68,6 +69,57 @@ export async function getCompanyInfo(userId: string, realmId?: string) {
   }
 }
 
+/**
+ * Get company preferences (currency, accounting period and so on)
+ */
+export async function getPreferences(userId: string, realmId?: string) {
+  try {
+    const { realmId: actualRealmId } = await getQboApiClient(userId, realmId);
+    const endpoint = `/v3/company/${encodeURIComponent(actualRealmId)}/preferences?minorversion=75`;
+    const result = await makeQboApiCall(userId, realmId, endpoint);
+    return result.Preferences || null;
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    throw error;
+  }
+}
+
+/**
+ * Run a query against any QBO entity (e.g. `BillPayment`, `Deposit`) and
+ * return its rows. QBO returns at most 1000 rows per query.
+ */
+export async function queryEntities(userId: string, realmId: string | undefined, entity: string, options?: {
+  where?: string;
+  orderBy?: string;
+  startPosition?: number;
+  maxResults?: number;
+}): Promise<any[]> {
+  try {
+    const { realmId: actualRealmId } = await getQboApiClient(userId, realmId);
+    let query = `SELECT * FROM ${entity}`;
+
+    if (options?.where) {
+      query += ` WHERE ${options.where}`;
+    }
+    if (options?.orderBy) {
+      query += ` ORDERBY ${options.orderBy}`;
+    }
+    if (options?.startPosition) {
+      query += ` STARTPOSITION ${options.startPosition}`;
+    }
+    if (options?.maxResults) {
+      query += ` MAXRESULTS ${options.maxResults}`;
+    }
+
+    const endpoint = `/v3/company/${encodeURIComponent(actualRealmId)}/query?query=${encodeURIComponent(query)}`;
+    const result = await makeQboApiCall(userId, realmId, endpoint);
+    return result.QueryResponse?.[entity] || [];
+  } catch (error) {
+    console.error(`Error querying ${entity}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Get customers from QBO
  */
@@ -367,6 +419,90 @@ export async function getAccountById(userId: string, realmId: string | undefined
   }
 }
 
+/**
+ * Get a customer by ID
+ */
+export async function getCustomerById(userId: string, realmId: string | undefined, customerId: string) {
+  try {
+    const { realmId: actualRealmId } = await getQboApiClient(userId, realmId);
+    const endpoint = `/v3/company/${encodeURIComponent(actualRealmId)}/customer/${encodeURIComponent(customerId)}`;
+    const result = await makeQboApiCall(userId, realmId, endpoint);
+    return result.Customer || null;
+  } catch (error) {
+    console.error('Error fetching customer by ID:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create an entity (customer, invoice, bill payment and so on). QBO treats a
+ * repeated `requestid` as the same request, so retries don't create duplicates.
+ * Returns the created entity.
+ */
+async function createEntity(userId: string, realmId: string | undefined, entity: string, body: any, requestId?: string) {
+  const { realmId: actualRealmId } = await getQboApiClient(userId, realmId);
+  const params = ['minorversion=75'];
+  if (requestId) {
+    params.push(`requestid=${encodeURIComponent(requestId)}`);
+  }
+  const endpoint = `/v3/company/${encodeURIComponent(actualRealmId)}/${entity.toLowerCase()}?${params.join('&')}`;
+  const result = await makeQboApiCall(userId, realmId, endpoint, 'POST', body);
+
+  const fault = result.Fault?.Error?.[0];
+  if (fault) {
+    throw new Error(fault.Detail || fault.Message || `Failed to create ${entity}`);
+  }
+  return result[entity] || null;
+}
+
+/**
+ * Create a customer
+ */
+export async function createCustomer(userId: string, realmId: string | undefined, customerData: any, requestId?: string) {
+  try {
+    return await createEntity(userId, realmId, 'Customer', customerData, requestId);
+  } catch (error) {
+    console.error('Error creating customer:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a vendor
+ */
+export async function createVendor(userId: string, realmId: string | undefined, vendorData: any, requestId?: string) {
+  try {
+    return await createEntity(userId, realmId, 'Vendor', vendorData, requestId);
+  } catch (error) {
+    console.error('Error creating vendor:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a sales invoice. It is saved but not emailed to the customer.
+ */
+export async function createInvoice(userId: string, realmId: string | undefined, invoiceData: any, requestId?: string) {
+  try {
+    return await createEntity(userId, realmId, 'Invoice', invoiceData, requestId);
+  } catch (error) {
+    console.error('Error creating invoice:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a payment against one or more bills
+ */
+export async function createBillPayment(userId: string, realmId: string | undefined, billPaymentData: any, requestId?: string) {
+  try {
+    return await createEntity(userId, realmId, 'BillPayment', billPaymentData, requestId);
+  } catch (error) {
+    console.error('Error creating bill payment:', error);
+    throw error;
+  }
+}
+
 /**
  * Get estimates from QBO
  */
@@ -439,6 +575,107 @@ export async function getProfitAndLossReport(userId: string, realmId: string | u
   }
 }
 
+/**
+ * Get balance sheet report from QBO
+ */
+export async function getBalanceSheetReport(userId: string, realmId: string | undefined, options?: {
+  startDate?: string;
+  endDate?: string;
+  summarizeColumnBy?: string;
+}) {
+  try {
+    const { realmId: actualRealmId } = await getQboApiClient(userId, realmId);
+    let endpoint = `/v3/company/${encodeURIComponent(actualRealmId)}/reports/BalanceSheet`;
+
+    const params: string[] = [];
+    if (options?.startDate) {
+      params.push(`start_date=${encodeURIComponent(options.startDate)}`);
+    }
+    if (options?.endDate) {
+      params.push(`end_date=${encodeURIComponent(options.endDate)}`);
+    }
+    if (options?.summarizeColumnBy) {
+      params.push(`summarize_column_by=${encodeURIComponent(options.summarizeColumnBy)}`);
+    }
+
+    if (params.length > 0) {
+      endpoint += `?${params.join('&')}`;
+    }
+
+    const result = await makeQboApiCall(userId, realmId, endpoint);
+    return result;
+  } catch (error) {
+    console.error('Error fetching balance sheet report:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get profit and loss detail report (transaction level) from QBO
+ */
+export async function getProfitAndLossDetailReport(userId: string, realmId: string | undefined, options?: {
+  startDate?: string;
+  endDate?: string;
+}) {
+  try {
+    const { realmId: actualRealmId } = await getQboApiClient(userId, realmId);
+    let endpoint = `/v3/company/${encodeURIComponent(actualRealmId)}/reports/ProfitAndLossDetail`;
+
+    const params: string[] = ['minorversion=75'];
+    if (options?.startDate) {
+      params.push(`start_date=${encodeURIComponent(options.startDate)}`);
+    }
+    if (options?.endDate) {
+      params.push(`end_date=${encodeURIComponent(options.endDate)}`);
+    }
+
+    endpoint += `?${params.join('&')}`;
+
+    const result = await makeQboApiCall(userId, realmId, endpoint);
+    return result;
+  } catch (error) {
+    console.error('Error fetching profit and loss detail report:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get general ledger report from QBO, optionally limited to specific account IDs
+ */
+export async function getGeneralLedgerReport(userId: string, realmId: string | undefined, options?: {
+  startDate?: string;
+  endDate?: string;
+  accountIds?: string[];
+  columns?: string;
+}) {
+  try {
+    const { realmId: actualRealmId } = await getQboApiClient(userId, realmId);
+    let endpoint = `/v3/company/${encodeURIComponent(actualRealmId)}/reports/GeneralLedger`;
+
+    const params: string[] = ['minorversion=75'];
+    if (options?.startDate) {
+      params.push(`start_date=${encodeURIComponent(options.startDate)}`);
+    }
+    if (options?.endDate) {
+      params.push(`end_date=${encodeURIComponent(options.endDate)}`);
+    }
+    if (options?.accountIds && options.accountIds.length > 0) {
+      params.push(`account=${encodeURIComponent(options.accountIds.join(','))}`);
+    }
+    if (options?.columns) {
+      params.push(`columns=${encodeURIComponent(options.columns)}`);
+    }
+
+    endpoint += `?${params.join('&')}`;
+
+    const result = await makeQboApiCall(userId, realmId, endpoint);
+    return result;
+  } catch (error) {
+    console.error('Error fetching general ledger report:', error);
+    throw error;
+  }
+}
+
 /**
  * Get sales report from QBO
  */
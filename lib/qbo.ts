@@ -4,6 +4,8 @@
 const OAuthClient = require('intuit-oauth');
 
 import { prisma } from './db';
+import { decryptTokenFields, encryptTokenFields } from './token-crypto';
+import { recordRefreshFailure, runRefreshOnce } from './token-health';
 
 type IntuitEnvironment = 'sandbox' | 'production';
 
@@ -106,6 +108,13 @@ export async function saveTokenToDatabase(token: QboToken, userId: string): Prom
     throw new Error('RealmId is required to save QBO token');
   }
 
+  // Tokens are encrypted at rest
+  const encrypted = encryptTokenFields({
+    accessToken: token.access_token,
+    refreshToken: token.refresh_token,
+    idToken: token.id_token || null,
+  });
+
   await prisma.qboToken.upsert({
     where: {
       userId_realmId: {
@@ -115,26 +124,30 @@ export async function saveTokenToDatabase(token: QboToken, userId: string): Prom
     },
     update: {
       tokenType: token.token_type,
-      accessToken: token.access_token,
-      refreshToken: token.refresh_token,
+      accessToken: encrypted.accessToken,
+      refreshToken: encrypted.refreshToken,
       expiresIn: expiresInMs,
       refreshTokenExpiresIn: refreshExpiresInMs,
-      idToken: token.id_token || null,
+      idToken: encrypted.idToken,
       accessTokenExpiresAt,
       refreshTokenExpiresAt,
+      healthStatus: 'ok',
+      lastRefreshError: null,
+      lastRefreshedAt: now,
       updatedAt: now,
     },
     create: {
       userId,
       realmId: token.realmId,
       tokenType: token.token_type,
-      accessToken: token.access_token,
-      refreshToken: token.refresh_token,
+      accessToken: encrypted.accessToken,
+      refreshToken: encrypted.refreshToken,
       expiresIn: expiresInMs,
       refreshTokenExpiresIn: refreshExpiresInMs,
-      idToken: token.id_token || null,
+      idToken: encrypted.idToken,
       accessTokenExpiresAt,
       refreshTokenExpiresAt,
+      lastRefreshedAt: now,
     },
   });
 }
@@ -163,6 +176,8 @@ export async function getTokenFromDatabase(userId: string, realmId?: string): Pr
     return null;
   }
 
+  qboToken = decryptTokenFields(qboToken);
+
   return {
     realmId: qboToken.realmId,
     token_type: qboToken.tokenType,
@@ -212,11 +227,25 @@ export async function refreshTokenIfNeeded(userId: string, realmId?: string): Pr
     return await getTokenFromDatabase(userId, realmId);
   }
 
+  return await refreshToken(userId, realmId);
+}
+
+/**
+ * Exchange the stored refresh token for a new token pair, regardless of
+ * whether the access token has expired yet
+ */
+export async function refreshToken(userId: string, realmId?: string): Promise<QboToken> {
   const currentToken = await getTokenFromDatabase(userId, realmId);
   if (!currentToken?.refresh_token) {
     throw new Error('No refresh token available');
   }
 
+  return runRefreshOnce(`QBO:${userId}:${currentToken.realmId}`, () =>
+    exchangeRefreshToken(userId, currentToken)
+  );
+}
+
+async function exchangeRefreshToken(userId: string, currentToken: QboToken): Promise<QboToken> {
   const oauthClient = createOAuthClient();
   oauthClient.setToken(currentToken);
 
@@ -228,6 +257,9 @@ export async function refreshTokenIfNeeded(userId: string, realmId?: string): Pr
     await saveTokenToDatabase(mergedToken, userId);
     return mergedToken;
   } catch (error) {
+    if (currentToken.realmId) {
+      await recordRefreshFailure('QBO', userId, currentToken.realmId, error, currentToken.refresh_token);
+    }
     throw new Error(`Token refresh failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
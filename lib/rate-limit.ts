@@ -0,0 +1,270 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { AccountingService } from '@/lib/accounting';
+
+/*
+ * Per-organisation rate limiter for Xero and QBO API calls.
+ *
+ * Every call for a Xero tenant or QBO realm waits for a slot in that
+ * organisation's limiter, which combines token buckets sized to the vendor's
+ * published limits with a cap on concurrent calls. Waiting calls are served by
+ * priority (interactive chat first, background jobs last), then in arrival
+ * order. A 429 pauses the whole organisation for the advertised Retry-After
+ * (or a jittered backoff) before the call is retried.
+ */
+
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  interactive: 0,
+  normal: 1,
+  background: 2,
+};
+
+interface BucketLimit {
+  capacity: number;
+  windowMs: number;
+}
+
+interface VendorLimits {
+  buckets: BucketLimit[];
+  maxConcurrent: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const VENDOR_LIMITS: Record<AccountingService, VendorLimits> = {
+  // Xero: 60 calls a minute, 5,000 a day and 5 concurrent calls per tenant
+  XERO: {
+    buckets: [
+      { capacity: 60, windowMs: MINUTE_MS },
+      { capacity: 5000, windowMs: DAY_MS },
+    ],
+    maxConcurrent: 5,
+  },
+  // QBO: 500 requests a minute and 10 concurrent requests per realm
+  QBO: {
+    buckets: [{ capacity: 500, windowMs: MINUTE_MS }],
+    maxConcurrent: 10,
+  },
+};
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30 * 1000;
+// Longer Retry-After values (e.g. Xero's daily limit) fail the call instead of waiting
+const MAX_RETRY_WAIT_MS = 60 * 1000;
+
+interface TokenBucket extends BucketLimit {
+  tokens: number;
+  refilledAt: number;
+}
+
+interface Waiter {
+  rank: number;
+  seq: number;
+  resolve: () => void;
+}
+
+interface Limiter {
+  buckets: TokenBucket[];
+  maxConcurrent: number;
+  active: number;
+  queue: Waiter[];
+  pausedUntil: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const limiters = new Map<string, Limiter>();
+const priorityStorage = new AsyncLocalStorage<RequestPriority>();
+let nextSeq = 0;
+
+function getLimiter(service: AccountingService, organisationId: string): Limiter {
+  const key = `${service}:${organisationId}`;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    const limits = VENDOR_LIMITS[service];
+    const now = Date.now();
+    limiter = {
+      buckets: limits.buckets.map((bucket) => ({ ...bucket, tokens: bucket.capacity, refilledAt: now })),
+      maxConcurrent: limits.maxConcurrent,
+      active: 0,
+      queue: [],
+      pausedUntil: 0,
+      timer: null,
+    };
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+function refill(bucket: TokenBucket, now: number): void {
+  const elapsed = now - bucket.refilledAt;
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (elapsed * bucket.capacity) / bucket.windowMs);
+  bucket.refilledAt = now;
+}
+
+/**
+ * Milliseconds until every bucket has a whole token available
+ */
+function msUntilToken(limiter: Limiter, now: number): number {
+  let wait = 0;
+  for (const bucket of limiter.buckets) {
+    refill(bucket, now);
+    if (bucket.tokens < 1) {
+      wait = Math.max(wait, Math.ceil(((1 - bucket.tokens) * bucket.windowMs) / bucket.capacity));
+    }
+  }
+  return wait;
+}
+
+/**
+ * Hand out slots to queued calls, highest priority first, until the limiter
+ * runs out of tokens or concurrency
+ */
+function drain(limiter: Limiter): void {
+  if (limiter.timer) {
+    return;
+  }
+
+  while (limiter.queue.length > 0 && limiter.active < limiter.maxConcurrent) {
+    const now = Date.now();
+    const wait = Math.max(limiter.pausedUntil - now, msUntilToken(limiter, now));
+    if (wait > 0) {
+      limiter.timer = setTimeout(() => {
+        limiter.timer = null;
+        drain(limiter);
+      }, wait);
+      return;
+    }
+
+    for (const bucket of limiter.buckets) {
+      bucket.tokens -= 1;
+    }
+    limiter.active++;
+
+    let next = 0;
+    for (let i = 1; i < limiter.queue.length; i++) {
+      const waiter = limiter.queue[i];
+      const best = limiter.queue[next];
+      if (waiter.rank < best.rank || (waiter.rank === best.rank && waiter.seq < best.seq)) {
+        next = i;
+      }
+    }
+    limiter.queue.splice(next, 1)[0].resolve();
+  }
+}
+
+function acquire(limiter: Limiter, priority: RequestPriority): Promise<void> {
+  return new Promise((resolve) => {
+    limiter.queue.push({ rank: PRIORITY_RANK[priority], seq: nextSeq++, resolve });
+    drain(limiter);
+  });
+}
+
+function release(limiter: Limiter): void {
+  limiter.active--;
+  drain(limiter);
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of
+ * BASE_BACKOFF_MS * 2^attempt, capped at MAX_BACKOFF_MS
+ */
+export function backoffDelayMs(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * How long to wait before retrying a rate limited request: the Retry-After
+ * value when the server sent one, otherwise a jittered backoff
+ */
+export function retryDelayMs(retryAfter: string | null | undefined, attempt: number): number {
+  return parseRetryAfter(retryAfter) ?? backoffDelayMs(attempt);
+}
+
+/**
+ * Detect a rate limit error from xero-node (which rejects with a JSON string
+ * or `{ response }`) or intuit-oauth (OAuthError with RATE_LIMIT_EXCEEDED).
+ * Returns the Retry-After header when present, or null for other errors.
+ */
+function getRateLimitError(error: unknown): { retryAfter: string | null } | null {
+  let details: any = error;
+  if (typeof error === 'string') {
+    try {
+      details = JSON.parse(error);
+    } catch {
+      return null;
+    }
+  }
+
+  const status = details?.response?.statusCode ?? details?.response?.status ?? details?.status;
+  if (status !== 429 && details?.code !== 'RATE_LIMIT_EXCEEDED') {
+    return null;
+  }
+
+  const retryAfter = details?.response?.headers?.['retry-after'];
+  return { retryAfter: retryAfter ? String(retryAfter) : null };
+}
+
+/**
+ * Run `fn` with the given priority for every provider call it makes
+ */
+export function runWithPriority<T>(priority: RequestPriority, fn: () => T): T {
+  return priorityStorage.run(priority, fn);
+}
+
+/**
+ * Run a Xero or QBO API call through the organisation's rate limiter,
+ * retrying on 429. Priority defaults to the one set by runWithPriority, or
+ * "normal" (dashboard requests).
+ */
+export async function scheduleProviderCall<T>(
+  service: AccountingService,
+  organisationId: string,
+  call: () => Promise<T>,
+  priority: RequestPriority = priorityStorage.getStore() ?? 'normal'
+): Promise<T> {
+  const limiter = getLimiter(service, organisationId);
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(limiter, priority);
+
+    try {
+      return await call();
+    } catch (error) {
+      const rateLimit = getRateLimitError(error);
+      if (!rateLimit) {
+        throw error;
+      }
+
+      // Hold back every queued call for this organisation, not just this one;
+      // the retry waits in the queue until the pause is over
+      const waitMs = retryDelayMs(rateLimit.retryAfter, attempt);
+      limiter.pausedUntil = Math.max(limiter.pausedUntil, Date.now() + waitMs);
+
+      if (attempt >= MAX_RETRIES || waitMs > MAX_RETRY_WAIT_MS) {
+        throw error;
+      }
+      console.warn(`${service} rate limit hit for ${organisationId}, retrying in ${waitMs}ms`);
+    } finally {
+      release(limiter);
+    }
+  }
+}
@@ -0,0 +1,529 @@
+import fs from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { Workbook, Worksheet } from 'exceljs';
+import { prisma } from './db';
+import {
+  AccountingProvider,
+  BreakdownItem,
+  DateRange,
+  combineBreakdowns,
+  getBaseCurrency,
+  monthsInRange,
+  previousPeriodRange,
+  toDateString,
+} from './accounting';
+import { formatCompactCurrency, formatCurrency } from './currency';
+import { getCashFlowTrend, getDashboardSummary, getMonthlyTrend, getPreviousPeriodBreakdown } from './dashboard';
+
+/*
+ * Server-side rendering of the dashboard export: a branded PDF report for
+ * client packs and an XLSX workbook with one sheet per dataset. Both are
+ * built in-process from the same dashboard payload, in the organisation's
+ * base currency.
+ */
+
+export interface ExportTrendMonth {
+  month: string;
+  revenue: number;
+  expenses: number;
+  costOfGoodsSold?: number;
+}
+
+export interface ExportCashFlowMonth {
+  month: string;
+  cashIn: number;
+  cashOut: number;
+}
+
+export interface DashboardExportData {
+  organisationName?: string;
+  currency: string;
+  timeframe: { from: string; to: string; type: string };
+  kpis: {
+    revenue: number;
+    expenses: number;
+    costOfGoodsSold?: number;
+    netProfit: number;
+    netMargin: number;
+    cashBalance: number;
+    cashRunway?: number | null;
+  };
+  trend: ExportTrendMonth[];
+  /** Every cost line for the period, including cost of goods sold */
+  expenseBreakdown: BreakdownItem[];
+  previousPeriod: BreakdownItem[];
+  cashFlow: ExportCashFlowMonth[];
+  /** Latest stored AI insight (markdown) */
+  insight?: string | null;
+  generatedAt: Date;
+}
+
+export type ReportFormat = 'pdf' | 'xlsx';
+
+export interface RenderedReport {
+  content: Buffer;
+  contentType: string;
+  extension: ReportFormat;
+}
+
+export interface ExpenseComparisonRow {
+  name: string;
+  current: number;
+  percentage: number;
+  previous: number | null;
+  /** Percentage change on the previous period; null when there is nothing to compare */
+  change: number | null;
+}
+
+const BRAND_DARK = '#1D1D1D';
+const BRAND_ACCENT = '#E8E7BB';
+const TEXT_MUTED = '#6B7280';
+const REVENUE_COLOR = '#22C55E';
+const EXPENSE_COLOR = '#EF4444';
+const TILE_FILL = '#F5F5EE';
+
+// Each cash flow month is a separate provider call
+const MAX_CASH_FLOW_MONTHS = 24;
+
+const PAGE_MARGIN = 40;
+const FOOTER_HEIGHT = 24;
+const BREAKDOWN_ROWS = 10;
+
+/**
+ * Gather everything the PDF and workbook show for a resolved period. The
+ * latest stored AI insight is included when the user has insights enabled.
+ * Throws when the period's P&L or balance sheet, or any month of the trend or
+ * cash flow, can't be fetched: a report with zeros standing in for missing
+ * months is worse than none.
+ */
+export async function collectDashboardExportData(
+  userId: string,
+  provider: AccountingProvider,
+  timeframe: string,
+  range: DateRange
+): Promise<DashboardExportData> {
+  // Long custom ranges keep the most recent months of cash flow
+  const months = monthsInRange(range.fromDate, range.toDate);
+  const cashFlowStart = months.length > MAX_CASH_FLOW_MONTHS
+    ? toDateString(months[months.length - MAX_CASH_FLOW_MONTHS].start)
+    : range.fromDate;
+
+  const summary = await getDashboardSummary(provider, range);
+  const [currency, trend, previousPeriod, cashFlow, user] = await Promise.all([
+    getBaseCurrency(provider),
+    getMonthlyTrend(provider, range.fromDate, range.toDate, { strict: true }),
+    getPreviousPeriodBreakdown(provider, previousPeriodRange(timeframe, range)),
+    getCashFlowTrend(provider, { fromDate: cashFlowStart, toDate: range.toDate }, { strict: true }),
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        enableAiFinancialInsights: true,
+        // Only an insight written for this organisation
+        financialInsights: {
+          where: { service: provider.service, organisationId: provider.organisationId },
+          select: { insight: true },
+          take: 1,
+        },
+      },
+    }),
+  ]);
+
+  // Same cost lines as the dashboard's category highlights, cost of goods sold included
+  const expenseBreakdown = trend.some((month) => month.expenseBreakdown?.length)
+    ? combineBreakdowns(...trend.map((month) => month.expenseBreakdown))
+    : summary.expenseBreakdown;
+
+  return {
+    organisationName: summary.organisation?.name,
+    currency,
+    timeframe: { from: range.fromDate, to: range.toDate, type: timeframe },
+    kpis: summary.kpis,
+    trend: trend.map(({ month, revenue, expenses, costOfGoodsSold }) => ({ month, revenue, expenses, costOfGoodsSold })),
+    expenseBreakdown,
+    previousPeriod,
+    cashFlow,
+    insight: user?.enableAiFinancialInsights ? user.financialInsights[0]?.insight || null : null,
+    generatedAt: new Date(),
+  };
+}
+
+/**
+ * Current period cost lines next to the same line (matched on name) in the
+ * previous period, largest first
+ */
+export function expenseComparison(data: DashboardExportData): ExpenseComparisonRow[] {
+  const previous = new Map(data.previousPeriod.map((item) => [item.name.toLowerCase(), item.value]));
+  return [...data.expenseBreakdown]
+    .sort((a, b) => b.value - a.value)
+    .map((item) => {
+      const previousValue = previous.get(item.name.toLowerCase()) ?? null;
+      return {
+        name: item.name,
+        current: item.value,
+        percentage: item.percentage,
+        previous: previousValue,
+        change: previousValue ? ((item.value - previousValue) / previousValue) * 100 : null,
+      };
+    });
+}
+
+function formatPeriod(timeframe: DashboardExportData['timeframe']): string {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+  return timeframe.from && timeframe.to ? `${format(timeframe.from)} - ${format(timeframe.to)}` : '';
+}
+
+// Markdown from the insights prompt flattened to headings, bullets and paragraphs
+function insightBlocks(markdown: string): Array<{ kind: 'heading' | 'bullet' | 'paragraph'; text: string }> {
+  return markdown
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const text = line.replace(/\*\*|__|`/g, '');
+      if (/^#{1,6}\s/.test(text)) {
+        return { kind: 'heading' as const, text: text.replace(/^#+\s*/, '') };
+      }
+      if (/^([-*+]|\d+\.)\s/.test(text)) {
+        return { kind: 'bullet' as const, text: text.replace(/^([-*+]|\d+\.)\s*/, '') };
+      }
+      return { kind: 'paragraph' as const, text };
+    });
+}
+
+// White logo for the dark header band; skipped when public/ is not deployed
+function logoPath(): string | null {
+  const file = path.join(process.cwd(), 'public', 'logo_long_white.png');
+  return fs.existsSync(file) ? file : null;
+}
+
+/**
+ * Render the dashboard as an A4 PDF: KPIs, revenue vs expenses trend,
+ * expense breakdown, previous-period comparison and the AI insight
+ */
+export function buildDashboardPdf(data: DashboardExportData): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, bufferPages: true });
+  const chunks: Buffer[] = [];
+  const result = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const money = (value: number) => formatCurrency(value || 0, data.currency, { decimals: 0 });
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const bottom = () => doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT;
+
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > bottom()) {
+      doc.addPage();
+    }
+  };
+
+  // Keeps a title on the same page as the first `bodyHeight` points of its section
+  const sectionTitle = (title: string, subtitle?: string, bodyHeight = 40) => {
+    ensureSpace(40 + bodyHeight);
+    doc.moveDown(1);
+    doc.font('Helvetica-Bold').fontSize(13).fillColor(BRAND_DARK).text(title, PAGE_MARGIN, doc.y);
+    if (subtitle) {
+      doc.font('Helvetica').fontSize(8).fillColor(TEXT_MUTED).text(subtitle);
+    }
+    doc.moveDown(0.5);
+  };
+
+  // Header band
+  doc.rect(0, 0, doc.page.width, 96).fill(BRAND_DARK);
+  const logo = logoPath();
+  if (logo) {
+    doc.image(logo, PAGE_MARGIN, 34, { width: 140 });
+  }
+  doc.font('Helvetica-Bold').fontSize(18).fillColor(BRAND_ACCENT)
+    .text('Financial Report', PAGE_MARGIN, 26, { width, align: 'right' });
+  doc.font('Helvetica').fontSize(9).fillColor('#FFFFFF')
+    .text(data.organisationName || '', PAGE_MARGIN, 50, { width, align: 'right' })
+    .text(`${formatPeriod(data.timeframe)}  |  ${data.currency}`, PAGE_MARGIN, 64, { width, align: 'right' });
+  doc.y = 96 + 12;
+
+  // KPI tiles, three per row
+  sectionTitle('Key figures');
+  const tiles: Array<{ label: string; value: string; note?: string }> = [
+    { label: 'Revenue', value: money(data.kpis.revenue) },
+    { label: 'Operating expenses', value: money(data.kpis.expenses) },
+    { label: 'Cost of goods sold', value: money(data.kpis.costOfGoodsSold || 0) },
+    { label: 'Net profit', value: money(data.kpis.netProfit) },
+    { label: 'Net margin', value: `${(data.kpis.netMargin || 0).toFixed(1)}%` },
+    {
+      label: 'Cash balance',
+      value: money(data.kpis.cashBalance),
+      note: data.kpis.cashRunway ? `${data.kpis.cashRunway.toFixed(1)} months runway` : undefined,
+    },
+  ];
+  const gap = 10;
+  const tileWidth = (width - gap * 2) / 3;
+  const tileHeight = 56;
+  const tilesTop = doc.y;
+  tiles.forEach((tile, index) => {
+    const x = PAGE_MARGIN + (index % 3) * (tileWidth + gap);
+    const y = tilesTop + Math.floor(index / 3) * (tileHeight + gap);
+    doc.roundedRect(x, y, tileWidth, tileHeight, 6).fill(TILE_FILL);
+    doc.font('Helvetica-Bold').fontSize(7).fillColor(TEXT_MUTED)
+      .text(tile.label.toUpperCase(), x + 10, y + 10, { width: tileWidth - 20, characterSpacing: 0.5 });
+    doc.font('Helvetica-Bold').fontSize(15).fillColor(BRAND_DARK)
+      .text(tile.value, x + 10, y + 23, { width: tileWidth - 20 });
+    if (tile.note) {
+      doc.font('Helvetica').fontSize(7).fillColor(TEXT_MUTED).text(tile.note, x + 10, y + 42, { width: tileWidth - 20 });
+    }
+  });
+  doc.y = tilesTop + Math.ceil(tiles.length / 3) * (tileHeight + gap);
+
+  // Revenue vs expenses trend
+  sectionTitle('Revenue vs expenses', 'Expenses include cost of goods sold', 210);
+  if (data.trend.length === 0) {
+    doc.font('Helvetica').fontSize(9).fillColor(TEXT_MUTED).text('No monthly data for this period.');
+  } else {
+    const chartHeight = 170;
+    ensureSpace(chartHeight + 40);
+    const axisWidth = 48;
+    const chartTop = doc.y;
+    const chartLeft = PAGE_MARGIN + axisWidth;
+    const chartWidth = width - axisWidth;
+    const months = data.trend.map((month) => ({
+      label: month.month,
+      revenue: month.revenue,
+      expenses: month.expenses + (month.costOfGoodsSold || 0),
+    }));
+    const maxValue = Math.max(...months.flatMap((month) => [month.revenue, month.expenses]), 1);
+
+    for (let step = 0; step <= 4; step++) {
+      const y = chartTop + chartHeight - (chartHeight * step) / 4;
+      doc.moveTo(chartLeft, y).lineTo(chartLeft + chartWidth, y).lineWidth(0.5).strokeColor('#E5E7EB').stroke();
+      doc.font('Helvetica').fontSize(7).fillColor(TEXT_MUTED)
+        .text(formatCompactCurrency((maxValue * step) / 4, data.currency), PAGE_MARGIN, y - 4, { width: axisWidth - 6, align: 'right' });
+    }
+
+    const slot = chartWidth / months.length;
+    const barWidth = Math.min(14, (slot - 6) / 2);
+    months.forEach((month, index) => {
+      const center = chartLeft + slot * index + slot / 2;
+      const revenueHeight = (Math.max(month.revenue, 0) / maxValue) * chartHeight;
+      const expenseHeight = (Math.max(month.expenses, 0) / maxValue) * chartHeight;
+      doc.rect(center - barWidth, chartTop + chartHeight - revenueHeight, barWidth, revenueHeight).fill(REVENUE_COLOR);
+      doc.rect(center, chartTop + chartHeight - expenseHeight, barWidth, expenseHeight).fill(EXPENSE_COLOR);
+      doc.font('Helvetica').fontSize(7).fillColor(TEXT_MUTED)
+        .text(month.label, center - slot / 2, chartTop + chartHeight + 4, { width: slot, align: 'center' });
+    });
+
+    const legendY = chartTop + chartHeight + 18;
+    doc.rect(chartLeft, legendY, 8, 8).fill(REVENUE_COLOR);
+    doc.font('Helvetica').fontSize(8).fillColor(BRAND_DARK).text('Revenue', chartLeft + 12, legendY);
+    doc.rect(chartLeft + 70, legendY, 8, 8).fill(EXPENSE_COLOR);
+    doc.font('Helvetica').fontSize(8).fillColor(BRAND_DARK).text('Expenses', chartLeft + 82, legendY);
+    doc.y = legendY + 14;
+  }
+
+  // Expense breakdown
+  const comparison = expenseComparison(data);
+  sectionTitle('Expense breakdown', `Top ${BREAKDOWN_ROWS} cost lines for the period`);
+  if (comparison.length === 0) {
+    doc.font('Helvetica').fontSize(9).fillColor(TEXT_MUTED).text('No expenses recorded for this period.');
+  } else {
+    const rows = comparison.slice(0, BREAKDOWN_ROWS);
+    const nameWidth = 170;
+    const amountWidth = 80;
+    const percentWidth = 44;
+    const barMax = width - nameWidth - amountWidth - percentWidth - 16;
+    const largest = Math.max(rows[0].current, 1);
+    for (const row of rows) {
+      ensureSpace(18);
+      const y = doc.y;
+      doc.font('Helvetica').fontSize(8).fillColor(BRAND_DARK)
+        .text(row.name, PAGE_MARGIN, y + 2, { width: nameWidth - 8, height: 10, ellipsis: true });
+      doc.roundedRect(PAGE_MARGIN + nameWidth, y + 1, Math.max((row.current / largest) * barMax, 2), 10, 2).fill(BRAND_DARK);
+      doc.font('Helvetica-Bold').fontSize(8).fillColor(BRAND_DARK)
+        .text(money(row.current), PAGE_MARGIN + nameWidth + barMax + 8, y + 2, { width: amountWidth, align: 'right' });
+      doc.font('Helvetica').fontSize(8).fillColor(TEXT_MUTED)
+        .text(`${row.percentage.toFixed(1)}%`, PAGE_MARGIN + width - percentWidth, y + 2, { width: percentWidth, align: 'right' });
+      doc.y = y + 16;
+    }
+  }
+
+  // Previous-period comparison
+  sectionTitle('Compared with the previous period', 'Change per cost line; increases are shown in red', 70);
+  const compared = comparison.filter((row) => row.previous !== null).slice(0, BREAKDOWN_ROWS);
+  if (compared.length === 0) {
+    doc.font('Helvetica').fontSize(9).fillColor(TEXT_MUTED).text('No previous period data to compare.');
+  } else {
+    const columns = [
+      { label: 'Category', width: width - 270, align: 'left' as const },
+      { label: 'This period', width: 90, align: 'right' as const },
+      { label: 'Previous', width: 90, align: 'right' as const },
+      { label: 'Change', width: 90, align: 'right' as const },
+    ];
+    const drawRow = (cells: string[], options: { bold?: boolean; color?: string[] } = {}) => {
+      ensureSpace(18);
+      const y = doc.y;
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, index) => {
+        doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8)
+          .fillColor(options.color?.[index] || BRAND_DARK)
+          .text(cell, x, y, { width: columns[index].width, align: columns[index].align, height: 10, ellipsis: true });
+        x += columns[index].width;
+      });
+      doc.moveTo(PAGE_MARGIN, y + 13).lineTo(PAGE_MARGIN + width, y + 13).lineWidth(0.5).strokeColor('#E5E7EB').stroke();
+      doc.y = y + 17;
+    };
+
+    drawRow(columns.map((column) => column.label.toUpperCase()), { bold: true, color: columns.map(() => TEXT_MUTED) });
+    for (const row of compared) {
+      const change = row.change ?? 0;
+      drawRow(
+        [row.name, money(row.current), money(row.previous || 0), `${change > 0 ? '+' : ''}${change.toFixed(1)}%`],
+        { color: [BRAND_DARK, BRAND_DARK, TEXT_MUTED, change > 0 ? EXPENSE_COLOR : change < 0 ? REVENUE_COLOR : TEXT_MUTED] }
+      );
+    }
+  }
+
+  // AI insight
+  if (data.insight) {
+    sectionTitle('Insights');
+    for (const block of insightBlocks(data.insight)) {
+      ensureSpace(24);
+      if (block.kind === 'heading') {
+        doc.moveDown(0.3);
+        doc.font('Helvetica-Bold').fontSize(10).fillColor(BRAND_DARK).text(block.text, PAGE_MARGIN, doc.y, { width });
+      } else if (block.kind === 'bullet') {
+        doc.font('Helvetica').fontSize(9).fillColor(BRAND_DARK)
+          .text(`•  ${block.text}`, PAGE_MARGIN + 8, doc.y, { width: width - 8 });
+      } else {
+        doc.font('Helvetica').fontSize(9).fillColor(BRAND_DARK).text(block.text, PAGE_MARGIN, doc.y, { width });
+      }
+      doc.moveDown(0.3);
+    }
+  }
+
+  // Footer on every page
+  const generated = data.generatedAt.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+  const { start, count } = doc.bufferedPageRange();
+  for (let page = start; page < start + count; page++) {
+    doc.switchToPage(page);
+    const y = doc.page.height - PAGE_MARGIN - 10;
+    doc.moveTo(PAGE_MARGIN, y - 6).lineTo(PAGE_MARGIN + width, y - 6).lineWidth(0.5).strokeColor(BRAND_ACCENT).stroke();
+    // Writing inside the bottom margin would otherwise start a new page
+    const margin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(7).fillColor(TEXT_MUTED)
+      .text(`Generated ${generated}`, PAGE_MARGIN, y, { width: width / 2, lineBreak: false })
+      .text(`Page ${page - start + 1} of ${count}`, PAGE_MARGIN + width / 2, y, { width: width / 2, align: 'right', lineBreak: false });
+    doc.page.margins.bottom = margin;
+  }
+
+  doc.end();
+  return result;
+}
+
+function addSheet(workbook: Workbook, name: string, columns: Array<{ header: string; key: string; width: number; money?: boolean; percent?: boolean }>): Worksheet {
+  const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: column.width,
+    style: column.money ? { numFmt: '#,##0.00;[Red]-#,##0.00' } : column.percent ? { numFmt: '0.0"%"' } : {},
+  }));
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: 'FF' + BRAND_ACCENT.slice(1) } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF' + BRAND_DARK.slice(1) } };
+  return sheet;
+}
+
+/**
+ * Render the dashboard as an XLSX workbook with KPIs, Monthly Trend,
+ * Expense Breakdown and Cash Flow sheets
+ */
+export async function buildDashboardWorkbook(data: DashboardExportData): Promise<Buffer> {
+  const workbook = new Workbook();
+  workbook.created = data.generatedAt;
+  workbook.title = `Financial report ${data.timeframe.from} to ${data.timeframe.to}`;
+  const amount = `Amount (${data.currency})`;
+
+  const kpis = addSheet(workbook, 'KPIs', [
+    { header: 'Metric', key: 'metric', width: 28 },
+    { header: 'Value', key: 'value', width: 20 },
+  ]);
+  const kpiRows: Array<[string, number | null | undefined, 'money' | 'percent' | 'months']> = [
+    [`Revenue (${data.currency})`, data.kpis.revenue, 'money'],
+    [`Operating expenses (${data.currency})`, data.kpis.expenses, 'money'],
+    [`Cost of goods sold (${data.currency})`, data.kpis.costOfGoodsSold || 0, 'money'],
+    [`Net profit (${data.currency})`, data.kpis.netProfit, 'money'],
+    ['Net margin', data.kpis.netMargin, 'percent'],
+    [`Cash balance (${data.currency})`, data.kpis.cashBalance, 'money'],
+    ['Cash runway (months)', data.kpis.cashRunway, 'months'],
+  ];
+  for (const [metric, value, kind] of kpiRows) {
+    const row = kpis.addRow({ metric, value: value ?? null });
+    row.getCell('value').numFmt = kind === 'money' ? '#,##0.00;[Red]-#,##0.00' : kind === 'percent' ? '0.0"%"' : '0.0';
+  }
+  kpis.addRow({});
+  kpis.addRow({ metric: 'Organisation', value: data.organisationName || '' });
+  kpis.addRow({ metric: 'Period', value: `${data.timeframe.from} to ${data.timeframe.to}` });
+  kpis.addRow({ metric: 'Currency', value: data.currency });
+
+  const trend = addSheet(workbook, 'Monthly Trend', [
+    { header: 'Month', key: 'month', width: 12 },
+    { header: `Revenue (${data.currency})`, key: 'revenue', width: 18, money: true },
+    { header: `Operating expenses (${data.currency})`, key: 'expenses', width: 26, money: true },
+    { header: `Cost of goods sold (${data.currency})`, key: 'costOfGoodsSold', width: 26, money: true },
+    { header: `Net profit (${data.currency})`, key: 'netProfit', width: 18, money: true },
+  ]);
+  for (const month of data.trend) {
+    const costOfGoodsSold = month.costOfGoodsSold || 0;
+    trend.addRow({
+      month: month.month,
+      revenue: month.revenue,
+      expenses: month.expenses,
+      costOfGoodsSold,
+      netProfit: month.revenue - month.expenses - costOfGoodsSold,
+    });
+  }
+
+  const breakdown = addSheet(workbook, 'Expense Breakdown', [
+    { header: 'Category', key: 'name', width: 36 },
+    { header: amount, key: 'current', width: 18, money: true },
+    { header: '% of total', key: 'percentage', width: 12, percent: true },
+    { header: `Previous period (${data.currency})`, key: 'previous', width: 24, money: true },
+    { header: 'Change', key: 'change', width: 12, percent: true },
+  ]);
+  for (const row of expenseComparison(data)) {
+    breakdown.addRow(row);
+  }
+
+  const cashFlow = addSheet(workbook, 'Cash Flow', [
+    { header: 'Month', key: 'month', width: 12 },
+    { header: `Cash in (${data.currency})`, key: 'cashIn', width: 18, money: true },
+    { header: `Cash out (${data.currency})`, key: 'cashOut', width: 18, money: true },
+    { header: `Net (${data.currency})`, key: 'net', width: 18, money: true },
+  ]);
+  for (const month of data.cashFlow) {
+    cashFlow.addRow({ ...month, net: month.cashIn - month.cashOut });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return value === 'pdf' || value === 'xlsx';
+}
+
+/**
+ * Render the export in the requested file format
+ */
+export async function renderDashboardReport(data: DashboardExportData, format: ReportFormat): Promise<RenderedReport> {
+  if (format === 'pdf') {
+    return { content: await buildDashboardPdf(data), contentType: 'application/pdf', extension: 'pdf' };
+  }
+  return {
+    content: await buildDashboardWorkbook(data),
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  };
+}
@@ -0,0 +1,307 @@
+import { ReportRun, ReportSchedule } from '@prisma/client';
+import { prisma } from './db';
+import {
+  DateRange,
+  getAccountingProvider,
+  getFinancialYearEndMonth,
+  isAccountingService,
+  lastMonthRange,
+  resolveTimeframeRange,
+} from './accounting';
+import { formatCurrency } from './currency';
+import { sendEmail } from './email';
+import { collectDashboardExportData, isReportFormat, renderDashboardReport } from './report-export';
+
+/*
+ * Scheduled report delivery. Each schedule emails the dashboard export (PDF
+ * or XLSX) for one organisation to a list of recipients every week or month.
+ * A background job sends the schedules that are due; every attempt, whether
+ * scheduled or started by hand, is recorded as a run.
+ */
+
+export type ReportFrequency = 'weekly' | 'monthly';
+export type ScheduleTimeframe = 'LAST_MONTH' | 'MONTH' | 'QUARTER' | 'FYTD' | 'YEAR' | 'L12';
+export type ReportRunTrigger = 'scheduled' | 'manual';
+
+export const SCHEDULE_TIMEFRAMES: ScheduleTimeframe[] = ['LAST_MONTH', 'MONTH', 'QUARTER', 'FYTD', 'YEAR', 'L12'];
+
+export interface ReportScheduleInput {
+  name: string;
+  service: 'QBO' | 'XERO';
+  organisationId: string;
+  frequency: ReportFrequency;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  timeframe: ScheduleTimeframe;
+  format: 'pdf' | 'xlsx';
+  recipients: string[];
+  enabled: boolean;
+}
+
+export type ReportScheduleWithRuns = ReportSchedule & { runs: ReportRun[] };
+
+// Reports go out at this hour, server time
+const SEND_HOUR = 7;
+const MAX_RECIPIENTS = 20;
+const RUN_HISTORY_LIMIT = 10;
+const DEFAULT_INTERVAL_MINUTES = 15;
+// A run still marked as running after this long died with its process
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+
+let schedulerStarted = false;
+let running = false;
+
+/**
+ * Validate a create / update request body. Returns an error message for
+ * invalid input. Recipients may be an array or a comma, semicolon or
+ * newline separated string.
+ */
+export function validateScheduleInput(body: any): ReportScheduleInput | string {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return 'name is required';
+  }
+  if (!isAccountingService(body.service) || typeof body.organisationId !== 'string' || !body.organisationId) {
+    return 'service (QBO or XERO) and organisationId are required';
+  }
+  if (body.frequency !== 'weekly' && body.frequency !== 'monthly') {
+    return 'frequency must be weekly or monthly';
+  }
+
+  const dayOfWeek = body.frequency === 'weekly' ? Number(body.dayOfWeek) : null;
+  const dayOfMonth = body.frequency === 'monthly' ? Number(body.dayOfMonth) : null;
+  if (dayOfWeek !== null && !(Number.isInteger(dayOfWeek) && dayOfWeek >= 0 && dayOfWeek <= 6)) {
+    return 'dayOfWeek must be 0 (Sunday) to 6';
+  }
+  // Capped at 28 so every month has the day
+  if (dayOfMonth !== null && !(Number.isInteger(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 28)) {
+    return 'dayOfMonth must be 1 to 28';
+  }
+
+  if (!SCHEDULE_TIMEFRAMES.includes(body.timeframe)) {
+    return `timeframe must be one of ${SCHEDULE_TIMEFRAMES.join(', ')}`;
+  }
+  if (!isReportFormat(body.format)) {
+    return 'format must be pdf or xlsx';
+  }
+
+  const rawRecipients: unknown[] = Array.isArray(body.recipients)
+    ? body.recipients
+    : typeof body.recipients === 'string'
+      ? body.recipients.split(/[,;\n]/)
+      : [];
+  const recipients = Array.from(new Set(
+    rawRecipients.map((recipient) => String(recipient).trim().toLowerCase()).filter(Boolean)
+  ));
+  if (recipients.length === 0) {
+    return 'At least one recipient is required';
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    return `At most ${MAX_RECIPIENTS} recipients are allowed`;
+  }
+  const invalid = recipients.find((recipient) => !EMAIL_PATTERN.test(recipient));
+  if (invalid) {
+    return `${invalid} is not a valid email address`;
+  }
+
+  return {
+    name,
+    service: body.service,
+    organisationId: body.organisationId,
+    frequency: body.frequency,
+    dayOfWeek,
+    dayOfMonth,
+    timeframe: body.timeframe,
+    format: body.format,
+    recipients,
+    enabled: body.enabled !== false,
+  };
+}
+
+/**
+ * The first send time after `after`: SEND_HOUR on the schedule's weekday or
+ * day of the month
+ */
+export function nextRunDate(
+  schedule: Pick<ReportSchedule, 'frequency' | 'dayOfWeek' | 'dayOfMonth'>,
+  after: Date = new Date()
+): Date {
+  if (schedule.frequency === 'weekly') {
+    const candidate = new Date(after.getFullYear(), after.getMonth(), after.getDate(), SEND_HOUR);
+    candidate.setDate(candidate.getDate() + (((schedule.dayOfWeek ?? 1) - candidate.getDay() + 7) % 7));
+    if (candidate <= after) {
+      candidate.setDate(candidate.getDate() + 7);
+    }
+    return candidate;
+  }
+
+  const day = schedule.dayOfMonth ?? 1;
+  const candidate = new Date(after.getFullYear(), after.getMonth(), day, SEND_HOUR);
+  return candidate > after ? candidate : new Date(after.getFullYear(), after.getMonth() + 1, day, SEND_HOUR);
+}
+
+/**
+ * The reporting period a schedule covers when it runs: the previous
+ * calendar month for LAST_MONTH, otherwise the dashboard timeframe as of today
+ */
+export function resolveScheduleRange(timeframe: string, yearEndMonth: number): DateRange {
+  return timeframe === 'LAST_MONTH' ? lastMonthRange() : resolveTimeframeRange(timeframe, null, null, yearEndMonth);
+}
+
+/**
+ * The user's schedules with their most recent runs, newest first
+ */
+export async function listReportSchedules(userId: string): Promise<ReportScheduleWithRuns[]> {
+  return prisma.reportSchedule.findMany({
+    where: { userId },
+    include: { runs: { orderBy: { startedAt: 'desc' }, take: RUN_HISTORY_LIMIT } },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * A schedule belonging to the user, or null
+ */
+export async function findReportSchedule(id: string, userId: string): Promise<ReportSchedule | null> {
+  return prisma.reportSchedule.findFirst({ where: { id, userId } });
+}
+
+/**
+ * Build the schedule's report and email it, recording the attempt as a run.
+ * Failures are recorded on the run rather than thrown.
+ */
+export async function runReportSchedule(schedule: ReportSchedule, trigger: ReportRunTrigger): Promise<ReportRun> {
+  const run = await prisma.reportRun.create({
+    data: { scheduleId: schedule.id, trigger, recipients: schedule.recipients },
+  });
+
+  let error: string | null = null;
+  try {
+    const provider = await getAccountingProvider(schedule.userId, schedule.service, schedule.organisationId);
+    if (!provider) {
+      throw new Error('The organisation is no longer connected');
+    }
+    if (!isReportFormat(schedule.format)) {
+      throw new Error(`Unsupported report format ${schedule.format}`);
+    }
+
+    const range = resolveScheduleRange(schedule.timeframe, await getFinancialYearEndMonth(provider));
+    const data = await collectDashboardExportData(schedule.userId, provider, schedule.timeframe, range);
+    const report = await renderDashboardReport(data, schedule.format);
+    const money = (value: number) => formatCurrency(value || 0, data.currency, { decimals: 0 });
+    const organisation = data.organisationName || 'your organisation';
+
+    await sendEmail({
+      to: schedule.recipients,
+      subject: `${schedule.name}: ${organisation}, ${range.fromDate} to ${range.toDate}`,
+      text: [
+        `${schedule.name} for ${organisation}, ${range.fromDate} to ${range.toDate}.`,
+        '',
+        `Revenue: ${money(data.kpis.revenue)}`,
+        `Expenses: ${money(data.kpis.expenses + (data.kpis.costOfGoodsSold || 0))}`,
+        `Net profit: ${money(data.kpis.netProfit)}`,
+        `Cash balance: ${money(data.kpis.cashBalance)}`,
+        '',
+        'The full report is attached.',
+      ].join('\n'),
+      attachments: [
+        {
+          filename: `financial-report-${range.fromDate}-to-${range.toDate}.${report.extension}`,
+          content: report.content,
+          contentType: report.contentType,
+        },
+      ],
+    });
+  } catch (err) {
+    console.error(`Report schedule ${schedule.id} failed:`, err);
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const finishedAt = new Date();
+  await prisma.reportSchedule.update({ where: { id: schedule.id }, data: { lastRunAt: finishedAt } });
+  return prisma.reportRun.update({
+    where: { id: run.id },
+    data: { status: error ? 'failed' : 'sent', error, finishedAt },
+  });
+}
+
+export interface ReportDeliveryResult {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Send every enabled schedule that is due. A schedule that was missed while
+ * the server was down is sent once and then resumes its normal rhythm.
+ */
+export async function sendDueReports(): Promise<ReportDeliveryResult> {
+  const result: ReportDeliveryResult = { sent: 0, failed: 0 };
+  const now = new Date();
+
+  await prisma.reportRun.updateMany({
+    where: { status: 'running', startedAt: { lt: new Date(now.getTime() - STALE_RUN_MS) } },
+    data: { status: 'failed', error: 'Interrupted', finishedAt: now },
+  });
+
+  const due = await prisma.reportSchedule.findMany({
+    where: { enabled: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: 'asc' },
+  });
+
+  for (const schedule of due) {
+    // Claim the schedule by moving its next run on, so another app instance
+    // picking up the same tick doesn't send it too
+    const claimed = await prisma.reportSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt: nextRunDate(schedule, now) },
+    });
+    if (claimed.count === 0) {
+      continue;
+    }
+
+    const run = await runReportSchedule(schedule, 'scheduled');
+    if (run.status === 'sent') {
+      result.sent++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run sendDueReports on startup and then every REPORT_SCHEDULE_INTERVAL_MINUTES
+ * (default 15). Safe to call more than once per process.
+ */
+export function startReportScheduler(): void {
+  if (schedulerStarted) {
+    return;
+  }
+  schedulerStarted = true;
+
+  const minutes = parseInt(process.env.REPORT_SCHEDULE_INTERVAL_MINUTES || '', 10) || DEFAULT_INTERVAL_MINUTES;
+
+  const run = async () => {
+    // Skip a tick if the previous run is still going
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const { sent, failed } = await sendDueReports();
+      if (sent || failed) {
+        console.log(`Scheduled reports: ${sent} sent, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('Report schedule job error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, minutes * 60 * 1000);
+}
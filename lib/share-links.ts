@@ -0,0 +1,342 @@
+import crypto from 'crypto';
+import { compare, hash } from 'bcryptjs';
+import { ShareLink } from '@prisma/client';
+import { prisma } from './db';
+
+/*
+ * Read-only share links for a conversation transcript or a named dashboard.
+ * Anyone with the link (and the password, when one is set) sees what is
+ * stored: message text and widget snapshots. Nothing on the shared page
+ * reaches the accounting provider, and live widgets are shown as their last
+ * snapshot. Links expire, and revoked links stay listed so the owner can see
+ * what was shared and when it was cut off.
+ */
+
+export type ShareResourceType = 'conversation' | 'dashboard';
+
+export const SHARE_RESOURCE_TYPES: ShareResourceType[] = ['conversation', 'dashboard'];
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+export const DEFAULT_SHARE_EXPIRY_DAYS = 7;
+export const MAX_SHARE_EXPIRY_DAYS = 365;
+export const MIN_SHARE_PASSWORD_LENGTH = 6;
+
+// Wrong passwords allowed per link before it locks for UNLOCK_LOCKOUT_MS
+export const MAX_FAILED_UNLOCKS_PER_LINK = 5;
+// Wrong passwords allowed per IP address, across links, per UNLOCK_LOCKOUT_MS
+export const MAX_FAILED_UNLOCKS_PER_IP = 20;
+export const UNLOCK_LOCKOUT_MS = 15 * 60 * 1000;
+
+/** Cookie proving the share password was entered, one per link */
+export const SHARE_ACCESS_COOKIE_PREFIX = 'share_access_';
+
+export interface ShareLinkInput {
+  resourceType: ShareResourceType;
+  resourceId: string;
+  expiresInDays: number;
+  password: string | null;
+}
+
+/** A link as its owner sees it; the password hash never leaves the server */
+export interface ShareLinkSummary {
+  id: string;
+  token: string;
+  resourceType: ShareResourceType;
+  resourceId: string;
+  hasPassword: boolean;
+  status: ShareLinkStatus;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface SharedWidget {
+  id: string;
+  title: string;
+  type: string;
+  data: unknown;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  refreshedAt: Date | null;
+}
+
+export interface SharedMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export type SharedContent =
+  | { resourceType: 'conversation'; title: string; messages: SharedMessage[]; widgets: SharedWidget[] }
+  | { resourceType: 'dashboard'; title: string; widgets: SharedWidget[] };
+
+function getShareSecret(): string {
+  const secret = process.env.SHARE_LINK_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('SHARE_LINK_SECRET or NEXTAUTH_SECRET must be set to protect share links');
+  }
+  return secret;
+}
+
+/**
+ * Check and normalise a create request. Returns an error message when invalid.
+ */
+export function validateShareLinkInput(body: any): ShareLinkInput | string {
+  if (!SHARE_RESOURCE_TYPES.includes(body?.resourceType)) {
+    return 'resourceType must be conversation or dashboard';
+  }
+  if (typeof body.resourceId !== 'string' || !body.resourceId) {
+    return 'resourceId is required';
+  }
+
+  const expiresInDays = body.expiresInDays === undefined ? DEFAULT_SHARE_EXPIRY_DAYS : Number(body.expiresInDays);
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_SHARE_EXPIRY_DAYS) {
+    return `expiresInDays must be a whole number from 1 to ${MAX_SHARE_EXPIRY_DAYS}`;
+  }
+
+  const password = typeof body.password === 'string' && body.password ? body.password : null;
+  if (password && password.length < MIN_SHARE_PASSWORD_LENGTH) {
+    return `password must be at least ${MIN_SHARE_PASSWORD_LENGTH} characters`;
+  }
+
+  return { resourceType: body.resourceType, resourceId: body.resourceId, expiresInDays, password };
+}
+
+export function shareLinkStatus(link: ShareLink, now: Date = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+function toSummary(link: ShareLink): ShareLinkSummary {
+  return {
+    id: link.id,
+    token: link.token,
+    resourceType: link.resourceType as ShareResourceType,
+    resourceId: (link.conversationId || link.dashboardId) as string,
+    hasPassword: Boolean(link.passwordHash),
+    status: shareLinkStatus(link),
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    viewCount: link.viewCount,
+    lastViewedAt: link.lastViewedAt,
+    createdAt: link.createdAt,
+  };
+}
+
+async function ownsResource(userId: string, type: ShareResourceType, id: string): Promise<boolean> {
+  const count = type === 'conversation'
+    ? await prisma.conversation.count({ where: { id, userId } })
+    : await prisma.dashboard.count({ where: { id, userId } });
+  return count > 0;
+}
+
+/**
+ * Create a link to one of the user's conversations or dashboards. Returns
+ * null when the resource isn't theirs.
+ */
+export async function createShareLink(userId: string, input: ShareLinkInput): Promise<ShareLinkSummary | null> {
+  if (!(await ownsResource(userId, input.resourceType, input.resourceId))) {
+    return null;
+  }
+
+  const link = await prisma.shareLink.create({
+    data: {
+      userId,
+      token: crypto.randomBytes(24).toString('base64url'),
+      resourceType: input.resourceType,
+      conversationId: input.resourceType === 'conversation' ? input.resourceId : null,
+      dashboardId: input.resourceType === 'dashboard' ? input.resourceId : null,
+      passwordHash: input.password ? await hash(input.password, 10) : null,
+      expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000),
+    },
+  });
+  return toSummary(link);
+}
+
+/**
+ * The user's links, newest first, optionally for one conversation or
+ * dashboard. Revoked and expired links are included.
+ */
+export async function listShareLinks(
+  userId: string,
+  filter: { resourceType?: ShareResourceType; resourceId?: string } = {}
+): Promise<ShareLinkSummary[]> {
+  const links = await prisma.shareLink.findMany({
+    where: {
+      userId,
+      ...(filter.resourceType ? { resourceType: filter.resourceType } : {}),
+      ...(filter.resourceId
+        ? filter.resourceType === 'dashboard' ? { dashboardId: filter.resourceId } : { conversationId: filter.resourceId }
+        : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+  return links.map(toSummary);
+}
+
+/** Revoke a link for good; false when it isn't the user's */
+export async function revokeShareLink(userId: string, id: string): Promise<boolean> {
+  const link = await prisma.shareLink.findFirst({ where: { id, userId } });
+  if (!link) {
+    return false;
+  }
+  if (!link.revokedAt) {
+    await prisma.shareLink.update({ where: { id }, data: { revokedAt: new Date() } });
+  }
+  return true;
+}
+
+export async function findShareLink(token: string): Promise<ShareLink | null> {
+  return prisma.shareLink.findUnique({ where: { token } });
+}
+
+export async function verifySharePassword(link: ShareLink, password: string): Promise<boolean> {
+  return link.passwordHash ? compare(password, link.passwordHash) : true;
+}
+
+// Failed unlocks per IP address in this process: count and window end
+const failedUnlocksByIp = new Map<string, { count: number; resetAt: number }>();
+
+/**
+ * Milliseconds until another password may be tried for this link from this
+ * IP address, or 0 when neither is locked out
+ */
+export function unlockRetryAfterMs(link: ShareLink, ip: string, now: number = Date.now()): number {
+  const linkWait = link.lockedUntil ? link.lockedUntil.getTime() - now : 0;
+
+  const ipFailures = failedUnlocksByIp.get(ip);
+  const ipWait = ipFailures && ipFailures.count >= MAX_FAILED_UNLOCKS_PER_IP ? ipFailures.resetAt - now : 0;
+
+  return Math.max(linkWait, ipWait, 0);
+}
+
+/**
+ * Count a wrong password against the link and the IP address. The link's
+ * counter is incremented in the database so every app instance sees it; once
+ * it reaches the limit the link is locked out and the counter starts over.
+ */
+export async function recordFailedUnlock(link: ShareLink, ip: string, now: number = Date.now()): Promise<void> {
+  const ipFailures = failedUnlocksByIp.get(ip);
+  if (ipFailures && ipFailures.resetAt > now) {
+    ipFailures.count++;
+  } else {
+    // Starting a new window is a good moment to forget addresses whose windows ended
+    failedUnlocksByIp.forEach((failures, key) => {
+      if (failures.resetAt <= now) failedUnlocksByIp.delete(key);
+    });
+    failedUnlocksByIp.set(ip, { count: 1, resetAt: now + UNLOCK_LOCKOUT_MS });
+  }
+
+  const { failedUnlocks } = await prisma.shareLink.update({
+    where: { id: link.id },
+    data: { failedUnlocks: { increment: 1 } },
+    select: { failedUnlocks: true },
+  });
+  if (failedUnlocks >= MAX_FAILED_UNLOCKS_PER_LINK) {
+    await prisma.shareLink.update({
+      where: { id: link.id },
+      data: { failedUnlocks: 0, lockedUntil: new Date(now + UNLOCK_LOCKOUT_MS) },
+    });
+  }
+}
+
+/** Reset the link's failure count after the right password */
+export async function clearFailedUnlocks(link: ShareLink): Promise<void> {
+  if (link.failedUnlocks > 0 || link.lockedUntil) {
+    await prisma.shareLink.update({
+      where: { id: link.id },
+      data: { failedUnlocks: 0, lockedUntil: null },
+    });
+  }
+}
+
+/**
+ * Value of the access cookie for a password-protected link. Bound to the
+ * password hash, so changing or removing the link invalidates old cookies.
+ */
+export function shareAccessToken(link: ShareLink): string {
+  return crypto.createHmac('sha256', getShareSecret()).update(`${link.id}:${link.passwordHash || ''}`).digest('base64url');
+}
+
+export function hasShareAccess(link: ShareLink, cookieValue: string | undefined): boolean {
+  if (!link.passwordHash) return true;
+  if (!cookieValue) return false;
+  const expected = Buffer.from(shareAccessToken(link));
+  const given = Buffer.from(cookieValue);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+function toSharedWidget(widget: {
+  id: string; title: string; type: string; data: unknown; x: number; y: number; w: number; h: number; refreshedAt: Date | null;
+}): SharedWidget {
+  // Deliberately leaves out the data source so the page can't re-run it
+  const { id, title, type, data, x, y, w, h, refreshedAt } = widget;
+  return { id, title, type, data, x, y, w, h, refreshedAt };
+}
+
+// Text the user and assistant wrote; tool calls and their raw results stay private
+function messageText(message: { content: string | null; parts: unknown; json: unknown }): string {
+  const parts = (message.json as any)?.parts ?? message.parts;
+  if (Array.isArray(parts)) {
+    const text = parts
+      .filter((part: any) => part?.type === 'text' && typeof part.text === 'string')
+      .map((part: any) => part.text)
+      .join('\n\n');
+    if (text) return text;
+  }
+  return message.content || '';
+}
+
+/**
+ * What an active link shows. Null when the conversation or dashboard has
+ * since been deleted.
+ */
+export async function getSharedContent(link: ShareLink): Promise<SharedContent | null> {
+  const widgetOrder = [{ y: 'asc' as const }, { x: 'asc' as const }, { createdAt: 'asc' as const }];
+
+  if (link.resourceType === 'dashboard' && link.dashboardId) {
+    const dashboard = await prisma.dashboard.findUnique({
+      where: { id: link.dashboardId },
+      include: { widgets: { orderBy: widgetOrder } },
+    });
+    return dashboard
+      ? { resourceType: 'dashboard', title: dashboard.name, widgets: dashboard.widgets.map(toSharedWidget) }
+      : null;
+  }
+
+  if (link.conversationId) {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: link.conversationId },
+      include: {
+        messages: { orderBy: { createdAt: 'asc' } },
+        widgets: { orderBy: widgetOrder },
+      },
+    });
+    if (!conversation) return null;
+
+    return {
+      resourceType: 'conversation',
+      title: conversation.title,
+      messages: conversation.messages
+        .filter((message) => message.role === 'user' || message.role === 'assistant')
+        .map((message) => ({ id: message.id, role: message.role as 'user' | 'assistant', text: messageText(message) }))
+        .filter((message) => message.text.trim()),
+      widgets: conversation.widgets.map(toSharedWidget),
+    };
+  }
+
+  return null;
+}
+
+export async function recordShareView(link: ShareLink): Promise<void> {
+  await prisma.shareLink.update({
+    where: { id: link.id },
+    data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+  });
+}
@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+
+/*
+ * Envelope encryption for OAuth tokens stored in QboToken / XeroToken.
+ *
+ * Every value gets its own random data key (DEK) used with AES-256-GCM; the
+ * DEK is then wrapped with the key-encryption key (KEK) from the environment.
+ * Stored format:
+ *
+ *   enc:v1:<kekId>:<wrappedDek>:<iv>:<authTag>:<ciphertext>   (base64url parts)
+ *
+ * TOKEN_ENCRYPTION_KEY holds the current KEK (32 bytes, base64). During a key
+ * rotation the old key(s) go in TOKEN_ENCRYPTION_PREVIOUS_KEYS (comma
+ * separated) so existing rows stay readable until `npm run db:rotate-token-key`
+ * has re-encrypted them. Values without the prefix are legacy plaintext and
+ * are returned as-is.
+ */
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+interface KeyEncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseKey(value: string): KeyEncryptionKey {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error('Token encryption keys must be 32 bytes, base64 encoded (openssl rand -base64 32)');
+  }
+  // Derive a short, stable id so each value records which KEK wrapped it
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+  return { id, key };
+}
+
+function getCurrentKey(): KeyEncryptionKey {
+  const value = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!value) {
+    throw new Error('TOKEN_ENCRYPTION_KEY must be set to store OAuth tokens');
+  }
+  return parseKey(value);
+}
+
+function getKeyring(): Map<string, Buffer> {
+  const keyring = new Map<string, Buffer>();
+  const values = [
+    process.env.TOKEN_ENCRYPTION_KEY,
+    ...(process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS || '').split(','),
+  ].filter((value): value is string => Boolean(value && value.trim()));
+
+  for (const value of values) {
+    const { id, key } = parseKey(value);
+    keyring.set(id, key);
+  }
+  return keyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Encrypt a token value with a fresh data key wrapped by the current KEK
+ */
+export function encryptToken(plaintext: string): string {
+  const kek = getCurrentKey();
+  const dataKey = crypto.randomBytes(32);
+
+  const wrapped = seal(kek.key, dataKey);
+  const sealed = seal(dataKey, Buffer.from(plaintext, 'utf-8'));
+
+  const wrappedDek = Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]).toString('base64url');
+  return `${PREFIX}${kek.id}:${wrappedDek}:${sealed.iv.toString('base64url')}:${sealed.tag.toString('base64url')}:${sealed.ciphertext.toString('base64url')}`;
+}
+
+/**
+ * Decrypt a stored token value. Legacy plaintext values are returned unchanged.
+ */
+export function decryptToken(stored: string): string {
+  if (!isEncryptedToken(stored)) {
+    return stored;
+  }
+
+  const [kekId, wrappedDek, iv, tag, ciphertext] = stored.slice(PREFIX.length).split(':');
+  if (!kekId || !wrappedDek || !iv || !tag || !ciphertext) {
+    throw new Error('Malformed encrypted token');
+  }
+
+  const kek = getKeyring().get(kekId);
+  if (!kek) {
+    throw new Error(`No token encryption key available for key id ${kekId}`);
+  }
+
+  const wrapped = Buffer.from(wrappedDek, 'base64url');
+  const dataKey = open(
+    kek,
+    wrapped.subarray(0, IV_LENGTH),
+    wrapped.subarray(IV_LENGTH, IV_LENGTH + 16),
+    wrapped.subarray(IV_LENGTH + 16)
+  );
+
+  return open(
+    dataKey,
+    Buffer.from(iv, 'base64url'),
+    Buffer.from(tag, 'base64url'),
+    Buffer.from(ciphertext, 'base64url')
+  ).toString('utf-8');
+}
+
+/**
+ * True when a stored value is plaintext or wrapped by a key other than the
+ * current one, i.e. it should be re-encrypted
+ */
+export function needsReencryption(stored: string): boolean {
+  if (!isEncryptedToken(stored)) {
+    return true;
+  }
+  const kekId = stored.slice(PREFIX.length).split(':')[0];
+  return kekId !== getCurrentKey().id;
+}
+
+type TokenFields = {
+  accessToken: string;
+  refreshToken: string;
+  idToken?: string | null;
+};
+
+/**
+ * Encrypt the token columns of a QboToken / XeroToken write
+ */
+export function encryptTokenFields<T extends TokenFields>(fields: T): T {
+  return {
+    ...fields,
+    accessToken: encryptToken(fields.accessToken),
+    refreshToken: encryptToken(fields.refreshToken),
+    ...(fields.idToken ? { idToken: encryptToken(fields.idToken) } : {}),
+  };
+}
+
+/**
+ * Decrypt the token columns of a QboToken / XeroToken row
+ */
+export function decryptTokenFields<T extends TokenFields>(row: T): T {
+  return {
+    ...row,
+    accessToken: decryptToken(row.accessToken),
+    refreshToken: decryptToken(row.refreshToken),
+    ...(row.idToken ? { idToken: decryptToken(row.idToken) } : {}),
+  };
+}
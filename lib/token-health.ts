@@ -0,0 +1,130 @@
+import { prisma } from '@/lib/db';
+import { decryptToken } from '@/lib/token-crypto';
+import type { AccountingService } from '@/lib/accounting';
+
+export type ConnectionHealth = 'ok' | 'expiring' | 'revoked' | 'error';
+
+// Refresh tokens this close to expiry are refreshed by the background job
+export const REFRESH_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Connections this close to expiry are flagged so the user can reconnect in time
+export const EXPIRING_WARNING_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Refreshes in flight in this process, keyed per connection
+const inFlightRefreshes = new Map<string, Promise<unknown>>();
+
+/**
+ * Run at most one refresh per connection at a time. Refresh tokens rotate, so
+ * a second concurrent refresh would present the already-used token and fail
+ * with invalid_grant; callers that arrive mid-refresh share its result instead.
+ */
+export function runRefreshOnce<T>(key: string, refresh: () => Promise<T>): Promise<T> {
+  const existing = inFlightRefreshes.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+
+  const pending = refresh().finally(() => {
+    inFlightRefreshes.delete(key);
+  });
+  inFlightRefreshes.set(key, pending);
+  return pending;
+}
+
+/**
+ * True when a refresh failed because the provider no longer accepts the
+ * refresh token (user revoked access, token expired or already used)
+ */
+function isRevocationError(error: unknown): boolean {
+  const details = [
+    error instanceof Error ? error.message : String(error),
+    (error as any)?.error,
+    (error as any)?.authResponse?.json?.error,
+    (error as any)?.response?.data?.error,
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+  return details.includes('invalid_grant') || details.includes('unauthorized_client');
+}
+
+/**
+ * Work out a connection's health after a failed refresh
+ */
+export function classifyRefreshFailure(error: unknown, refreshTokenExpiresAt: Date | null): ConnectionHealth {
+  if (isRevocationError(error)) {
+    return 'revoked';
+  }
+  if (refreshTokenExpiresAt && refreshTokenExpiresAt.getTime() - Date.now() < EXPIRING_WARNING_MS) {
+    return 'expiring';
+  }
+  return 'error';
+}
+
+/**
+ * Health shown to users: the stored status, upgraded to "expiring" when the
+ * refresh token is about to lapse even though the last refresh succeeded
+ */
+export function getConnectionHealth(token: {
+  healthStatus: string;
+  refreshTokenExpiresAt: Date | null;
+}): ConnectionHealth {
+  if (token.healthStatus === 'revoked' || token.healthStatus === 'error' || token.healthStatus === 'expiring') {
+    return token.healthStatus;
+  }
+  if (token.refreshTokenExpiresAt && token.refreshTokenExpiresAt.getTime() - Date.now() < EXPIRING_WARNING_MS) {
+    return 'expiring';
+  }
+  return 'ok';
+}
+
+/**
+ * Record a failed refresh against a QBO realm or Xero tenant. `usedRefreshToken`
+ * is the refresh token the failed attempt presented; if the stored token has
+ * since changed, another refresh (possibly in another process) already rotated
+ * it and the connection is healthy, so nothing is recorded.
+ */
+export async function recordRefreshFailure(
+  service: AccountingService,
+  userId: string,
+  organisationId: string,
+  error: unknown,
+  usedRefreshToken: string
+): Promise<void> {
+  try {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (service === 'XERO') {
+      const token = await prisma.xeroToken.findUnique({
+        where: { userId_tenantId: { userId, tenantId: organisationId } },
+        select: { refreshToken: true, refreshTokenExpiresAt: true },
+      });
+      if (!token || decryptToken(token.refreshToken) !== usedRefreshToken) return;
+      await prisma.xeroToken.update({
+        where: { userId_tenantId: { userId, tenantId: organisationId } },
+        data: {
+          healthStatus: classifyRefreshFailure(error, token.refreshTokenExpiresAt),
+          lastRefreshError: message,
+        },
+      });
+      return;
+    }
+
+    const token = await prisma.qboToken.findUnique({
+      where: { userId_realmId: { userId, realmId: organisationId } },
+      select: { refreshToken: true, refreshTokenExpiresAt: true },
+    });
+    if (!token || decryptToken(token.refreshToken) !== usedRefreshToken) return;
+    await prisma.qboToken.update({
+      where: { userId_realmId: { userId, realmId: organisationId } },
+      data: {
+        healthStatus: classifyRefreshFailure(error, token.refreshTokenExpiresAt),
+        lastRefreshError: message,
+      },
+    });
+  } catch (recordError) {
+    // Never mask the original refresh failure
+    console.error('Failed to record token health:', recordError);
+  }
+}
@@ -0,0 +1,110 @@
+import { prisma } from '@/lib/db';
+import { refreshToken as refreshQboToken } from '@/lib/qbo';
+import { refreshXeroToken } from '@/lib/xero';
+import { REFRESH_WINDOW_MS } from '@/lib/token-health';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+let schedulerStarted = false;
+let running = false;
+
+export interface TokenRefreshResult {
+  refreshed: number;
+  failed: number;
+}
+
+/**
+ * Refresh every QBO and Xero connection whose refresh token expires within
+ * the refresh window, so connections stay alive for users who rarely log in.
+ * Revoked connections are skipped until the user reconnects.
+ */
+export async function refreshDueTokens(): Promise<TokenRefreshResult> {
+  const result: TokenRefreshResult = { refreshed: 0, failed: 0 };
+  const dueBefore = new Date(Date.now() + REFRESH_WINDOW_MS);
+
+  const dueWhere = {
+    healthStatus: { not: 'revoked' },
+    OR: [
+      { refreshTokenExpiresAt: null },
+      { refreshTokenExpiresAt: { lte: dueBefore } },
+    ],
+  };
+
+  const qboTokens = await prisma.qboToken.findMany({
+    where: dueWhere,
+    select: { userId: true, realmId: true },
+  });
+
+  for (const token of qboTokens) {
+    try {
+      await refreshQboToken(token.userId, token.realmId);
+      result.refreshed++;
+    } catch (error) {
+      // Failure is recorded against the connection by refreshToken
+      console.error(`Scheduled QBO token refresh failed for realm ${token.realmId}:`, error);
+      result.failed++;
+    }
+  }
+
+  const xeroTokens = await prisma.xeroToken.findMany({
+    where: dueWhere,
+    select: { id: true, userId: true, tenantId: true },
+  });
+
+  for (const token of xeroTokens) {
+    // Tenants from the same connection share a refresh token, so an earlier
+    // refresh in this run may already have renewed this row
+    const current = await prisma.xeroToken.findUnique({
+      where: { id: token.id },
+      select: { refreshTokenExpiresAt: true },
+    });
+    if (!current || (current.refreshTokenExpiresAt && current.refreshTokenExpiresAt > dueBefore)) {
+      continue;
+    }
+
+    try {
+      await refreshXeroToken(token.userId, token.tenantId);
+      result.refreshed++;
+    } catch (error) {
+      // Failure is recorded against the connection by refreshXeroToken
+      console.error(`Scheduled Xero token refresh failed for tenant ${token.tenantId}:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run refreshDueTokens on startup and then every TOKEN_REFRESH_INTERVAL_MINUTES
+ * (default 60). Safe to call more than once per process.
+ */
+export function startTokenRefreshScheduler(): void {
+  if (schedulerStarted) {
+    return;
+  }
+  schedulerStarted = true;
+
+  const minutes = parseInt(process.env.TOKEN_REFRESH_INTERVAL_MINUTES || '', 10) || DEFAULT_INTERVAL_MINUTES;
+
+  const run = async () => {
+    // Skip a tick if the previous run is still going
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const { refreshed, failed } = await refreshDueTokens();
+      if (refreshed || failed) {
+        console.log(`Token refresh: ${refreshed} refreshed, ${failed} failed`);
+      }
+    } catch (error) {
+      console.error('Token refresh job error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, minutes * 60 * 1000);
+}
@@ -4,6 +4,13 @@ import { prisma } from '@/lib/db';
 import { getOrganisation, getContacts, getInvoices, getAccounts, getItems, getBankTransactions, getProfitAndLossReport, getBalanceSheetReport, getCreditNotes, getTaxRates, getPayments, getTrialBalanceReport, getPayrollEmployees, getAgedPayablesByContact, getLeaveTypes } from './xero-api';
 import { getCompanyInfo, getCustomers, getVendors, getInvoices as getQboInvoices, getInvoiceById, getPayments as getQboPayments, getPaymentById, getPurchases, getPurchaseById, getBills, getBillById, getAccounts as getQboAccounts, getAccountById, getEstimates, getProfitAndLossReport as getQboProfitAndLossReport, getSalesReport, getExpensesReport, getItemSalesReport, getCustomerSalesReport, getVendorExpensesReport, getTaxAgency, getTaxReport } from './qbo-api';
 import { authOptions } from '@/lib/auth';
+import { AccountingProvider, AccountingService, getAccountingProvider, resolveRequestedService } from '@/lib/accounting';
+import { findActiveXeroToken, findActiveQboToken } from '@/lib/organisations';
+import { buildCashForecast, resolveForecastScenario } from '@/lib/forecast';
+import { findBudget, getBudgetVsActual, listBudgets, validateBudgetRange } from '@/lib/budgets';
+import { AgingType, buildAgingReport, getDaysOutstandingHistory, resolveMetricMonths } from '@/lib/aging';
+import { comparePeriods, resolveComparisonRange } from '@/lib/comparison';
+import { AccountingWriteAction, proposeAccountingWrite, validateAccountingWriteInput } from '@/lib/accounting-writes';
 
 // Xero Tools - Read-only operations
 export const getXeroOrganisationTool = tool({
@@ -37,10 +44,8 @@ export const getXeroOrganisationTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -106,10 +111,8 @@ export const getXeroContactsTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -178,10 +181,8 @@ export const getXeroInvoicesTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -248,10 +249,8 @@ export const getXeroAccountsTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -319,10 +318,8 @@ export const getXeroItemsTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -390,10 +387,8 @@ export const getXeroBankTransactionsTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -464,10 +459,8 @@ export const getXeroProfitAndLossTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -537,10 +530,8 @@ export const getXeroBalanceSheetTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -608,10 +599,8 @@ export const getXeroCreditNotesTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -674,10 +663,8 @@ export const getXeroTaxRatesTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -739,10 +726,8 @@ export const getXeroPaymentsTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -805,10 +790,8 @@ export const getXeroTrialBalanceTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -869,10 +852,8 @@ export const getXeroPayrollEmployeesTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -935,10 +916,8 @@ export const getXeroAgedPayablesTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1001,10 +980,8 @@ export const getXeroLeaveTypesTool = tool({
 
       const userId = user.id;
       
-      // Get the connected tenant ID from user's tokens
-      const userTokens = await prisma.xeroToken.findFirst({
-        where: { userId }
-      });
+      // Get the active tenant ID from user's tokens
+      const userTokens = await findActiveXeroToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1061,9 +1038,7 @@ export const getQboCompanyInfoTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1126,9 +1101,7 @@ export const getQboCustomersTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1184,9 +1157,7 @@ export const getQboInvoicesTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1240,9 +1211,7 @@ export const getQboInvoiceByIdTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1305,9 +1274,7 @@ export const getQboPaymentsTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1361,9 +1328,7 @@ export const getQboPaymentByIdTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1426,9 +1391,7 @@ export const getQboPurchasesTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1482,9 +1445,7 @@ export const getQboPurchaseByIdTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1547,9 +1508,7 @@ export const getQboBillsTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1603,9 +1562,7 @@ export const getQboBillByIdTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1668,9 +1625,7 @@ export const getQboAccountsTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1724,9 +1679,7 @@ export const getQboAccountByIdTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1788,9 +1741,7 @@ export const getQboVendorsTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1844,9 +1795,7 @@ export const getQboVendorByIdTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1909,9 +1858,7 @@ export const getQboCustomerByIdTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -1976,9 +1923,7 @@ export const getQboEstimatesTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -2035,9 +1980,7 @@ export const getQboProfitAndLossTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -2100,9 +2043,7 @@ export const getQboSalesTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -2165,9 +2106,7 @@ export const getQboExpensesTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -2230,9 +2169,7 @@ export const getQboItemSalesTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -2295,9 +2232,7 @@ export const getQboCustomerSalesTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -2360,9 +2295,7 @@ export const getQboVendorExpensesTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -2423,9 +2356,7 @@ export const getQboTaxAgencyTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -2483,9 +2414,7 @@ export const getQboTaxReportTool = tool({
 
       const userId = user.id;
       
-      const userTokens = await prisma.qboToken.findFirst({
-        where: { userId }
-      });
+      const userTokens = await findActiveQboToken(userId);
       if (!userTokens) {
         return {
           success: false,
@@ -2516,3 +2445,491 @@ export const getQboTaxReportTool = tool({
 
 
 
+
+// Accounting Tools - Provider-agnostic read-only operations
+
+/**
+ * Passed by the chat route as `experimental_context` so tools read from the
+ * service the chat session is using
+ */
+export interface AccountingToolContext {
+  accountingService?: AccountingService;
+  /** Conversation the tool runs in, recorded on proposed writes */
+  chatId?: string;
+}
+
+/**
+ * Resolve the signed-in user's accounting provider for use inside a tool
+ */
+async function getToolAccountingProvider(context?: unknown): Promise<
+  { provider: AccountingProvider; userId: string; error?: undefined } | { provider?: undefined; userId?: undefined; error: string }
+> {
+  const { getServerSession } = await import('next-auth');
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return { error: "Authentication required. Please log in to use accounting tools." };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+    select: { id: true, accountingService: true }
+  });
+
+  if (!user) {
+    return { error: "User not found. Please contact support." };
+  }
+
+  // The chat passes the service it is reading from; otherwise use the user's default
+  const requested = (context as AccountingToolContext | undefined)?.accountingService;
+  const provider = await getAccountingProvider(user.id, resolveRequestedService(requested, user.accountingService));
+  if (!provider) {
+    return { error: "No accounting connection found. Please connect QuickBooks Online or Xero first in your profile settings." };
+  }
+
+  return { provider, userId: user.id };
+}
+
+export const getFinancialSummaryTool = tool({
+  description: "Get a normalized profit and loss summary (revenue, cost of goods sold, operating expenses, net profit and expense breakdown) for a date range. Works the same for QuickBooks Online and Xero.",
+  inputSchema: z.object({
+    fromDate: z.string().describe("Start date (YYYY-MM-DD format)"),
+    toDate: z.string().describe("End date (YYYY-MM-DD format)")
+  }),
+  execute: async ({ fromDate, toDate }, { experimental_context }) => {
+    try {
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const summary = await provider.getProfitAndLoss({ fromDate, toDate });
+      return {
+        success: true,
+        service: provider.service,
+        summary
+      };
+    } catch (error) {
+      console.error('Error getting financial summary:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get financial summary'
+      };
+    }
+  }
+});
+
+export const getBalanceSheetSummaryTool = tool({
+  description: "Get a normalized balance sheet summary (cash, total assets, total liabilities, equity) as at a date. Works the same for QuickBooks Online and Xero.",
+  inputSchema: z.object({
+    date: z.string().describe("Balance sheet date (YYYY-MM-DD format)")
+  }),
+  execute: async ({ date }, { experimental_context }) => {
+    try {
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const summary = await provider.getBalanceSheet(date);
+      return {
+        success: true,
+        service: provider.service,
+        summary
+      };
+    } catch (error) {
+      console.error('Error getting balance sheet summary:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get balance sheet summary'
+      };
+    }
+  }
+});
+
+const documentQuerySchema = z.object({
+  status: z.enum(['open', 'all']).optional().describe("'open' for documents with an outstanding balance (default), 'all' for every status"),
+  fromDate: z.string().optional().describe("Only documents dated on or after this date (YYYY-MM-DD format)"),
+  toDate: z.string().optional().describe("Only documents dated on or before this date (YYYY-MM-DD format)"),
+  page: z.number().optional().describe("Page number for pagination (default: 1), page size is 100")
+});
+
+export const getSalesInvoicesTool = tool({
+  description: "Get sales invoices in a normalized format (number, customer, dates, status, total, amount due, line items). Works the same for QuickBooks Online and Xero.",
+  inputSchema: documentQuerySchema,
+  execute: async ({ status = 'open', fromDate, toDate, page = 1 }, { experimental_context }) => {
+    try {
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const invoices = await provider.getInvoices({ status, fromDate, toDate, page });
+      return {
+        success: true,
+        service: provider.service,
+        invoices,
+        page
+      };
+    } catch (error) {
+      console.error('Error getting sales invoices:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get sales invoices'
+      };
+    }
+  }
+});
+
+export const getSupplierBillsTool = tool({
+  description: "Get supplier bills in a normalized format (number, supplier, dates, status, total, amount due, line items). Works the same for QuickBooks Online and Xero.",
+  inputSchema: documentQuerySchema,
+  execute: async ({ status = 'open', fromDate, toDate, page = 1 }, { experimental_context }) => {
+    try {
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const bills = await provider.getBills({ status, fromDate, toDate, page });
+      return {
+        success: true,
+        service: provider.service,
+        bills,
+        page
+      };
+    } catch (error) {
+      console.error('Error getting supplier bills:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get supplier bills'
+      };
+    }
+  }
+});
+
+export const getAccountingContactsTool = tool({
+  description: "Get customers and suppliers in a normalized format. Works the same for QuickBooks Online and Xero.",
+  inputSchema: z.object({
+    type: z.enum(['customer', 'supplier']).optional().describe("Limit to customers or suppliers (default: both)"),
+    page: z.number().optional().describe("Page number for pagination (default: 1), page size is 100")
+  }),
+  execute: async ({ type, page = 1 }, { experimental_context }) => {
+    try {
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const contacts = await provider.getContacts({ type, page });
+      return {
+        success: true,
+        service: provider.service,
+        contacts,
+        page
+      };
+    } catch (error) {
+      console.error('Error getting contacts:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get contacts'
+      };
+    }
+  }
+});
+
+export const getBankSummaryTool = tool({
+  description: "Get cash received and spent per bank account over a date range.",
+  inputSchema: z.object({
+    fromDate: z.string().describe("Start date (YYYY-MM-DD format)"),
+    toDate: z.string().describe("End date (YYYY-MM-DD format)")
+  }),
+  execute: async ({ fromDate, toDate }, { experimental_context }) => {
+    try {
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const summary = await provider.getBankSummary({ fromDate, toDate });
+      return {
+        success: true,
+        service: provider.service,
+        summary
+      };
+    } catch (error) {
+      console.error('Error getting bank summary:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get bank summary'
+      };
+    }
+  }
+});
+
+export const getCashForecastTool = tool({
+  description: "Get a 13-week cash forecast starting from today's bank balance, with expected receipts from open invoices, payments of open bills and detected recurring expenses. Use it to answer questions like \"when do we run out of cash?\" and to test scenarios such as customers paying late.",
+  inputSchema: z.object({
+    customerDelayDays: z.number().optional().describe("Days customers pay their invoices after the due date (default 0)"),
+    supplierDelayDays: z.number().optional().describe("Days bills are paid after the due date (default 0)"),
+    excludeOverdueReceivables: z.boolean().optional().describe("Assume overdue invoices are never collected (default false)"),
+    includeRecurring: z.boolean().optional().describe("Include detected recurring expenses (default true)")
+  }),
+  execute: async (input, { experimental_context }) => {
+    try {
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const forecast = await buildCashForecast(provider, resolveForecastScenario(input));
+      return {
+        success: true,
+        service: provider.service,
+        forecast
+      };
+    } catch (error) {
+      console.error('Error building cash forecast:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to build cash forecast'
+      };
+    }
+  }
+});
+
+export const getBudgetVsActualTool = tool({
+  description: "Compare a budget with actual revenue and expenses per account and month over a date range. Budgets are imported from Xero, uploaded as CSV or entered on the dashboard. Uses the most recently updated budget unless a budget name is given. The range can cover at most 24 months.",
+  inputSchema: z.object({
+    fromDate: z.string().describe("Start date (YYYY-MM-DD format)"),
+    toDate: z.string().describe("End date (YYYY-MM-DD format)"),
+    budgetName: z.string().optional().describe("Name of the budget to compare against")
+  }),
+  execute: async ({ fromDate, toDate, budgetName }, { experimental_context }) => {
+    try {
+      const rangeError = validateBudgetRange({ fromDate, toDate });
+      if (rangeError) {
+        return { success: false, error: rangeError };
+      }
+
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const budgets = await listBudgets(provider.service, provider.organisationId);
+      const availableBudgets = budgets.map((budget) => budget.name);
+      const match = budgetName
+        ? budgets.find((budget) => budget.name.toLowerCase().includes(budgetName.toLowerCase()))
+        : budgets[0];
+
+      if (!match) {
+        return {
+          success: false,
+          error: budgets.length === 0
+            ? "No budgets found. Budgets can be imported or entered on the dashboard."
+            : `No budget named "${budgetName}"`,
+          availableBudgets
+        };
+      }
+
+      const budget = await findBudget(match.id, provider.service, provider.organisationId);
+      if (!budget) {
+        return { success: false, error: 'Budget not found', availableBudgets };
+      }
+
+      const comparison = await getBudgetVsActual(provider, budget, { fromDate, toDate });
+      return {
+        success: true,
+        service: provider.service,
+        availableBudgets,
+        comparison
+      };
+    } catch (error) {
+      console.error('Error comparing budget with actuals:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to compare budget with actuals'
+      };
+    }
+  }
+});
+
+export const getAgingReportTool = tool({
+  description: "Get accounts receivable and/or payable aging: open invoices and bills per contact in current, 1-30, 31-60, 61-90 and 90+ days overdue buckets, plus DSO (days sales outstanding) and DPO (days payable outstanding) month over month. Works for both Xero and QuickBooks.",
+  inputSchema: z.object({
+    type: z.enum(['receivables', 'payables', 'both']).optional().describe("Which side to report on (default both)"),
+    months: z.number().optional().describe("Months of DSO / DPO history to include (default 12)")
+  }),
+  execute: async ({ type = 'both', months }, { experimental_context }) => {
+    try {
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const types: AgingType[] = type === 'both' ? ['receivables', 'payables'] : [type];
+      const [reports, history] = await Promise.all([
+        Promise.all(types.map((agingType) => buildAgingReport(provider, agingType))),
+        getDaysOutstandingHistory(provider.service, provider.organisationId, resolveMetricMonths(months))
+      ]);
+
+      return {
+        success: true,
+        service: provider.service,
+        // Line items are left out to keep the response small
+        aging: reports.map((report) => ({
+          ...report,
+          documents: report.documents.map(({ lineItems, ...document }) => document)
+        })),
+        daysOutstanding: history
+      };
+    } catch (error) {
+      console.error('Error building aging report:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to build aging report'
+      };
+    }
+  }
+});
+
+export const comparePeriodsTool = tool({
+  description: "Compare two periods side by side: revenue, operating expenses, cost of goods sold, net profit, net margin, cash balance and every expense category, each with the change and percent change. Compare against the previous period of the same length, the same period last year, or a custom range. Works for both Xero and QuickBooks.",
+  inputSchema: z.object({
+    fromDate: z.string().describe("Start of the period to analyse (YYYY-MM-DD format)"),
+    toDate: z.string().describe("End of the period to analyse (YYYY-MM-DD format)"),
+    mode: z.enum(['previous', 'last_year', 'custom']).optional().describe("What to compare against (default previous)"),
+    compareFromDate: z.string().optional().describe("Start of the comparison period for custom mode (YYYY-MM-DD format)"),
+    compareToDate: z.string().optional().describe("End of the comparison period for custom mode (YYYY-MM-DD format)")
+  }),
+  execute: async ({ fromDate, toDate, mode = 'previous', compareFromDate, compareToDate }, { experimental_context }) => {
+    try {
+      const { provider, error } = await getToolAccountingProvider(experimental_context);
+      if (!provider) {
+        return { success: false, error };
+      }
+
+      const range = { fromDate, toDate };
+      const comparisonRange = resolveComparisonRange(mode, 'CUSTOM', range, { fromDate: compareFromDate, toDate: compareToDate });
+      if (!comparisonRange) {
+        return { success: false, error: 'compareFromDate and compareToDate are required for a custom comparison' };
+      }
+
+      const comparison = await comparePeriods(provider, mode, range, comparisonRange);
+      return {
+        success: true,
+        ...comparison
+      };
+    } catch (error) {
+      console.error('Error comparing periods:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to compare periods'
+      };
+    }
+  }
+});
+
+
+// Accounting Tools - Write operations. Each one only proposes the change;
+// the chat shows it as an approval card and nothing is sent until the user approves.
+
+/**
+ * Validate a write tool's input and store it as a proposal for the user
+ */
+async function proposeWrite(action: AccountingWriteAction, input: unknown, context?: unknown) {
+  const { provider, userId, error } = await getToolAccountingProvider(context);
+  if (!provider) {
+    return { success: false, error };
+  }
+
+  const validated = validateAccountingWriteInput(action, input);
+  if (typeof validated === 'string') {
+    return { success: false, error: validated };
+  }
+
+  const proposal = await proposeAccountingWrite(userId, provider, action, validated, (context as AccountingToolContext | undefined)?.chatId);
+  if (typeof proposal === 'string') {
+    return { success: false, error: proposal };
+  }
+
+  return {
+    success: true,
+    service: provider.service,
+    requiresApproval: true,
+    proposal,
+    message: 'Proposed only. Nothing has been created yet: the user must approve the card in the chat.'
+  };
+}
+
+export const proposeCreateContactTool = tool({
+  description: "Propose creating a customer or supplier contact. Nothing is created until the user approves the proposal card in the chat. Works for both Xero and QuickBooks.",
+  inputSchema: z.object({
+    name: z.string().describe("Contact name as it should appear in the accounting system"),
+    type: z.enum(['customer', 'supplier']).describe("Whether the contact is a customer or a supplier"),
+    email: z.string().optional().describe("Email address"),
+    phone: z.string().optional().describe("Phone number")
+  }),
+  execute: async (input, { experimental_context }) => {
+    try {
+      return await proposeWrite('createContact', input, experimental_context);
+    } catch (error) {
+      console.error('Error proposing contact:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to propose contact'
+      };
+    }
+  }
+});
+
+export const proposeDraftInvoiceTool = tool({
+  description: "Propose a sales invoice for an existing customer: a draft in Xero, an unsent invoice in QuickBooks. Nothing is created until the user approves the proposal card in the chat. Look up the customer ID with getAccountingContacts first.",
+  inputSchema: z.object({
+    contactId: z.string().describe("ID of the customer (from getAccountingContacts)"),
+    date: z.string().optional().describe("Invoice date (YYYY-MM-DD format, default today)"),
+    dueDate: z.string().optional().describe("Due date (YYYY-MM-DD format); the contact's payment terms apply when left out"),
+    reference: z.string().optional().describe("Reference or note for the invoice"),
+    lineItems: z.array(z.object({
+      description: z.string().describe("Line description"),
+      quantity: z.number().optional().describe("Quantity (default 1)"),
+      unitAmount: z.number().describe("Price per unit, before tax"),
+      accountCode: z.string().optional().describe("Xero only: revenue account code"),
+      itemId: z.string().optional().describe("QuickBooks only: product or service ID")
+    })).describe("Invoice lines")
+  }),
+  execute: async (input, { experimental_context }) => {
+    try {
+      return await proposeWrite('draftInvoice', input, experimental_context);
+    } catch (error) {
+      console.error('Error proposing invoice:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to propose invoice'
+      };
+    }
+  }
+});
+
+export const proposeBillPaymentTool = tool({
+  description: "Propose recording a payment against an open supplier bill from a bank account. Nothing is recorded until the user approves the proposal card in the chat. Look up the bill ID with getSupplierBills and the bank account ID from the chart of accounts first.",
+  inputSchema: z.object({
+    billId: z.string().describe("ID of the bill (from getSupplierBills)"),
+    bankAccountId: z.string().describe("ID of the bank account the payment is made from"),
+    amount: z.number().optional().describe("Amount paid (default the full amount due)"),
+    date: z.string().optional().describe("Payment date (YYYY-MM-DD format, default today)"),
+    reference: z.string().optional().describe("Payment reference")
+  }),
+  execute: async (input, { experimental_context }) => {
+    try {
+      return await proposeWrite('recordBillPayment', input, experimental_context);
+    } catch (error) {
+      console.error('Error proposing bill payment:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to propose bill payment'
+      };
+    }
+  }
+});
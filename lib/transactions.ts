@@ -0,0 +1,403 @@
+import { prisma } from './db';
+import { AccountingLineItem, AccountingService, DateRange, toBaseAmount } from './accounting';
+
+/*
+ * KPI drill-down. Lists the transactions behind a dashboard figure for a
+ * period, read from the ledger mirror: invoices and receive-money
+ * transactions for revenue, bills and spend-money transactions for expenses
+ * and cost of goods sold, both for net profit, and bank transactions and
+ * payments for cash. Each transaction counts only its lines on accounts of
+ * the matching kind, so a bill split between stock and overheads appears
+ * under both cost of goods sold and expenses with the relevant share.
+ */
+
+export type DrillDownMetric = 'revenue' | 'expenses' | 'costOfGoodsSold' | 'netProfit' | 'cashBalance';
+export type TransactionKind = 'invoice' | 'bill' | 'bank_received' | 'bank_spent' | 'payment_received' | 'payment_paid';
+export type TransactionSortField = 'date' | 'number' | 'contactName' | 'amount';
+
+export const DRILL_DOWN_METRICS: DrillDownMetric[] = ['revenue', 'expenses', 'costOfGoodsSold', 'netProfit', 'cashBalance'];
+export const TRANSACTION_SORT_FIELDS: TransactionSortField[] = ['date', 'number', 'contactName', 'amount'];
+
+const KIND_LABELS: Record<TransactionKind, string> = {
+  invoice: 'Invoice',
+  bill: 'Bill',
+  bank_received: 'Money received',
+  bank_spent: 'Money spent',
+  payment_received: 'Customer payment',
+  payment_paid: 'Supplier payment',
+};
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+export interface TransactionListQuery {
+  metric: DrillDownMetric;
+  range: DateRange;
+  /** Matched against the number, contact and reference */
+  search?: string | null;
+  kind?: TransactionKind | null;
+  sort?: TransactionSortField;
+  direction?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+}
+
+export interface KpiTransaction {
+  /** Ledger row ID */
+  id: string;
+  kind: TransactionKind;
+  typeLabel: string;
+  externalId: string;
+  date: string;
+  number: string;
+  contactName: string;
+  reference: string;
+  status: string | null;
+  currency?: string;
+  /** Base-currency units per unit of `currency`, for foreign-currency transactions */
+  exchangeRate?: number;
+  /** What the transaction adds to the KPI, in its own currency; negative when it reduces it */
+  amount: number;
+  /** The same in the organisation's base currency */
+  baseAmount: number;
+  lineItems: AccountingLineItem[];
+  /** The transaction in Xero or QuickBooks, when it can be linked to */
+  sourceUrl: string | null;
+}
+
+export interface KpiTransactionPage {
+  metric: DrillDownMetric;
+  fromDate: string;
+  toDate: string;
+  transactions: KpiTransaction[];
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  totalPages: number;
+  /** Sum of baseAmount over every matching transaction, not just this page */
+  totalAmount: number;
+  /** Kinds present before the kind filter, for the filter menu */
+  kinds: TransactionKind[];
+  /** When the ledger mirror was last synced, or null before the first sync */
+  ledgerSyncedAt: Date | null;
+}
+
+export function isDrillDownMetric(value: unknown): value is DrillDownMetric {
+  return DRILL_DOWN_METRICS.includes(value as DrillDownMetric);
+}
+
+export function isTransactionKind(value: unknown): value is TransactionKind {
+  // Own keys only: `in` would also accept inherited names such as toString
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(KIND_LABELS, value);
+}
+
+type AccountKind = 'revenue' | 'expense' | 'costOfGoodsSold' | 'other';
+
+interface AccountLookup {
+  byId: Map<string, AccountKind>;
+  byCode: Map<string, AccountKind>;
+}
+
+// Xero DIRECTCOSTS and QBO "Cost of Goods Sold" accounts
+function isCostOfSalesType(type: string | null): boolean {
+  const normalized = (type || '').toLowerCase().replace(/[^a-z]/g, '');
+  return normalized === 'directcosts' || normalized === 'costofgoodssold';
+}
+
+async function loadAccountLookup(service: AccountingService, organisationId: string): Promise<AccountLookup> {
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { service, organisationId },
+    select: { externalId: true, code: true, name: true, type: true, classification: true },
+  });
+
+  const lookup: AccountLookup = { byId: new Map(), byCode: new Map() };
+  for (const account of accounts) {
+    const kind: AccountKind = isCostOfSalesType(account.type)
+      ? 'costOfGoodsSold'
+      : account.classification === 'revenue' || account.classification === 'expense'
+        ? account.classification
+        : 'other';
+    lookup.byId.set(account.externalId, kind);
+    // Xero lines carry the account code; QBO lines carry the account name
+    if (account.code) {
+      lookup.byCode.set(account.code, kind);
+    }
+    lookup.byCode.set(account.name, kind);
+  }
+  return lookup;
+}
+
+/**
+ * Line amounts excluding tax, each with the kind of account it is posted to.
+ * Lines on unknown accounts take the transaction's usual kind.
+ */
+function classifyLines(
+  service: AccountingService,
+  raw: any,
+  lineItems: AccountingLineItem[],
+  accounts: AccountLookup,
+  fallback: AccountKind
+): Array<{ kind: AccountKind; amount: number }> {
+  const taxInclusive = service === 'XERO' && String(raw?.lineAmountTypes || '').toLowerCase() === 'inclusive';
+
+  return lineItems
+    // QBO subtotal and discount summary lines have no ID and repeat other lines
+    .filter((line) => service !== 'QBO' || !!line.lineItemID)
+    .map((line) => {
+      const kind = (line.accountID && accounts.byId.get(line.accountID))
+        || (line.accountCode && accounts.byCode.get(line.accountCode))
+        || fallback;
+      const amount = (line.lineAmount || 0) - (taxInclusive ? line.taxAmount || 0 : 0);
+      return { kind, amount };
+    });
+}
+
+/**
+ * Base-currency units per unit of a mirrored transaction's currency, read from
+ * its raw record; undefined for base-currency transactions. Xero quotes the
+ * inverse (units of the transaction currency per unit of base currency).
+ */
+export function exchangeRateOf(service: AccountingService, raw: any): number | undefined {
+  const rate = Number(service === 'XERO' ? raw?.currencyRate : raw?.ExchangeRate);
+  if (!rate || rate === 1) {
+    return undefined;
+  }
+  return service === 'XERO' ? 1 / rate : rate;
+}
+
+const QBO_PATHS: Record<string, string> = {
+  Invoice: 'invoice',
+  Bill: 'bill',
+  Purchase: 'expense',
+  Deposit: 'deposit',
+  Payment: 'recvpayment',
+  BillPayment: 'billpayment',
+};
+
+/**
+ * Link to a transaction in the vendor's web app. Xero links go through the
+ * organisation login so they open in the right organisation; QBO opens the
+ * company the user is signed in to. Xero payments link to the invoice or
+ * bill they settle.
+ */
+export function sourceDocumentUrl(
+  service: AccountingService,
+  kind: TransactionKind,
+  sourceType: string,
+  externalId: string | null,
+  shortCode?: string | null
+): string | null {
+  if (!externalId) {
+    return null;
+  }
+
+  if (service === 'QBO') {
+    const host = process.env.INTUIT_ENVIRONMENT === 'production'
+      ? 'https://app.qbo.intuit.com'
+      : 'https://app.sandbox.qbo.intuit.com';
+    const path = QBO_PATHS[sourceType];
+    return path ? `${host}/app/${path}?txnId=${encodeURIComponent(externalId)}` : null;
+  }
+
+  const path = kind === 'invoice' || kind === 'payment_received'
+    ? `/AccountsReceivable/View.aspx?InvoiceID=${externalId}`
+    : kind === 'bill' || kind === 'payment_paid'
+      ? `/AccountsPayable/View.aspx?InvoiceID=${externalId}`
+      : `/Bank/ViewTransaction.aspx?bankTransactionID=${externalId}`;
+  return shortCode
+    ? `https://go.xero.com/organisationlogin/default.aspx?shortcode=${encodeURIComponent(shortCode)}&redirecturl=${encodeURIComponent(path)}`
+    : `https://go.xero.com${path}`;
+}
+
+/**
+ * How much of a transaction's lines count towards the metric, with costs
+ * negative for net profit
+ */
+function metricAmount(metric: DrillDownMetric, lines: Array<{ kind: AccountKind; amount: number }>): number {
+  return lines.reduce((sum, line) => {
+    switch (metric) {
+      case 'revenue':
+        return line.kind === 'revenue' ? sum + line.amount : sum;
+      case 'expenses':
+        return line.kind === 'expense' ? sum + line.amount : sum;
+      case 'costOfGoodsSold':
+        return line.kind === 'costOfGoodsSold' ? sum + line.amount : sum;
+      default:
+        return line.kind === 'revenue'
+          ? sum + line.amount
+          : line.kind === 'expense' || line.kind === 'costOfGoodsSold' ? sum - line.amount : sum;
+    }
+  }, 0);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const formatDay = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : '');
+
+/**
+ * One page of the transactions behind a KPI for a period. Reads from the
+ * ledger mirror, so the list is empty until the organisation has synced.
+ */
+export async function listKpiTransactions(
+  service: AccountingService,
+  organisationId: string,
+  query: TransactionListQuery,
+  shortCode?: string | null
+): Promise<KpiTransactionPage> {
+  const { metric, range } = query;
+  const where = {
+    service,
+    organisationId,
+    date: { gte: new Date(`${range.fromDate}T00:00:00Z`), lte: new Date(`${range.toDate}T00:00:00Z`) },
+  };
+  const isCash = metric === 'cashBalance';
+  const documentTypes = metric === 'revenue' ? ['invoice'] : metric === 'netProfit' ? ['invoice', 'bill'] : ['bill'];
+  const bankDirections = metric === 'revenue' ? ['received'] : metric === 'netProfit' || isCash ? ['received', 'spent'] : ['spent'];
+
+  // Only the columns the list needs. `raw` is still read for the tax mode and
+  // exchange rate, which are not stored in columns of their own
+  const documentSelect = {
+    id: true, type: true, sourceType: true, externalId: true, date: true, number: true, contactName: true,
+    reference: true, status: true, currency: true, lineItems: true, raw: true,
+  };
+  const bankTransactionSelect = {
+    id: true, direction: true, sourceType: true, externalId: true, date: true, total: true, contactName: true,
+    reference: true, status: true, currency: true, lineItems: true, raw: true,
+  };
+  const paymentSelect = {
+    id: true, direction: true, sourceType: true, externalId: true, documentExternalId: true, date: true, amount: true,
+    contactName: true, reference: true, status: true, currency: true, raw: true,
+  };
+
+  const [syncState, accounts, documents, bankTransactions, payments] = await Promise.all([
+    prisma.ledgerSyncState.findFirst({
+      where: { service, organisationId, lastSyncedAt: { not: null } },
+      orderBy: { lastSyncedAt: 'desc' },
+    }),
+    loadAccountLookup(service, organisationId),
+    isCash
+      ? Promise.resolve([])
+      : prisma.ledgerDocument.findMany({
+          where: { ...where, type: { in: documentTypes }, status: { in: ['open', 'paid'] } },
+          select: documentSelect,
+        }),
+    prisma.ledgerBankTransaction.findMany({
+      where: { ...where, direction: { in: bankDirections }, NOT: { status: 'DELETED' } },
+      select: bankTransactionSelect,
+    }),
+    isCash
+      ? prisma.ledgerPayment.findMany({ where: { ...where, NOT: { status: 'DELETED' } }, select: paymentSelect })
+      : Promise.resolve([]),
+  ]);
+
+  const all: KpiTransaction[] = [];
+  const add = (transaction: Omit<KpiTransaction, 'typeLabel' | 'baseAmount' | 'sourceUrl'>, sourceType: string, linkId: string | null) => {
+    if (transaction.amount === 0) {
+      return;
+    }
+    all.push({
+      ...transaction,
+      amount: round(transaction.amount),
+      typeLabel: KIND_LABELS[transaction.kind],
+      baseAmount: toBaseAmount(transaction, transaction.amount),
+      sourceUrl: sourceDocumentUrl(service, transaction.kind, sourceType, linkId, shortCode),
+    });
+  };
+
+  for (const document of documents) {
+    const kind: TransactionKind = document.type === 'invoice' ? 'invoice' : 'bill';
+    const lineItems = (document.lineItems as AccountingLineItem[] | null) || [];
+    const lines = classifyLines(service, document.raw, lineItems, accounts, kind === 'invoice' ? 'revenue' : 'expense');
+    add({
+      id: document.id,
+      kind,
+      externalId: document.externalId,
+      date: formatDay(document.date),
+      number: document.number || '',
+      contactName: document.contactName || '',
+      reference: document.reference || '',
+      status: document.status,
+      currency: document.currency ?? undefined,
+      exchangeRate: exchangeRateOf(service, document.raw),
+      amount: metricAmount(metric, lines),
+      lineItems,
+    }, document.sourceType, document.externalId);
+  }
+
+  for (const transaction of bankTransactions) {
+    const kind: TransactionKind = transaction.direction === 'received' ? 'bank_received' : 'bank_spent';
+    const lineItems = (transaction.lineItems as AccountingLineItem[] | null) || [];
+    const total = Number(transaction.total);
+    const amount = isCash
+      ? (kind === 'bank_received' ? total : -total)
+      : metricAmount(metric, classifyLines(service, transaction.raw, lineItems, accounts, kind === 'bank_received' ? 'revenue' : 'expense'));
+    add({
+      id: transaction.id,
+      kind,
+      externalId: transaction.externalId,
+      date: formatDay(transaction.date),
+      number: '',
+      contactName: transaction.contactName || '',
+      reference: transaction.reference || '',
+      status: transaction.status,
+      currency: transaction.currency ?? undefined,
+      exchangeRate: exchangeRateOf(service, transaction.raw),
+      amount,
+      lineItems,
+    }, transaction.sourceType, transaction.externalId);
+  }
+
+  for (const payment of payments) {
+    const kind: TransactionKind = payment.direction === 'received' ? 'payment_received' : 'payment_paid';
+    const amount = Number(payment.amount);
+    add({
+      id: payment.id,
+      kind,
+      externalId: payment.externalId,
+      date: formatDay(payment.date),
+      number: '',
+      contactName: payment.contactName || '',
+      reference: payment.reference || '',
+      status: payment.status,
+      currency: payment.currency ?? undefined,
+      exchangeRate: exchangeRateOf(service, payment.raw),
+      amount: kind === 'payment_received' ? amount : -amount,
+      lineItems: [],
+    }, payment.sourceType, service === 'XERO' ? payment.documentExternalId : payment.externalId);
+  }
+
+  const kinds = Array.from(new Set(all.map((transaction) => transaction.kind)));
+  const search = query.search?.trim().toLowerCase();
+  const matching = all.filter((transaction) =>
+    (!query.kind || transaction.kind === query.kind) &&
+    (!search || [transaction.number, transaction.contactName, transaction.reference]
+      .some((value) => value.toLowerCase().includes(search)))
+  );
+
+  const sort = query.sort || 'date';
+  const factor = query.direction === 'asc' ? 1 : -1;
+  matching.sort((a, b) => {
+    const compared = sort === 'amount'
+      ? a.baseAmount - b.baseAmount
+      : a[sort].localeCompare(b[sort], undefined, { numeric: true, sensitivity: 'base' });
+    // Newest first among equals
+    return compared * factor || b.date.localeCompare(a.date);
+  });
+
+  const pageSize = Math.min(Math.max(Math.round(query.pageSize || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const totalPages = Math.max(Math.ceil(matching.length / pageSize), 1);
+  const page = Math.min(Math.max(Math.round(query.page || 1), 1), totalPages);
+
+  return {
+    metric,
+    fromDate: range.fromDate,
+    toDate: range.toDate,
+    transactions: matching.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    totalCount: matching.length,
+    totalPages,
+    totalAmount: round(matching.reduce((sum, transaction) => sum + transaction.baseAmount, 0)),
+    kinds,
+    ledgerSyncedAt: syncState?.lastSyncedAt ?? null,
+  };
+}
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { prisma } from '@/lib/db';
+import { invalidateReportCache, type AccountingService } from '@/lib/accounting';
+import { startLedgerSync } from '@/lib/ledger';
+
+/*
+ * Xero and QBO change notifications. Both vendors sign the raw request body
+ * with HMAC-SHA256 (base64): Xero with the webhook key in `x-xero-signature`,
+ * Intuit with the verifier token in `intuit-signature`.
+ */
+
+export interface LedgerChange {
+  organisationId: string;
+  /** Vendor entity that changed, e.g. 'INVOICE' or 'Invoice' */
+  entity: string;
+}
+
+function verifySignature(rawBody: string, signature: string | null, secret: string | undefined): boolean {
+  if (!secret || !signature) {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest();
+  const received = Buffer.from(signature, 'base64');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Check a Xero webhook signature. Xero's intent-to-receive check sends
+ * correctly and incorrectly signed payloads and expects 200 / 401 respectively.
+ */
+export function verifyXeroSignature(rawBody: string, signature: string | null): boolean {
+  return verifySignature(rawBody, signature, process.env.XERO_WEBHOOK_KEY);
+}
+
+/**
+ * Check an Intuit webhook signature against the app's verifier token
+ */
+export function verifyQboSignature(rawBody: string, signature: string | null): boolean {
+  return verifySignature(rawBody, signature, process.env.INTUIT_WEBHOOK_VERIFIER_TOKEN);
+}
+
+/**
+ * Changes listed in a Xero webhook payload (`{ events: [...] }`)
+ */
+export function parseXeroEvents(payload: any): LedgerChange[] {
+  return (payload?.events || [])
+    .filter((event: any) => event?.tenantId)
+    .map((event: any) => ({ organisationId: String(event.tenantId), entity: String(event.eventCategory || '') }));
+}
+
+/**
+ * Changes listed in an Intuit webhook payload. Handles both the classic
+ * `{ eventNotifications: [...] }` format and the CloudEvents array format.
+ */
+export function parseQboEvents(payload: any): LedgerChange[] {
+  if (Array.isArray(payload)) {
+    // CloudEvents: type is e.g. "qbo.invoice.updated.v1"
+    return payload
+      .filter((event: any) => event?.intuitaccountid)
+      .map((event: any) => ({
+        organisationId: String(event.intuitaccountid),
+        entity: String(event.type || '').split('.')[1] || '',
+      }));
+  }
+
+  const changes: LedgerChange[] = [];
+  for (const notification of payload?.eventNotifications || []) {
+    if (!notification?.realmId) {
+      continue;
+    }
+    for (const entity of notification.dataChangeEvent?.entities || []) {
+      changes.push({ organisationId: String(notification.realmId), entity: String(entity.name || '') });
+    }
+  }
+  return changes;
+}
+
+/**
+ * React to changed ledger data: drop cached reports and dashboard insights
+ * for the affected organisations and start an incremental ledger sync.
+ * Organisations nobody here is connected to are ignored. Returns the
+ * organisations that were handled.
+ */
+export async function handleLedgerChanges(service: AccountingService, changes: LedgerChange[]): Promise<string[]> {
+  const organisationIds = Array.from(new Set(changes.map((change) => change.organisationId)));
+  const handled: string[] = [];
+
+  for (const organisationId of organisationIds) {
+    const connections = service === 'XERO'
+      ? await prisma.xeroToken.findMany({
+          where: { tenantId: organisationId },
+          select: { userId: true, healthStatus: true },
+        })
+      : await prisma.qboToken.findMany({
+          where: { realmId: organisationId },
+          select: { userId: true, healthStatus: true },
+        });
+
+    if (connections.length === 0) {
+      continue;
+    }
+
+    await invalidateReportCache(service, organisationId);
+    // Insights summarise dashboard figures that may now be out of date. Only
+    // those for this organisation, plus older ones that don't record theirs
+    await prisma.financialInsight.deleteMany({
+      where: {
+        userId: { in: connections.map((connection) => connection.userId) },
+        OR: [{ service, organisationId }, { organisationId: null }],
+      },
+    });
+
+    const syncUser = connections.find((connection) => connection.healthStatus !== 'revoked');
+    if (syncUser) {
+      // Not awaited: webhooks must be acknowledged within a few seconds, and
+      // a run already in progress picks the change up on the next sync
+      startLedgerSync(syncUser.userId, service, organisationId, { trigger: 'webhook' }).catch((error) => {
+        console.error(`Failed to start ledger sync for ${service} ${organisationId}:`, error);
+      });
+    }
+
+    handled.push(organisationId);
+  }
+
+  return handled;
+}
@@ -0,0 +1,401 @@
+import { Widget } from '@prisma/client';
+import { prisma } from './db';
+import {
+  AccountingProvider,
+  AccountingService,
+  DateRange,
+  combineBreakdowns,
+  getAccountingProvider,
+  getFinancialYearEndMonth,
+  isAccountingService,
+  lastMonthRange,
+  resolveTimeframeRange,
+} from './accounting';
+import { getCashFlowTrend, getMonthlyTrend } from './dashboard';
+import { AGING_BUCKETS, AgingType, buildAgingReport } from './aging';
+
+/*
+ * Live data sources for chat dashboard widgets. A widget can keep the report
+ * it was built from (which provider report, which relative period, which
+ * figure) instead of only a static snapshot; refreshing re-runs the report
+ * and stores the result as the new snapshot. When the provider can't be
+ * reached the previous snapshot stays in place and the error is recorded.
+ */
+
+export type WidgetReport = 'monthlyTrend' | 'cashFlow' | 'profitAndLoss' | 'balanceSheet' | 'expenseBreakdown' | 'aging';
+
+export const WIDGET_REPORTS: WidgetReport[] = ['monthlyTrend', 'cashFlow', 'profitAndLoss', 'balanceSheet', 'expenseBreakdown', 'aging'];
+
+/** Relative periods, resolved again on every refresh */
+export const WIDGET_TIMEFRAMES = ['LAST_MONTH', 'MONTH', 'QUARTER', 'FYTD', 'YEAR', 'L12'];
+
+/** Figures each report can plot or show; the first is the default */
+export const WIDGET_REPORT_FIELDS: Record<WidgetReport, string[]> = {
+  monthlyTrend: ['revenue', 'expenses', 'costOfGoodsSold', 'netProfit'],
+  cashFlow: ['net', 'cashIn', 'cashOut'],
+  profitAndLoss: ['revenue', 'expenses', 'costOfGoodsSold', 'netProfit', 'netMargin'],
+  balanceSheet: ['cashBalance', 'totalAssets', 'totalLiabilities', 'equity'],
+  expenseBreakdown: [],
+  aging: [],
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  revenue: 'Revenue',
+  expenses: 'Expenses',
+  costOfGoodsSold: 'Cost of goods sold',
+  netProfit: 'Net profit',
+  netMargin: 'Net margin',
+  net: 'Net cash flow',
+  cashIn: 'Cash in',
+  cashOut: 'Cash out',
+  cashBalance: 'Cash balance',
+  totalAssets: 'Total assets',
+  totalLiabilities: 'Total liabilities',
+  equity: 'Equity',
+};
+
+/** Shortest auto-refresh interval; each refresh costs provider API calls */
+export const MIN_REFRESH_MINUTES = 5;
+
+export interface WidgetTransform {
+  /** Figure to plot or show, e.g. 'revenue' or 'cashIn' */
+  field?: string;
+  /** Figures to show side by side, for P&L and balance sheet charts */
+  fields?: string[];
+  /** How a monthly series becomes one number for number and gauge widgets */
+  aggregate?: 'sum' | 'average' | 'last';
+  /** Keep only the largest N categories */
+  top?: number;
+  unit?: string;
+  subtitle?: string;
+  /** Gauge scale */
+  min?: number;
+  max?: number;
+}
+
+export interface WidgetDataSource {
+  service: AccountingService;
+  organisationId: string;
+  report: WidgetReport;
+  params: {
+    timeframe: string;
+    /** Aging report only */
+    agingType?: AgingType;
+  };
+  transform: WidgetTransform;
+}
+
+export interface WidgetRefreshResult {
+  widget: Widget;
+  /** True when the stored snapshot is being shown because the refresh failed */
+  stale: boolean;
+  error?: string;
+}
+
+/** What a report produces before the transform shapes it for the widget type */
+type ReportOutput =
+  | { kind: 'series'; points: Array<{ label: string; figures: Record<string, number> }> }
+  | { kind: 'categories'; items: Array<{ label: string; value: number }> }
+  | { kind: 'figures'; figures: Record<string, number> };
+
+/**
+ * Check a data source from the chat tool or the API. `service` and
+ * `organisationId` are optional here; the caller fills them from the user's
+ * active connection. Returns an error message when invalid.
+ */
+export function validateWidgetDataSource(input: any): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'dataSource must be an object';
+  }
+  if (!WIDGET_REPORTS.includes(input.report)) {
+    return `dataSource.report must be one of ${WIDGET_REPORTS.join(', ')}`;
+  }
+  if (input.service !== undefined && !isAccountingService(input.service)) {
+    return 'dataSource.service must be QBO or XERO';
+  }
+  const timeframe = input.params?.timeframe;
+  if (timeframe !== undefined && !WIDGET_TIMEFRAMES.includes(timeframe)) {
+    return `dataSource.params.timeframe must be one of ${WIDGET_TIMEFRAMES.join(', ')}`;
+  }
+  const agingType = input.params?.agingType;
+  if (agingType !== undefined && agingType !== 'receivables' && agingType !== 'payables') {
+    return 'dataSource.params.agingType must be receivables or payables';
+  }
+  const fields = WIDGET_REPORT_FIELDS[input.report as WidgetReport];
+  const transform = input.transform || {};
+  for (const field of [transform.field, ...(Array.isArray(transform.fields) ? transform.fields : [])]) {
+    if (field !== undefined && !fields.includes(field)) {
+      return fields.length > 0
+        ? `${input.report} fields are ${fields.join(', ')}`
+        : `${input.report} has no fields to choose from`;
+    }
+  }
+  if (transform.aggregate !== undefined && !['sum', 'average', 'last'].includes(transform.aggregate)) {
+    return 'dataSource.transform.aggregate must be sum, average or last';
+  }
+  return null;
+}
+
+/**
+ * Fill in defaults and the connection a validated data source should read from
+ */
+export function normaliseWidgetDataSource(
+  input: any,
+  service: AccountingService,
+  organisationId: string
+): WidgetDataSource {
+  const report = input.report as WidgetReport;
+  return {
+    service,
+    organisationId,
+    report,
+    params: {
+      timeframe: input.params?.timeframe || (report === 'monthlyTrend' || report === 'cashFlow' ? 'L12' : 'MONTH'),
+      ...(report === 'aging' ? { agingType: input.params?.agingType || 'receivables' } : {}),
+    },
+    transform: { ...(input.transform || {}) },
+  };
+}
+
+/** Clamp a requested refresh interval; null means refresh on load only */
+export function normaliseRefreshMinutes(value: unknown): number | null {
+  const minutes = Number(value);
+  if (!value || !Number.isFinite(minutes) || minutes <= 0) {
+    return null;
+  }
+  return Math.max(MIN_REFRESH_MINUTES, Math.round(minutes));
+}
+
+async function resolveRange(provider: AccountingProvider, timeframe: string): Promise<DateRange> {
+  return timeframe === 'LAST_MONTH'
+    ? lastMonthRange()
+    : resolveTimeframeRange(timeframe, null, null, await getFinancialYearEndMonth(provider));
+}
+
+async function runReport(provider: AccountingProvider, source: WidgetDataSource): Promise<ReportOutput> {
+  const range = await resolveRange(provider, source.params.timeframe);
+
+  switch (source.report) {
+    case 'monthlyTrend': {
+      // A failed month must fail the refresh, not become a zero in the snapshot
+      const trend = await getMonthlyTrend(provider, range.fromDate, range.toDate, { strict: true });
+      return {
+        kind: 'series',
+        points: trend.map((item) => ({
+          label: item.month,
+          figures: {
+            revenue: item.revenue,
+            expenses: item.expenses,
+            costOfGoodsSold: item.costOfGoodsSold,
+            netProfit: item.revenue - item.expenses - item.costOfGoodsSold,
+          },
+        })),
+      };
+    }
+    case 'cashFlow': {
+      const months = await getCashFlowTrend(provider, range, { strict: true });
+      return {
+        kind: 'series',
+        points: months.map((item) => ({
+          label: item.month,
+          figures: { net: item.cashIn - item.cashOut, cashIn: item.cashIn, cashOut: item.cashOut },
+        })),
+      };
+    }
+    case 'profitAndLoss': {
+      const profitLoss = await provider.getProfitAndLoss(range);
+      return {
+        kind: 'figures',
+        figures: {
+          revenue: profitLoss.revenue,
+          expenses: profitLoss.operatingExpenses,
+          costOfGoodsSold: profitLoss.costOfGoodsSold,
+          netProfit: profitLoss.netProfit,
+          netMargin: profitLoss.revenue > 0 ? (profitLoss.netProfit / profitLoss.revenue) * 100 : 0,
+        },
+      };
+    }
+    case 'balanceSheet': {
+      const balanceSheet = await provider.getBalanceSheet(range.toDate);
+      return {
+        kind: 'figures',
+        figures: {
+          cashBalance: Math.abs(balanceSheet.cashBalance),
+          totalAssets: balanceSheet.totalAssets,
+          totalLiabilities: balanceSheet.totalLiabilities,
+          equity: balanceSheet.equity,
+        },
+      };
+    }
+    case 'expenseBreakdown': {
+      const profitLoss = await provider.getProfitAndLoss(range);
+      return {
+        kind: 'categories',
+        items: combineBreakdowns(profitLoss.expenseBreakdown, profitLoss.costOfGoodsSoldBreakdown)
+          .filter((item) => item.value > 0)
+          .map((item) => ({ label: item.name, value: item.value })),
+      };
+    }
+    case 'aging': {
+      const report = await buildAgingReport(provider, source.params.agingType || 'receivables');
+      return {
+        kind: 'categories',
+        items: AGING_BUCKETS.map((bucket) => ({ label: bucket, value: report.totals[bucket] })),
+      };
+    }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Shape a report's output into the `data` JSON the widget type renders (see
+ * lib/widgets.ts): { labels, values } for charts, { labels, series } for
+ * stacked bars, rows for tables, items for KPI lists, { value, unit,
+ * subtitle } for numbers and { value, min, max, unit, label } for gauges
+ */
+function applyTransform(output: ReportOutput, source: WidgetDataSource, widgetType: string): Record<string, unknown> {
+  const { transform } = source;
+  const fields = WIDGET_REPORT_FIELDS[source.report];
+  const field = transform.field || fields[0];
+  let labels: string[] = [];
+  let values: number[] = [];
+
+  if (output.kind === 'series') {
+    labels = output.points.map((point) => point.label);
+    values = output.points.map((point) => point.figures[field] ?? 0);
+  } else if (output.kind === 'categories') {
+    const items = transform.top ? output.items.slice(0, transform.top) : output.items;
+    labels = items.map((item) => item.label);
+    values = items.map((item) => item.value);
+  } else {
+    const chosen = transform.fields?.length ? transform.fields : fields;
+    labels = chosen;
+    values = chosen.map((name) => output.figures[name] ?? 0);
+  }
+
+  const formatOf = (name: string) => (name === 'netMargin' ? 'percent' : 'currency');
+  const seriesFields = transform.fields?.length ? transform.fields : [field];
+
+  if (output.kind === 'series' && (widgetType === 'stacked-bar' || (widgetType === 'area' && seriesFields.length > 1))) {
+    return {
+      labels,
+      series: seriesFields.map((name) => ({
+        name: FIELD_LABELS[name] || name,
+        values: output.points.map((point) => round(point.figures[name] ?? 0)),
+      })),
+    };
+  }
+
+  if (widgetType === 'stacked-bar') {
+    return { labels, series: [{ name: FIELD_LABELS[field] || 'Value', values: values.map(round) }] };
+  }
+
+  // The P&L walks from revenue down to net profit; other reports chain their values
+  if (widgetType === 'waterfall' && source.report === 'profitAndLoss') {
+    const { revenue, costOfGoodsSold, expenses } = (output as Extract<ReportOutput, { kind: 'figures' }>).figures;
+    return {
+      labels: ['Revenue', 'Cost of goods sold', 'Expenses'],
+      values: [round(revenue), round(-costOfGoodsSold), round(-expenses)],
+      totalLabel: 'Net profit',
+    };
+  }
+
+  if (widgetType === 'table') {
+    if (output.kind === 'series') {
+      return {
+        columns: [{ key: 'month', label: 'Month', format: 'text' }, ...seriesFields.map((name) => ({ key: name, label: FIELD_LABELS[name] || name, format: formatOf(name) }))],
+        rows: output.points.map((point) => ({
+          month: point.label,
+          ...Object.fromEntries(seriesFields.map((name) => [name, round(point.figures[name] ?? 0)])),
+        })),
+      };
+    }
+    return {
+      columns: [{ key: 'name', label: 'Name', format: 'text' }, { key: 'value', label: 'Amount', format: 'currency' }],
+      rows: labels.map((label, i) => ({
+        name: FIELD_LABELS[label] || label,
+        value: round(values[i]),
+      })),
+    };
+  }
+
+  if (widgetType === 'kpi-list') {
+    return {
+      items: labels.map((label, i) => ({
+        label: FIELD_LABELS[label] || label,
+        value: round(values[i]),
+        format: output.kind === 'figures' ? formatOf(label) : formatOf(field),
+      })),
+    };
+  }
+
+  if (widgetType !== 'number' && widgetType !== 'gauge') {
+    return { labels, values: values.map(round) };
+  }
+
+  let value: number;
+  if (output.kind === 'figures') {
+    value = output.figures[field] ?? 0;
+  } else if (output.kind === 'series' && transform.aggregate === 'last') {
+    value = values[values.length - 1] ?? 0;
+  } else if (output.kind === 'series' && transform.aggregate === 'average') {
+    value = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  } else {
+    value = values.reduce((sum, v) => sum + v, 0);
+  }
+
+  if (widgetType === 'gauge') {
+    return {
+      value: round(value),
+      min: transform.min ?? 0,
+      max: transform.max ?? Math.max(100, Math.ceil(value * 1.25)),
+      unit: transform.unit,
+      label: transform.subtitle,
+    };
+  }
+  return { value: round(value), unit: transform.unit, subtitle: transform.subtitle };
+}
+
+/**
+ * Run a data source against its provider and return the widget data.
+ * Throws when the connection is gone or the provider call fails.
+ */
+export async function buildWidgetData(userId: string, source: WidgetDataSource, widgetType: string) {
+  const provider = await getAccountingProvider(userId, source.service, source.organisationId);
+  if (!provider) {
+    throw new Error('The accounting connection for this widget is no longer available');
+  }
+  return applyTransform(await runReport(provider, source), source, widgetType);
+}
+
+/**
+ * Re-run a live widget's data source and store the result as its snapshot.
+ * On failure the stored snapshot is kept and the error recorded, so the
+ * panel can keep showing the last good data.
+ */
+export async function refreshWidget(widget: Widget): Promise<WidgetRefreshResult> {
+  const source = widget.dataSource as unknown as WidgetDataSource | null;
+  if (!source) {
+    return { widget, stale: false };
+  }
+
+  try {
+    const data = await buildWidgetData(widget.userId, source, widget.type);
+    const updated = await prisma.widget.update({
+      where: { id: widget.id },
+      data: { data: data as any, refreshedAt: new Date(), refreshError: null },
+    });
+    return { widget: updated, stale: false };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Refresh failed';
+    console.error(`Widget ${widget.id} refresh error:`, error);
+    const updated = await prisma.widget.update({
+      where: { id: widget.id },
+      data: { refreshError: message },
+    });
+    return { widget: updated, stale: true, error: message };
+  }
+}
@@ -0,0 +1,106 @@
+/*
+ * Chat dashboard widget types and the `data` shape each one renders. Used
+ * by the widgets API to reject payloads the right panel can't draw.
+ */
+
+export type WidgetType = 'line' | 'bar' | 'pie' | 'gauge' | 'number' | 'table' | 'kpi-list' | 'stacked-bar' | 'area' | 'waterfall';
+
+export const WIDGET_TYPES: WidgetType[] = ['line', 'bar', 'pie', 'gauge', 'number', 'table', 'kpi-list', 'stacked-bar', 'area', 'waterfall'];
+
+/** How table cells and KPI values are displayed */
+export type WidgetValueFormat = 'currency' | 'number' | 'percent' | 'date' | 'text';
+
+export const WIDGET_VALUE_FORMATS: WidgetValueFormat[] = ['currency', 'number', 'percent', 'date', 'text'];
+
+export interface WidgetTableColumn {
+  key: string;
+  label?: string;
+  format?: WidgetValueFormat;
+}
+
+/** `table`: rows keyed by column; columns default to the first row's keys */
+export interface WidgetTableData {
+  columns?: WidgetTableColumn[];
+  rows: Array<Record<string, unknown>>;
+  currency?: string;
+}
+
+/** `kpi-list`: labelled figures with an optional percent change */
+export interface WidgetKpiListData {
+  items: Array<{ label: string; value: number | string; format?: WidgetValueFormat; change?: number | null }>;
+  currency?: string;
+}
+
+/** `stacked-bar` (and multi-series `area`): one value per label per series */
+export interface WidgetSeriesData {
+  labels: string[];
+  series: Array<{ name: string; values: number[] }>;
+}
+
+export function isWidgetType(value: unknown): value is WidgetType {
+  return WIDGET_TYPES.includes(value as WidgetType);
+}
+
+function isLabelled(data: any): boolean {
+  return Array.isArray(data?.labels) && (Array.isArray(data.values) || Array.isArray(data.datasets));
+}
+
+function checkFormat(format: unknown, where: string): string | null {
+  return format === undefined || WIDGET_VALUE_FORMATS.includes(format as WidgetValueFormat)
+    ? null
+    : `${where} format must be one of ${WIDGET_VALUE_FORMATS.join(', ')}`;
+}
+
+/**
+ * Check a widget's data against its type. Returns an error message when the
+ * panel couldn't render it, or null when it is fine.
+ */
+export function validateWidgetData(type: WidgetType, data: any): string | null {
+  if (!data || typeof data !== 'object') {
+    return 'data must be an object';
+  }
+
+  switch (type) {
+    case 'line':
+    case 'bar':
+    case 'pie':
+    case 'waterfall':
+      return isLabelled(data) ? null : `${type} data needs labels with values (or Chart.js datasets)`;
+    case 'area':
+    case 'stacked-bar':
+      if (Array.isArray(data.labels) && Array.isArray(data.series)) {
+        return data.series.every((s: any) => typeof s?.name === 'string' && Array.isArray(s.values))
+          ? null
+          : `${type} series need a name and values`;
+      }
+      return isLabelled(data) ? null : `${type} data needs labels with series, values or Chart.js datasets`;
+    case 'gauge':
+    case 'number':
+      return typeof data.value === 'number' || typeof data.value === 'string' ? null : `${type} data needs a value`;
+    case 'table': {
+      if (!Array.isArray(data.rows) || data.rows.some((row: any) => !row || typeof row !== 'object')) {
+        return 'table data needs rows, an array of objects';
+      }
+      if (data.columns !== undefined) {
+        if (!Array.isArray(data.columns) || data.columns.some((c: any) => typeof c?.key !== 'string')) {
+          return 'table columns need a key';
+        }
+        for (const column of data.columns) {
+          const error = checkFormat(column.format, `column ${column.key}`);
+          if (error) return error;
+        }
+      }
+      return null;
+    }
+    case 'kpi-list': {
+      if (!Array.isArray(data.items) || data.items.some((item: any) => typeof item?.label !== 'string' || item.value === undefined)) {
+        return 'kpi-list data needs items with a label and value';
+      }
+      for (const item of data.items) {
+        const error = checkFormat(item.format, `item ${item.label}`);
+        if (error) return error;
+      }
+      return null;
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import { XeroClient } from 'xero-node';
 import { getXeroTokens, refreshXeroToken, createXeroClient } from './xero';
-import { prisma } from './db';
+import { scheduleProviderCall } from './rate-limit';
 
 /**
  * Creates an authenticated Xero API client for a specific user and tenant
@@ -54,6 +54,13 @@ export async function getXeroApiClient(userId: string, tenantId: string): Promis
   }
 }
 
+/**
+ * Run a Xero API call through the tenant's rate limiter
+ */
+function callXero<T>(tenantId: string, call: () => Promise<T>): Promise<T> {
+  return scheduleProviderCall('XERO', tenantId, call);
+}
+
 /**
  * Get organization information
  */
@@ -64,7 +71,7 @@ export async function getOrganisation(userId: string, tenantId: string) {
   }
 
   try {
-    const response = await xero.accountingApi.getOrganisations(tenantId);
+    const response = await callXero(tenantId, () => xero.accountingApi.getOrganisations(tenantId));
     return response.body.organisations?.[0] || null;
   } catch (error) {
     console.error('Error fetching organisation:', error);
@@ -76,9 +83,12 @@ export async function getOrganisation(userId: string, tenantId: string) {
  * Get contacts from Xero
  */
 export async function getContacts(userId: string, tenantId: string, options?: {
+  ifModifiedSince?: Date;
   page?: number;
   where?: string;
   order?: string;
+  includeArchived?: boolean;
+  pageSize?: number;
 }) {
   const xero = await getXeroApiClient(userId, tenantId);
   if (!xero) {
@@ -86,18 +96,18 @@ export async function getContacts(userId: string, tenantId: string, options?: {
   }
 
   try {
-    const response = await xero.accountingApi.getContacts(
+    const response = await callXero(tenantId, () => xero.accountingApi.getContacts(
       tenantId,
-      undefined, // ifModifiedSince
+      options?.ifModifiedSince,
       options?.where,
       options?.order,
       undefined, // IDs
       options?.page,
-      undefined, // includeArchived
+      options?.includeArchived,
       undefined, // summaryOnly
       undefined,  // searchTerm,
-      20
-    );
+      options?.pageSize ?? 20
+    ));
     return response.body;
   } catch (error) {
     console.error('Error fetching contacts:', error);
@@ -109,10 +119,12 @@ export async function getContacts(userId: string, tenantId: string, options?: {
  * Get invoices from Xero
  */
 export async function getInvoices(userId: string, tenantId: string, options?: {
+  ifModifiedSince?: Date;
   page?: number;
   where?: string;
   order?: string;
   statuses?: string[];
+  pageSize?: number;
 }) {
   const xero = await getXeroApiClient(userId, tenantId);
   if (!xero) {
@@ -120,9 +132,9 @@ export async function getInvoices(userId: string, tenantId: string, options?: {
   }
 
   try {
-    const response = await xero.accountingApi.getInvoices(
+    const response = await callXero(tenantId, () => xero.accountingApi.getInvoices(
       tenantId,
-      undefined, // ifModifiedSince
+      options?.ifModifiedSince,
       options?.where,
       options?.order,
       undefined, // IDs
@@ -134,8 +146,8 @@ export async function getInvoices(userId: string, tenantId: string, options?: {
       undefined, // createdByMyApp
       undefined, // unitdp
       undefined,  // summaryOnly,
-      20
-    );
+      options?.pageSize ?? 20
+    ));
     return response.body;
   } catch (error) {
     console.error('Error fetching invoices:', error);
@@ -147,6 +159,7 @@ export async function getInvoices(userId: string, tenantId: string, options?: {
  * Get accounts from Xero
  */
 export async function getAccounts(userId: string, tenantId: string, options?: {
+  ifModifiedSince?: Date;
   where?: string;
   order?: string;
 }) {
@@ -156,12 +169,12 @@ export async function getAccounts(userId: string, tenantId: string, options?: {
   }
 
   try {
-    const response = await xero.accountingApi.getAccounts(
+    const response = await callXero(tenantId, () => xero.accountingApi.getAccounts(
       tenantId,
-      undefined, // ifModifiedSince
+      options?.ifModifiedSince,
       options?.where,
       options?.order
-    );
+    ));
     return response.body;
   } catch (error) {
     console.error('Error fetching accounts:', error);
@@ -169,6 +182,50 @@ export async function getAccounts(userId: string, tenantId: string, options?: {
   }
 }
 
+/**
+ * Get budgets from Xero (without budget lines)
+ */
+export async function getBudgets(userId: string, tenantId: string) {
+  const xero = await getXeroApiClient(userId, tenantId);
+  if (!xero) {
+    throw new Error('Failed to create Xero API client');
+  }
+
+  try {
+    const response = await callXero(tenantId, () => xero.accountingApi.getBudgets(tenantId));
+    return response.body;
+  } catch (error) {
+    console.error('Error fetching budgets:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single Xero budget with its monthly budget lines
+ */
+export async function getBudget(userId: string, tenantId: string, budgetId: string, options?: {
+  dateFrom?: string;
+  dateTo?: string;
+}) {
+  const xero = await getXeroApiClient(userId, tenantId);
+  if (!xero) {
+    throw new Error('Failed to create Xero API client');
+  }
+
+  try {
+    const response = await callXero(tenantId, () => xero.accountingApi.getBudget(
+      tenantId,
+      budgetId,
+      options?.dateTo,
+      options?.dateFrom
+    ));
+    return response.body;
+  } catch (error) {
+    console.error('Error fetching budget:', error);
+    throw error;
+  }
+}
+
 /**
  * Get items from Xero
  */
@@ -183,13 +240,13 @@ export async function getItems(userId: string, tenantId: string, options?: {
   }
 
   try {
-    const response = await xero.accountingApi.getItems(
+    const response = await callXero(tenantId, () => xero.accountingApi.getItems(
       tenantId,
       undefined, // ifModifiedSince
       options?.where,
       options?.order,
       options?.unitdp
-    );
+    ));
     return response.body;
   } catch (error) {
     console.error('Error fetching items:', error);
@@ -198,18 +255,19 @@ export async function getItems(userId: string, tenantId: string, options?: {
 }
 
 /**
- * Create a contact in Xero
+ * Create a contact in Xero. Retrying with the same idempotency key returns
+ * the original response instead of creating a duplicate.
  */
-export async function createContact(userId: string, tenantId: string, contactData: any) {
+export async function createContact(userId: string, tenantId: string, contactData: any, idempotencyKey?: string) {
   const xero = await getXeroApiClient(userId, tenantId);
   if (!xero) {
     throw new Error('Failed to create Xero API client');
   }
 
   try {
-    const response = await xero.accountingApi.createContacts(tenantId, {
+    const response = await callXero(tenantId, () => xero.accountingApi.createContacts(tenantId, {
       contacts: [contactData]
-    });
+    }, undefined, idempotencyKey));
     return response.body;
   } catch (error) {
     console.error('Error creating contact:', error);
@@ -220,16 +278,16 @@ export async function createContact(userId: string, tenantId: string, contactDat
 /**
  * Create an invoice in Xero
  */
-export async function createInvoice(userId: string, tenantId: string, invoiceData: any) {
+export async function createInvoice(userId: string, tenantId: string, invoiceData: any, idempotencyKey?: string) {
   const xero = await getXeroApiClient(userId, tenantId);
   if (!xero) {
     throw new Error('Failed to create Xero API client');
   }
 
   try {
-    const response = await xero.accountingApi.createInvoices(tenantId, {
+    const response = await callXero(tenantId, () => xero.accountingApi.createInvoices(tenantId, {
       invoices: [invoiceData]
-    }, undefined, 4); // unitdp = 4 for 4 decimal places
+    }, undefined, 4, idempotencyKey)); // unitdp = 4 for 4 decimal places
     return response.body;
   } catch (error) {
     console.error('Error creating invoice:', error);
@@ -237,13 +295,87 @@ export async function createInvoice(userId: string, tenantId: string, invoiceDat
   }
 }
 
+/**
+ * Record a payment against an invoice or bill in Xero
+ */
+export async function createPayment(userId: string, tenantId: string, paymentData: any, idempotencyKey?: string) {
+  const xero = await getXeroApiClient(userId, tenantId);
+  if (!xero) {
+    throw new Error('Failed to create Xero API client');
+  }
+
+  try {
+    const response = await callXero(tenantId, () => xero.accountingApi.createPayment(tenantId, paymentData, idempotencyKey));
+    return response.body;
+  } catch (error) {
+    console.error('Error creating payment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single invoice or bill from Xero, or null when it doesn't exist
+ */
+export async function getInvoiceById(userId: string, tenantId: string, invoiceId: string) {
+  const xero = await getXeroApiClient(userId, tenantId);
+  if (!xero) {
+    throw new Error('Failed to create Xero API client');
+  }
+
+  try {
+    const response = await callXero(tenantId, () => xero.accountingApi.getInvoice(tenantId, invoiceId));
+    return response.body.invoices?.[0] || null;
+  } catch (error) {
+    console.error('Error fetching invoice by ID:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single contact from Xero, or null when it doesn't exist
+ */
+export async function getContactById(userId: string, tenantId: string, contactId: string) {
+  const xero = await getXeroApiClient(userId, tenantId);
+  if (!xero) {
+    throw new Error('Failed to create Xero API client');
+  }
+
+  try {
+    const response = await callXero(tenantId, () => xero.accountingApi.getContact(tenantId, contactId));
+    return response.body.contacts?.[0] || null;
+  } catch (error) {
+    console.error('Error fetching contact by ID:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a single account from Xero's chart of accounts, or null when it doesn't exist
+ */
+export async function getAccountById(userId: string, tenantId: string, accountId: string) {
+  const xero = await getXeroApiClient(userId, tenantId);
+  if (!xero) {
+    throw new Error('Failed to create Xero API client');
+  }
+
+  try {
+    const response = await callXero(tenantId, () => xero.accountingApi.getAccount(tenantId, accountId));
+    return response.body.accounts?.[0] || null;
+  } catch (error) {
+    console.error('Error fetching account by ID:', error);
+    throw error;
+  }
+}
+
 /**
  * Get bank transactions from Xero
  */
 export async function getBankTransactions(userId: string, tenantId: string, options?: {
+  ifModifiedSince?: Date;
   page?: number;
   where?: string;
   order?: string;
+  pageSize?: number;
 }) {
   const xero = await getXeroApiClient(userId, tenantId);
   if (!xero) {
@@ -251,15 +383,15 @@ export async function getBankTransactions(userId: string, tenantId: string, opti
   }
 
   try {
-    const response = await xero.accountingApi.getBankTransactions(
+    const response = await callXero(tenantId, () => xero.accountingApi.getBankTransactions(
       tenantId,
-      undefined, // ifModifiedSince
+      options?.ifModifiedSince,
       options?.where,
       options?.order,
       options?.page,
       undefined, 
-      20  // page size
-    );
+      options?.pageSize ?? 20
+    ));
     return response.body;
   } catch (error) {
     console.error('Error fetching bank transactions:', error);
@@ -277,7 +409,7 @@ export async function getReports(userId: string, tenantId: string, reportName: s
   }
 
   try {
-    const response = await xero.accountingApi.getReportsList(tenantId);
+    const response = await callXero(tenantId, () => xero.accountingApi.getReportsList(tenantId));
     // This is a basic implementation - you'd need to implement specific report methods
     // based on the Xero API documentation for the specific reports you need
     return response.body;
@@ -307,7 +439,7 @@ export async function getProfitAndLossReport(userId: string, tenantId: string, o
   try {
     console.log('Getting profit and loss report');
 
-    const response = await xero.accountingApi.getReportProfitAndLoss(
+    const response = await callXero(tenantId, () => xero.accountingApi.getReportProfitAndLoss(
       tenantId,
       options?.fromDate,
       options?.toDate,
@@ -319,7 +451,7 @@ export async function getProfitAndLossReport(userId: string, tenantId: string, o
       options?.trackingOptionID2,
       options?.standardLayout,
       options?.paymentsOnly
-    );
+    ));
     console.log('Profit and loss report response');
     console.log(response.body);
     return response.body;
@@ -344,7 +476,7 @@ export async function getBalanceSheetReport(userId: string, tenantId: string, op
   }
 
   try {
-    const response = await xero.accountingApi.getReportBalanceSheet(
+    const response = await callXero(tenantId, () => xero.accountingApi.getReportBalanceSheet(
       tenantId,
       options?.date,
       options?.periods,
@@ -353,7 +485,7 @@ export async function getBalanceSheetReport(userId: string, tenantId: string, op
       options?.trackingOptionID2,
       options?.standardLayout,
       options?.paymentsOnly
-    );
+    ));
     console.log('Balance sheet report response');
     console.log(response.body);
     return response.body;
@@ -376,7 +508,7 @@ export async function getCreditNotes(userId: string, tenantId: string, options?:
   }
 
   try {
-    const response = await xero.accountingApi.getCreditNotes(
+    const response = await callXero(tenantId, () => xero.accountingApi.getCreditNotes(
       tenantId,
       options?.ifModifiedSince,
       options?.where,
@@ -384,7 +516,7 @@ export async function getCreditNotes(userId: string, tenantId: string, options?:
       options?.page,
       options?.unitdp,
      20
-    );
+    ));
     console.log('Credit notes response');
     console.log(response.body);
     return response.body;
@@ -404,11 +536,11 @@ export async function getTaxRates(userId: string, tenantId: string, options?: {
   }
 
   try {
-    const response = await xero.accountingApi.getTaxRates(
+    const response = await callXero(tenantId, () => xero.accountingApi.getTaxRates(
       tenantId,
       options?.where,
       options?.order
-    );
+    ));
     console.log('Tax rates response');
     console.log(response.body);
     return response.body;
@@ -423,20 +555,21 @@ export async function getPayments(userId: string, tenantId: string, options?: {
   where?: string;
   order?: string;
   page?: number;
+  pageSize?: number;
 }) {
   const xero = await getXeroApiClient(userId, tenantId);
   if (!xero) {
     throw new Error('Failed to create Xero API client');
   }
   try {
-    const response = await xero.accountingApi.getPayments(
+    const response = await callXero(tenantId, () => xero.accountingApi.getPayments(
       tenantId,
       options?.ifModifiedSince,
       options?.where,
       options?.order,
       options?.page,
-      20
-    );
+      options?.pageSize ?? 20
+    ));
     console.log('Payments response');
     console.log(response.body);
     return response.body;
@@ -456,11 +589,11 @@ export async function getTrialBalanceReport(userId: string, tenantId: string, op
   }
 
   try {
-    const response = await xero.accountingApi.getReportTrialBalance(
+    const response = await callXero(tenantId, () => xero.accountingApi.getReportTrialBalance(
       tenantId,
       options?.date,
       options?.paymentsOnly
-    );
+    ));
     console.log('Trial balance report response');
     console.log(response.body);
     return response.body;
@@ -480,11 +613,11 @@ export async function getPayrollEmployees(userId: string, tenantId: string, opti
   }
 
   try {
-    const response = await xero.payrollNZApi.getEmployees(
+    const response = await callXero(tenantId, () => xero.payrollNZApi.getEmployees(
       tenantId,
       options?.filter,
       options?.page
-    );
+    ));
     console.log('Payroll employees response');
     console.log(response.body);
     return response.body;
@@ -506,13 +639,13 @@ export async function getAgedPayablesByContact(userId: string, tenantId: string,
   }
 
   try {
-    const response = await xero.accountingApi.getReportAgedPayablesByContact(
+    const response = await callXero(tenantId, () => xero.accountingApi.getReportAgedPayablesByContact(
       tenantId,
       options?.contactId || '',
       options?.date,
       options?.fromDate,
       options?.toDate
-    );
+    ));
     console.log('Aged payables by contact response');
     console.log(response.body);
     return response.body;
@@ -532,11 +665,11 @@ export async function getLeaveTypes(userId: string, tenantId: string, options?:
   }
 
   try {
-    const response = await xero.payrollNZApi.getLeaveTypes(
+    const response = await callXero(tenantId, () => xero.payrollNZApi.getLeaveTypes(
       tenantId,
       options?.page,
       options?.activeOnly
-    );
+    ));
     console.log('Leave types response');
     console.log(response.body);
     return response.body;
@@ -546,27 +679,6 @@ export async function getLeaveTypes(userId: string, tenantId: string, options?:
   }
 }
 
-// Wrapper functions for use in API routes without tenantId context
-export async function getXeroProfitAndLoss(userId: string, options: any) {
-  const userTokens = await prisma.xeroToken.findFirst({
-    where: { userId }
-  });
-  if (!userTokens) {
-    throw new Error("No Xero connection found");
-  }
-  return getProfitAndLossReport(userId, userTokens.tenantId, options);
-}
-
-export async function getXeroBalanceSheet(userId: string, date?: string) {
-  const userTokens = await prisma.xeroToken.findFirst({
-    where: { userId }
-  });
-  if (!userTokens) {
-    throw new Error("No Xero connection found");
-  }
-  return getBalanceSheetReport(userId, userTokens.tenantId, { date });
-}
-
 export function extractAccountValue(report: any, accountNames: string[]): number {
   if (!report?.reports || !Array.isArray(report.reports)) {
     return 0
@@ -614,38 +726,23 @@ export function extractAccountValue(report: any, accountNames: string[]): number
 }
 
 /**
- * Utility function to delay execution
+ * Get bank summary report from Xero for a specific tenant
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-/**
- * Get bank summary report from Xero
- * Wrapper function that automatically gets tenantId from user's tokens
- */
-export async function getXeroBankSummary(userId: string, options?: {
+export async function getBankSummaryReport(userId: string, tenantId: string, options?: {
   fromDate?: string;
   toDate?: string;
 }) {
-  const userTokens = await prisma.xeroToken.findFirst({
-    where: { userId }
-  });
-  if (!userTokens) {
-    throw new Error("No Xero connection found");
-  }
-  
-  const xero = await getXeroApiClient(userId, userTokens.tenantId);
+  const xero = await getXeroApiClient(userId, tenantId);
   if (!xero) {
     throw new Error('Failed to create Xero API client');
   }
 
   try {
-    const response = await xero.accountingApi.getReportBankSummary(
-      userTokens.tenantId,
+    const response = await callXero(tenantId, () => xero.accountingApi.getReportBankSummary(
+      tenantId,
       options?.fromDate,
       options?.toDate
-    );
+    ));
     return response.body;
   } catch (error) {
     console.error('Error fetching bank summary report:', error);
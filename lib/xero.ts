@@ -1,5 +1,23 @@
+import { XeroToken } from '@prisma/client';
 import { XeroClient } from 'xero-node';
 import { prisma } from '@/lib/db';
+import { decryptToken, decryptTokenFields, encryptTokenFields } from '@/lib/token-crypto';
+import { recordRefreshFailure, runRefreshOnce } from '@/lib/token-health';
+
+// Xero does not return a refresh token lifetime; unused refresh tokens expire
+// after 60 days and every refresh issues a new one with a fresh 60 days
+const XERO_REFRESH_TOKEN_LIFETIME_SECONDS = 60 * 24 * 60 * 60;
+
+/**
+ * When the refresh token in a token set stops working. Uses the lifetime the
+ * token endpoint reports, if any, otherwise Xero's documented 60 days.
+ */
+function getRefreshTokenExpiry(refreshTokenExpiresIn?: unknown): Date {
+  const lifetime = typeof refreshTokenExpiresIn === 'number' && refreshTokenExpiresIn > 0
+    ? refreshTokenExpiresIn
+    : XERO_REFRESH_TOKEN_LIFETIME_SECONDS;
+  return new Date(Date.now() + lifetime * 1000);
+}
 
 // Create Xero API client instance
 export function createXeroClient(state?: string) {
@@ -32,13 +50,22 @@ export interface XeroTokenData {
   tokenType: string;
   scope?: string;
   tenantId: string;
+  tenantName?: string;
+  refreshTokenExpiresIn?: number;
 }
 
 export async function saveXeroTokens(userId: string, tokenData: XeroTokenData) {
   const expiresAt = new Date(Date.now() + tokenData.expiresIn * 1000);
-  const refreshExpiresAt = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000); // 60 days
+  const refreshExpiresAt = getRefreshTokenExpiry(tokenData.refreshTokenExpiresIn);
+
+  // Tokens are encrypted at rest
+  const encrypted = encryptTokenFields({
+    accessToken: tokenData.accessToken,
+    refreshToken: tokenData.refreshToken,
+    idToken: tokenData.idToken,
+  });
 
-  return await prisma.xeroToken.upsert({
+  const tokenRecord = await prisma.xeroToken.upsert({
     where: {
       userId_tenantId: {
         userId,
@@ -46,34 +73,42 @@ export async function saveXeroTokens(userId: string, tokenData: XeroTokenData) {
       }
     },
     update: {
-      accessToken: tokenData.accessToken,
-      refreshToken: tokenData.refreshToken,
-      idToken: tokenData.idToken,
+      accessToken: encrypted.accessToken,
+      refreshToken: encrypted.refreshToken,
+      idToken: encrypted.idToken,
       expiresIn: tokenData.expiresIn,
       tokenType: tokenData.tokenType,
       scope: tokenData.scope,
       accessTokenExpiresAt: expiresAt,
       refreshTokenExpiresAt: refreshExpiresAt,
+      healthStatus: 'ok',
+      lastRefreshError: null,
+      lastRefreshedAt: new Date(),
+      ...(tokenData.tenantName ? { tenantName: tokenData.tenantName } : {}),
       updatedAt: new Date()
     },
     create: {
       userId,
       tenantId: tokenData.tenantId,
-      accessToken: tokenData.accessToken,
-      refreshToken: tokenData.refreshToken,
-      idToken: tokenData.idToken,
+      tenantName: tokenData.tenantName,
+      accessToken: encrypted.accessToken,
+      refreshToken: encrypted.refreshToken,
+      idToken: encrypted.idToken,
       expiresIn: tokenData.expiresIn,
       tokenType: tokenData.tokenType,
       scope: tokenData.scope,
       accessTokenExpiresAt: expiresAt,
-      refreshTokenExpiresAt: refreshExpiresAt
+      refreshTokenExpiresAt: refreshExpiresAt,
+      lastRefreshedAt: new Date()
     }
   });
+
+  return decryptTokenFields(tokenRecord);
 }
 
 export async function getXeroTokens(userId: string, tenantId?: string) {
   if (tenantId) {
-    return await prisma.xeroToken.findUnique({
+    const tokenRecord = await prisma.xeroToken.findUnique({
       where: {
         userId_tenantId: {
           userId,
@@ -81,28 +116,35 @@ export async function getXeroTokens(userId: string, tenantId?: string) {
         }
       }
     });
+    return tokenRecord ? decryptTokenFields(tokenRecord) : null;
   }
   
   // Return all tokens for user if no specific tenant
-  return await prisma.xeroToken.findMany({
+  const tokenRecords = await prisma.xeroToken.findMany({
     where: { userId }
   });
+  return tokenRecords.map(decryptTokenFields);
 }
 
 export async function refreshXeroToken(userId: string, tenantId: string) {
-  const tokenRecord = await prisma.xeroToken.findUnique({
-    where: {
-      userId_tenantId: {
-        userId,
-        tenantId
-      }
-    }
-  });
+  const tokenRecord = await getXeroTokens(userId, tenantId);
 
-  if (!tokenRecord) {
+  if (!tokenRecord || Array.isArray(tokenRecord)) {
     throw new Error('No Xero token found for user and tenant');
   }
 
+  // Tenants from one connection share a refresh token, so key on the token
+  // rather than the tenant to keep sibling tenants from refreshing it twice
+  return runRefreshOnce(`XERO:${userId}:${tokenRecord.refreshToken}`, () =>
+    exchangeXeroRefreshToken(userId, tenantId, tokenRecord)
+  );
+}
+
+async function exchangeXeroRefreshToken(
+  userId: string,
+  tenantId: string,
+  tokenRecord: XeroToken
+) {
   try {
     const xero = createXeroClient();
     await xero.initialize();
@@ -119,35 +161,53 @@ export async function refreshXeroToken(userId: string, tenantId: string) {
     const newTokenSet = await xero.refreshToken();
     
     if (newTokenSet.access_token && newTokenSet.refresh_token) {
-      await saveXeroTokens(userId, {
-        accessToken: newTokenSet.access_token,
-        refreshToken: newTokenSet.refresh_token,
-        idToken: newTokenSet.id_token,
-        expiresIn: newTokenSet.expires_in || 1800,
-        tokenType: newTokenSet.token_type || 'Bearer',
-        scope: newTokenSet.scope,
-        tenantId
+      const expiresIn = newTokenSet.expires_in || 1800;
+
+      // One Xero connection covers every tenant authorised in it, and refresh
+      // tokens rotate, so update every tenant row that shared the old token.
+      // Ciphertexts differ per row, so compare the decrypted values.
+      const userTokens = await prisma.xeroToken.findMany({
+        where: { userId },
+        select: { id: true, refreshToken: true }
+      });
+      const siblingIds = userTokens
+        .filter((row) => decryptToken(row.refreshToken) === tokenRecord.refreshToken)
+        .map((row) => row.id);
+
+      await prisma.xeroToken.updateMany({
+        where: {
+          id: { in: siblingIds }
+        },
+        data: {
+          ...encryptTokenFields({
+            accessToken: newTokenSet.access_token,
+            refreshToken: newTokenSet.refresh_token,
+            idToken: newTokenSet.id_token,
+          }),
+          expiresIn,
+          tokenType: newTokenSet.token_type || 'Bearer',
+          scope: newTokenSet.scope,
+          accessTokenExpiresAt: new Date(Date.now() + expiresIn * 1000),
+          refreshTokenExpiresAt: getRefreshTokenExpiry(newTokenSet.refresh_token_expires_in),
+          healthStatus: 'ok',
+          lastRefreshError: null,
+          lastRefreshedAt: new Date()
+        }
       });
 
       return newTokenSet;
     }
   } catch (error) {
     console.error('Failed to refresh Xero token:', error);
+    await recordRefreshFailure('XERO', userId, tenantId, error, tokenRecord.refreshToken);
     throw error;
   }
 }
 
 export async function revokeXeroToken(userId: string, tenantId: string) {
-  const tokenRecord = await prisma.xeroToken.findUnique({
-    where: {
-      userId_tenantId: {
-        userId,
-        tenantId
-      }
-    }
-  });
+  const tokenRecord = await getXeroTokens(userId, tenantId);
 
-  if (!tokenRecord) {
+  if (!tokenRecord || Array.isArray(tokenRecord)) {
     throw new Error('No Xero token found for user and tenant');
   }
 
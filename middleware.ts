@@ -5,13 +5,15 @@ export const config = {
     /*
      * Match all request paths except for the ones starting with:
      * - api/auth (authentication endpoints)
+     * - api/webhooks (Xero / QBO notifications, verified by signature)
+     * - share/ and api/share/ (read-only share links, checked per link)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
      * - login (login page)
      * - public assets (images, etc.)
      */
-    "/((?!api/auth|_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|ico|webp)|login).*)",
+    "/((?!api/auth|api/webhooks|api/share/|share/|_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|ico|webp)|login).*)",
   ],
 };
 
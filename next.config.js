@@ -2,6 +2,11 @@
 const nextConfig = {
   reactStrictMode: false,
   experimental: {
+    // Starts the background OAuth token refresh job (see instrumentation.ts)
+    instrumentationHook: true,
+    // pdfkit reads its font metrics from disk, so both report libraries are
+    // loaded from node_modules rather than bundled
+    serverComponentsExternalPackages: ['pdfkit', 'exceljs'],
     serverActions: {
       allowedOrigins: ['localhost:3010'],
     },
@@ -0,0 +1,125 @@
+import { PrismaClient } from "@prisma/client";
+import dotenv from "dotenv";
+import { decryptToken, encryptToken, needsReencryption } from "../lib/token-crypto";
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+// Pass --dry-run to only report how many rows would change
+const dryRun = process.argv.includes("--dry-run");
+
+type TokenRow = {
+  id: string;
+  accessToken: string;
+  refreshToken: string;
+  idToken: string | null;
+};
+
+/**
+ * Re-encrypt a row's token columns under the current key. Returns null when
+ * every column is already encrypted with it.
+ */
+function reencryptRow(row: TokenRow): Omit<TokenRow, "id"> | null {
+  const stale =
+    needsReencryption(row.accessToken) ||
+    needsReencryption(row.refreshToken) ||
+    (row.idToken !== null && needsReencryption(row.idToken));
+
+  if (!stale) {
+    return null;
+  }
+
+  return {
+    accessToken: encryptToken(decryptToken(row.accessToken)),
+    refreshToken: encryptToken(decryptToken(row.refreshToken)),
+    idToken: row.idToken !== null ? encryptToken(decryptToken(row.idToken)) : null,
+  };
+}
+
+// A row whose tokens keep changing under us is left for the next run
+const MAX_ATTEMPTS = 3;
+
+type RowOutcome = "updated" | "unchanged" | "skipped";
+
+/**
+ * Re-encrypt one row without clobbering a token refresh that lands between
+ * the read and the write: the write only applies while the token columns
+ * still hold what was read (compare-and-swap), otherwise the row is read again
+ * and retried.
+ */
+async function reencryptWithRetry(
+  row: TokenRow,
+  read: (id: string) => Promise<TokenRow | null>,
+  swap: (current: TokenRow, data: Omit<TokenRow, "id">) => Promise<number>
+): Promise<RowOutcome> {
+  let current: TokenRow | null = row;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && current; attempt++) {
+    const data = reencryptRow(current);
+    if (!data) {
+      return "unchanged";
+    }
+    if (dryRun || (await swap(current, data)) > 0) {
+      return "updated";
+    }
+    current = await read(current.id);
+  }
+
+  // Deleted since it was read, or changed on every attempt
+  return current ? "skipped" : "unchanged";
+}
+
+async function main() {
+  console.log(`Re-encrypting OAuth tokens${dryRun ? " (dry run)" : ""}...`);
+
+  const tokenSelect = { id: true, accessToken: true, refreshToken: true, idToken: true };
+  const unchangedSince = (row: TokenRow) => ({
+    id: row.id,
+    accessToken: row.accessToken,
+    refreshToken: row.refreshToken,
+    idToken: row.idToken,
+  });
+
+  const qboTokens = await prisma.qboToken.findMany({ select: tokenSelect });
+  const qbo = { updated: 0, skipped: 0 };
+  for (const row of qboTokens) {
+    const outcome = await reencryptWithRetry(
+      row,
+      (id) => prisma.qboToken.findUnique({ where: { id }, select: tokenSelect }),
+      async (current, data) => (await prisma.qboToken.updateMany({ where: unchangedSince(current), data })).count
+    );
+    if (outcome === "updated") qbo.updated++;
+    if (outcome === "skipped") qbo.skipped++;
+  }
+  console.log(`QBO tokens: ${qbo.updated} of ${qboTokens.length} re-encrypted, ${qbo.skipped} skipped`);
+
+  const xeroTokens = await prisma.xeroToken.findMany({ select: tokenSelect });
+  const xero = { updated: 0, skipped: 0 };
+  for (const row of xeroTokens) {
+    const outcome = await reencryptWithRetry(
+      row,
+      (id) => prisma.xeroToken.findUnique({ where: { id }, select: tokenSelect }),
+      async (current, data) => (await prisma.xeroToken.updateMany({ where: unchangedSince(current), data })).count
+    );
+    if (outcome === "updated") xero.updated++;
+    if (outcome === "skipped") xero.skipped++;
+  }
+  console.log(`Xero tokens: ${xero.updated} of ${xeroTokens.length} re-encrypted, ${xero.skipped} skipped`);
+
+  if (qbo.skipped || xero.skipped) {
+    console.log("Some rows changed while they were being re-encrypted; run the script again to finish them.");
+    return;
+  }
+
+  console.log("Token re-encryption completed successfully!");
+}
+
+main()
+  .catch((e) => {
+    console.error("Token re-encryption error:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,27 @@
+import './helpers/prisma';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { onPrisma, resetPrisma } from './helpers/prisma';
+import { getDaysOutstandingHistory } from '../lib/aging';
+
+afterEach(() => resetPrisma());
+
+describe('getDaysOutstandingHistory', () => {
+  it('converts foreign-currency invoices to base currency', async () => {
+    const now = new Date();
+    const issued = new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1));
+
+    onPrisma('ledgerDocument', 'findMany', () => [
+      // Base currency
+      { externalId: 'inv-1', type: 'invoice', date: issued, status: 'open', total: 100, amountDue: 100, raw: {} },
+      // USD 100 at 0.5 USD per NZD is NZD 200
+      { externalId: 'inv-2', type: 'invoice', date: issued, status: 'open', total: 100, amountDue: 100, raw: { currencyRate: 0.5 } },
+    ]);
+    onPrisma('ledgerPayment', 'findMany', () => []);
+
+    const [month] = await getDaysOutstandingHistory('XERO', 'tenant-1', 1);
+
+    assert.equal(month.sales, 300);
+    assert.equal(month.receivables, 300);
+  });
+});
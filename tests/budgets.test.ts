@@ -0,0 +1,55 @@
+import './helpers/prisma';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import { providerFailingFor } from './helpers/provider';
+import { BudgetWithLines, MAX_BUDGET_MONTHS, getBudgetVsActual, validateBudgetRange } from '../lib/budgets';
+
+const range = { fromDate: '2026-01-01', toDate: '2026-03-31' };
+
+const budget: BudgetWithLines = {
+  id: 'budget-1',
+  service: 'XERO',
+  organisationId: 'tenant-1',
+  name: 'Overall Budget',
+  source: 'manual',
+  externalId: null,
+  createdById: 'user-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lines: ['2026-01', '2026-02', '2026-03'].map((month) => ({
+    id: `line-${month}`,
+    budgetId: 'budget-1',
+    accountName: 'Rent',
+    accountCode: null,
+    accountType: 'expense',
+    month: new Date(`${month}-01T00:00:00Z`),
+    amount: new Prisma.Decimal(500),
+  })),
+};
+
+describe('getBudgetVsActual', () => {
+  it('compares every month with the actuals', async () => {
+    const comparison = await getBudgetVsActual(providerFailingFor([]), budget, range);
+
+    const [rent] = comparison.accounts;
+    assert.deepEqual(rent.months.map((month) => month.actual), [400, 400, 400]);
+    assert.equal(rent.actual, 1200);
+  });
+
+  it('throws instead of treating a failed month as zero actuals', async () => {
+    await assert.rejects(getBudgetVsActual(providerFailingFor(['2026-02']), budget, range), /unavailable/);
+  });
+});
+
+describe('validateBudgetRange', () => {
+  it('accepts a range within the month cap', () => {
+    assert.equal(validateBudgetRange(range), null);
+  });
+
+  it('rejects malformed, reversed and overlong ranges', () => {
+    assert.match(validateBudgetRange({ fromDate: 'foo', toDate: '2026-03-31' })!, /YYYY-MM-DD/);
+    assert.match(validateBudgetRange({ fromDate: '2026-03-01', toDate: '2026-01-31' })!, /on or before/);
+    assert.match(validateBudgetRange({ fromDate: '2000-01-01', toDate: '2026-12-31' })!, new RegExp(`${MAX_BUDGET_MONTHS} months`));
+  });
+});
@@ -0,0 +1,42 @@
+import './helpers/prisma';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ACCOUNTING_PAGE_SIZE, AccountingDocument } from '../lib/accounting';
+import { fetchOpenDocuments } from '../lib/forecast';
+
+function openInvoices(count: number, page: number): AccountingDocument[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `inv-${page}-${index}`,
+    type: 'invoice',
+    number: `INV-${page}-${index}`,
+    contactName: 'Acme',
+    date: '2026-01-01',
+    dueDate: '2026-01-31',
+    status: 'open',
+    total: 100,
+    amountDue: 100,
+    lineItems: [],
+  }));
+}
+
+describe('fetchOpenDocuments', () => {
+  it('reads every page and is not truncated when the last page is short', async () => {
+    const { documents, truncated } = await fetchOpenDocuments(async (page) =>
+      openInvoices(page < 3 ? ACCOUNTING_PAGE_SIZE : 10, page)
+    );
+
+    assert.equal(documents.length, ACCOUNTING_PAGE_SIZE * 2 + 10);
+    assert.equal(truncated, false);
+  });
+
+  it('reports truncation when it stops at the page limit with pages left', async () => {
+    let pages = 0;
+    const { truncated } = await fetchOpenDocuments(async (page) => {
+      pages++;
+      return openInvoices(ACCOUNTING_PAGE_SIZE, page);
+    });
+
+    assert.equal(truncated, true);
+    assert.equal(pages, 50);
+  });
+});
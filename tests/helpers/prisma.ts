@@ -0,0 +1,45 @@
+/*
+ * Stand-in for the Prisma client. lib/db.ts reuses `global.prisma`, so test
+ * files import this before any lib module to keep tests off the database.
+ * Tests register the model calls they care about with `onPrisma`; any other
+ * call resolves to null. Every call is recorded in `prismaCalls`.
+ */
+
+type Handler = (args: any) => unknown;
+
+export interface PrismaCall {
+  model: string;
+  method: string;
+  args: any;
+}
+
+export const prismaCalls: PrismaCall[] = [];
+
+const handlers = new Map<string, Handler>();
+
+export function onPrisma(model: string, method: string, handler: Handler): void {
+  handlers.set(`${model}.${method}`, handler);
+}
+
+export function resetPrisma(): void {
+  handlers.clear();
+  prismaCalls.length = 0;
+}
+
+/** Calls made to one model method, in order */
+export function callsTo(model: string, method: string): PrismaCall[] {
+  return prismaCalls.filter((call) => call.model === model && call.method === method);
+}
+
+const fakePrisma = new Proxy({}, {
+  get: (_target, model) =>
+    new Proxy({}, {
+      get: (_model, method) => async (args: any) => {
+        prismaCalls.push({ model: String(model), method: String(method), args });
+        const handler = handlers.get(`${String(model)}.${String(method)}`);
+        return handler ? handler(args) : null;
+      },
+    }),
+});
+
+(globalThis as any).prisma = fakePrisma;
@@ -0,0 +1,47 @@
+import { AccountingProvider, ProfitAndLossSummary } from '../../lib/accounting';
+
+/*
+ * An in-memory accounting provider with the same figures every month
+ */
+
+export const monthlyProfitAndLoss: ProfitAndLossSummary = {
+  revenue: 1000,
+  costOfGoodsSold: 100,
+  operatingExpenses: 400,
+  otherExpenses: 0,
+  netProfit: 500,
+  revenueBreakdown: [],
+  expenseBreakdown: [{ name: 'Rent', value: 400, percentage: 100 }],
+  costOfGoodsSoldBreakdown: [],
+};
+
+/**
+ * A provider whose P&L and bank summary calls fail for periods starting in
+ * one of the `failing` months (YYYY-MM)
+ */
+export function providerFailingFor(failing: string[]): AccountingProvider {
+  const check = (fromDate: string) => {
+    if (failing.includes(fromDate.slice(0, 7))) {
+      throw new Error('Xero is unavailable');
+    }
+  };
+
+  return {
+    service: 'XERO',
+    organisationId: 'tenant-1',
+    getOrganisation: async () => ({ id: 'tenant-1', name: 'Demo Company', shortCode: '', baseCurrency: 'NZD' }),
+    getProfitAndLoss: async ({ fromDate }) => {
+      check(fromDate);
+      return monthlyProfitAndLoss;
+    },
+    getBalanceSheet: async (date) => ({ date, cashBalance: 5000, totalAssets: 9000, totalLiabilities: 2000, equity: 7000 }),
+    getInvoices: async () => [],
+    getBills: async () => [],
+    getContacts: async () => [],
+    getBankSummary: async ({ fromDate }) => {
+      check(fromDate);
+      return { cashIn: 800, cashOut: 300, accounts: [] };
+    },
+    getExpenseDetails: async () => [],
+  };
+}
@@ -0,0 +1,30 @@
+import './helpers/prisma';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { onPrisma, resetPrisma } from './helpers/prisma';
+import { providerFailingFor } from './helpers/provider';
+import { collectDashboardExportData } from '../lib/report-export';
+
+const range = { fromDate: '2026-01-01', toDate: '2026-03-31' };
+
+afterEach(() => resetPrisma());
+
+describe('collectDashboardExportData', () => {
+  it('collects every month when the provider answers', async () => {
+    onPrisma('user', 'findUnique', () => ({ enableAiFinancialInsights: false, financialInsights: [] }));
+
+    const data = await collectDashboardExportData('user-1', providerFailingFor([]), 'CUSTOM', range);
+
+    assert.deepEqual(data.trend.map((month) => month.revenue), [1000, 1000, 1000]);
+    assert.deepEqual(data.cashFlow.map((month) => month.cashIn), [800, 800, 800]);
+  });
+
+  it('throws instead of exporting zeros when a month fails', async () => {
+    onPrisma('user', 'findUnique', () => ({ enableAiFinancialInsights: false, financialInsights: [] }));
+
+    await assert.rejects(
+      collectDashboardExportData('user-1', providerFailingFor(['2026-02']), 'CUSTOM', range),
+      /unavailable/
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import './helpers/prisma';
+import { afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hash } from 'bcryptjs';
+import { NextRequest } from 'next/server';
+import { callsTo, onPrisma, resetPrisma } from './helpers/prisma';
+import { MAX_FAILED_UNLOCKS_PER_IP, MAX_FAILED_UNLOCKS_PER_LINK } from '../lib/share-links';
+import { POST as postUnlock } from '../app/api/share/[token]/unlock/route';
+
+let passwordHash = '';
+
+/** A password-protected dashboard link row */
+function storeLink(token: string) {
+  const row: Record<string, any> = {
+    id: `link-${token}`,
+    token,
+    resourceType: 'dashboard',
+    dashboardId: 'dashboard-1',
+    passwordHash,
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    revokedAt: null,
+    failedUnlocks: 0,
+    lockedUntil: null,
+  };
+  return row;
+}
+
+/**
+ * Serve share links from in-memory rows, so failure counts and lockouts
+ * written by the route are read back on the next request
+ */
+function servePrisma(rows: Record<string, any>[]) {
+  onPrisma('shareLink', 'findUnique', ({ where }) => {
+    const row = rows.find((candidate) => candidate.token === where.token);
+    return row ? { ...row } : null;
+  });
+  onPrisma('shareLink', 'update', ({ where, data }) => {
+    const row = rows.find((candidate) => candidate.id === where.id)!;
+    for (const [key, value] of Object.entries(data)) {
+      row[key] = (value as any)?.increment ? row[key] + (value as any).increment : value;
+    }
+    return { ...row };
+  });
+}
+
+function unlock(token: string, password: string, ip: string) {
+  return postUnlock(
+    new NextRequest(`http://localhost/api/share/${token}/unlock`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-forwarded-for': `${ip}, 10.0.0.1` },
+      body: JSON.stringify({ password }),
+    }),
+    { params: { token } }
+  );
+}
+
+before(async () => {
+  process.env.SHARE_LINK_SECRET = 'test-share-secret';
+  passwordHash = await hash('correct horse', 4);
+});
+
+afterEach(() => resetPrisma());
+
+describe('share link unlock', () => {
+  it('locks a link after repeated wrong passwords and answers 429', async () => {
+    const link = storeLink('locked');
+    servePrisma([link]);
+
+    for (let attempt = 0; attempt < MAX_FAILED_UNLOCKS_PER_LINK; attempt++) {
+      assert.equal((await unlock('locked', 'wrong', `192.0.2.${attempt}`)).status, 401);
+    }
+    assert.ok(link.lockedUntil > new Date());
+    assert.equal(link.failedUnlocks, 0);
+
+    // Locked for everyone, even with the right password from a new address
+    const response = await unlock('locked', 'correct horse', '192.0.2.100');
+    assert.equal(response.status, 429);
+    assert.ok(Number(response.headers.get('retry-after')) > 0);
+  });
+
+  it('throttles an IP address guessing across links', async () => {
+    const links = Array.from({ length: MAX_FAILED_UNLOCKS_PER_IP }, (_, index) => storeLink(`ip-${index}`));
+    const other = storeLink('ip-other');
+    servePrisma([...links, other]);
+
+    for (const link of links) {
+      assert.equal((await unlock(link.token, 'wrong', '198.51.100.7')).status, 401);
+    }
+
+    assert.equal((await unlock('ip-other', 'wrong', '198.51.100.7')).status, 429);
+    assert.equal(other.failedUnlocks, 0);
+    assert.equal((await unlock('ip-other', 'correct horse', '198.51.100.8')).status, 200);
+  });
+
+  it('sets the access cookie and clears failures after the right password', async () => {
+    const link = storeLink('open');
+    servePrisma([link]);
+
+    assert.equal((await unlock('open', 'wrong', '203.0.113.1')).status, 401);
+    assert.equal(link.failedUnlocks, 1);
+
+    const response = await unlock('open', 'correct horse', '203.0.113.1');
+    assert.equal(response.status, 200);
+    assert.ok(response.cookies.get('share_access_link-open')?.value);
+    assert.equal(link.failedUnlocks, 0);
+    assert.equal(callsTo('shareLink', 'update').length, 2);
+  });
+});
@@ -0,0 +1,116 @@
+import './helpers/prisma';
+import { afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { callsTo, onPrisma, resetPrisma } from './helpers/prisma';
+import { refreshToken } from '../lib/qbo';
+import { recordRefreshFailure, runRefreshOnce } from '../lib/token-health';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const OAuthClient = require('intuit-oauth');
+
+const invalidGrant = Object.assign(new Error('invalid_grant'), { error: 'invalid_grant' });
+
+/** A stored QBO row; tokens are plaintext, which decryptToken passes through */
+function qboRow(refreshToken: string) {
+  return {
+    userId: 'user-1',
+    realmId: 'realm-1',
+    tokenType: 'bearer',
+    accessToken: 'access-old',
+    refreshToken,
+    idToken: null,
+    expiresIn: 3600,
+    refreshTokenExpiresIn: 8726400,
+    refreshTokenExpiresAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
+    createdAt: new Date(),
+  };
+}
+
+before(() => {
+  process.env.INTUIT_CLIENT_ID = 'client-id';
+  process.env.INTUIT_CLIENT_SECRET = 'client-secret';
+  process.env.INTUIT_REDIRECT_URI = 'http://localhost/callback';
+  process.env.TOKEN_ENCRYPTION_KEY = Buffer.alloc(32, 7).toString('base64');
+});
+
+afterEach(() => resetPrisma());
+
+describe('runRefreshOnce', () => {
+  it('shares one in-flight refresh between concurrent callers', async () => {
+    let runs = 0;
+    const refresh = async () => {
+      runs++;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return runs;
+    };
+
+    const results = await Promise.all([
+      runRefreshOnce('QBO:user-1:realm-1', refresh),
+      runRefreshOnce('QBO:user-1:realm-1', refresh),
+    ]);
+
+    assert.equal(runs, 1);
+    assert.deepEqual(results, [1, 1]);
+  });
+
+  it('starts a new refresh once the previous one has settled', async () => {
+    await assert.rejects(runRefreshOnce('QBO:user-1:realm-1', async () => { throw invalidGrant; }));
+
+    assert.equal(await runRefreshOnce('QBO:user-1:realm-1', async () => 'next'), 'next');
+  });
+});
+
+describe('refreshToken (QBO)', () => {
+  it('exchanges the refresh token once when called concurrently', async () => {
+    const originalRefresh = OAuthClient.prototype.refresh;
+    let exchanges = 0;
+    OAuthClient.prototype.refresh = async function () {
+      exchanges++;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return {
+        getToken: () => ({
+          token_type: 'bearer',
+          access_token: 'access-new',
+          refresh_token: 'refresh-new',
+          expires_in: 3600,
+          x_refresh_token_expires_in: 8726400,
+        }),
+      };
+    };
+
+    try {
+      onPrisma('qboToken', 'findUnique', () => qboRow('refresh-old'));
+
+      const tokens = await Promise.all([refreshToken('user-1', 'realm-1'), refreshToken('user-1', 'realm-1')]);
+
+      assert.equal(exchanges, 1);
+      assert.deepEqual(tokens.map((token) => token.refresh_token), ['refresh-new', 'refresh-new']);
+      assert.equal(callsTo('qboToken', 'upsert').length, 1);
+      assert.equal(callsTo('qboToken', 'update').length, 0);
+    } finally {
+      OAuthClient.prototype.refresh = originalRefresh;
+    }
+  });
+});
+
+describe('recordRefreshFailure', () => {
+  it('marks the connection revoked when the used token is still the stored one', async () => {
+    onPrisma('qboToken', 'findUnique', () => qboRow('refresh-old'));
+
+    await recordRefreshFailure('QBO', 'user-1', 'realm-1', invalidGrant, 'refresh-old');
+
+    const [update] = callsTo('qboToken', 'update');
+    assert.equal(update.args.data.healthStatus, 'revoked');
+  });
+
+  it('leaves the connection alone when another refresh already rotated the token', async () => {
+    onPrisma('qboToken', 'findUnique', () => qboRow('refresh-new'));
+    onPrisma('xeroToken', 'findUnique', () => ({ refreshToken: 'refresh-new', refreshTokenExpiresAt: null }));
+
+    await recordRefreshFailure('QBO', 'user-1', 'realm-1', invalidGrant, 'refresh-old');
+    await recordRefreshFailure('XERO', 'user-1', 'tenant-1', invalidGrant, 'refresh-old');
+
+    assert.equal(callsTo('qboToken', 'update').length, 0);
+    assert.equal(callsTo('xeroToken', 'update').length, 0);
+  });
+});
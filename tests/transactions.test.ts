@@ -0,0 +1,53 @@
+import './helpers/prisma';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { callsTo, onPrisma, resetPrisma } from './helpers/prisma';
+import { isTransactionKind, listKpiTransactions } from '../lib/transactions';
+
+afterEach(() => resetPrisma());
+
+describe('isTransactionKind', () => {
+  it('accepts the known kinds', () => {
+    assert.ok(isTransactionKind('invoice'));
+    assert.ok(isTransactionKind('payment_paid'));
+  });
+
+  it('rejects inherited object keys', () => {
+    for (const value of ['toString', 'constructor', '__proto__', 'hasOwnProperty']) {
+      assert.equal(isTransactionKind(value), false, value);
+    }
+  });
+});
+
+describe('listKpiTransactions', () => {
+  it('reads only the ledger columns the list uses', async () => {
+    onPrisma('ledgerAccount', 'findMany', () => []);
+    onPrisma('ledgerDocument', 'findMany', () => [{
+      id: 'doc-1',
+      type: 'invoice',
+      sourceType: 'ACCREC',
+      externalId: 'inv-1',
+      date: new Date('2026-01-15T00:00:00Z'),
+      number: 'INV-001',
+      contactName: 'Acme',
+      reference: '',
+      status: 'open',
+      currency: 'NZD',
+      lineItems: [{ lineItemID: 'line-1', lineAmount: 250 }],
+      raw: {},
+    }]);
+    onPrisma('ledgerBankTransaction', 'findMany', () => []);
+
+    const page = await listKpiTransactions('XERO', 'tenant-1', {
+      metric: 'revenue',
+      range: { fromDate: '2026-01-01', toDate: '2026-01-31' },
+    });
+
+    assert.equal(page.totalAmount, 250);
+    for (const model of ['ledgerDocument', 'ledgerBankTransaction']) {
+      const [call] = callsTo(model, 'findMany');
+      assert.ok(call.args.select, `${model} should select columns`);
+      assert.equal(call.args.select.syncedAt, undefined);
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import './helpers/prisma';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { callsTo, onPrisma, resetPrisma } from './helpers/prisma';
+import { parseQboEvents, parseXeroEvents, verifyQboSignature, verifyXeroSignature } from '../lib/webhooks';
+import { POST as postXeroWebhook } from '../app/api/webhooks/xero/route';
+import { POST as postQboWebhook } from '../app/api/webhooks/qbo/route';
+
+interface WebhookFixture {
+  description: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+function fixture(name: string): WebhookFixture {
+  return JSON.parse(readFileSync(path.join(__dirname, 'fixtures', 'webhooks', `${name}.json`), 'utf8'));
+}
+
+function deliver(url: string, { headers, body }: { headers: Record<string, string>; body: string }) {
+  return new NextRequest(`http://localhost${url}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body,
+  });
+}
+
+// Changes one character, keeping the body valid JSON of the same length
+const tamper = (body: string) => body.replace('1', '2');
+
+const XERO_CONNECTED_TENANT = 'c2cc9b6e-9458-4c7d-93cc-f02b81b0594f';
+const QBO_CONNECTED_REALM = '9130357992221046';
+
+before(() => {
+  process.env.XERO_WEBHOOK_KEY = 'test-xero-webhook-key';
+  process.env.INTUIT_WEBHOOK_VERIFIER_TOKEN = 'test-intuit-verifier-token';
+});
+
+afterEach(() => resetPrisma());
+
+/**
+ * One user connected to `organisationId`; a sync already running, so the
+ * handler doesn't start one
+ */
+function connectOnly(model: 'xeroToken' | 'qboToken', field: 'tenantId' | 'realmId', organisationId: string) {
+  onPrisma(model, 'findMany', (args) =>
+    args.where[field] === organisationId ? [{ userId: 'user-1', healthStatus: 'healthy' }] : []
+  );
+  onPrisma('reportCache', 'deleteMany', () => ({ count: 3 }));
+  onPrisma('financialInsight', 'deleteMany', () => ({ count: 1 }));
+  onPrisma('ledgerSyncRun', 'findFirst', () => ({ id: 'run-in-progress' }));
+}
+
+describe('Xero webhooks', () => {
+  it('accepts a correctly signed payload', () => {
+    const { headers, body } = fixture('xero-events');
+    assert.equal(verifyXeroSignature(body, headers['x-xero-signature']), true);
+  });
+
+  it('rejects a tampered body', () => {
+    const { headers, body } = fixture('xero-events');
+    const tampered = tamper(body);
+    assert.notEqual(tampered, body);
+    assert.equal(verifyXeroSignature(tampered, headers['x-xero-signature']), false);
+  });
+
+  it('rejects everything when no webhook key is configured', () => {
+    const { headers, body } = fixture('xero-events');
+    const key = process.env.XERO_WEBHOOK_KEY;
+    delete process.env.XERO_WEBHOOK_KEY;
+    try {
+      assert.equal(verifyXeroSignature(body, headers['x-xero-signature']), false);
+    } finally {
+      process.env.XERO_WEBHOOK_KEY = key;
+    }
+  });
+
+  it('passes the intent-to-receive check with an empty 200 and an empty 401', async () => {
+    const valid = await postXeroWebhook(deliver('/api/webhooks/xero', fixture('xero-intent-to-receive')));
+    const invalid = await postXeroWebhook(deliver('/api/webhooks/xero', fixture('xero-intent-to-receive-invalid')));
+
+    assert.equal(valid.status, 200);
+    assert.equal(await valid.text(), '');
+    assert.equal(invalid.status, 401);
+    assert.equal(await invalid.text(), '');
+    // An empty event list touches nothing
+    assert.equal(callsTo('reportCache', 'deleteMany').length, 0);
+  });
+
+  it('maps events to their tenants', () => {
+    const changes = parseXeroEvents(JSON.parse(fixture('xero-events').body));
+
+    assert.deepEqual(changes, [
+      { organisationId: XERO_CONNECTED_TENANT, entity: 'INVOICE' },
+      { organisationId: XERO_CONNECTED_TENANT, entity: 'CONTACT' },
+      { organisationId: '5d7f3c1a-0b8e-4f26-a9d4-e6b2c8f01a37', entity: 'INVOICE' },
+    ]);
+  });
+
+  it('invalidates cached reports and insights for connected tenants only', async () => {
+    connectOnly('xeroToken', 'tenantId', XERO_CONNECTED_TENANT);
+
+    const response = await postXeroWebhook(deliver('/api/webhooks/xero', fixture('xero-events')));
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      callsTo('reportCache', 'deleteMany').map((call) => call.args.where),
+      [{ service: 'XERO', organisationId: XERO_CONNECTED_TENANT }]
+    );
+    assert.deepEqual(
+      callsTo('financialInsight', 'deleteMany').map((call) => call.args.where),
+      [{
+        userId: { in: ['user-1'] },
+        OR: [{ service: 'XERO', organisationId: XERO_CONNECTED_TENANT }, { organisationId: null }],
+      }]
+    );
+    assert.deepEqual(
+      callsTo('ledgerSyncRun', 'findFirst').map((call) => call.args.where.organisationId),
+      [XERO_CONNECTED_TENANT]
+    );
+  });
+
+  it('does nothing for a tampered delivery', async () => {
+    connectOnly('xeroToken', 'tenantId', XERO_CONNECTED_TENANT);
+    const { headers, body } = fixture('xero-events');
+
+    const response = await postXeroWebhook(deliver('/api/webhooks/xero', { headers, body: tamper(body) }));
+
+    assert.equal(response.status, 401);
+    assert.equal(callsTo('reportCache', 'deleteMany').length, 0);
+    assert.equal(callsTo('financialInsight', 'deleteMany').length, 0);
+  });
+});
+
+describe('QBO webhooks', () => {
+  for (const name of ['qbo-event-notifications', 'qbo-cloudevents']) {
+    it(`accepts a correctly signed ${name} payload and rejects it tampered`, () => {
+      const { headers, body } = fixture(name);
+      assert.equal(verifyQboSignature(body, headers['intuit-signature']), true);
+      assert.equal(verifyQboSignature(tamper(body), headers['intuit-signature']), false);
+    });
+  }
+
+  it('maps classic notifications to their realms', () => {
+    const changes = parseQboEvents(JSON.parse(fixture('qbo-event-notifications').body));
+
+    assert.deepEqual(changes, [
+      { organisationId: QBO_CONNECTED_REALM, entity: 'Invoice' },
+      { organisationId: QBO_CONNECTED_REALM, entity: 'Payment' },
+      { organisationId: '4620816365178322170', entity: 'Bill' },
+    ]);
+  });
+
+  it('maps CloudEvents to their realm', () => {
+    const changes = parseQboEvents(JSON.parse(fixture('qbo-cloudevents').body));
+
+    assert.deepEqual(changes, [
+      { organisationId: QBO_CONNECTED_REALM, entity: 'invoice' },
+      { organisationId: QBO_CONNECTED_REALM, entity: 'customer' },
+    ]);
+  });
+
+  for (const name of ['qbo-event-notifications', 'qbo-cloudevents']) {
+    it(`invalidates cached reports and insights for the connected realm from ${name}`, async () => {
+      connectOnly('qboToken', 'realmId', QBO_CONNECTED_REALM);
+
+      const response = await postQboWebhook(deliver('/api/webhooks/qbo', fixture(name)));
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(
+        callsTo('reportCache', 'deleteMany').map((call) => call.args.where),
+        [{ service: 'QBO', organisationId: QBO_CONNECTED_REALM }]
+      );
+      assert.deepEqual(
+        callsTo('financialInsight', 'deleteMany').map((call) => call.args.where),
+        [{
+          userId: { in: ['user-1'] },
+          OR: [{ service: 'QBO', organisationId: QBO_CONNECTED_REALM }, { organisationId: null }],
+        }]
+      );
+    });
+  }
+
+  it('does nothing for a tampered delivery', async () => {
+    connectOnly('qboToken', 'realmId', QBO_CONNECTED_REALM);
+    const { headers, body } = fixture('qbo-event-notifications');
+
+    const response = await postQboWebhook(deliver('/api/webhooks/qbo', { headers, body: tamper(body) }));
+
+    assert.equal(response.status, 401);
+    assert.equal(callsTo('reportCache', 'deleteMany').length, 0);
+  });
+});
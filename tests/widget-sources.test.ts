@@ -0,0 +1,90 @@
+import './helpers/prisma';
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Widget } from '@prisma/client';
+import { callsTo, onPrisma, resetPrisma } from './helpers/prisma';
+import { providerFailingFor } from './helpers/provider';
+import { getCashFlowTrend, getMonthlyTrend } from '../lib/dashboard';
+import { refreshWidget } from '../lib/widget-sources';
+
+const snapshot = { labels: ['JAN', 'FEB'], values: [1200, 1500] };
+
+function liveWidget(report: 'monthlyTrend' | 'cashFlow'): Widget {
+  return {
+    id: 'widget-1',
+    userId: 'user-1',
+    conversationId: 'chat-1',
+    dashboardId: null,
+    title: 'Revenue',
+    type: 'line',
+    data: snapshot,
+    dataSource: {
+      service: 'XERO',
+      organisationId: 'tenant-1',
+      report,
+      params: { timeframe: 'L12' },
+      transform: { field: report === 'cashFlow' ? 'net' : 'revenue' },
+    },
+    refreshMinutes: 60,
+    refreshedAt: new Date('2026-01-01T00:00:00Z'),
+    refreshError: null,
+    x: 0,
+    y: 0,
+    w: 1,
+    h: 1,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  } as Widget;
+}
+
+afterEach(() => resetPrisma());
+
+describe('refreshWidget', () => {
+  for (const report of ['monthlyTrend', 'cashFlow'] as const) {
+    it(`keeps the stored ${report} snapshot and records the error when the provider fails`, async () => {
+      // The connection is still listed, but its token can no longer be used
+      onPrisma('xeroToken', 'findUnique', (args) => (args.select ? { tenantId: 'tenant-1' } : null));
+      onPrisma('widget', 'update', (args) => ({ ...liveWidget(report), ...args.data }));
+
+      const result = await refreshWidget(liveWidget(report));
+
+      assert.equal(result.stale, true);
+      assert.ok(result.error);
+      assert.deepEqual(result.widget.data, snapshot);
+      assert.equal(result.widget.refreshError, result.error);
+
+      const updates = callsTo('widget', 'update');
+      assert.equal(updates.length, 1);
+      assert.deepEqual(Object.keys(updates[0].args.data), ['refreshError']);
+    });
+  }
+});
+
+describe('monthly helpers', () => {
+  const range = { fromDate: '2026-01-01', toDate: '2026-03-31' };
+
+  it('show a failed month as zero for the interactive charts', async () => {
+    const provider = providerFailingFor(['2026-02']);
+
+    const trend = await getMonthlyTrend(provider, range.fromDate, range.toDate);
+    const cashFlow = await getCashFlowTrend(provider, range);
+
+    assert.deepEqual(trend.map((month) => month.revenue), [1000, 0, 1000]);
+    assert.deepEqual(cashFlow.map((month) => month.cashIn), [800, 0, 800]);
+  });
+
+  it('throw in strict mode when any month fails', async () => {
+    const provider = providerFailingFor(['2026-02']);
+
+    await assert.rejects(getMonthlyTrend(provider, range.fromDate, range.toDate, { strict: true }), /unavailable/);
+    await assert.rejects(getCashFlowTrend(provider, range, { strict: true }), /unavailable/);
+  });
+
+  it('return every month in strict mode when nothing fails', async () => {
+    const provider = providerFailingFor([]);
+
+    const trend = await getMonthlyTrend(provider, range.fromDate, range.toDate, { strict: true });
+
+    assert.equal(trend.length, 3);
+  });
+});
@@ -6,6 +6,7 @@ declare module "next-auth" {
       id: string;
       isAdmin: boolean;
       accountingService?: string | null;
+      connectedServices?: string[];
       enableAiFinancialInsights?: boolean;
     } & DefaultSession["user"];
   }
@@ -23,6 +24,7 @@ declare module "next-auth/jwt" {
     id: string;
     isAdmin: boolean;
     accountingService?: string | null;
+    connectedServices?: string[];
     enableAiFinancialInsights?: boolean;
   }
 }